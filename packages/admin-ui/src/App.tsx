@@ -11,6 +11,7 @@ import { OverviewPage } from './pages/OverviewPage';
 import { SettingsPage } from './pages/SettingsPage';
 import { TokensPage } from './pages/TokensPage';
 import { UsagePage } from './pages/UsagePage';
+import { VirtualToolsPage } from './pages/VirtualToolsPage';
 import { PlaygroundPage } from './pages/PlaygroundPage';
 import { ToastProvider, useToast } from './ui/toast';
 import type { AdminApi } from './lib/adminApi';
@@ -128,6 +129,7 @@ function AppInner() {
           <Route path={ROUTE_PATHS.overview} element={<OverviewPageWrapper api={api} />} />
           <Route path={ROUTE_PATHS.keys} element={<KeysPage api={api} />} />
           <Route path={ROUTE_PATHS.tokens} element={<TokensPage api={api} apiBaseUrl={prefs.apiBaseUrl} />} />
+          <Route path={ROUTE_PATHS.virtualTools} element={<VirtualToolsPage api={api} />} />
           <Route path={ROUTE_PATHS.usage} element={<UsagePage api={api} />} />
           <Route path={ROUTE_PATHS.playground} element={<PlaygroundPage apiBaseUrl={prefs.apiBaseUrl} />} />
           <Route
@@ -0,0 +1,27 @@
+import React from 'react';
+import { describe, expect, it } from 'vitest';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { BraveQuotaCell } from './BraveQuotaCell';
+
+describe('BraveQuotaCell', () => {
+  it('renders the remaining monthly quota against the plan limit', () => {
+    const html = renderToStaticMarkup(
+      <BraveQuotaCell remaining={1500} limit={2000} resetAt="2026-11-01T00:00:00.000Z" lastChecked="2026-10-19T12:00:00.000Z" />
+    );
+
+    expect(html).toContain((1500).toLocaleString());
+    expect(html).toContain(`/ ${(2000).toLocaleString()}`);
+    expect(html).toContain('Resets');
+    expect(html).toContain('data-variant="success"');
+  });
+
+  it('flags an exhausted quota', () => {
+    const html = renderToStaticMarkup(<BraveQuotaCell remaining={0} limit={2000} resetAt={null} lastChecked={null} />);
+    expect(html).toContain('data-variant="danger"');
+  });
+
+  it('renders Unknown before the key has reported a quota', () => {
+    const html = renderToStaticMarkup(<BraveQuotaCell remaining={null} limit={null} resetAt={null} lastChecked={null} />);
+    expect(html).toContain('Unknown');
+  });
+});
@@ -0,0 +1,53 @@
+import React from 'react';
+import { formatDateTime } from '../lib/format';
+
+interface BraveQuotaCellProps {
+  remaining: number | null;
+  limit: number | null;
+  resetAt: string | null;
+  lastChecked: string | null;
+}
+
+/**
+ * Monthly Brave quota as reported by the X-RateLimit headers of the key's last response. There is no
+ * refresh button: Brave has no quota endpoint, so the figures update as the key serves requests.
+ */
+export function BraveQuotaCell({ remaining, limit, resetAt, lastChecked }: BraveQuotaCellProps) {
+  if (remaining === null || limit === null) {
+    return (
+      <div className="creditsCell">
+        <span className="muted text-xs" title="Reported after the key's next request">Unknown</span>
+      </div>
+    );
+  }
+
+  const percentage = limit > 0 ? Math.max(0, Math.min(100, (remaining / limit) * 100)) : 0;
+
+  let variant: 'success' | 'warning' | 'danger' = 'success';
+  if (percentage < 10 || remaining === 0) variant = 'danger';
+  else if (percentage < 30) variant = 'warning';
+
+  return (
+    <div className="creditsCell">
+      <div className="creditsInfo">
+        <div className="creditsText">
+          <span className="creditsValue">{remaining.toLocaleString()}</span>
+          <span className="creditsTotal">/ {limit.toLocaleString()}</span>
+        </div>
+        <div className="creditsMeta">
+          {resetAt ? (
+            <span title={lastChecked ? `Last checked: ${formatDateTime(lastChecked)}` : undefined}>
+              Resets {new Date(resetAt).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+            </span>
+          ) : null}
+        </div>
+      </div>
+
+      <div className="creditsVisual">
+        <div className="progressBar">
+          <div className="progressFill" data-variant={variant} style={{ width: `${percentage}%` }} />
+        </div>
+      </div>
+    </div>
+  );
+}
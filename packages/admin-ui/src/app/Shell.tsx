@@ -1,12 +1,12 @@
 import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { NavLink, Outlet, useLocation } from 'react-router-dom';
-import { BeakerIcon } from '@heroicons/react/24/outline';
+import { BeakerIcon, PuzzlePieceIcon } from '@heroicons/react/24/outline';
 import { IconChevronLeft, IconChevronRight, IconKey, IconSearch, IconSettings, IconShield, IconToken } from '../ui/icons';
 import { ROUTE_PATHS } from './routePaths';
 import { buildLandingLoginUrl } from './loginUrl';
 
-type PageId = 'overview' | 'keys' | 'tokens' | 'usage' | 'settings' | 'playground';
+type PageId = 'overview' | 'keys' | 'tokens' | 'virtualTools' | 'usage' | 'settings' | 'playground';
 
 interface NavItemDef {
   path: string;
@@ -19,6 +19,7 @@ const navItems: NavItemDef[] = [
   { path: ROUTE_PATHS.overview, icon: <IconShield />, labelKey: 'pages.overview', requiresAuth: true },
   { path: ROUTE_PATHS.keys, icon: <IconKey />, labelKey: 'pages.keys', requiresAuth: true },
   { path: ROUTE_PATHS.tokens, icon: <IconToken />, labelKey: 'pages.tokens', requiresAuth: true },
+  { path: ROUTE_PATHS.virtualTools, icon: <PuzzlePieceIcon />, labelKey: 'pages.virtualTools', requiresAuth: true },
   { path: ROUTE_PATHS.usage, icon: <IconSearch />, labelKey: 'pages.usage', requiresAuth: true },
   { path: ROUTE_PATHS.playground, icon: <BeakerIcon />, labelKey: 'pages.playground', requiresAuth: true },
   { path: ROUTE_PATHS.settings, icon: <IconSettings />, labelKey: 'pages.settings', requiresAuth: true }
@@ -28,6 +29,7 @@ const pageInfoKeys: Record<string, { titleKey: string; subtitleKey: string }> =
   [ROUTE_PATHS.overview]: { titleKey: 'pages.overview', subtitleKey: 'pageSubtitles.overview' },
   [ROUTE_PATHS.keys]: { titleKey: 'pages.keys', subtitleKey: 'pageSubtitles.keys' },
   [ROUTE_PATHS.tokens]: { titleKey: 'pages.tokens', subtitleKey: 'pageSubtitles.tokens' },
+  [ROUTE_PATHS.virtualTools]: { titleKey: 'pages.virtualTools', subtitleKey: 'pageSubtitles.virtualTools' },
   [ROUTE_PATHS.usage]: { titleKey: 'pages.usage', subtitleKey: 'pageSubtitles.usage' },
   [ROUTE_PATHS.playground]: { titleKey: 'pages.playground', subtitleKey: 'pageSubtitles.playground' },
   [ROUTE_PATHS.settings]: { titleKey: 'pages.settings', subtitleKey: 'pageSubtitles.settings' }
@@ -2,6 +2,7 @@ export const ROUTE_PATHS = {
   overview: '/',
   keys: '/keys',
   tokens: '/tokens',
+  virtualTools: '/virtual-tools',
   usage: '/usage',
   playground: '/playground',
   settings: '/settings'
@@ -12,6 +12,7 @@ import enLogin from './locales/en/login.json';
 import enOverview from './locales/en/overview.json';
 import enUsage from './locales/en/usage.json';
 import enPlayground from './locales/en/playground.json';
+import enVirtualTools from './locales/en/virtualTools.json';
 
 // Chinese translations
 import zhCommon from './locales/zh-CN/common.json';
@@ -23,6 +24,7 @@ import zhLogin from './locales/zh-CN/login.json';
 import zhOverview from './locales/zh-CN/overview.json';
 import zhUsage from './locales/zh-CN/usage.json';
 import zhPlayground from './locales/zh-CN/playground.json';
+import zhVirtualTools from './locales/zh-CN/virtualTools.json';
 
 export const supportedLanguages = [
   { code: 'en', name: 'English' },
@@ -41,7 +43,8 @@ const resources = {
     login: enLogin,
     overview: enOverview,
     usage: enUsage,
-    playground: enPlayground
+    playground: enPlayground,
+    virtualTools: enVirtualTools
   },
   'zh-CN': {
     common: zhCommon,
@@ -52,7 +55,8 @@ const resources = {
     login: zhLogin,
     overview: zhOverview,
     usage: zhUsage,
-    playground: zhPlayground
+    playground: zhPlayground,
+    virtualTools: zhVirtualTools
   }
 };
 
@@ -63,7 +67,7 @@ i18n
     resources,
     fallbackLng: 'en',
     defaultNS: 'common',
-    ns: ['common', 'nav', 'keys', 'tokens', 'settings', 'login', 'overview', 'usage', 'playground'],
+    ns: ['common', 'nav', 'keys', 'tokens', 'settings', 'login', 'overview', 'usage', 'playground', 'virtualTools'],
     interpolation: {
       escapeValue: false // React already escapes values
     },
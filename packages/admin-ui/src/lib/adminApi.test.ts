@@ -67,6 +67,46 @@ describe('adminApi', () => {
     expect(init.headers.authorization).toBe('Bearer t0k');
   });
 
+  it('sends combined merge settings in the server-info patch', async () => {
+    const combinedMerge = { strategy: 'rrf', weights: { tavily: 1, brave: 2 } };
+    const fetchImpl = vi.fn(async () => jsonResponse(200, { ok: true, combinedMerge }));
+    const api = createAdminApi({ baseUrl: '', adminToken: 't0k' }, { fetchImpl: fetchImpl as any });
+
+    const updated = await api.updateServerInfo({ combinedMerge: { strategy: 'rrf', weights: { brave: 2 } } });
+    expect(updated.combinedMerge).toEqual(combinedMerge);
+
+    const [, init] = fetchImpl.mock.calls[0] as any[];
+    expect(JSON.parse(init.body)).toEqual({ combinedMerge: { strategy: 'rrf', weights: { brave: 2 } } });
+  });
+
+  it('patches token default parameters and policy overrides', async () => {
+    const fetchImpl = vi.fn(async () => jsonResponse(200, { ok: true }));
+    const api = createAdminApi({ baseUrl: '', adminToken: 't0k' }, { fetchImpl: fetchImpl as any });
+
+    await api.updateToken('tok 1', { defaultParameters: { search_depth: 'advanced' }, searchSourceMode: 'brave_only', researchEnabled: null });
+
+    const [url, init] = fetchImpl.mock.calls[0] as any[];
+    expect(url).toBe('/admin/api/tokens/tok%201');
+    expect(init.method).toBe('PATCH');
+    expect(JSON.parse(init.body)).toEqual({
+      defaultParameters: { search_depth: 'advanced' },
+      searchSourceMode: 'brave_only',
+      researchEnabled: null
+    });
+  });
+
+  it('patches virtual tools by id', async () => {
+    const fetchImpl = vi.fn(async () => jsonResponse(200, { ok: true }));
+    const api = createAdminApi({ baseUrl: '', adminToken: 't0k' }, { fetchImpl: fetchImpl as any });
+
+    await api.updateVirtualTool('vt 1', { presetArguments: { include_domains: ['docs.example.com'] }, enabled: false });
+
+    const [url, init] = fetchImpl.mock.calls[0] as any[];
+    expect(url).toBe('/admin/api/virtual-tools/vt%201');
+    expect(init.method).toBe('PATCH');
+    expect(JSON.parse(init.body)).toEqual({ presetArguments: { include_domains: ['docs.example.com'] }, enabled: false });
+  });
+
   it('throws AdminApiError with body.error when non-2xx', async () => {
     const fetchImpl = vi.fn(async () => jsonResponse(400, { error: 'bad request' }));
     const api = createAdminApi({ baseUrl: '', adminToken: 't0k' }, { fetchImpl: fetchImpl as any });
@@ -152,4 +192,18 @@ describe('adminApi', () => {
     expect(init.method).toBe('GET');
     expect(init.headers.authorization).toBe('Bearer t0k');
   });
+
+  it('purgeCache posts the optional tool filter', async () => {
+    const fetchImpl = vi.fn(async () => jsonResponse(200, { ok: true, deleted: 4 }));
+    const api = createAdminApi({ baseUrl: '', adminToken: 't0k' }, { fetchImpl: fetchImpl as any });
+
+    const res = await api.purgeCache({ toolName: 'tavily_search' });
+    expect(res).toEqual({ ok: true, deleted: 4 });
+
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchImpl.mock.calls[0] as any[];
+    expect(url).toBe('/admin/api/cache/purge');
+    expect(init.method).toBe('POST');
+    expect(JSON.parse(init.body)).toEqual({ toolName: 'tavily_search' });
+  });
 });
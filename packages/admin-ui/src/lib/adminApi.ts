@@ -1,6 +1,15 @@
 export type TavilyKeyStatus = 'active' | 'disabled' | 'cooldown' | 'invalid';
-export type BraveKeyStatus = 'active' | 'disabled' | 'invalid';
-export type SearchSourceMode = 'tavily_only' | 'brave_only' | 'combined' | 'brave_prefer_tavily_fallback';
+export type BraveKeyStatus = 'active' | 'disabled' | 'cooldown' | 'invalid';
+export type SearchSourceMode = 'tavily_only' | 'brave_only' | 'combined' | 'brave_prefer_tavily_fallback' | 'brave_hedged_tavily';
+export type KeySelectionStrategy = 'round_robin' | 'random' | 'weighted_remaining' | 'drain_first' | 'least_in_flight';
+export type BraveOverflowMode = 'queue' | 'error' | 'fallback_to_tavily';
+export type CacheableToolName = 'tavily_search' | 'tavily_extract' | 'brave_web_search' | 'brave_local_search';
+export type ResponseCacheTtls = Record<CacheableToolName, number>;
+export type CombinedMergeStrategy = 'interleave' | 'rrf' | 'weighted';
+export type CombinedMergeSettings = {
+  strategy: CombinedMergeStrategy;
+  weights: { tavily: number; brave: number };
+};
 
 export type TavilyKeyDto = {
   id: string;
@@ -21,9 +30,42 @@ export type ClientTokenDto = {
   description: string | null;
   allowedTools: string[] | null;
   rateLimit: { requestsPerMinute: number } | null;
+  defaultParameters: Record<string, unknown> | null;
   revokedAt: string | null;
   expiresAt: string | null;
   createdAt: string;
+} & ClientTokenPolicy;
+
+/** Per-token overrides of server-wide routing settings; `null` keeps the server setting. */
+type ClientTokenPolicy = {
+  searchSourceMode: SearchSourceMode | null;
+  braveOverflow: BraveOverflowMode | null;
+  researchEnabled: boolean | null;
+  maxOutputChars: number | null;
+};
+
+export type VirtualToolDto = {
+  id: string;
+  name: string;
+  description: string;
+  baseTool: string;
+  presetArguments: Record<string, unknown>;
+  exposedArguments: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type VirtualToolInput = Pick<
+  VirtualToolDto,
+  'name' | 'description' | 'baseTool' | 'presetArguments' | 'exposedArguments' | 'enabled'
+>;
+
+/** A built-in tool a virtual tool may be based on, with the names of its arguments. */
+export type VirtualToolBaseToolDto = {
+  name: string;
+  arguments: string[];
+  required: string[];
 };
 
 export type BraveKeyDto = {
@@ -31,6 +73,15 @@ export type BraveKeyDto = {
   label: string;
   maskedKey: string | null;
   status: BraveKeyStatus;
+  cooldownUntil: string | null;
+  /** Per-key rate limits; `null` uses the server's BRAVE_MAX_QPS / BRAVE_BURST. */
+  maxQps: number | null;
+  burst: number | null;
+  /** Monthly window from the key's last X-RateLimit headers; `null` until the key has served a request. */
+  quotaLimit: number | null;
+  quotaRemaining: number | null;
+  quotaResetAt: string | null;
+  quotaCheckedAt: string | null;
   lastUsedAt: string | null;
   createdAt: string;
 };
@@ -80,6 +131,17 @@ export type TavilyToolUsageSummaryDto = {
   topQueries: { queryHash: string | null; queryPreview: string | null; count: number }[];
 };
 
+export type CircuitBreakerState = 'closed' | 'open' | 'half_open';
+
+export type CircuitBreakerDto = {
+  state: CircuitBreakerState;
+  consecutiveFailures: number;
+  errorRate: number;
+  recentCalls: number;
+  openedAt: string | null;
+  retryAt: string | null;
+};
+
 export type MetricsDto = {
   requestsPerMinute: number;
   requestsPerHour: number;
@@ -97,6 +159,7 @@ export type MetricsDto = {
     brave: {
       total: number;
       active: number;
+      cooldown: number;
       invalid: number;
     };
   };
@@ -106,14 +169,23 @@ export type MetricsDto = {
     errorMessage: string | null;
     timestamp: string;
   }>;
+  cache: {
+    hits: number;
+    misses: number;
+    entries: number;
+    byTool: Record<CacheableToolName, { hits: number; misses: number }>;
+  };
+  circuitBreakers: Record<'tavily' | 'brave', CircuitBreakerDto>;
   timestamp: string;
 };
 
 export type ServerInfoDto = {
-  tavilyKeySelectionStrategy: 'round_robin' | 'random';
+  tavilyKeySelectionStrategy: KeySelectionStrategy;
   searchSourceMode: SearchSourceMode;
   braveSearchEnabled: boolean;
   researchEnabled: boolean;
+  responseCacheTtls: ResponseCacheTtls;
+  combinedMerge: CombinedMergeSettings;
 };
 
 export type CostEstimateDto = {
@@ -165,6 +237,7 @@ export type KeyExportDto = {
     apiKey: string;
     maskedKey: string | null;
     status: BraveKeyStatus;
+    cooldownUntil: string | null;
     lastUsedAt: string | null;
     createdAt: string;
     [key: string]: any;
@@ -210,9 +283,15 @@ export class AdminApiError extends Error {
 
 export type AdminApi = {
   getServerInfo: () => Promise<ServerInfoDto>;
-  updateServerInfo: (input: Partial<Pick<ServerInfoDto, 'tavilyKeySelectionStrategy' | 'searchSourceMode' | 'researchEnabled'>>) => Promise<ServerInfoDto & { ok: true }>;
+  updateServerInfo: (
+    input: Partial<Pick<ServerInfoDto, 'tavilyKeySelectionStrategy' | 'searchSourceMode' | 'researchEnabled'>> & {
+      responseCacheTtls?: Partial<ResponseCacheTtls>;
+      combinedMerge?: { strategy?: CombinedMergeStrategy; weights?: Partial<CombinedMergeSettings['weights']> };
+    }
+  ) => Promise<ServerInfoDto & { ok: true }>;
 
   getMetrics: () => Promise<MetricsDto>;
+  purgeCache: (input?: { toolName?: CacheableToolName }) => Promise<{ ok: true; deleted: number }>;
 
   listKeys: () => Promise<TavilyKeyDto[]>;
   createKey: (input: { label: string; apiKey: string }) => Promise<{ id: string }>;
@@ -226,6 +305,7 @@ export type AdminApi = {
   createBraveKey: (input: { label: string; apiKey: string }) => Promise<{ id: string }>;
   revealBraveKey: (id: string) => Promise<{ apiKey: string }>;
   updateBraveKeyStatus: (id: string, status: BraveKeyStatus) => Promise<{ ok: true }>;
+  updateBraveKeyRateLimits: (id: string, limits: { maxQps: number | null; burst: number | null }) => Promise<{ ok: true }>;
   deleteBraveKey: (id: string) => Promise<{ ok: true }>;
 
   listTokens: () => Promise<ClientTokenDto[]>;
@@ -234,11 +314,22 @@ export type AdminApi = {
     expiresInSeconds?: number;
     allowedTools?: string[];
     rateLimit?: { requestsPerMinute: number };
-  }) => Promise<{ id: string; token: string }>;
+    defaultParameters?: Record<string, unknown>;
+  } & Partial<ClientTokenPolicy>) => Promise<{ id: string; token: string }>;
+  updateToken: (
+    id: string,
+    patch: { defaultParameters?: Record<string, unknown> | null } & Partial<ClientTokenPolicy>
+  ) => Promise<{ ok: true }>;
   revealToken: (id: string) => Promise<{ token: string }>;
   revokeToken: (id: string) => Promise<{ ok: true }>;
   deleteToken: (id: string) => Promise<{ ok: true }>;
 
+  listVirtualTools: () => Promise<VirtualToolDto[]>;
+  listVirtualToolBaseTools: () => Promise<VirtualToolBaseToolDto[]>;
+  createVirtualTool: (input: VirtualToolInput) => Promise<{ id: string }>;
+  updateVirtualTool: (id: string, patch: Partial<VirtualToolInput>) => Promise<{ ok: true }>;
+  deleteVirtualTool: (id: string) => Promise<{ ok: true }>;
+
   listUsage: (filters?: TavilyToolUsageFilters) => Promise<TavilyToolUsageResponseDto>;
   getUsageSummary: (filters?: { dateFrom?: string; dateTo?: string }) => Promise<TavilyToolUsageSummaryDto>;
   getCostEstimate: (filters?: { dateFrom?: string; dateTo?: string }) => Promise<CostEstimateDto>;
@@ -341,6 +432,7 @@ export function createAdminApi(
     updateServerInfo: (input) => requestJson('/admin/api/server-info', { method: 'PATCH', body: JSON.stringify(input) }),
 
     getMetrics: () => getJson('/admin/api/metrics'),
+    purgeCache: (input = {}) => requestJson('/admin/api/cache/purge', { method: 'POST', body: JSON.stringify(input) }),
 
     listKeys: () => getJson('/admin/api/keys'),
     createKey: (input) => requestJson('/admin/api/keys', { method: 'POST', body: JSON.stringify(input) }),
@@ -356,14 +448,25 @@ export function createAdminApi(
     revealBraveKey: (id) => getJson(`/admin/api/brave-keys/${encodeURIComponent(id)}/reveal`),
     updateBraveKeyStatus: (id, status) =>
       requestJson(`/admin/api/brave-keys/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify({ status }) }),
+    updateBraveKeyRateLimits: (id, limits) =>
+      requestJson(`/admin/api/brave-keys/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(limits) }),
     deleteBraveKey: (id) => requestJson(`/admin/api/brave-keys/${encodeURIComponent(id)}`, { method: 'DELETE', body: '{}' }),
 
     listTokens: () => getJson('/admin/api/tokens'),
     createToken: (input) => requestJson('/admin/api/tokens', { method: 'POST', body: JSON.stringify(input) }),
+    updateToken: (id, patch) =>
+      requestJson(`/admin/api/tokens/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(patch) }),
     revealToken: (id) => getJson(`/admin/api/tokens/${encodeURIComponent(id)}/reveal`),
     revokeToken: (id) => requestJson(`/admin/api/tokens/${encodeURIComponent(id)}/revoke`, { method: 'POST', body: '{}' }),
     deleteToken: (id) => requestJson(`/admin/api/tokens/${encodeURIComponent(id)}`, { method: 'DELETE', body: '{}' }),
 
+    listVirtualTools: () => getJson('/admin/api/virtual-tools'),
+    listVirtualToolBaseTools: () => getJson('/admin/api/virtual-tools/base-tools'),
+    createVirtualTool: (input) => requestJson('/admin/api/virtual-tools', { method: 'POST', body: JSON.stringify(input) }),
+    updateVirtualTool: (id, patch) =>
+      requestJson(`/admin/api/virtual-tools/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify(patch) }),
+    deleteVirtualTool: (id) => requestJson(`/admin/api/virtual-tools/${encodeURIComponent(id)}`, { method: 'DELETE', body: '{}' }),
+
     listUsage: (filters = {}) => {
       const params = new URLSearchParams();
       if (filters.page) params.set('page', filters.page.toString());
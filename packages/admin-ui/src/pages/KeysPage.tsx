@@ -5,6 +5,7 @@ import type { AdminApi, TavilyKeyDto, TavilyKeyStatus, BraveKeyDto, BraveKeyStat
 import { formatDateTime } from '../lib/format';
 import { KeyRevealCell } from '../app/KeyRevealCell';
 import { KeyCreditsCell } from '../app/KeyCreditsCell';
+import { BraveQuotaCell } from '../app/BraveQuotaCell';
 import { ConfirmDialog } from '../ui/ConfirmDialog';
 import { Dialog } from '../ui/Dialog';
 import { IconButton } from '../ui/IconButton';
@@ -27,6 +28,9 @@ type KeyTab = 'tavily' | 'brave';
 
 const PAGE_SIZE = 10;
 
+/** Per-key Brave rate limits as edited in the form; `''` means "use the server setting". */
+type BraveRateLimitDraft = { maxQps: number | ''; burst: number | '' };
+
 export function KeysPage({ api }: { api: AdminApi }) {
   const { t } = useTranslation('keys');
   const { t: tc } = useTranslation('common');
@@ -87,6 +91,9 @@ export function KeysPage({ api }: { api: AdminApi }) {
   const [braveTouched, setBraveTouched] = useState<{ label?: boolean; apiKey?: boolean }>({});
   const [braveKeyToDelete, setBraveKeyToDelete] = useState<BraveKeyDto | null>(null);
   const [braveDeleting, setBraveDeleting] = useState(false);
+  const [braveKeyToEditLimits, setBraveKeyToEditLimits] = useState<BraveKeyDto | null>(null);
+  const [braveLimitsDraft, setBraveLimitsDraft] = useState<BraveRateLimitDraft>({ maxQps: '', burst: '' });
+  const [braveLimitsSaving, setBraveLimitsSaving] = useState(false);
 
   // Import/Export state
   const [importOpen, setImportOpen] = useState(false);
@@ -270,6 +277,29 @@ export function KeysPage({ api }: { api: AdminApi }) {
     }
   }
 
+  function openBraveLimits(key: BraveKeyDto) {
+    setBraveKeyToEditLimits(key);
+    setBraveLimitsDraft({ maxQps: key.maxQps ?? '', burst: key.burst ?? '' });
+  }
+
+  async function onSaveBraveLimits() {
+    if (!braveKeyToEditLimits) return;
+    setBraveLimitsSaving(true);
+    try {
+      await api.updateBraveKeyRateLimits(braveKeyToEditLimits.id, {
+        maxQps: braveLimitsDraft.maxQps === '' ? null : braveLimitsDraft.maxQps,
+        burst: braveLimitsDraft.burst === '' ? null : braveLimitsDraft.burst
+      });
+      toast.push({ title: t('toast.updated'), message: t('brave.toast.rateLimitMessage', { name: braveKeyToEditLimits.label }), variant: 'success' });
+      setBraveKeyToEditLimits(null);
+      await loadBraveKeys();
+    } catch (e: any) {
+      toast.push({ title: t('toast.updateFailed'), message: typeof e?.message === 'string' ? e.message : tc('errors.unknownError'), variant: 'error' });
+    } finally {
+      setBraveLimitsSaving(false);
+    }
+  }
+
   async function onDeleteKey() {
     if (!keyToDelete) return;
     setDeleting(true);
@@ -418,10 +448,11 @@ export function KeysPage({ api }: { api: AdminApi }) {
   const braveStats = useMemo(() => {
     const active = braveKeys.filter((k) => k.status === 'active').length;
     const disabled = braveKeys.filter((k) => k.status === 'disabled').length;
+    const cooldown = braveKeys.filter((k) => k.status === 'cooldown').length;
     const invalid = braveKeys.filter((k) => k.status === 'invalid').length;
     const total = braveKeys.length;
     const activeRate = total > 0 ? Math.round((active / total) * 100) : 0;
-    return { active, disabled, invalid, total, activeRate };
+    return { active, disabled, cooldown, invalid, total, activeRate };
   }, [braveKeys]);
 
   return (
@@ -759,8 +790,8 @@ export function KeysPage({ api }: { api: AdminApi }) {
                 <div>
                   <div className="h2">{t('brave.title')}</div>
                   <div className="help">
-                    {braveStats.total} total • {braveStats.active} active • {braveStats.invalid} invalid •{' '}
-                    {braveStats.disabled} disabled
+                    {braveStats.total} total • {braveStats.active} active • {braveStats.cooldown} cooldown •{' '}
+                    {braveStats.invalid} invalid • {braveStats.disabled} disabled
                   </div>
                 </div>
                 <div className="flex gap-3 items-center">
@@ -790,7 +821,7 @@ export function KeysPage({ api }: { api: AdminApi }) {
                     {
                       id: 'label',
                       header: t('table.label'),
-                      headerStyle: { width: '20%' },
+                      headerStyle: { width: '15%' },
                       dataLabel: t('table.label'),
                       cellClassName: 'mono',
                       cell: (k: BraveKeyDto) => k.label
@@ -798,7 +829,7 @@ export function KeysPage({ api }: { api: AdminApi }) {
                     {
                       id: 'key',
                       header: t('table.apiKey'),
-                      headerStyle: { width: '30%' },
+                      headerStyle: { width: '20%' },
                       dataLabel: t('table.apiKey'),
                       cell: (k: BraveKeyDto) => (
                         <KeyRevealCell
@@ -808,23 +839,58 @@ export function KeysPage({ api }: { api: AdminApi }) {
                         />
                       )
                     },
+                    {
+                      id: 'quota',
+                      header: t('brave.table.quota'),
+                      headerStyle: { width: '15%' },
+                      dataLabel: t('brave.table.quota'),
+                      cell: (k: BraveKeyDto) => (
+                        <BraveQuotaCell
+                          remaining={k.quotaRemaining}
+                          limit={k.quotaLimit}
+                          resetAt={k.quotaResetAt}
+                          lastChecked={k.quotaCheckedAt}
+                        />
+                      )
+                    },
                     {
                       id: 'status',
                       header: t('table.status'),
-                      headerStyle: { width: '15%' },
+                      headerStyle: { width: '10%' },
                       dataLabel: t('table.status'),
                       cell: (k: BraveKeyDto) => (
                         <StatusMenu
                           status={k.status}
-                          options={['active', 'disabled', 'invalid']}
+                          options={['active', 'disabled', 'cooldown', 'invalid']}
                           onChange={(s) => onUpdateBraveStatus(k.id, s as BraveKeyStatus)}
                         />
                       )
                     },
                     {
+                      id: 'rateLimit',
+                      header: t('brave.table.rateLimit'),
+                      headerStyle: { width: '12%' },
+                      dataLabel: t('brave.table.rateLimit'),
+                      cell: (k: BraveKeyDto) => (
+                        <button
+                          className="btn mono"
+                          data-variant="ghost"
+                          onClick={() => openBraveLimits(k)}
+                          title={t('brave.button.editRateLimit')}
+                          style={{ padding: '6px 10px', fontSize: 13 }}
+                        >
+                          {k.maxQps === null && k.burst === null
+                            ? t('brave.rateLimit.default')
+                            : t('brave.rateLimit.summary', {
+                                qps: k.maxQps ?? t('brave.rateLimit.defaultValue'),
+                                burst: k.burst ?? t('brave.rateLimit.defaultValue')
+                              })}
+                        </button>
+                      )
+                    },                    {
                       id: 'lastUsed',
                       header: t('table.lastUsed'),
-                      headerStyle: { width: '15%' },
+                      headerStyle: { width: '12%' },
                       dataLabel: t('table.lastUsed'),
                       cellClassName: 'mono',
                       cell: (k: BraveKeyDto) => formatDateTime(k.lastUsedAt)
@@ -832,7 +898,7 @@ export function KeysPage({ api }: { api: AdminApi }) {
                     {
                       id: 'created',
                       header: t('table.created'),
-                      headerStyle: { width: '15%' },
+                      headerStyle: { width: '11%' },
                       dataLabel: t('table.created'),
                       cellClassName: 'mono',
                       cell: (k: BraveKeyDto) => formatDateTime(k.createdAt)
@@ -1037,6 +1103,66 @@ export function KeysPage({ api }: { api: AdminApi }) {
         </div>
       </Dialog>
 
+      {/* Brave Rate Limit Dialog */}
+      <Dialog
+        title={t('brave.dialog.rateLimitTitle', { label: braveKeyToEditLimits?.label ?? '' })}
+        open={!!braveKeyToEditLimits}
+        onClose={() => (braveLimitsSaving ? null : setBraveKeyToEditLimits(null))}
+      >
+        <div className="stack">
+          <div className="grid2">
+            <div className="stack">
+              <label className="label" htmlFor="brave-max-qps">
+                {t('brave.form.maxQps')}
+              </label>
+              <input
+                id="brave-max-qps"
+                className="input mono"
+                type="number"
+                min="0.01"
+                step="any"
+                placeholder={t('brave.form.serverDefault')}
+                value={braveLimitsDraft.maxQps}
+                onChange={(e) => {
+                  const val = parseFloat(e.target.value);
+                  setBraveLimitsDraft((prev) => ({ ...prev, maxQps: isNaN(val) ? '' : val }));
+                }}
+                disabled={braveLimitsSaving}
+              />
+            </div>
+            <div className="stack">
+              <label className="label" htmlFor="brave-burst">
+                {t('brave.form.burst')}
+              </label>
+              <input
+                id="brave-burst"
+                className="input mono"
+                type="number"
+                min="1"
+                step="1"
+                placeholder={t('brave.form.serverDefault')}
+                value={braveLimitsDraft.burst}
+                onChange={(e) => {
+                  const val = parseInt(e.target.value, 10);
+                  setBraveLimitsDraft((prev) => ({ ...prev, burst: isNaN(val) ? '' : val }));
+                }}
+                disabled={braveLimitsSaving}
+              />
+            </div>
+          </div>
+          <div className="help">{t('brave.form.rateLimitHelp')}</div>
+
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: 10 }}>
+            <button className="btn" onClick={() => setBraveKeyToEditLimits(null)} disabled={braveLimitsSaving}>
+              {tc('actions.cancel')}
+            </button>
+            <button className="btn" data-variant="primary" onClick={onSaveBraveLimits} disabled={braveLimitsSaving}>
+              {braveLimitsSaving ? tc('status.saving') : tc('actions.save')}
+            </button>
+          </div>
+        </div>
+      </Dialog>
+
       {/* Brave Delete Dialog */}
       <ConfirmDialog
         open={!!braveKeyToDelete}
@@ -1,6 +1,14 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import type { AdminApi, ClientTokenDto, CostEstimateDto, MetricsDto, TavilyKeyDto, TavilyToolUsageDto } from '../lib/adminApi';
+import type {
+  AdminApi,
+  CircuitBreakerState,
+  ClientTokenDto,
+  CostEstimateDto,
+  MetricsDto,
+  TavilyKeyDto,
+  TavilyToolUsageDto
+} from '../lib/adminApi';
 import { formatDateTime } from '../lib/format';
 import { IconKey, IconRefresh, IconSearch, IconToken } from '../ui/icons';
 import { KpiCard } from '../ui/KpiCard';
@@ -18,6 +26,12 @@ type OverviewData = {
   costEstimate: CostEstimateDto | null;
 };
 
+const CIRCUIT_STATE_VARIANTS: Record<CircuitBreakerState, 'success' | 'warning' | 'danger'> = {
+  closed: 'success',
+  half_open: 'warning',
+  open: 'danger'
+};
+
 export function OverviewPage({
   api,
   onGoToKeys,
@@ -199,6 +213,14 @@ export function OverviewPage({
               value: data?.metrics?.keyPool?.unhealthy ?? 0,
               variant: (data?.metrics?.keyPool?.unhealthy ?? 0) > 0 ? 'danger' : 'neutral'
             },
+            ...(['tavily', 'brave'] as const).map((provider) => {
+              const state = data?.metrics?.circuitBreakers?.[provider]?.state ?? 'closed';
+              return {
+                label: t(`metrics.circuit.${provider}`),
+                value: t(`metrics.circuit.state.${state}`),
+                variant: CIRCUIT_STATE_VARIANTS[state]
+              };
+            }),
             {
               label: t('metrics.tavilyCost'),
               value: data?.costEstimate?.summary?.tavilyCreditsUsed ?? 0,
@@ -1,10 +1,24 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { AdminApiError, type AdminApi, type SearchSourceMode, type ServerInfoDto } from '../lib/adminApi';
+import {
+  AdminApiError,
+  type AdminApi,
+  type CacheableToolName,
+  type CombinedMergeSettings,
+  type CombinedMergeStrategy,
+  type KeySelectionStrategy,
+  type MetricsDto,
+  type ResponseCacheTtls,
+  type SearchSourceMode,
+  type ServerInfoDto
+} from '../lib/adminApi';
+import { ConfirmDialog } from '../ui/ConfirmDialog';
 import { IconLogout, IconRefresh, IconSettings } from '../ui/icons';
 import { useToast } from '../ui/toast';
 import { supportedLanguages, changeLanguage, getCurrentLanguage, type SupportedLocale } from '../i18n';
 
+const CACHEABLE_TOOLS: CacheableToolName[] = ['tavily_search', 'tavily_extract', 'brave_web_search', 'brave_local_search'];
+
 export function SettingsPage({
   api,
   value,
@@ -26,11 +40,18 @@ export function SettingsPage({
   const [testing, setTesting] = useState(false);
   const [serverInfo, setServerInfo] = useState<ServerInfoDto | null>(null);
   const [serverInfoError, setServerInfoError] = useState<string | null>(null);
-  const [serverStrategyDraft, setServerStrategyDraft] = useState<'round_robin' | 'random'>('round_robin');
+  const [serverStrategyDraft, setServerStrategyDraft] = useState<KeySelectionStrategy>('round_robin');
   const [savingServerStrategy, setSavingServerStrategy] = useState(false);
   const [searchSourceModeDraft, setSearchSourceModeDraft] = useState<SearchSourceMode>('brave_prefer_tavily_fallback');
   const [savingSearchSourceMode, setSavingSearchSourceMode] = useState(false);
   const [savingResearch, setSavingResearch] = useState(false);
+  const [mergeDraft, setMergeDraft] = useState<MergeDraft | null>(null);
+  const [savingMerge, setSavingMerge] = useState(false);
+  const [cacheTtlsDraft, setCacheTtlsDraft] = useState<Record<CacheableToolName, string> | null>(null);
+  const [savingCacheTtls, setSavingCacheTtls] = useState(false);
+  const [cacheStats, setCacheStats] = useState<MetricsDto['cache'] | null>(null);
+  const [purgeOpen, setPurgeOpen] = useState(false);
+  const [purging, setPurging] = useState(false);
   const baseUrlNeedsScheme = useMemo(() => value.apiBaseUrl.trim() !== '' && !/^https?:\/\//.test(value.apiBaseUrl.trim()), [value.apiBaseUrl]);
 
   useEffect(() => {
@@ -48,18 +69,118 @@ export function SettingsPage({
         setServerInfo(info);
         setServerStrategyDraft(info.tavilyKeySelectionStrategy);
         setSearchSourceModeDraft(info.searchSourceMode);
+        setCacheTtlsDraft(info.responseCacheTtls ? ttlsToDraft(info.responseCacheTtls) : null);
+        setMergeDraft(info.combinedMerge ? mergeToDraft(info.combinedMerge) : null);
       })
       .catch((e: any) => {
         if (cancelled) return;
         const msg = typeof e?.message === 'string' ? e.message : tc('errors.unknownError');
         setServerInfoError(msg);
       });
+    api
+      .getMetrics()
+      .then((metrics) => {
+        if (cancelled) return;
+        setCacheStats(metrics.cache ?? null);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setCacheStats(null);
+      });
     return () => {
       cancelled = true;
     };
   }, [api, signedIn, tc]);
 
-  async function saveServerStrategy(next: 'round_robin' | 'random') {
+  const cacheTtlsDirty = useMemo(() => {
+    if (!serverInfo?.responseCacheTtls || !cacheTtlsDraft) return false;
+    return CACHEABLE_TOOLS.some((tool) => cacheTtlsDraft[tool] !== String(serverInfo.responseCacheTtls[tool]));
+  }, [serverInfo, cacheTtlsDraft]);
+
+  const cacheTtlsValid = useMemo(() => {
+    if (!cacheTtlsDraft) return false;
+    return CACHEABLE_TOOLS.every((tool) => /^\d+$/.test(cacheTtlsDraft[tool].trim()));
+  }, [cacheTtlsDraft]);
+
+  const mergeDirty = useMemo(() => {
+    if (!serverInfo?.combinedMerge || !mergeDraft) return false;
+    const current = mergeToDraft(serverInfo.combinedMerge);
+    return MERGE_PROVIDERS.some((provider) => mergeDraft[provider] !== current[provider]) || mergeDraft.strategy !== current.strategy;
+  }, [serverInfo, mergeDraft]);
+
+  const mergeValid = useMemo(() => {
+    if (!mergeDraft) return false;
+    return MERGE_PROVIDERS.every((provider) => {
+      const raw = mergeDraft[provider].trim();
+      const weight = Number(raw);
+      return raw !== '' && Number.isFinite(weight) && weight >= 0 && weight <= 100;
+    });
+  }, [mergeDraft]);
+
+  async function saveMerge() {
+    if (!signedIn) {
+      toast.push({ title: t('toast.signInRequired'), message: t('toast.signInRequiredMessage') });
+      return;
+    }
+    if (!mergeDraft) return;
+    setSavingMerge(true);
+    try {
+      const res = await api.updateServerInfo({
+        combinedMerge: {
+          strategy: mergeDraft.strategy,
+          weights: { tavily: Number(mergeDraft.tavily.trim()), brave: Number(mergeDraft.brave.trim()) }
+        }
+      });
+      setServerInfo(res);
+      setMergeDraft(mergeToDraft(res.combinedMerge));
+      toast.push({ title: t('toast.mergeUpdated'), message: t('toast.mergeUpdatedMessage', { strategy: res.combinedMerge.strategy }) });
+    } catch (e: any) {
+      const msg = typeof e?.message === 'string' ? e.message : tc('errors.unknownError');
+      toast.push({ title: t('toast.updateFailed'), message: msg });
+    } finally {
+      setSavingMerge(false);
+    }
+  }
+
+  async function saveCacheTtls() {
+    if (!signedIn) {
+      toast.push({ title: t('toast.signInRequired'), message: t('toast.signInRequiredMessage') });
+      return;
+    }
+    if (!cacheTtlsDraft) return;
+    setSavingCacheTtls(true);
+    try {
+      const next = Object.fromEntries(
+        CACHEABLE_TOOLS.map((tool) => [tool, Number(cacheTtlsDraft[tool].trim())])
+      ) as ResponseCacheTtls;
+      const res = await api.updateServerInfo({ responseCacheTtls: next });
+      setServerInfo(res);
+      setCacheTtlsDraft(ttlsToDraft(res.responseCacheTtls));
+      toast.push({ title: t('toast.cacheTtlsUpdated'), message: t('toast.cacheTtlsUpdatedMessage') });
+    } catch (e: any) {
+      const msg = typeof e?.message === 'string' ? e.message : tc('errors.unknownError');
+      toast.push({ title: t('toast.updateFailed'), message: msg });
+    } finally {
+      setSavingCacheTtls(false);
+    }
+  }
+
+  async function purgeCache() {
+    setPurging(true);
+    try {
+      const res = await api.purgeCache();
+      setCacheStats((prev) => (prev ? { ...prev, entries: 0 } : prev));
+      toast.push({ title: t('toast.cachePurged'), message: t('toast.cachePurgedMessage', { count: res.deleted }) });
+      setPurgeOpen(false);
+    } catch (e: any) {
+      const msg = typeof e?.message === 'string' ? e.message : tc('errors.unknownError');
+      toast.push({ title: t('toast.cachePurgeFailed'), message: msg });
+    } finally {
+      setPurging(false);
+    }
+  }
+
+  async function saveServerStrategy(next: KeySelectionStrategy) {
     if (!signedIn) {
       toast.push({ title: t('toast.signInRequired'), message: t('toast.signInRequiredMessage') });
       return;
@@ -263,12 +384,15 @@ export function SettingsPage({
                       <select
                         className="select"
                         value={serverStrategyDraft}
-                        onChange={(e) => setServerStrategyDraft(e.target.value === 'random' ? 'random' : 'round_robin')}
+                        onChange={(e) => setServerStrategyDraft(e.target.value as KeySelectionStrategy)}
                         disabled={savingServerStrategy}
                         aria-label={t('server.keySelection')}
                       >
                         <option value="round_robin">{t('server.roundRobin')}</option>
                         <option value="random">{t('server.random')}</option>
+                        <option value="weighted_remaining">{t('server.weightedRemaining')}</option>
+                        <option value="drain_first">{t('server.drainFirst')}</option>
+                        <option value="least_in_flight">{t('server.leastInFlight')}</option>
                       </select>
                       <button
                         className="btn btn--sm"
@@ -296,6 +420,7 @@ export function SettingsPage({
                         aria-label={t('server.searchSourceMode.label')}
                       >
                         <option value="brave_prefer_tavily_fallback">{t('server.searchSourceMode.brave_prefer_tavily_fallback')}</option>
+                        <option value="brave_hedged_tavily">{t('server.searchSourceMode.brave_hedged_tavily')}</option>
                         <option value="combined">{t('server.searchSourceMode.combined')}</option>
                         <option value="tavily_only">{t('server.searchSourceMode.tavily_only')}</option>
                         <option value="brave_only">{t('server.searchSourceMode.brave_only')}</option>
@@ -329,6 +454,52 @@ export function SettingsPage({
                       </div>
                     ) : null}
 
+                    {mergeDraft ? (
+                      <>
+                        <div className="flex gap-3 items-center mt-4">
+                          <div className="help">{t('server.merge.label')}</div>
+                          <span className="badge mono" data-variant="info">
+                            {serverInfo.combinedMerge.strategy}
+                          </span>
+                        </div>
+                        <div className="flex gap-3 items-center flex-wrap">
+                          <select
+                            className="select"
+                            value={mergeDraft.strategy}
+                            onChange={(e) => setMergeDraft({ ...mergeDraft, strategy: e.target.value as CombinedMergeStrategy })}
+                            disabled={savingMerge}
+                            aria-label={t('server.merge.label')}
+                          >
+                            <option value="interleave">{t('server.merge.interleave')}</option>
+                            <option value="rrf">{t('server.merge.rrf')}</option>
+                            <option value="weighted">{t('server.merge.weighted')}</option>
+                          </select>
+                          {MERGE_PROVIDERS.map((provider) => (
+                            <input
+                              key={provider}
+                              className="input mono"
+                              style={{ width: '6rem' }}
+                              inputMode="decimal"
+                              value={mergeDraft[provider]}
+                              onChange={(e) => setMergeDraft({ ...mergeDraft, [provider]: e.target.value })}
+                              disabled={savingMerge || mergeDraft.strategy === 'interleave'}
+                              aria-label={t('server.merge.weight', { provider })}
+                              title={t('server.merge.weight', { provider })}
+                            />
+                          ))}
+                          <button
+                            className="btn btn--sm"
+                            data-variant="primary"
+                            onClick={saveMerge}
+                            disabled={savingMerge || !mergeDirty || !mergeValid}
+                          >
+                            {savingMerge ? tc('status.saving') : tc('actions.save')}
+                          </button>
+                        </div>
+                        <div className="help">{t('server.merge.help')}</div>
+                      </>
+                    ) : null}
+
                     <div className="flex gap-3 items-center mt-4">
                       <div className="help">{t('server.research.label')}</div>
                       <span className="badge mono" data-variant={serverInfo.researchEnabled ? 'success' : 'danger'}>
@@ -357,6 +528,61 @@ export function SettingsPage({
               </div>
             </div>
 
+            {signedIn && serverInfo && cacheTtlsDraft ? (
+              <div className="stack">
+                <div className="label">{t('cache.label')}</div>
+                <div className="help" dangerouslySetInnerHTML={{ __html: t('cache.help').replace(/<mono>/g, '<span class="mono">').replace(/<\/mono>/g, '</span>') }} />
+                <div className="grid2">
+                  {CACHEABLE_TOOLS.map((tool) => (
+                    <div className="stack" key={tool}>
+                      <label htmlFor={`cache-ttl-${tool}`} className="help">
+                        <span className="mono">{tool}</span> · {t('cache.ttlSeconds')}
+                      </label>
+                      <input
+                        id={`cache-ttl-${tool}`}
+                        className="input mono"
+                        inputMode="numeric"
+                        value={cacheTtlsDraft[tool]}
+                        onChange={(e) => setCacheTtlsDraft({ ...cacheTtlsDraft, [tool]: e.target.value })}
+                        disabled={savingCacheTtls}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-3 items-center flex-wrap">
+                  <button
+                    className="btn btn--sm"
+                    data-variant="primary"
+                    onClick={saveCacheTtls}
+                    disabled={savingCacheTtls || !cacheTtlsDirty || !cacheTtlsValid}
+                  >
+                    {savingCacheTtls ? tc('status.saving') : tc('actions.save')}
+                  </button>
+                  <button className="btn btn--sm" data-variant="danger" onClick={() => setPurgeOpen(true)} disabled={purging}>
+                    {purging ? t('cache.purging') : t('cache.purge')}
+                  </button>
+                </div>
+                {cacheStats ? (
+                  <div className="flex gap-3 items-center flex-wrap">
+                    <span className="badge mono" data-variant="info">
+                      {t('cache.hits')}: {cacheStats.hits}
+                    </span>
+                    <span className="badge mono" data-variant="info">
+                      {t('cache.misses')}: {cacheStats.misses}
+                    </span>
+                    <span className="badge mono" data-variant="info">
+                      {t('cache.hitRate')}: {formatHitRate(cacheStats.hits, cacheStats.misses)}
+                    </span>
+                    <span className="badge mono" data-variant="info">
+                      {t('cache.entries')}: {cacheStats.entries}
+                    </span>
+                  </div>
+                ) : (
+                  <div className="help">{t('cache.statsUnavailable')}</div>
+                )}
+              </div>
+            ) : null}
+
             <div className="pill">
               <IconSettings />
               <span className="help" dangerouslySetInnerHTML={{ __html: t('pill.envVars').replace(/<mono>/g, '<span class="mono">').replace(/<\/mono>/g, '</span>') }} />
@@ -364,6 +590,35 @@ export function SettingsPage({
           </div>
         </div>
       </div>
+
+      <ConfirmDialog
+        open={purgeOpen}
+        title={t('cache.purge')}
+        description={t('cache.purgeConfirm')}
+        confirmLabel={t('cache.purge')}
+        confirmVariant="danger"
+        confirming={purging}
+        onClose={() => (purging ? null : setPurgeOpen(false))}
+        onConfirm={purgeCache}
+      />
     </div>
   );
 }
+
+type MergeDraft = { strategy: CombinedMergeStrategy; tavily: string; brave: string };
+
+const MERGE_PROVIDERS = ['tavily', 'brave'] as const;
+
+function mergeToDraft(merge: CombinedMergeSettings): MergeDraft {
+  return { strategy: merge.strategy, tavily: String(merge.weights.tavily), brave: String(merge.weights.brave) };
+}
+
+function ttlsToDraft(ttls: ResponseCacheTtls): Record<CacheableToolName, string> {
+  return Object.fromEntries(CACHEABLE_TOOLS.map((tool) => [tool, String(ttls[tool] ?? 0)])) as Record<CacheableToolName, string>;
+}
+
+function formatHitRate(hits: number, misses: number): string {
+  const total = hits + misses;
+  if (total === 0) return '—';
+  return `${Math.round((hits / total) * 100)}%`;
+}
@@ -1,7 +1,7 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useSearchParams } from 'react-router-dom';
-import type { AdminApi, ClientTokenDto } from '../lib/adminApi';
+import type { AdminApi, BraveOverflowMode, ClientTokenDto, SearchSourceMode } from '../lib/adminApi';
 import { formatDateTime, formatRelativeSeconds } from '../lib/format';
 import { MCP_SETUP_TARGETS, resolveMcpUrl } from '../app/mcpSetupTemplates';
 import { ConfirmDialog } from '../ui/ConfirmDialog';
@@ -18,21 +18,157 @@ import { DataTable, type DataTableColumn } from '../ui/DataTable';
 const PAGE_SIZE = 10;
 
 const ALL_TOOLS = [
+  'web_search',
   'tavily_search',
   'tavily_extract',
   'tavily_crawl',
   'tavily_map',
   'tavily_research',
+  'tavily_research_start',
+  'tavily_research_status',
+  'tavily_research_result',
   'brave_web_search',
-  'brave_local_search'
+  'brave_local_search',
+  'brave_news_search',
+  'brave_image_search',
+  'brave_video_search',
+  'brave_summarize',
+  'searxng_search'
 ];
 
+const DEFAULT_PARAMETERS_PLACEHOLDER = '{ "search_depth": "advanced", "include_domains": ["docs.example.com"] }';
+
+/** Parses the default-parameters textarea: empty clears the defaults, anything but a JSON object is rejected. */
+function parseDefaultParametersInput(text: string): { ok: true; value: Record<string, unknown> | null } | { ok: false } {
+  if (!text.trim()) return { ok: true, value: null };
+  try {
+    const parsed = JSON.parse(text);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return { ok: false };
+    return { ok: true, value: Object.keys(parsed).length > 0 ? parsed : null };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/** Per-token overrides as edited in the form; `''` means "use the server setting". */
+type TokenPolicyDraft = {
+  searchSourceMode: SearchSourceMode | '';
+  braveOverflow: BraveOverflowMode | '';
+  researchEnabled: '' | 'enabled' | 'disabled';
+  maxOutputChars: number | '';
+};
+
+const EMPTY_POLICY_DRAFT: TokenPolicyDraft = { searchSourceMode: '', braveOverflow: '', researchEnabled: '', maxOutputChars: '' };
+
+function policyDraftFromToken(tok: ClientTokenDto): TokenPolicyDraft {
+  return {
+    searchSourceMode: tok.searchSourceMode ?? '',
+    braveOverflow: tok.braveOverflow ?? '',
+    researchEnabled: tok.researchEnabled === null ? '' : tok.researchEnabled ? 'enabled' : 'disabled',
+    maxOutputChars: tok.maxOutputChars ?? ''
+  };
+}
+
+function policyFromDraft(draft: TokenPolicyDraft) {
+  return {
+    searchSourceMode: draft.searchSourceMode || null,
+    braveOverflow: draft.braveOverflow || null,
+    researchEnabled: draft.researchEnabled === '' ? null : draft.researchEnabled === 'enabled',
+    maxOutputChars: draft.maxOutputChars === '' ? null : draft.maxOutputChars
+  };
+}
+
+function TokenPolicyFields({
+  idPrefix,
+  value,
+  onChange,
+  disabled
+}: {
+  idPrefix: string;
+  value: TokenPolicyDraft;
+  onChange: (next: TokenPolicyDraft) => void;
+  disabled?: boolean;
+}) {
+  const { t } = useTranslation('tokens');
+  return (
+    <div className="stack gap-3">
+      <div className="label">{t('form.policy')}</div>
+      <div className="grid2">
+        <div className="stack">
+          <label htmlFor={`${idPrefix}-search-source-mode`} className="label">{t('form.searchSourceMode')}</label>
+          <select
+            id={`${idPrefix}-search-source-mode`}
+            className="select"
+            value={value.searchSourceMode}
+            onChange={(e) => onChange({ ...value, searchSourceMode: e.target.value as TokenPolicyDraft['searchSourceMode'] })}
+            disabled={disabled}
+          >
+            <option value="">{t('form.serverDefault')}</option>
+            <option value="brave_prefer_tavily_fallback">brave_prefer_tavily_fallback</option>
+            <option value="brave_hedged_tavily">brave_hedged_tavily</option>
+            <option value="combined">combined</option>
+            <option value="tavily_only">tavily_only</option>
+            <option value="brave_only">brave_only</option>
+          </select>
+        </div>
+        <div className="stack">
+          <label htmlFor={`${idPrefix}-brave-overflow`} className="label">{t('form.braveOverflow')}</label>
+          <select
+            id={`${idPrefix}-brave-overflow`}
+            className="select"
+            value={value.braveOverflow}
+            onChange={(e) => onChange({ ...value, braveOverflow: e.target.value as TokenPolicyDraft['braveOverflow'] })}
+            disabled={disabled}
+          >
+            <option value="">{t('form.serverDefault')}</option>
+            <option value="fallback_to_tavily">fallback_to_tavily</option>
+            <option value="queue">queue</option>
+            <option value="error">error</option>
+          </select>
+        </div>
+        <div className="stack">
+          <label htmlFor={`${idPrefix}-research-enabled`} className="label">{t('form.researchEnabled')}</label>
+          <select
+            id={`${idPrefix}-research-enabled`}
+            className="select"
+            value={value.researchEnabled}
+            onChange={(e) => onChange({ ...value, researchEnabled: e.target.value as TokenPolicyDraft['researchEnabled'] })}
+            disabled={disabled}
+          >
+            <option value="">{t('form.serverDefault')}</option>
+            <option value="enabled">{t('form.researchOn')}</option>
+            <option value="disabled">{t('form.researchOff')}</option>
+          </select>
+        </div>
+        <div className="stack">
+          <label htmlFor={`${idPrefix}-max-output-chars`} className="label">{t('form.maxOutputChars')}</label>
+          <input
+            id={`${idPrefix}-max-output-chars`}
+            className="input mono"
+            type="number"
+            min="1000"
+            placeholder={t('form.serverDefault')}
+            value={value.maxOutputChars}
+            onChange={(e) => {
+              const val = parseInt(e.target.value, 10);
+              onChange({ ...value, maxOutputChars: isNaN(val) ? '' : val });
+            }}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <div className="help">{t('form.policyHelp')}</div>
+    </div>
+  );
+}
+
 export function TokensPage({ api, apiBaseUrl }: { api: AdminApi; apiBaseUrl: string }) {
   const { t } = useTranslation('tokens');
   const { t: tc } = useTranslation('common');
   const toast = useToast();
   const [searchParams, setSearchParams] = useSearchParams();
   const [tokens, setTokens] = useState<ClientTokenDto[]>([]);
+  const [virtualToolNames, setVirtualToolNames] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -48,6 +184,13 @@ export function TokensPage({ api, apiBaseUrl }: { api: AdminApi; apiBaseUrl: str
   const [selectedTools, setSelectedTools] = useState<string[]>([]);
   const [restrictRate, setRestrictRate] = useState(false);
   const [rateLimitRpm, setRateLimitRpm] = useState<number | ''>('');
+  const [defaultParametersText, setDefaultParametersText] = useState('');
+  const [policyDraft, setPolicyDraft] = useState<TokenPolicyDraft>(EMPTY_POLICY_DRAFT);
+
+  const [editSettingsRow, setEditSettingsRow] = useState<ClientTokenDto | null>(null);
+  const [editDefaultsText, setEditDefaultsText] = useState('');
+  const [editPolicyDraft, setEditPolicyDraft] = useState<TokenPolicyDraft>(EMPTY_POLICY_DRAFT);
+  const [savingSettings, setSavingSettings] = useState(false);
 
   const [createdToken, setCreatedToken] = useState<string | null>(null);
   const [setupClientToken, setSetupClientToken] = useState('');
@@ -86,7 +229,10 @@ export function TokensPage({ api, apiBaseUrl }: { api: AdminApi; apiBaseUrl: str
     setLoading(true);
     setError(null);
     try {
-      setTokens(await api.listTokens());
+      // Virtual tools are offered for scoping too; an older backend without them just yields none.
+      const [nextTokens, virtualTools] = await Promise.all([api.listTokens(), api.listVirtualTools().catch(() => [])]);
+      setTokens(nextTokens);
+      setVirtualToolNames(virtualTools.map((tool) => tool.name));
     } catch (e: any) {
       setError(typeof e?.message === 'string' ? e.message : tc('errors.unknownError'));
       setTokens([]);
@@ -99,6 +245,8 @@ export function TokensPage({ api, apiBaseUrl }: { api: AdminApi; apiBaseUrl: str
     void load();
   }, [load]);
 
+  const toolOptions = useMemo(() => [...ALL_TOOLS, ...virtualToolNames], [virtualToolNames]);
+
   const stats = useMemo(() => {
     const active = tokens.filter((tok) => !tok.revokedAt).length;
     return { active, total: tokens.length };
@@ -111,13 +259,20 @@ export function TokensPage({ api, apiBaseUrl }: { api: AdminApi; apiBaseUrl: str
   }, [tokens, page]);
 
   async function onCreate() {
+    const defaults = parseDefaultParametersInput(defaultParametersText);
+    if (!defaults.ok) {
+      toast.push({ title: t('toast.createFailed'), message: t('form.defaultParametersInvalid') });
+      return;
+    }
     setCreating(true);
     try {
       const res = await api.createToken({
         description: description.trim() ? description.trim() : undefined,
         expiresInSeconds: typeof expiresInSeconds === 'number' ? expiresInSeconds : undefined,
         allowedTools: restrictTools ? selectedTools : undefined,
-        rateLimit: restrictRate && typeof rateLimitRpm === 'number' ? { requestsPerMinute: rateLimitRpm } : undefined
+        rateLimit: restrictRate && typeof rateLimitRpm === 'number' ? { requestsPerMinute: rateLimitRpm } : undefined,
+        defaultParameters: defaults.value ?? undefined,
+        ...policyFromDraft(policyDraft)
       });
       setCreateOpen(false);
       setCreatedToken(res.token);
@@ -128,6 +283,8 @@ export function TokensPage({ api, apiBaseUrl }: { api: AdminApi; apiBaseUrl: str
       setSelectedTools([]);
       setRestrictRate(false);
       setRateLimitRpm('');
+      setDefaultParametersText('');
+      setPolicyDraft(EMPTY_POLICY_DRAFT);
       toast.push({ title: t('toast.created'), message: t('toast.createdMessage') });
       await load();
     } catch (e: any) {
@@ -137,6 +294,32 @@ export function TokensPage({ api, apiBaseUrl }: { api: AdminApi; apiBaseUrl: str
     }
   }
 
+  function openEditSettings(tok: ClientTokenDto) {
+    setEditSettingsRow(tok);
+    setEditDefaultsText(tok.defaultParameters ? JSON.stringify(tok.defaultParameters, null, 2) : '');
+    setEditPolicyDraft(policyDraftFromToken(tok));
+  }
+
+  async function onSaveSettings() {
+    if (!editSettingsRow) return;
+    const defaults = parseDefaultParametersInput(editDefaultsText);
+    if (!defaults.ok) {
+      toast.push({ title: t('toast.settingsFailed'), message: t('form.defaultParametersInvalid') });
+      return;
+    }
+    setSavingSettings(true);
+    try {
+      await api.updateToken(editSettingsRow.id, { defaultParameters: defaults.value, ...policyFromDraft(editPolicyDraft) });
+      toast.push({ title: t('toast.settingsSaved'), message: t('toast.settingsSavedMessage', { prefix: editSettingsRow.tokenPrefix }) });
+      setEditSettingsRow(null);
+      await load();
+    } catch (e: any) {
+      toast.push({ title: t('toast.settingsFailed'), message: typeof e?.message === 'string' ? e.message : tc('errors.unknownError') });
+    } finally {
+      setSavingSettings(false);
+    }
+  }
+
   async function onDeleteToken() {
     if (!tokenToDelete) return;
     setDeleting(true);
@@ -266,7 +449,7 @@ export function TokensPage({ api, apiBaseUrl }: { api: AdminApi; apiBaseUrl: str
                 {
                   id: 'actions',
                   header: t('table.actions'),
-                  headerStyle: { width: 190, textAlign: 'right' },
+                  headerStyle: { width: 280, textAlign: 'right' },
                   headerAlign: 'right',
                   dataLabel: t('table.actions'),
                   cellAlign: 'right',
@@ -282,6 +465,14 @@ export function TokensPage({ api, apiBaseUrl }: { api: AdminApi; apiBaseUrl: str
                         <IconEye />
                         {t('actions.reveal')}
                       </button>
+                      <button
+                        className="btn"
+                        data-variant="ghost"
+                        onClick={() => openEditSettings(tok)}
+                        style={{ padding: '6px 10px', fontSize: 13 }}
+                      >
+                        {t('actions.settings')}
+                      </button>
                       <button
                         className="btn"
                         data-variant="danger"
@@ -410,7 +601,7 @@ export function TokensPage({ api, apiBaseUrl }: { api: AdminApi; apiBaseUrl: str
                     onChange={(e) => {
                        setRestrictTools(e.target.checked);
                        if (e.target.checked && selectedTools.length === 0) {
-                         setSelectedTools([...ALL_TOOLS]);
+                         setSelectedTools([...toolOptions]);
                        }
                     }}
                   />
@@ -419,7 +610,7 @@ export function TokensPage({ api, apiBaseUrl }: { api: AdminApi; apiBaseUrl: str
              </div>
              {restrictTools && (
                <div className="grid2 p-3 border rounded-lg bg-surface-2" style={{ border: '1px solid var(--border)', borderRadius: 'var(--radius-sm)' }}>
-                 {ALL_TOOLS.map(tool => (
+                 {toolOptions.map(tool => (
                    <div key={tool} className="flex gap-2 items-center">
                      <input
                        type="checkbox"
@@ -474,6 +665,21 @@ export function TokensPage({ api, apiBaseUrl }: { api: AdminApi; apiBaseUrl: str
              )}
           </div>
 
+          <div className="stack">
+            <label htmlFor="token-default-parameters-input" className="label">{t('form.defaultParameters')}</label>
+            <textarea
+              id="token-default-parameters-input"
+              className="textarea mono text-xs"
+              rows={4}
+              value={defaultParametersText}
+              onChange={(e) => setDefaultParametersText(e.target.value)}
+              placeholder={DEFAULT_PARAMETERS_PLACEHOLDER}
+            />
+            <div className="help">{t('form.defaultParametersHelp')}</div>
+          </div>
+
+          <TokenPolicyFields idPrefix="token-create" value={policyDraft} onChange={setPolicyDraft} disabled={creating} />
+
           <div className="flex justify-end gap-3">
             <button className="btn" onClick={() => setCreateOpen(false)} disabled={creating}>
               {tc('actions.cancel')}
@@ -486,6 +692,36 @@ export function TokensPage({ api, apiBaseUrl }: { api: AdminApi; apiBaseUrl: str
         </div>
       </Dialog>
 
+      <Dialog
+        title={t('dialog.settingsTitle', { prefix: editSettingsRow?.tokenPrefix ?? '' })}
+        open={Boolean(editSettingsRow)}
+        onClose={() => (savingSettings ? null : setEditSettingsRow(null))}
+      >
+        <div className="stack">
+          <div className="stack">
+            <label htmlFor="token-edit-default-parameters-input" className="label">{t('form.defaultParameters')}</label>
+            <textarea
+              id="token-edit-default-parameters-input"
+              className="textarea mono text-xs"
+              rows={8}
+              value={editDefaultsText}
+              onChange={(e) => setEditDefaultsText(e.target.value)}
+              placeholder={DEFAULT_PARAMETERS_PLACEHOLDER}
+            />
+            <div className="help">{t('form.defaultParametersHelp')}</div>
+          </div>
+          <TokenPolicyFields idPrefix="token-edit" value={editPolicyDraft} onChange={setEditPolicyDraft} disabled={savingSettings} />
+          <div className="flex justify-end gap-3">
+            <button className="btn" onClick={() => setEditSettingsRow(null)} disabled={savingSettings}>
+              {tc('actions.cancel')}
+            </button>
+            <button className="btn" data-variant="primary" onClick={onSaveSettings} disabled={savingSettings}>
+              {tc('actions.save')}
+            </button>
+          </div>
+        </div>
+      </Dialog>
+
       <Dialog title={t('dialog.copyTitle')} open={Boolean(createdToken)} onClose={() => setCreatedToken(null)}>
         <div className="stack">
           <div className="help">
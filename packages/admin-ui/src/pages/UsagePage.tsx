@@ -218,6 +218,8 @@ export function UsagePage({ api }: { api: AdminApi }) {
                 <option value="">{t('filters.allOutcomes')}</option>
                 <option value="success">{t('filters.success')}</option>
                 <option value="error">{t('filters.error')}</option>
+                <option value="cancelled">{t('filters.cancelled')}</option>
+                <option value="invalid_params">{t('filters.invalidParams')}</option>
               </select>
             </div>
 
@@ -341,7 +343,8 @@ export function UsagePage({ api }: { api: AdminApi }) {
 }
 
 function OutcomeBadge({ outcome }: { outcome: string }) {
-  const variant = outcome === 'success' ? 'success' : outcome === 'error' ? 'danger' : 'neutral';
+  const variant =
+    outcome === 'success' ? 'success' : outcome === 'error' ? 'danger' : outcome === 'invalid_params' ? 'warning' : 'neutral';
   return (
     <span className="badge mono" data-variant={variant}>
       {outcome}
@@ -0,0 +1,410 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { PuzzlePieceIcon } from '@heroicons/react/24/outline';
+import type { AdminApi, VirtualToolBaseToolDto, VirtualToolDto, VirtualToolInput } from '../lib/adminApi';
+import { formatDateTime } from '../lib/format';
+import { ConfirmDialog } from '../ui/ConfirmDialog';
+import { Dialog } from '../ui/Dialog';
+import { IconPlus, IconRefresh } from '../ui/icons';
+import { Pagination } from '../ui/Pagination';
+import { useToast } from '../ui/toast';
+import { ErrorBanner } from '../ui/ErrorBanner';
+import { EmptyState } from '../ui/EmptyState';
+import { DataTable, type DataTableColumn } from '../ui/DataTable';
+
+const PAGE_SIZE = 10;
+
+const PRESET_ARGUMENTS_PLACEHOLDER = '{ "include_domains": ["docs.example.com"], "search_depth": "advanced" }';
+
+/** The virtual tool as edited in the form; presets stay raw text until save. */
+type VirtualToolDraft = {
+  name: string;
+  description: string;
+  baseTool: string;
+  presetText: string;
+  exposedArguments: string[];
+  enabled: boolean;
+};
+
+const EMPTY_DRAFT: VirtualToolDraft = { name: '', description: '', baseTool: '', presetText: '', exposedArguments: [], enabled: true };
+
+function draftFromVirtualTool(tool: VirtualToolDto): VirtualToolDraft {
+  return {
+    name: tool.name,
+    description: tool.description,
+    baseTool: tool.baseTool,
+    presetText: Object.keys(tool.presetArguments).length > 0 ? JSON.stringify(tool.presetArguments, null, 2) : '',
+    exposedArguments: tool.exposedArguments,
+    enabled: tool.enabled
+  };
+}
+
+/** Parses the preset textarea: empty means no presets, anything but a JSON object is rejected. */
+function parsePresetArgumentsInput(text: string): { ok: true; value: Record<string, unknown> } | { ok: false } {
+  if (!text.trim()) return { ok: true, value: {} };
+  try {
+    const parsed = JSON.parse(text);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return { ok: false };
+    return { ok: true, value: parsed };
+  } catch {
+    return { ok: false };
+  }
+}
+
+export function VirtualToolsPage({ api }: { api: AdminApi }) {
+  const { t } = useTranslation('virtualTools');
+  const { t: tc } = useTranslation('common');
+  const toast = useToast();
+  const [tools, setTools] = useState<VirtualToolDto[]>([]);
+  const [baseTools, setBaseTools] = useState<VirtualToolBaseToolDto[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+
+  // `editing` is null while creating; the dialog is open whenever `dialogOpen` is set.
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<VirtualToolDto | null>(null);
+  const [draft, setDraft] = useState<VirtualToolDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+
+  const [toolToDelete, setToolToDelete] = useState<VirtualToolDto | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [nextTools, nextBaseTools] = await Promise.all([api.listVirtualTools(), api.listVirtualToolBaseTools()]);
+      setTools(nextTools);
+      setBaseTools(nextBaseTools);
+    } catch (e: any) {
+      setError(typeof e?.message === 'string' ? e.message : tc('errors.unknownError'));
+      setTools([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [api, tc]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const paginatedTools = useMemo(() => {
+    const start = (page - 1) * PAGE_SIZE;
+    return tools.slice(start, start + PAGE_SIZE);
+  }, [tools, page]);
+
+  const selectedBaseTool = useMemo(() => baseTools.find((b) => b.name === draft.baseTool) ?? null, [baseTools, draft.baseTool]);
+
+  function openCreate() {
+    setEditing(null);
+    setDraft({ ...EMPTY_DRAFT, baseTool: baseTools[0]?.name ?? '' });
+    setDialogOpen(true);
+  }
+
+  function openEdit(tool: VirtualToolDto) {
+    setEditing(tool);
+    setDraft(draftFromVirtualTool(tool));
+    setDialogOpen(true);
+  }
+
+  function onBaseToolChange(baseTool: string) {
+    // Exposed arguments only make sense for the base tool they were picked from.
+    setDraft((prev) => ({ ...prev, baseTool, exposedArguments: [] }));
+  }
+
+  function toggleExposedArgument(name: string, checked: boolean) {
+    setDraft((prev) => ({
+      ...prev,
+      exposedArguments: checked ? [...prev.exposedArguments, name] : prev.exposedArguments.filter((a) => a !== name)
+    }));
+  }
+
+  async function onSave() {
+    const failedTitle = editing ? t('toast.updateFailed') : t('toast.createFailed');
+    const presets = parsePresetArgumentsInput(draft.presetText);
+    if (!presets.ok) {
+      toast.push({ title: failedTitle, message: t('form.presetArgumentsInvalid') });
+      return;
+    }
+    const input: VirtualToolInput = {
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      baseTool: draft.baseTool,
+      presetArguments: presets.value,
+      exposedArguments: draft.exposedArguments,
+      enabled: draft.enabled
+    };
+    setSaving(true);
+    try {
+      if (editing) {
+        await api.updateVirtualTool(editing.id, input);
+        toast.push({ title: t('toast.updated'), message: t('toast.savedMessage', { name: input.name }) });
+      } else {
+        await api.createVirtualTool(input);
+        toast.push({ title: t('toast.created'), message: t('toast.savedMessage', { name: input.name }) });
+      }
+      setDialogOpen(false);
+      await load();
+    } catch (e: any) {
+      toast.push({ title: failedTitle, message: typeof e?.message === 'string' ? e.message : tc('errors.unknownError') });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function onDelete() {
+    if (!toolToDelete) return;
+    setDeleting(true);
+    try {
+      await api.deleteVirtualTool(toolToDelete.id);
+      toast.push({ title: t('toast.deleted'), message: t('toast.deletedMessage', { name: toolToDelete.name }) });
+      setToolToDelete(null);
+      await load();
+    } catch (e: any) {
+      toast.push({ title: t('toast.deleteFailed'), message: typeof e?.message === 'string' ? e.message : tc('errors.unknownError') });
+    } finally {
+      setDeleting(false);
+    }
+  }
+
+  return (
+    <div className="stack">
+      <div className="card">
+        <div className="cardHeader">
+          <div className="row">
+            <div>
+              <div className="h2">{t('title')}</div>
+              <div className="help">{t('subtitle')}</div>
+            </div>
+            <div className="flex gap-3 items-center">
+              <button className="btn" onClick={load} disabled={loading}>
+                <IconRefresh />
+                {tc('actions.refresh')}
+              </button>
+              <button className="btn" data-variant="primary" onClick={openCreate} disabled={baseTools.length === 0}>
+                <IconPlus />
+                {t('actions.create')}
+              </button>
+            </div>
+          </div>
+        </div>
+        <div className="cardBody p-0">
+          {error ? (
+            <div className="p-4">
+              <ErrorBanner message={error} onRetry={load} retrying={loading} />
+            </div>
+          ) : null}
+          <DataTable
+            ariaLabel={t('title')}
+            columns={(
+              [
+                {
+                  id: 'name',
+                  header: t('table.name'),
+                  dataLabel: t('table.name'),
+                  cellClassName: 'mono',
+                  cell: (tool: VirtualToolDto) => tool.name
+                },
+                {
+                  id: 'baseTool',
+                  header: t('table.baseTool'),
+                  headerStyle: { width: 180 },
+                  dataLabel: t('table.baseTool'),
+                  cellClassName: 'mono',
+                  cell: (tool: VirtualToolDto) => tool.baseTool
+                },
+                {
+                  id: 'description',
+                  header: t('table.description'),
+                  dataLabel: t('table.description'),
+                  cellClassName: 'muted',
+                  cell: (tool: VirtualToolDto) => tool.description
+                },
+                {
+                  id: 'status',
+                  header: t('table.status'),
+                  headerStyle: { width: 110 },
+                  dataLabel: t('table.status'),
+                  cell: (tool: VirtualToolDto) => (
+                    <span className="badge" data-variant={tool.enabled ? 'success' : 'warning'}>
+                      {tool.enabled ? t('status.enabled') : t('status.disabled')}
+                    </span>
+                  )
+                },
+                {
+                  id: 'updated',
+                  header: t('table.updated'),
+                  headerStyle: { width: 150 },
+                  dataLabel: t('table.updated'),
+                  cellClassName: 'mono',
+                  cell: (tool: VirtualToolDto) => formatDateTime(tool.updatedAt)
+                },
+                {
+                  id: 'actions',
+                  header: t('table.actions'),
+                  headerStyle: { width: 180, textAlign: 'right' },
+                  headerAlign: 'right',
+                  dataLabel: t('table.actions'),
+                  cellAlign: 'right',
+                  cell: (tool: VirtualToolDto) => (
+                    <div className="flex gap-2 justify-end">
+                      <button
+                        className="btn"
+                        data-variant="ghost"
+                        onClick={() => openEdit(tool)}
+                        style={{ padding: '6px 10px', fontSize: 13 }}
+                      >
+                        {t('actions.edit')}
+                      </button>
+                      <button
+                        className="btn"
+                        data-variant="danger"
+                        onClick={() => setToolToDelete(tool)}
+                        style={{ padding: '6px 12px', fontSize: 13 }}
+                      >
+                        {tc('actions.delete')}
+                      </button>
+                    </div>
+                  )
+                }
+              ] satisfies DataTableColumn<VirtualToolDto>[]
+            )}
+            rows={paginatedTools}
+            rowKey={(tool) => tool.id}
+            loading={loading}
+            empty={
+              <EmptyState
+                icon={<PuzzlePieceIcon />}
+                message={t('empty.noTools')}
+                action={baseTools.length > 0 ? { label: t('actions.create'), onClick: openCreate } : undefined}
+                compact
+              />
+            }
+          />
+          <Pagination total={tools.length} page={page} pageSize={PAGE_SIZE} onChange={setPage} />
+        </div>
+      </div>
+
+      <Dialog
+        title={editing ? t('dialog.editTitle', { name: editing.name }) : t('dialog.createTitle')}
+        open={dialogOpen}
+        onClose={() => (saving ? null : setDialogOpen(false))}
+      >
+        <div className="stack">
+          <div className="grid2">
+            <div className="stack">
+              <label htmlFor="virtual-tool-name-input" className="label">{t('form.name')}</label>
+              <input
+                id="virtual-tool-name-input"
+                className="input mono"
+                value={draft.name}
+                onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder={t('form.namePlaceholder')}
+                disabled={saving}
+              />
+              <div className="help">{t('form.nameHelp')}</div>
+            </div>
+            <div className="stack">
+              <label htmlFor="virtual-tool-base-input" className="label">{t('form.baseTool')}</label>
+              <select
+                id="virtual-tool-base-input"
+                className="select"
+                value={draft.baseTool}
+                onChange={(e) => onBaseToolChange(e.target.value)}
+                disabled={saving}
+              >
+                {baseTools.map((base) => (
+                  <option key={base.name} value={base.name}>{base.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="stack">
+            <label htmlFor="virtual-tool-description-input" className="label">{t('form.description')}</label>
+            <textarea
+              id="virtual-tool-description-input"
+              className="textarea"
+              rows={2}
+              value={draft.description}
+              onChange={(e) => setDraft((prev) => ({ ...prev, description: e.target.value }))}
+              placeholder={t('form.descriptionPlaceholder')}
+              disabled={saving}
+            />
+            <div className="help">{t('form.descriptionHelp')}</div>
+          </div>
+
+          <div className="stack">
+            <label htmlFor="virtual-tool-presets-input" className="label">{t('form.presetArguments')}</label>
+            <textarea
+              id="virtual-tool-presets-input"
+              className="textarea mono text-xs"
+              rows={5}
+              value={draft.presetText}
+              onChange={(e) => setDraft((prev) => ({ ...prev, presetText: e.target.value }))}
+              placeholder={PRESET_ARGUMENTS_PLACEHOLDER}
+              disabled={saving}
+            />
+            <div className="help">{t('form.presetArgumentsHelp')}</div>
+          </div>
+
+          <div className="stack gap-3">
+            <div className="label">{t('form.exposedArguments')}</div>
+            {selectedBaseTool ? (
+              <div className="grid2 p-3" style={{ border: '1px solid var(--border)', borderRadius: 'var(--radius-sm)' }}>
+                {selectedBaseTool.arguments.map((arg) => (
+                  <div key={arg} className="flex gap-2 items-center">
+                    <input
+                      type="checkbox"
+                      id={`virtual-tool-arg-${arg}`}
+                      checked={draft.exposedArguments.includes(arg)}
+                      onChange={(e) => toggleExposedArgument(arg, e.target.checked)}
+                      disabled={saving}
+                    />
+                    <label htmlFor={`virtual-tool-arg-${arg}`} className="text-sm mono cursor-pointer">
+                      {arg}
+                      {selectedBaseTool.required.includes(arg) ? ' *' : ''}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+            <div className="help">{t('form.exposedArgumentsHelp')}</div>
+          </div>
+
+          <div className="flex gap-2 items-center">
+            <input
+              type="checkbox"
+              id="virtual-tool-enabled-check"
+              checked={draft.enabled}
+              onChange={(e) => setDraft((prev) => ({ ...prev, enabled: e.target.checked }))}
+              disabled={saving}
+            />
+            <label htmlFor="virtual-tool-enabled-check" className="text-sm cursor-pointer">{t('form.enabled')}</label>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button className="btn" onClick={() => setDialogOpen(false)} disabled={saving}>
+              {tc('actions.cancel')}
+            </button>
+            <button className="btn" data-variant="primary" onClick={onSave} disabled={saving}>
+              {tc('actions.save')}
+            </button>
+          </div>
+        </div>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!toolToDelete}
+        title={t('dialog.deleteTitle')}
+        description={t('dialog.deleteDescription', { name: toolToDelete?.name ?? '' })}
+        confirmLabel={tc('actions.delete')}
+        confirmVariant="danger"
+        confirming={deleting}
+        onClose={() => (deleting ? null : setToolToDelete(null))}
+        onConfirm={onDelete}
+      />
+    </div>
+  );
+}
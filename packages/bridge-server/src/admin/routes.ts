@@ -1,12 +1,24 @@
 import type { Express } from 'express';
 import { randomBytes } from 'node:crypto';
-import type { PrismaClient } from '@mcp-nexus/db';
-import type { TavilyKeySelectionStrategy, SearchSourceMode } from '@mcp-nexus/core';
+import { Prisma, type PrismaClient } from '@mcp-nexus/db';
+import {
+  MIN_MAX_OUTPUT_CHARS,
+  validateVirtualToolDefinition,
+  type BraveOverflowMode,
+  type CircuitBreaker,
+  type CombinedMergeStrategy,
+  type TavilyKeySelectionStrategy,
+  type SearchSourceMode,
+  type VirtualToolDefinition
+} from '@mcp-nexus/core';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { decryptAes256Gcm, encryptAes256Gcm, sha256Bytes, tryParseAes256GcmKeyFromEnv } from '../crypto/crypto.js';
 import { FixedWindowRateLimiter } from '../auth/rateLimit.js';
 import { requireAdminToken } from './adminAuth.js';
 import { fetchTavilyCredits, releaseCreditsRefreshLock, tryAcquireCreditsRefreshLock } from '../tavily/credits.js';
 import { ServerSettings } from '../settings/serverSettings.js';
+import { CACHEABLE_TOOLS, isCacheableToolName, type ResponseCache } from '../cache/responseCache.js';
+import { toVirtualToolDefinition, type VirtualToolRegistry } from '../mcp/virtualTools.js';
 
 function asyncHandler(fn: (req: any, res: any, next: any) => Promise<void>) {
   return (req: any, res: any, next: any) => {
@@ -42,6 +54,114 @@ function maskBraveApiKey(apiKey: string): string {
   return `${prefix}${rest.slice(0, 4)}...${rest.slice(-4)}`;
 }
 
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const TOKEN_SEARCH_SOURCE_MODES: SearchSourceMode[] = ['tavily_only', 'brave_only', 'combined', 'brave_prefer_tavily_fallback', 'brave_hedged_tavily'];
+const TOKEN_BRAVE_OVERFLOW_MODES: BraveOverflowMode[] = ['queue', 'error', 'fallback_to_tavily'];
+
+type TokenPolicyInput = {
+  searchSourceMode?: SearchSourceMode | null;
+  braveOverflow?: BraveOverflowMode | null;
+  researchEnabled?: boolean | null;
+  maxOutputChars?: number | null;
+};
+
+/** Validates per-token policy overrides; omitted fields stay unchanged and `null` clears an override. */
+function parseTokenPolicyInput(body: any): { ok: true; value: TokenPolicyInput } | { ok: false; error: string } {
+  const value: TokenPolicyInput = {};
+  const { searchSourceMode, braveOverflow, researchEnabled, maxOutputChars } = body ?? {};
+  if (searchSourceMode !== undefined) {
+    if (searchSourceMode !== null && !TOKEN_SEARCH_SOURCE_MODES.includes(searchSourceMode)) {
+      return { ok: false, error: `searchSourceMode must be null or one of: ${TOKEN_SEARCH_SOURCE_MODES.join(', ')}` };
+    }
+    value.searchSourceMode = searchSourceMode;
+  }
+  if (braveOverflow !== undefined) {
+    if (braveOverflow !== null && !TOKEN_BRAVE_OVERFLOW_MODES.includes(braveOverflow)) {
+      return { ok: false, error: `braveOverflow must be null or one of: ${TOKEN_BRAVE_OVERFLOW_MODES.join(', ')}` };
+    }
+    value.braveOverflow = braveOverflow;
+  }
+  if (researchEnabled !== undefined) {
+    if (researchEnabled !== null && typeof researchEnabled !== 'boolean') {
+      return { ok: false, error: 'researchEnabled must be a boolean or null' };
+    }
+    value.researchEnabled = researchEnabled;
+  }
+  if (maxOutputChars !== undefined) {
+    if (maxOutputChars !== null && (!Number.isInteger(maxOutputChars) || maxOutputChars < MIN_MAX_OUTPUT_CHARS)) {
+      return { ok: false, error: `maxOutputChars must be null or an integer >= ${MIN_MAX_OUTPUT_CHARS}` };
+    }
+    value.maxOutputChars = maxOutputChars;
+  }
+  return { ok: true, value };
+}
+
+type BraveKeyRateLimitInput = {
+  maxQps?: number | null;
+  burst?: number | null;
+};
+
+/** Validates per-key Brave rate limits; omitted fields stay unchanged and `null` falls back to the server defaults. */
+function parseBraveKeyRateLimitInput(body: any): { ok: true; value: BraveKeyRateLimitInput } | { ok: false; error: string } {
+  const value: BraveKeyRateLimitInput = {};
+  const { maxQps, burst } = body ?? {};
+  if (maxQps !== undefined) {
+    if (maxQps !== null && (typeof maxQps !== 'number' || !Number.isFinite(maxQps) || maxQps <= 0)) {
+      return { ok: false, error: 'maxQps must be null or a positive number' };
+    }
+    value.maxQps = maxQps;
+  }
+  if (burst !== undefined) {
+    if (burst !== null && (!Number.isInteger(burst) || burst < 1)) {
+      return { ok: false, error: 'burst must be null or an integer >= 1' };
+    }
+    value.burst = burst;
+  }
+  return { ok: true, value };
+}
+
+/**
+ * Overlays the virtual-tool fields present in `body` on `base`; fields of the wrong type are reported
+ * instead of ignored so a typo never silently keeps the old value.
+ */
+function parseVirtualToolInput(
+  body: any,
+  base: VirtualToolDefinition & { enabled: boolean }
+): { ok: true; value: VirtualToolDefinition & { enabled: boolean } } | { ok: false; error: string } {
+  const value = { ...base };
+  const { name, description, baseTool, presetArguments, exposedArguments, enabled } = body ?? {};
+  if (name !== undefined) {
+    if (typeof name !== 'string') return { ok: false, error: 'name must be a string' };
+    value.name = name.trim();
+  }
+  if (description !== undefined) {
+    if (typeof description !== 'string') return { ok: false, error: 'description must be a string' };
+    value.description = description.trim();
+  }
+  if (baseTool !== undefined) {
+    if (typeof baseTool !== 'string') return { ok: false, error: 'baseTool must be a string' };
+    value.baseTool = baseTool;
+  }
+  if (presetArguments !== undefined) {
+    if (!isPlainObject(presetArguments)) return { ok: false, error: 'presetArguments must be a JSON object' };
+    value.presetArguments = presetArguments;
+  }
+  if (exposedArguments !== undefined) {
+    if (!Array.isArray(exposedArguments) || !exposedArguments.every((a) => typeof a === 'string')) {
+      return { ok: false, error: 'exposedArguments must be an array of argument names' };
+    }
+    value.exposedArguments = [...new Set(exposedArguments as string[])];
+  }
+  if (enabled !== undefined) {
+    if (typeof enabled !== 'boolean') return { ok: false, error: 'enabled must be a boolean' };
+    value.enabled = enabled;
+  }
+  return { ok: true, value };
+}
+
 function normalizeBasePath(raw: string): string {
   const trimmed = raw.trim();
   if (!trimmed) return '/admin';
@@ -54,6 +174,11 @@ export function registerAdminRoutes(
   prisma: PrismaClient,
   opts: {
     serverSettings: ServerSettings;
+    responseCache: ResponseCache;
+    circuitBreakers: { tavily: CircuitBreaker; brave: CircuitBreaker };
+    virtualTools: VirtualToolRegistry;
+    /** Tools a virtual tool may be based on. */
+    virtualToolBaseTools: Tool[];
     basePath?: string;
   }
 ) {
@@ -79,22 +204,27 @@ export function registerAdminRoutes(
     const tavilyKeySelectionStrategy = await opts.serverSettings.getTavilyKeySelectionStrategy();
     const searchSourceMode = await opts.serverSettings.getSearchSourceMode();
     const researchEnabled = await opts.serverSettings.getResearchEnabled();
+    const responseCacheTtls = await opts.serverSettings.getResponseCacheTtls();
+    const combinedMerge = await opts.serverSettings.getCombinedMergeSettings();
     const braveKeyCount = await prisma.braveKey.count({ where: { status: 'active' } });
     res.json({
       tavilyKeySelectionStrategy,
       searchSourceMode,
       braveSearchEnabled: braveKeyCount > 0,
-      researchEnabled
+      researchEnabled,
+      responseCacheTtls,
+      combinedMerge
     });
   }));
 
   app.patch(p('/server-info'), requireAdmin, asyncHandler(async (req, res) => {
-    const { tavilyKeySelectionStrategy, searchSourceMode, researchEnabled } = req.body ?? {};
+    const { tavilyKeySelectionStrategy, searchSourceMode, researchEnabled, responseCacheTtls, combinedMerge } = req.body ?? {};
 
     // Validate tavilyKeySelectionStrategy if provided
     if (tavilyKeySelectionStrategy !== undefined) {
-      if (tavilyKeySelectionStrategy !== 'round_robin' && tavilyKeySelectionStrategy !== 'random') {
-        res.status(400).json({ error: 'tavilyKeySelectionStrategy must be "round_robin" or "random"' });
+      const validStrategies: TavilyKeySelectionStrategy[] = ['round_robin', 'random', 'weighted_remaining', 'drain_first', 'least_in_flight'];
+      if (!validStrategies.includes(tavilyKeySelectionStrategy)) {
+        res.status(400).json({ error: 'tavilyKeySelectionStrategy must be one of: round_robin, random, weighted_remaining, drain_first, least_in_flight' });
         return;
       }
       await opts.serverSettings.setTavilyKeySelectionStrategy(tavilyKeySelectionStrategy as TavilyKeySelectionStrategy);
@@ -102,9 +232,9 @@ export function registerAdminRoutes(
 
     // Validate searchSourceMode if provided
     if (searchSourceMode !== undefined) {
-      const validModes: SearchSourceMode[] = ['tavily_only', 'brave_only', 'combined', 'brave_prefer_tavily_fallback'];
+      const validModes: SearchSourceMode[] = ['tavily_only', 'brave_only', 'combined', 'brave_prefer_tavily_fallback', 'brave_hedged_tavily'];
       if (!validModes.includes(searchSourceMode)) {
-        res.status(400).json({ error: 'searchSourceMode must be one of: tavily_only, brave_only, combined, brave_prefer_tavily_fallback' });
+        res.status(400).json({ error: 'searchSourceMode must be one of: tavily_only, brave_only, combined, brave_prefer_tavily_fallback, brave_hedged_tavily' });
         return;
       }
       await opts.serverSettings.setSearchSourceMode(searchSourceMode as SearchSourceMode);
@@ -119,10 +249,65 @@ export function registerAdminRoutes(
       await opts.serverSettings.setResearchEnabled(researchEnabled);
     }
 
+    // Validate responseCacheTtls if provided (seconds per tool, 0 disables)
+    if (responseCacheTtls !== undefined) {
+      if (typeof responseCacheTtls !== 'object' || responseCacheTtls === null || Array.isArray(responseCacheTtls)) {
+        res.status(400).json({ error: 'responseCacheTtls must be an object of tool name to seconds' });
+        return;
+      }
+      for (const [toolName, seconds] of Object.entries(responseCacheTtls as Record<string, unknown>)) {
+        if (!isCacheableToolName(toolName)) {
+          res.status(400).json({ error: `responseCacheTtls keys must be one of: ${CACHEABLE_TOOLS.join(', ')}` });
+          return;
+        }
+        if (typeof seconds !== 'number' || !Number.isInteger(seconds) || seconds < 0) {
+          res.status(400).json({ error: `responseCacheTtls.${toolName} must be a non-negative integer` });
+          return;
+        }
+      }
+      await opts.serverSettings.setResponseCacheTtls(responseCacheTtls);
+    }
+
+    // Validate combinedMerge if provided ({ strategy?, weights?: { tavily?, brave? } })
+    if (combinedMerge !== undefined) {
+      if (typeof combinedMerge !== 'object' || combinedMerge === null || Array.isArray(combinedMerge)) {
+        res.status(400).json({ error: 'combinedMerge must be an object with strategy and/or weights' });
+        return;
+      }
+      const { strategy, weights } = combinedMerge as Record<string, unknown>;
+      const validStrategies: CombinedMergeStrategy[] = ['interleave', 'rrf', 'weighted'];
+      if (strategy !== undefined && !validStrategies.includes(strategy as CombinedMergeStrategy)) {
+        res.status(400).json({ error: 'combinedMerge.strategy must be one of: interleave, rrf, weighted' });
+        return;
+      }
+      if (weights !== undefined) {
+        if (typeof weights !== 'object' || weights === null || Array.isArray(weights)) {
+          res.status(400).json({ error: 'combinedMerge.weights must be an object of provider to weight' });
+          return;
+        }
+        for (const [provider, weight] of Object.entries(weights as Record<string, unknown>)) {
+          if (!/^[a-z][a-z0-9_]*$/.test(provider)) {
+            res.status(400).json({ error: 'combinedMerge.weights keys must be provider ids (tavily, brave, searxng, ...)' });
+            return;
+          }
+          if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0 || weight > 100) {
+            res.status(400).json({ error: `combinedMerge.weights.${provider} must be a number between 0 and 100` });
+            return;
+          }
+        }
+      }
+      await opts.serverSettings.setCombinedMergeSettings({
+        strategy: strategy as CombinedMergeStrategy | undefined,
+        weights: weights as Record<string, number> | undefined
+      });
+    }
+
     // Return updated values
     const updatedStrategy = await opts.serverSettings.getTavilyKeySelectionStrategy();
     const updatedMode = await opts.serverSettings.getSearchSourceMode();
     const updatedResearchEnabled = await opts.serverSettings.getResearchEnabled();
+    const updatedResponseCacheTtls = await opts.serverSettings.getResponseCacheTtls();
+    const updatedCombinedMerge = await opts.serverSettings.getCombinedMergeSettings();
     const braveKeyCount = await prisma.braveKey.count({ where: { status: 'active' } });
 
     res.setHeader('Cache-Control', 'no-store');
@@ -131,7 +316,9 @@ export function registerAdminRoutes(
       tavilyKeySelectionStrategy: updatedStrategy,
       searchSourceMode: updatedMode,
       braveSearchEnabled: braveKeyCount > 0,
-      researchEnabled: updatedResearchEnabled
+      researchEnabled: updatedResearchEnabled,
+      responseCacheTtls: updatedResponseCacheTtls,
+      combinedMerge: updatedCombinedMerge
     });
   }));
 
@@ -489,6 +676,13 @@ export function registerAdminRoutes(
         label: k.label,
         maskedKey: k.keyMasked ?? null,
         status: k.status,
+        cooldownUntil: k.cooldownUntil,
+        maxQps: k.maxQps,
+        burst: k.burst,
+        quotaLimit: k.quotaLimit,
+        quotaRemaining: k.quotaRemaining,
+        quotaResetAt: k.quotaResetAt,
+        quotaCheckedAt: k.quotaCheckedAt,
         lastUsedAt: k.lastUsedAt,
         createdAt: k.createdAt
       }))
@@ -599,13 +793,18 @@ export function registerAdminRoutes(
 
   app.patch(p('/brave-keys/:id'), requireAdmin, asyncHandler(async (req, res) => {
     const { status } = req.body ?? {};
-    if (status && !['active', 'disabled', 'invalid'].includes(status)) {
+    if (status && !['active', 'disabled', 'cooldown', 'invalid'].includes(status)) {
       res.status(400).json({ error: 'invalid status' });
       return;
     }
+    const rateLimits = parseBraveKeyRateLimitInput(req.body);
+    if (!rateLimits.ok) {
+      res.status(400).json({ error: rateLimits.error });
+      return;
+    }
     const updated = await prisma.braveKey.update({
       where: { id: req.params.id },
-      data: { status }
+      data: { status, ...rateLimits.value }
     });
     await prisma.auditLog.create({
       data: { eventType: 'brave_key.update', outcome: 'success', resourceType: 'brave_key', resourceId: updated.id }
@@ -636,6 +835,11 @@ export function registerAdminRoutes(
         id: t.id,
         tokenPrefix: t.tokenPrefix,
         description: t.description,
+        defaultParameters: t.defaultParameters ?? null,
+        searchSourceMode: t.searchSourceMode,
+        braveOverflow: t.braveOverflow,
+        researchEnabled: t.researchEnabled,
+        maxOutputChars: t.maxOutputChars,
         revokedAt: t.revokedAt,
         expiresAt: t.expiresAt,
         createdAt: t.createdAt
@@ -644,7 +848,16 @@ export function registerAdminRoutes(
   }));
 
   app.post(p('/tokens'), requireAdmin, asyncHandler(async (req, res) => {
-    const { description, expiresInSeconds, allowedTools, rateLimit } = req.body ?? {};
+    const { description, expiresInSeconds, allowedTools, rateLimit, defaultParameters } = req.body ?? {};
+    if (defaultParameters !== undefined && defaultParameters !== null && !isPlainObject(defaultParameters)) {
+      res.status(400).json({ error: 'defaultParameters must be a JSON object' });
+      return;
+    }
+    const policy = parseTokenPolicyInput(req.body);
+    if (!policy.ok) {
+      res.status(400).json({ error: policy.error });
+      return;
+    }
     const prefix = `mcp_${randomBytes(6).toString('hex')}`;
     const secret = randomBytes(24).toString('hex');
     const token = `${prefix}.${secret}`;
@@ -664,6 +877,10 @@ export function registerAdminRoutes(
       ? Math.floor(rateLimit)
       : undefined;
 
+    const defaultParametersValue = isPlainObject(defaultParameters) && Object.keys(defaultParameters).length > 0
+      ? (defaultParameters as Prisma.InputJsonObject)
+      : undefined;
+
     const tokenEncrypted = encryptAes256Gcm(token, encryptionKey);
 
     const created = await prisma.clientToken.create({
@@ -674,7 +891,9 @@ export function registerAdminRoutes(
         tokenEncrypted: Uint8Array.from(tokenEncrypted),
         expiresAt,
         allowedTools: allowedToolsValue,
-        rateLimit: rateLimitValue
+        rateLimit: rateLimitValue,
+        defaultParameters: defaultParametersValue,
+        ...policy.value
       }
     });
 
@@ -685,6 +904,50 @@ export function registerAdminRoutes(
     res.json({ id: created.id, token });
   }));
 
+  app.patch(p('/tokens/:id'), requireAdmin, asyncHandler(async (req, res) => {
+    const { defaultParameters } = req.body ?? {};
+    if (defaultParameters !== undefined && defaultParameters !== null && !isPlainObject(defaultParameters)) {
+      res.status(400).json({ error: 'defaultParameters must be a JSON object or null' });
+      return;
+    }
+    const policy = parseTokenPolicyInput(req.body);
+    if (!policy.ok) {
+      res.status(400).json({ error: policy.error });
+      return;
+    }
+
+    const data: Prisma.ClientTokenUpdateInput = { ...policy.value };
+    if (defaultParameters !== undefined) {
+      // An empty object clears the defaults, like null.
+      data.defaultParameters = defaultParameters && Object.keys(defaultParameters).length > 0
+        ? (defaultParameters as Prisma.InputJsonObject)
+        : Prisma.DbNull;
+    }
+
+    try {
+      const updated = await prisma.clientToken.update({ where: { id: req.params.id }, data });
+      await prisma.auditLog.create({
+        data: {
+          eventType: 'token.update',
+          outcome: 'success',
+          resourceType: 'client_token',
+          resourceId: updated.id,
+          detailsJson: {
+            ...(isPlainObject(defaultParameters) ? { defaultParameterKeys: Object.keys(defaultParameters) } : {}),
+            ...policy.value
+          }
+        }
+      });
+      res.json({ ok: true });
+    } catch (err: any) {
+      if (err?.code === 'P2025') {
+        res.status(404).json({ error: 'Token not found' });
+        return;
+      }
+      throw err;
+    }
+  }));
+
   app.get(p('/tokens/:id/reveal'), requireAdmin, asyncHandler(async (req, res) => {
     const ip = typeof req.ip === 'string' ? req.ip : null;
     const userAgent = typeof req.headers['user-agent'] === 'string' ? req.headers['user-agent'] : null;
@@ -809,6 +1072,139 @@ export function registerAdminRoutes(
     }
   }));
 
+  app.get(p('/virtual-tools'), requireAdmin, asyncHandler(async (_req, res) => {
+    const rows = await prisma.virtualTool.findMany({ orderBy: { name: 'asc' } });
+    res.json(
+      rows.map((row) => ({
+        id: row.id,
+        ...toVirtualToolDefinition(row),
+        enabled: row.enabled,
+        createdAt: row.createdAt,
+        updatedAt: row.updatedAt
+      }))
+    );
+  }));
+
+  app.get(p('/virtual-tools/base-tools'), requireAdmin, asyncHandler(async (_req, res) => {
+    res.json(
+      opts.virtualToolBaseTools.map((tool) => ({
+        name: tool.name,
+        arguments: Object.keys(tool.inputSchema.properties ?? {}),
+        required: tool.inputSchema.required ?? []
+      }))
+    );
+  }));
+
+  app.post(p('/virtual-tools'), requireAdmin, asyncHandler(async (req, res) => {
+    const parsed = parseVirtualToolInput(req.body, {
+      name: '',
+      description: '',
+      baseTool: '',
+      presetArguments: {},
+      exposedArguments: [],
+      enabled: true
+    });
+    if (!parsed.ok) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    const invalid = validateVirtualToolDefinition(parsed.value, opts.virtualToolBaseTools);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    try {
+      const { presetArguments, exposedArguments, ...rest } = parsed.value;
+      const created = await prisma.virtualTool.create({
+        data: { ...rest, presetArguments: presetArguments as Prisma.InputJsonObject, exposedArguments }
+      });
+      opts.virtualTools.invalidate();
+      await prisma.auditLog.create({
+        data: {
+          eventType: 'virtual_tool.create',
+          outcome: 'success',
+          resourceType: 'virtual_tool',
+          resourceId: created.id,
+          detailsJson: { name: created.name, baseTool: created.baseTool }
+        }
+      });
+      res.json({ id: created.id });
+    } catch (err: any) {
+      if (err?.code === 'P2002') {
+        res.status(409).json({ error: `A virtual tool named '${parsed.value.name}' already exists` });
+        return;
+      }
+      throw err;
+    }
+  }));
+
+  app.patch(p('/virtual-tools/:id'), requireAdmin, asyncHandler(async (req, res) => {
+    const existing = await prisma.virtualTool.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      res.status(404).json({ error: 'Virtual tool not found' });
+      return;
+    }
+    const parsed = parseVirtualToolInput(req.body, { ...toVirtualToolDefinition(existing), enabled: existing.enabled });
+    if (!parsed.ok) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    const invalid = validateVirtualToolDefinition(parsed.value, opts.virtualToolBaseTools);
+    if (invalid) {
+      res.status(400).json({ error: invalid });
+      return;
+    }
+
+    try {
+      const { presetArguments, exposedArguments, ...rest } = parsed.value;
+      await prisma.virtualTool.update({
+        where: { id: existing.id },
+        data: { ...rest, presetArguments: presetArguments as Prisma.InputJsonObject, exposedArguments }
+      });
+      opts.virtualTools.invalidate();
+      await prisma.auditLog.create({
+        data: {
+          eventType: 'virtual_tool.update',
+          outcome: 'success',
+          resourceType: 'virtual_tool',
+          resourceId: existing.id,
+          detailsJson: { name: parsed.value.name, baseTool: parsed.value.baseTool, enabled: parsed.value.enabled }
+        }
+      });
+      res.json({ ok: true });
+    } catch (err: any) {
+      if (err?.code === 'P2002') {
+        res.status(409).json({ error: `A virtual tool named '${parsed.value.name}' already exists` });
+        return;
+      }
+      throw err;
+    }
+  }));
+
+  app.delete(p('/virtual-tools/:id'), requireAdmin, asyncHandler(async (req, res) => {
+    try {
+      const deleted = await prisma.virtualTool.delete({ where: { id: req.params.id } });
+      opts.virtualTools.invalidate();
+      await prisma.auditLog.create({
+        data: {
+          eventType: 'virtual_tool.delete',
+          outcome: 'success',
+          resourceType: 'virtual_tool',
+          resourceId: deleted.id,
+          detailsJson: { name: deleted.name }
+        }
+      });
+      res.json({ ok: true });
+    } catch (err: any) {
+      if (err?.code === 'P2025') {
+        res.status(404).json({ error: 'Virtual tool not found' });
+        return;
+      }
+      throw err;
+    }
+  }));
+
   app.get(p('/audit-logs'), requireAdmin, asyncHandler(async (req, res) => {
     // Parse query parameters with defaults
     const page = parseInt(req.query.page as string) || 1;
@@ -1078,6 +1474,7 @@ export function registerAdminRoutes(
     keyEncrypted: Uint8Array;
     keyMasked: string;
     status?: string;
+    cooldownUntil?: Date | null;
   }): Promise<{ id: string; labelUsed: string; renamedFrom?: string }> {
     const maxRetries = 100;
     let attempt = 0;
@@ -1090,7 +1487,8 @@ export function registerAdminRoutes(
             label: currentLabel,
             keyEncrypted: Buffer.from(input.keyEncrypted),
             keyMasked: input.keyMasked,
-            status: (input.status as any) ?? 'active'
+            status: (input.status as any) ?? 'active',
+            cooldownUntil: input.cooldownUntil ?? null
           }
         });
         return {
@@ -1179,6 +1577,7 @@ export function registerAdminRoutes(
               apiKey,
               maskedKey: k.keyMasked,
               status: k.status,
+              cooldownUntil: toIsoOrNull(k.cooldownUntil),
               lastUsedAt: toIsoOrNull(k.lastUsedAt),
               failureScore: k.failureScore,
               createdAt: k.createdAt.toISOString(),
@@ -1380,13 +1779,15 @@ export function registerAdminRoutes(
       try {
         const keyEncrypted = encryptAes256Gcm(item.apiKey, encryptionKey);
         const keyMasked = maskBraveApiKey(item.apiKey);
-        const status = ['active', 'disabled', 'invalid'].includes(item.status) ? item.status : 'active';
+        const status = ['active', 'disabled', 'cooldown', 'invalid'].includes(item.status) ? item.status : 'active';
+        const cooldownUntil = item.status === 'cooldown' && item.cooldownUntil ? new Date(item.cooldownUntil) : null;
 
         const result = await createBraveKeyWithAutoRename({
           label: item.label.trim(),
           keyEncrypted: Uint8Array.from(keyEncrypted),
           keyMasked,
-          status
+          status,
+          cooldownUntil
         });
 
         summary.brave.imported++;
@@ -1466,8 +1867,10 @@ export function registerAdminRoutes(
     const activeKeys = tavilyKeys.filter(k => k.status === 'active').length +
                        braveKeys.filter(k => k.status === 'active').length;
     const unhealthyKeys = tavilyKeys.filter(k => k.status === 'invalid' || k.status === 'cooldown').length +
-                          braveKeys.filter(k => k.status === 'invalid').length;
+                          braveKeys.filter(k => k.status === 'invalid' || k.status === 'cooldown').length;
     const activeTokens = clientTokens.filter(t => !t.revokedAt).length;
+    const cacheStats = opts.responseCache.getStats();
+    const cacheEntries = await opts.responseCache.countEntries();
 
     res.json({
       requestsPerMinute: tavilyRecentCount + braveRecentCount,
@@ -1486,6 +1889,7 @@ export function registerAdminRoutes(
         brave: {
           total: braveKeys.length,
           active: braveKeys.filter(k => k.status === 'active').length,
+          cooldown: braveKeys.filter(k => k.status === 'cooldown').length,
           invalid: braveKeys.filter(k => k.status === 'invalid').length
         }
       },
@@ -1495,10 +1899,45 @@ export function registerAdminRoutes(
         errorMessage: e.errorMessage,
         timestamp: e.timestamp.toISOString()
       })),
+      cache: {
+        hits: cacheStats.hits,
+        misses: cacheStats.misses,
+        entries: cacheEntries,
+        byTool: cacheStats.byTool
+      },
+      circuitBreakers: {
+        tavily: opts.circuitBreakers.tavily.snapshot(),
+        brave: opts.circuitBreakers.brave.snapshot()
+      },
       timestamp: now.toISOString()
     });
   }));
 
+  // Drops cached tool responses (all, or only one tool's entries).
+  app.post(p('/cache/purge'), requireAdmin, asyncHandler(async (req, res) => {
+    const ip = typeof req.ip === 'string' ? req.ip : null;
+    const userAgent = typeof req.headers['user-agent'] === 'string' ? req.headers['user-agent'] : null;
+    const toolName = req.body?.toolName;
+    if (toolName !== undefined && !isCacheableToolName(toolName)) {
+      res.status(400).json({ error: `toolName must be one of: ${CACHEABLE_TOOLS.join(', ')}` });
+      return;
+    }
+
+    const deleted = await opts.responseCache.purge({ toolName });
+    await prisma.auditLog.create({
+      data: {
+        eventType: 'cache.purge',
+        outcome: 'success',
+        resourceType: 'tool_response_cache',
+        resourceId: toolName ?? null,
+        ip,
+        userAgent,
+        detailsJson: { toolName: toolName ?? null, deleted }
+      }
+    });
+    res.json({ ok: true, deleted });
+  }));
+
   // Cost estimation endpoint
   // Tavily credit costs: search=1, extract=1, crawl=2, map=1, research=5
   // Brave: free tier limited, paid tier varies
@@ -1541,7 +1980,8 @@ export function registerAdminRoutes(
       tavily_extract: 1,
       tavily_crawl: 2,
       tavily_map: 1,
-      tavily_research: 5
+      tavily_research: 5,
+      tavily_research_start: 5
     };
 
     let tavilyTotalCredits = 0;
@@ -11,12 +11,31 @@ import express from 'express';
 
 import { PrismaClient } from '@mcp-nexus/db';
 import {
+  CircuitBreaker,
+  createCircuitBreakingBraveClient,
+  createCircuitBreakingTavilyClient,
   createCombinedProxyServer,
+  createSearxngProvider,
   getDefaultParametersFromEnv,
+  MemoryOutputContinuationStore,
+  defaultCombinedMergeSettings,
+  parseCombinedMergeStrategy,
   parseDefaultParametersJson,
+  parseHedgeThreshold,
+  parseMaxOutputChars,
   parseTavilyKeySelectionStrategy,
   parseSearchSourceMode,
-  type BraveOverflowMode
+  parseSearchProviderRouting,
+  parseTavilyToolsVersion,
+  parseUrlCanonicalizationOptions,
+  RequestHedger,
+  toDefaultParameters,
+  braveToolsV0100,
+  tavilyResearchJobTools,
+  tavilyToolsFor,
+  webSearchTool,
+  type BraveOverflowMode,
+  type VirtualToolDefinition
 } from '@mcp-nexus/core';
 
 import { requestContext } from './context.js';
@@ -29,9 +48,13 @@ import { BraveKeyPool } from './brave/keyPool.js';
 import { RotatingBraveClient } from './brave/rotatingClient.js';
 import { registerAdminRoutes } from './admin/routes.js';
 import { createSessionTransport } from './mcp/sessionTransport.js';
+import { createInvalidArgumentsLogger } from './mcp/invalidArguments.js';
+import { VirtualToolRegistry, recordVirtualToolCall } from './mcp/virtualTools.js';
 import { renderLandingPage } from './landing.js';
 import { ServerSettings } from './settings/serverSettings.js';
 import { createLoggingBraveClient } from './brave/loggingClient.js';
+import { ResponseCache, parseResponseCacheCleanupProbability, parseResponseCacheTtls } from './cache/responseCache.js';
+import { createCachingBraveClient, createCachingTavilyClient } from './cache/cachingClients.js';
 
 type CreateBridgeAppOptions = {
   host?: string;
@@ -47,9 +70,47 @@ const MAX_RETRIES = Number(process.env.MCP_MAX_RETRIES ?? '2');
 const FIXED_COOLDOWN_MS = Number(process.env.MCP_COOLDOWN_MS ?? String(60_000));
 const FALLBACK_TAVILY_KEY_SELECTION_STRATEGY = parseTavilyKeySelectionStrategy(process.env.TAVILY_KEY_SELECTION_STRATEGY);
 const FALLBACK_SEARCH_SOURCE_MODE = parseSearchSourceMode(process.env.SEARCH_SOURCE_MODE, 'brave_prefer_tavily_fallback');
+const FALLBACK_RESPONSE_CACHE_TTLS = parseResponseCacheTtls(process.env.RESPONSE_CACHE_TTLS);
+const RESPONSE_CACHE_CLEANUP_PROBABILITY = parseResponseCacheCleanupProbability(process.env.RESPONSE_CACHE_CLEANUP_PROBABILITY);
+const FALLBACK_COMBINED_MERGE = {
+  ...defaultCombinedMergeSettings(),
+  strategy: parseCombinedMergeStrategy(process.env.COMBINED_MERGE_STRATEGY)
+};
+
+const URL_CANONICALIZATION = parseUrlCanonicalizationOptions(process.env.URL_CANONICALIZATION);
+const TAVILY_TOOLS_VERSION = parseTavilyToolsVersion(process.env.TAVILY_TOOLS_VERSION);
+
+const SEARXNG_URL = process.env.SEARXNG_URL?.trim() ?? '';
+const SEARCH_PROVIDERS = SEARXNG_URL
+  ? [
+      createSearxngProvider({
+        baseUrl: SEARXNG_URL,
+        routing: parseSearchProviderRouting(process.env.SEARXNG_ROUTING),
+        timeoutMs: Number(process.env.SEARXNG_TIMEOUT_MS ?? String(20_000))
+      })
+    ]
+  : [];
+
+const VIRTUAL_TOOL_BASE_TOOLS = [
+  webSearchTool,
+  ...tavilyToolsFor(TAVILY_TOOLS_VERSION),
+  ...tavilyResearchJobTools,
+  ...braveToolsV0100,
+  ...SEARCH_PROVIDERS.flatMap((provider) => provider.tools)
+];
 
 const BRAVE_OVERFLOW = parseBraveOverflowMode(process.env.BRAVE_OVERFLOW);
 const BRAVE_MAX_QUEUE_MS = Number(process.env.BRAVE_MAX_QUEUE_MS ?? String(30_000));
+const SEARCH_HEDGE_THRESHOLD = parseHedgeThreshold(process.env.SEARCH_HEDGE_THRESHOLD);
+
+const CIRCUIT_BREAKER_OPTIONS = {
+  consecutiveFailures: Number(process.env.CIRCUIT_BREAKER_FAILURES ?? '5'),
+  errorRate: Number(process.env.CIRCUIT_BREAKER_ERROR_RATE ?? '0.5'),
+  openMs: Number(process.env.CIRCUIT_BREAKER_OPEN_MS ?? String(30_000))
+};
+
+const MAX_OUTPUT_CHARS = parseMaxOutputChars(process.env.MAX_OUTPUT_CHARS);
+const OUTPUT_CURSOR_TTL_MS = Number(process.env.OUTPUT_CURSOR_TTL_MS ?? String(15 * 60_000));
 
 function asyncHandler(fn: (req: any, res: any, next: any) => Promise<void>) {
   return (req: any, res: any, next: any) => {
@@ -170,7 +231,9 @@ export function createBridgeApp(options: CreateBridgeAppOptions = {}): express.E
   const serverSettings = new ServerSettings({
     prisma,
     fallbackStrategy: FALLBACK_TAVILY_KEY_SELECTION_STRATEGY,
-    fallbackSearchSourceMode: FALLBACK_SEARCH_SOURCE_MODE
+    fallbackSearchSourceMode: FALLBACK_SEARCH_SOURCE_MODE,
+    fallbackResponseCacheTtls: FALLBACK_RESPONSE_CACHE_TTLS,
+    fallbackCombinedMerge: FALLBACK_COMBINED_MERGE
   });
   const pool = new TavilyKeyPool({
     prisma,
@@ -183,6 +246,11 @@ export function createBridgeApp(options: CreateBridgeAppOptions = {}): express.E
     maxRetries: MAX_RETRIES,
     fixedCooldownMs: FIXED_COOLDOWN_MS
   });
+  // Research jobs left running by a previous process keep polling until they finish.
+  void tavilyClient.resumeResearchJobs().catch((err) => {
+    // eslint-disable-next-line no-console
+    console.error('Failed to resume research jobs:', err instanceof Error ? err.message : err);
+  });
 
   // Brave key pool setup
   const bravePool = new BraveKeyPool({
@@ -193,15 +261,47 @@ export function createBridgeApp(options: CreateBridgeAppOptions = {}): express.E
   const braveClient = new RotatingBraveClient({
     pool: bravePool,
     prisma,
-    maxRetries: MAX_RETRIES
+    maxRetries: MAX_RETRIES,
+    fixedCooldownMs: FIXED_COOLDOWN_MS
+  });
+
+  // Shared by all sessions: a provider that keeps failing is skipped for everyone until probes succeed.
+  const circuitBreakers = {
+    tavily: new CircuitBreaker('tavily', CIRCUIT_BREAKER_OPTIONS),
+    brave: new CircuitBreaker('brave', CIRCUIT_BREAKER_OPTIONS)
+  };
+  const guardedTavilyClient = createCircuitBreakingTavilyClient({ client: tavilyClient, breaker: circuitBreakers.tavily });
+  const guardedBraveClient = createCircuitBreakingBraveClient({ client: braveClient, breaker: circuitBreakers.brave });
+
+  // Identical normalized search/extract requests are served from the DB cache within their TTL.
+  // Cache hits are served even while a provider's circuit is open.
+  const responseCache = new ResponseCache({
+    prisma,
+    getTtls: () => serverSettings.getResponseCacheTtls(),
+    cleanupProbability: RESPONSE_CACHE_CLEANUP_PROBABILITY
   });
+  const cachedTavilyClient = createCachingTavilyClient({ client: guardedTavilyClient, cache: responseCache });
+  const cachedBraveClient = createCachingBraveClient({ client: guardedBraveClient, cache: responseCache });
 
   const perTokenLimiter = new FixedWindowRateLimiter({ maxPerWindow: RATE_LIMIT_PER_MINUTE, windowMs: 60_000 });
   const globalLimiter = new FixedWindowRateLimiter({ maxPerWindow: GLOBAL_RATE_LIMIT_PER_MINUTE, windowMs: 60_000 });
 
-  registerAdminRoutes(app, prisma, { serverSettings, basePath: '/admin/api' });
+  const virtualTools = new VirtualToolRegistry({ prisma });
+  // Shared by all sessions so a cursor keeps working when the client reconnects.
+  const outputContinuations = new MemoryOutputContinuationStore({ ttlMs: OUTPUT_CURSOR_TTL_MS });
+  // Shared by all sessions so percentile hedge thresholds reflect server-wide Brave latency.
+  const hedger = new RequestHedger({ threshold: SEARCH_HEDGE_THRESHOLD });
+
+  const adminRouteOptions = {
+    serverSettings,
+    responseCache,
+    circuitBreakers,
+    virtualTools,
+    virtualToolBaseTools: VIRTUAL_TOOL_BASE_TOOLS
+  };
+  registerAdminRoutes(app, prisma, { ...adminRouteOptions, basePath: '/admin/api' });
   // Backwards-compatible admin API paths.
-  registerAdminRoutes(app, prisma, { serverSettings, basePath: '/admin' });
+  registerAdminRoutes(app, prisma, { ...adminRouteOptions, basePath: '/admin' });
 
   type SessionEntry = { transport: StreamableHTTPServerTransport };
   const transports: Record<string, SessionEntry> = {};
@@ -243,7 +343,7 @@ export function createBridgeApp(options: CreateBridgeAppOptions = {}): express.E
       return;
     }
 
-    if (ENABLE_TAVILY_CREDITS_CHECK && hasTavilyToolsCallRequest(req.body)) {
+    if (ENABLE_TAVILY_CREDITS_CHECK && hasTavilyToolsCallRequest(req.body, await virtualTools.list())) {
       const check = await pool.preflightCreditsCheck();
       if (!check.ok) {
         const retryAfter = check.retryAfterMs;
@@ -261,6 +361,7 @@ export function createBridgeApp(options: CreateBridgeAppOptions = {}): express.E
     }
 
     const defaultParametersHeader = req.headers?.default_parameters as string | undefined;
+    const tavilyToolsVersionHeader = req.headers?.['x-tavily-tools-version'] as string | undefined;
     const ip = req.ip ?? req.socket?.remoteAddress;
     const userAgent = req.headers['user-agent'];
 
@@ -279,6 +380,8 @@ export function createBridgeApp(options: CreateBridgeAppOptions = {}): express.E
         clientTokenPrefix: validated.prefix,
         rawClientToken: rawToken,
         allowedTools: validated.allowedTools,  // Phase 3.4: Tool scoping
+        tokenDefaultParameters: validated.defaultParameters,
+        tokenPolicy: validated.policy,
         defaultParametersHeader,
         ip,
         userAgent
@@ -299,21 +402,45 @@ export function createBridgeApp(options: CreateBridgeAppOptions = {}): express.E
             const server = createCombinedProxyServer({
               serverName: 'tavily-mcp',
               serverVersion: '0.2.16',
-              tavilyClient,
-              braveClient,
+              tavilyClient: cachedTavilyClient,
+              braveClient: cachedBraveClient,
               braveOverflow: BRAVE_OVERFLOW,
               braveMaxQueueMs: BRAVE_MAX_QUEUE_MS,
               getDefaultParameters: () => {
                 const envDefaults = getDefaultParametersFromEnv();
+                // Read per request so edits to the token apply to open sessions.
+                const tokenDefaults = toDefaultParameters(requestContext.getStore()?.tokenDefaultParameters);
                 const headerDefaults = parseDefaultParametersJson(defaultParametersHeader);
-                return { ...envDefaults, ...headerDefaults };
+                return { ...envDefaults, ...tokenDefaults, ...headerDefaults };
+              },
+              // Token overrides win over the server-wide settings.
+              getSearchSourceMode: async () => {
+                const override = requestContext.getStore()?.tokenPolicy?.searchSourceMode;
+                const serverMode = await serverSettings.getSearchSourceMode();
+                return override ? parseSearchSourceMode(override, serverMode) : serverMode;
               },
-              getSearchSourceMode: () => serverSettings.getSearchSourceMode(),
-              getResearchEnabled: () => serverSettings.getResearchEnabled(),
+              hedger,
+              getBraveOverflow: () => {
+                const override = requestContext.getStore()?.tokenPolicy?.braveOverflow;
+                return override ? parseBraveOverflowMode(override, BRAVE_OVERFLOW) : undefined;
+              },
+              getResearchEnabled: async () =>
+                requestContext.getStore()?.tokenPolicy?.researchEnabled ?? (await serverSettings.getResearchEnabled()),
+              getCombinedMergeSettings: () => serverSettings.getCombinedMergeSettings(),
+              urlCanonicalization: URL_CANONICALIZATION,
+              providers: SEARCH_PROVIDERS,
+              // Chosen once per session; clients opt in to newer schemas with the header.
+              tavilyToolsVersion: parseTavilyToolsVersion(tavilyToolsVersionHeader, TAVILY_TOOLS_VERSION),
               getAllowedTools: () => {
                 const ctx = requestContext.getStore();
                 return ctx?.allowedTools;
-              }
+              },
+              getVirtualTools: () => virtualTools.list(),
+              maxOutputChars: MAX_OUTPUT_CHARS,
+              getMaxOutputChars: () => requestContext.getStore()?.tokenPolicy?.maxOutputChars ?? undefined,
+              outputContinuations,
+              onInvalidArguments: createInvalidArgumentsLogger(prisma),
+              middleware: [recordVirtualToolCall]
             });
 
             await server.connect(transport);
@@ -393,12 +520,16 @@ function isObjectRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }
 
-export function hasTavilyToolsCallRequest(body: unknown): boolean {
+export function hasTavilyToolsCallRequest(body: unknown, virtualTools: VirtualToolDefinition[] = []): boolean {
   if (!body) return false;
-  if (Array.isArray(body)) return body.some(hasTavilyToolsCallRequest);
+  if (Array.isArray(body)) return body.some((item) => hasTavilyToolsCallRequest(item, virtualTools));
   if (!isObjectRecord(body) || body.method !== 'tools/call') return false;
 
   const params = isObjectRecord(body.params) ? body.params : undefined;
-  const toolName = params?.name;
+  const requested = params?.name;
+  // A virtual tool costs what its base tool costs.
+  const toolName = virtualTools.find((tool) => tool.name === requested)?.baseTool ?? requested;
+  // Research job status/result only read back an already-paid job, so they skip the credits preflight.
+  if (toolName === 'tavily_research_status' || toolName === 'tavily_research_result') return false;
   return typeof toolName === 'string' && toolName.startsWith('tavily_');
 }
@@ -1,6 +1,15 @@
 import type { PrismaClient } from '@mcp-nexus/db';
 import { sha256Bytes, timingSafeEqualBytes } from '../crypto/crypto.js';
 
+/** Per-token overrides of server-wide routing settings; `null` fields keep the server setting. */
+export type ClientTokenPolicy = {
+  searchSourceMode: string | null;
+  braveOverflow: string | null;
+  researchEnabled: boolean | null;
+  /** Overrides MAX_OUTPUT_CHARS for this token. */
+  maxOutputChars: number | null;
+};
+
 type ParsedClientToken =
   | { ok: true; prefix: string; secret: string }
   | { ok: false; error: string };
@@ -16,7 +25,15 @@ export function parseClientToken(raw: string): ParsedClientToken {
 }
 
 export async function validateClientToken(prisma: PrismaClient, raw: string): Promise<
-  | { ok: true; clientTokenId: string; prefix: string; allowedTools: unknown; rateLimit: number | null }
+  | {
+      ok: true;
+      clientTokenId: string;
+      prefix: string;
+      allowedTools: unknown;
+      rateLimit: number | null;
+      defaultParameters: unknown;
+      policy: ClientTokenPolicy;
+    }
   | { ok: false; error: string }
 > {
   const parsed = parseClientToken(raw);
@@ -36,7 +53,14 @@ export async function validateClientToken(prisma: PrismaClient, raw: string): Pr
     clientTokenId: record.id,
     prefix: record.tokenPrefix,
     allowedTools: record.allowedTools,
-    rateLimit: record.rateLimit
+    rateLimit: record.rateLimit,
+    defaultParameters: record.defaultParameters,
+    policy: {
+      searchSourceMode: record.searchSourceMode,
+      braveOverflow: record.braveOverflow,
+      researchEnabled: record.researchEnabled,
+      maxOutputChars: record.maxOutputChars
+    }
   };
 }
 
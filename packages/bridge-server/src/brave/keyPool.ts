@@ -1,5 +1,11 @@
 import type { PrismaClient, BraveKey } from '@mcp-nexus/db';
-import { orderKeyCandidates, type TavilyKeySelectionStrategy } from '@mcp-nexus/core';
+import {
+  isLoadAwareKeySelectionStrategy,
+  KeyInFlightCounter,
+  orderKeyCandidates,
+  type BraveQuota,
+  type TavilyKeySelectionStrategy
+} from '@mcp-nexus/core';
 import { decryptAes256Gcm } from '../crypto/crypto.js';
 
 type EligibleKey = BraveKey & { apiKey: string };
@@ -26,6 +32,7 @@ export class BraveKeyPool {
   private readonly encryptionKey: Buffer;
   private readonly getSelectionStrategy: () => Promise<TavilyKeySelectionStrategy>;
   private readonly mutex = new Mutex();
+  private readonly inFlight = new KeyInFlightCounter();
 
   constructor(opts: {
     prisma: PrismaClient;
@@ -37,33 +44,85 @@ export class BraveKeyPool {
     this.getSelectionStrategy = opts.getSelectionStrategy;
   }
 
-  async selectEligibleKey(): Promise<EligibleKey | null> {
+  /**
+   * Picks the key that can start soonest according to `startDelayMs` (its rate gate's queue), then
+   * the lowest failure score, then the selection strategy. Keys cooling down after a 429 and keys
+   * whose monthly quota is spent until its reset are skipped. The returned key counts as in flight
+   * until it is passed to `releaseKey`.
+   */
+  async selectEligibleKey(opts: { startDelayMs?: (key: BraveKey) => number } = {}): Promise<EligibleKey | null> {
     return await this.mutex.runExclusive(async () => {
       const selectionStrategy = await this.getSelectionStrategy();
       const now = new Date();
 
       const keys = await this.prisma.braveKey.findMany({
-        where: { status: 'active' },
+        where: {
+          status: { in: ['active', 'cooldown'] },
+          AND: [
+            { OR: [{ cooldownUntil: null }, { cooldownUntil: { lte: now } }] },
+            { OR: [{ quotaRemaining: null }, { quotaRemaining: { gt: 0 } }, { quotaResetAt: null }, { quotaResetAt: { lte: now } }] }
+          ]
+        },
         orderBy: [{ failureScore: 'asc' }, { lastUsedAt: 'asc' }, { createdAt: 'asc' }],
-        take: 20
+        take: isLoadAwareKeySelectionStrategy(selectionStrategy) ? undefined : 20
       });
 
       if (keys.length === 0) return null;
 
-      const lowestFailureScore = Math.min(...keys.map((key) => key.failureScore));
-      const preferred = keys.filter((key) => key.failureScore === lowestFailureScore);
-      const chosen = orderKeyCandidates(preferred, selectionStrategy)[0]!;
+      const delays = new Map(keys.map((key) => [key.id, opts.startDelayMs?.(key) ?? 0]));
+      const soonestStart = Math.min(...delays.values());
+      const startable = keys.filter((key) => delays.get(key.id) === soonestStart);
+      const lowestFailureScore = Math.min(...startable.map((key) => key.failureScore));
+      const preferred = startable.filter((key) => key.failureScore === lowestFailureScore);
+      const chosen = orderKeyCandidates(preferred, selectionStrategy, Math.random, {
+        // A quota whose reset has passed is back to its full limit.
+        remaining: (key) => (key.quotaResetAt && key.quotaResetAt <= now ? key.quotaLimit : key.quotaRemaining),
+        inFlight: (key) => this.inFlight.get(key.id)
+      })[0]!;
+
+      const data: { lastUsedAt: Date; status?: 'active'; cooldownUntil?: null } = { lastUsedAt: now };
+      if (chosen.status === 'cooldown') {
+        data.status = 'active';
+        data.cooldownUntil = null;
+      }
 
       const updated = await this.prisma.braveKey.update({
         where: { id: chosen.id },
-        data: { lastUsedAt: now }
+        data
       });
 
       const apiKey = decryptAes256Gcm(Buffer.from(updated.keyEncrypted), this.encryptionKey);
+      this.inFlight.acquire(updated.id);
       return { ...updated, apiKey };
     });
   }
 
+  releaseKey(keyId: string): void {
+    this.inFlight.release(keyId);
+  }
+
+  async markCooldown(keyId: string, cooldownUntil: Date): Promise<void> {
+    await this.prisma.braveKey.update({
+      where: { id: keyId },
+      data: { status: 'cooldown', cooldownUntil }
+    });
+  }
+
+  /** Stores the monthly window of a response's rate-limit headers; per-second windows are left to the rate gate. */
+  async recordQuota(keyId: string, quota: BraveQuota): Promise<void> {
+    if (!quota.monthly) return;
+    const now = Date.now();
+    await this.prisma.braveKey.update({
+      where: { id: keyId },
+      data: {
+        quotaLimit: quota.monthly.limit,
+        quotaRemaining: quota.monthly.remaining,
+        quotaResetAt: new Date(now + quota.monthly.resetMs),
+        quotaCheckedAt: new Date(now)
+      }
+    });
+  }
+
   async markInvalid(keyId: string): Promise<void> {
     await this.prisma.braveKey.update({
       where: { id: keyId },
@@ -1,10 +1,15 @@
-import type { PrismaClient } from '@mcp-nexus/db';
+import type { BraveKey, PrismaClient } from '@mcp-nexus/db';
 import {
   createBraveHttpClient,
   isBraveHttpError,
   QueuedRateGate,
   type BraveClient,
+  type BraveImageSearchParams,
   type BraveLocalSearchParams,
+  type BraveNewsSearchParams,
+  type BraveSummarizeParams,
+  type BraveSummarizeResponse,
+  type BraveVideoSearchParams,
   type BraveWebSearchParams
 } from '@mcp-nexus/core';
 
@@ -15,22 +20,27 @@ export class RotatingBraveClient implements BraveClient {
   private readonly pool: BraveKeyPool;
   private readonly prisma: PrismaClient;
   private readonly maxRetries: number;
-  private readonly gate: QueuedRateGate;
+  private readonly fixedCooldownMs: number;
+  private readonly defaultMinIntervalMs: number;
+  private readonly defaultBurst: number;
+  private readonly gates = new Map<string, { gate: QueuedRateGate; minIntervalMs: number; burst: number }>();
   private readonly timeoutMs: number;
 
-  constructor(opts: { pool: BraveKeyPool; prisma: PrismaClient; maxRetries: number }) {
+  constructor(opts: { pool: BraveKeyPool; prisma: PrismaClient; maxRetries: number; fixedCooldownMs: number }) {
     this.pool = opts.pool;
     this.prisma = opts.prisma;
     this.maxRetries = opts.maxRetries;
+    this.fixedCooldownMs = opts.fixedCooldownMs;
 
     const minIntervalMsRaw = Number(process.env.BRAVE_MIN_INTERVAL_MS ?? '');
     const maxQpsRaw = Number(process.env.BRAVE_MAX_QPS ?? '1');
-    const minIntervalMs =
+    this.defaultMinIntervalMs =
       Number.isFinite(minIntervalMsRaw) && minIntervalMsRaw > 0
         ? Math.floor(minIntervalMsRaw)
         : minIntervalMsFromQps(maxQpsRaw);
 
-    this.gate = new QueuedRateGate({ minIntervalMs });
+    const burstRaw = Number(process.env.BRAVE_BURST ?? '1');
+    this.defaultBurst = Number.isFinite(burstRaw) && burstRaw >= 1 ? Math.floor(burstRaw) : 1;
 
     const timeoutMsRaw = Number(process.env.BRAVE_HTTP_TIMEOUT_MS ?? String(20_000));
     this.timeoutMs =
@@ -55,21 +65,62 @@ export class RotatingBraveClient implements BraveClient {
     });
   }
 
+  async newsSearch(
+    params: BraveNewsSearchParams,
+    opts?: { defaults?: Record<string, unknown>; maxWaitMs?: number }
+  ): Promise<unknown> {
+    return await this.withRotation(async (client) => {
+      return await client.newsSearch(params, opts);
+    });
+  }
+
+  async imageSearch(
+    params: BraveImageSearchParams,
+    opts?: { defaults?: Record<string, unknown>; maxWaitMs?: number }
+  ): Promise<unknown> {
+    return await this.withRotation(async (client) => {
+      return await client.imageSearch(params, opts);
+    });
+  }
+
+  async videoSearch(
+    params: BraveVideoSearchParams,
+    opts?: { defaults?: Record<string, unknown>; maxWaitMs?: number }
+  ): Promise<unknown> {
+    return await this.withRotation(async (client) => {
+      return await client.videoSearch(params, opts);
+    });
+  }
+
+  async summarize(
+    params: BraveSummarizeParams,
+    opts?: { defaults?: Record<string, unknown>; maxWaitMs?: number }
+  ): Promise<BraveSummarizeResponse> {
+    return await this.withRotation(async (client) => {
+      return await client.summarize(params, opts);
+    });
+  }
+
   private async withRotation<T>(fn: (client: BraveClient) => Promise<T>): Promise<T> {
     let attempt = 0;
 
     while (attempt <= this.maxRetries) {
       attempt += 1;
 
-      const key = await this.pool.selectEligibleKey();
+      const key = await this.pool.selectEligibleKey({
+        startDelayMs: (candidate) => this.gateFor(candidate).startDelayMs()
+      });
       if (!key) {
         throw new Error('No Brave API keys available');
       }
 
       const rawClient = createBraveHttpClient({
         apiKey: key.apiKey,
-        gate: this.gate,
-        timeoutMs: this.timeoutMs
+        gate: this.gateFor(key),
+        timeoutMs: this.timeoutMs,
+        onQuota: (quota) => {
+          void this.pool.recordQuota(key.id, quota).catch(() => {});
+        }
       });
 
       const loggingClient = createLoggingBraveClient({
@@ -89,7 +140,13 @@ export class RotatingBraveClient implements BraveClient {
             continue;
           }
 
-          if (status === 429 || status >= 500) {
+          if (status === 429) {
+            // Brave says when the exhausted window resets; without that, fall back to the fixed cooldown.
+            await this.pool.markCooldown(key.id, new Date(Date.now() + (error.retryAfterMs ?? this.fixedCooldownMs)));
+            continue;
+          }
+
+          if (status >= 500) {
             await this.pool.incrementFailureScore(key.id);
             continue;
           }
@@ -101,11 +158,28 @@ export class RotatingBraveClient implements BraveClient {
         }
 
         throw error;
+      } finally {
+        this.pool.releaseKey(key.id);
       }
     }
 
     throw new Error('No Brave API keys available');
   }
+
+  /**
+   * Each key has its own gate, from its `maxQps` / `burst` or the server-wide defaults. The gate is
+   * replaced when an admin changes the key's limits; calls already queued on the old one still run.
+   */
+  private gateFor(key: Pick<BraveKey, 'id' | 'maxQps' | 'burst'>): QueuedRateGate {
+    const minIntervalMs = key.maxQps != null ? minIntervalMsFromQps(key.maxQps) : this.defaultMinIntervalMs;
+    const burst = key.burst ?? this.defaultBurst;
+    const existing = this.gates.get(key.id);
+    if (existing && existing.minIntervalMs === minIntervalMs && existing.burst === burst) return existing.gate;
+
+    const gate = new QueuedRateGate({ minIntervalMs, burst });
+    this.gates.set(key.id, { gate, minIntervalMs, burst });
+    return gate;
+  }
 }
 
 function minIntervalMsFromQps(qps: number): number {
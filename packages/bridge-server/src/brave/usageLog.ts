@@ -100,7 +100,7 @@ export async function maybeCleanupOldBraveUsageRows(prisma: PrismaClient): Promi
 export async function logBraveToolUsage(prisma: PrismaClient, input: {
   toolName: string;
   upstreamKeyId?: string | null;
-  outcome: 'success' | 'error';
+  outcome: 'success' | 'error' | 'cancelled' | 'invalid_params';
   latencyMs?: number;
   query?: string;
   argsSummary?: Record<string, unknown>;
@@ -116,7 +116,7 @@ export async function logBraveToolUsage(prisma: PrismaClient, input: {
 
   await prisma.braveToolUsage.create({
     data: {
-      toolName: input.toolName,
+      toolName: ctx.virtualTool?.name ?? input.toolName,
       outcome: input.outcome,
       latencyMs: typeof input.latencyMs === 'number' ? Math.max(0, Math.floor(input.latencyMs)) : null,
       clientTokenId: ctx.clientTokenId,
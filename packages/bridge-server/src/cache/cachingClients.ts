@@ -0,0 +1,44 @@
+import type { BraveClient, TavilyClient } from '@mcp-nexus/core';
+import type { ResponseCache } from './responseCache.js';
+
+type CachingTavilyClientOptions = {
+  client: TavilyClient;
+  cache: ResponseCache;
+};
+
+type CachingBraveClientOptions = {
+  client: BraveClient;
+  cache: ResponseCache;
+};
+
+export function createCachingTavilyClient(opts: CachingTavilyClientOptions): TavilyClient {
+  const { client, cache } = opts;
+
+  return {
+    search: (params, callOpts) =>
+      cache.getOrLoad('tavily_search', { ...callOpts.defaults, ...params }, () => client.search(params, callOpts), callOpts),
+    extract: (params, callOpts) => cache.getOrLoad('tavily_extract', params, () => client.extract(params, callOpts), callOpts),
+    crawl: (params, callOpts) => client.crawl(params, callOpts),
+    map: (params, callOpts) => client.map(params, callOpts),
+    research: (params, callOpts) => client.research(params, callOpts),
+    ...(client.startResearchJob ? { startResearchJob: client.startResearchJob.bind(client) } : {}),
+    ...(client.getResearchJob ? { getResearchJob: client.getResearchJob.bind(client) } : {})
+  };
+}
+
+export function createCachingBraveClient(opts: CachingBraveClientOptions): BraveClient {
+  const { client, cache } = opts;
+
+  return {
+    // maxWaitMs and signal do not change the response, so they are left out of the cache key; the
+    // cache keeps one caller's cancellation or queue timeout from failing the others.
+    webSearch: (params, callOpts) =>
+      cache.getOrLoad('brave_web_search', { ...callOpts?.defaults, ...params }, () => client.webSearch(params, callOpts), callOpts),
+    localSearch: (params, callOpts) =>
+      cache.getOrLoad('brave_local_search', { ...callOpts?.defaults, ...params }, () => client.localSearch(params, callOpts), callOpts),
+    newsSearch: (params, callOpts) => client.newsSearch(params, callOpts),
+    imageSearch: (params, callOpts) => client.imageSearch(params, callOpts),
+    videoSearch: (params, callOpts) => client.videoSearch(params, callOpts),
+    summarize: (params, callOpts) => client.summarize(params, callOpts)
+  };
+}
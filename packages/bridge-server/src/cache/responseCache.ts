@@ -0,0 +1,240 @@
+import { createHash } from 'node:crypto';
+import type { Prisma, PrismaClient } from '@mcp-nexus/db';
+import { isBraveRateGateTimeoutError } from '@mcp-nexus/core';
+
+export const CACHEABLE_TOOLS = ['tavily_search', 'tavily_extract', 'brave_web_search', 'brave_local_search'] as const;
+
+export type CacheableToolName = (typeof CACHEABLE_TOOLS)[number];
+
+/** TTL in seconds per cacheable tool. 0 disables caching for that tool. */
+export type ResponseCacheTtls = Record<CacheableToolName, number>;
+
+type ResponseCacheStats = {
+  hits: number;
+  misses: number;
+  byTool: Record<CacheableToolName, { hits: number; misses: number }>;
+};
+
+const MAX_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DEFAULT_CLEANUP_PROBABILITY = 0.01;
+
+export function defaultResponseCacheTtls(): ResponseCacheTtls {
+  return { tavily_search: 0, tavily_extract: 0, brave_web_search: 0, brave_local_search: 0 };
+}
+
+export function isCacheableToolName(value: unknown): value is CacheableToolName {
+  return typeof value === 'string' && (CACHEABLE_TOOLS as readonly string[]).includes(value);
+}
+
+/**
+ * Parses a `{ toolName: seconds }` map (JSON string or object). Unknown tools are ignored and
+ * invalid values keep the fallback, so a partially bad setting never disables the whole cache.
+ */
+export function parseResponseCacheTtls(raw: unknown, fallback: ResponseCacheTtls = defaultResponseCacheTtls()): ResponseCacheTtls {
+  let value: unknown = raw;
+  if (typeof raw === 'string') {
+    if (!raw.trim()) return { ...fallback };
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { ...fallback };
+    }
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return { ...fallback };
+
+  const out: ResponseCacheTtls = { ...fallback };
+  for (const [toolName, seconds] of Object.entries(value as Record<string, unknown>)) {
+    if (!isCacheableToolName(toolName)) continue;
+    if (typeof seconds !== 'number' || !Number.isFinite(seconds) || seconds < 0) continue;
+    out[toolName] = Math.min(MAX_TTL_SECONDS, Math.floor(seconds));
+  }
+  return out;
+}
+
+/** Parses the share of cache writes that also evict expired rows, clamped to (0, 1]. */
+export function parseResponseCacheCleanupProbability(raw: string | undefined): number {
+  const p = Number((raw ?? '').trim() || DEFAULT_CLEANUP_PROBABILITY);
+  return Number.isFinite(p) && p > 0 ? Math.min(1, p) : DEFAULT_CLEANUP_PROBABILITY;
+}
+
+/**
+ * Builds a stable cache key: object keys are sorted, strings trimmed, and empty values
+ * (undefined, null, '', []) dropped so equivalent requests share one entry.
+ */
+export function buildResponseCacheKey(toolName: string, params: Record<string, unknown>): string {
+  const normalized = normalizeForKey(params);
+  return createHash('sha256').update(`${toolName}\n${JSON.stringify(normalized ?? {})}`).digest('hex');
+}
+
+function normalizeForKey(value: unknown): unknown {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    return trimmed === '' ? undefined : trimmed;
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(normalizeForKey).filter((v) => v !== undefined);
+    return items.length === 0 ? undefined : items;
+  }
+  if (typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value as Record<string, unknown>).sort()) {
+      const normalized = normalizeForKey((value as Record<string, unknown>)[key]);
+      if (normalized !== undefined) out[key] = normalized;
+    }
+    return out;
+  }
+  return value;
+}
+
+export class ResponseCache {
+  private readonly prisma: PrismaClient;
+  private readonly getTtls: () => Promise<ResponseCacheTtls>;
+  private readonly cleanupProbability: number;
+  private readonly inFlight = new Map<string, { promise: Promise<unknown>; signal?: AbortSignal }>();
+  private readonly counters: ResponseCacheStats['byTool'] = {
+    tavily_search: { hits: 0, misses: 0 },
+    tavily_extract: { hits: 0, misses: 0 },
+    brave_web_search: { hits: 0, misses: 0 },
+    brave_local_search: { hits: 0, misses: 0 }
+  };
+
+  constructor(opts: { prisma: PrismaClient; getTtls: () => Promise<ResponseCacheTtls>; cleanupProbability?: number }) {
+    this.prisma = opts.prisma;
+    this.getTtls = opts.getTtls;
+    this.cleanupProbability = opts.cleanupProbability ?? DEFAULT_CLEANUP_PROBABILITY;
+  }
+
+  /**
+   * Returns a fresh cached response for the normalized request, or runs `load` and stores its
+   * result. Cache storage errors are swallowed so a DB hiccup never fails the tool call.
+   *
+   * Concurrent identical requests share the first caller's load, which runs with that caller's
+   * `signal` and queue limits. Each waiter still honors its own `signal`, and when the shared load
+   * fails because its owner cancelled or timed out in the Brave rate-gate queue, waiters start a
+   * load of their own instead of inheriting that error.
+   */
+  async getOrLoad<T>(
+    toolName: CacheableToolName,
+    params: Record<string, unknown>,
+    load: () => Promise<T>,
+    opts: { signal?: AbortSignal } = {}
+  ): Promise<T> {
+    const ttlSeconds = await this.getTtlSeconds(toolName);
+    if (ttlSeconds <= 0) return await load();
+
+    const cacheKey = buildResponseCacheKey(toolName, params);
+    const pending = this.inFlight.get(cacheKey);
+    if (pending) {
+      let shared: unknown;
+      try {
+        shared = await raceSignal(pending.promise, opts.signal);
+      } catch (err) {
+        if (opts.signal?.aborted || !(pending.signal?.aborted || isBraveRateGateTimeoutError(err))) throw err;
+        return await this.getOrLoad(toolName, params, load, opts);
+      }
+      this.counters[toolName].hits += 1;
+      return shared as T;
+    }
+
+    const promise = (async () => {
+      try {
+        const cached = await this.read(cacheKey);
+        if (cached !== undefined) {
+          this.counters[toolName].hits += 1;
+          return cached as T;
+        }
+
+        this.counters[toolName].misses += 1;
+        const result = await load();
+        await this.write(cacheKey, toolName, result, ttlSeconds);
+        return result;
+      } finally {
+        // Cleared before waiters see the outcome, so a waiter that has to reload starts a new load.
+        this.inFlight.delete(cacheKey);
+      }
+    })();
+
+    this.inFlight.set(cacheKey, { promise, signal: opts.signal });
+    return await promise;
+  }
+
+  getStats(): ResponseCacheStats {
+    const byTool = Object.fromEntries(
+      CACHEABLE_TOOLS.map((toolName) => [toolName, { ...this.counters[toolName] }])
+    ) as ResponseCacheStats['byTool'];
+    const hits = CACHEABLE_TOOLS.reduce((sum, toolName) => sum + byTool[toolName].hits, 0);
+    const misses = CACHEABLE_TOOLS.reduce((sum, toolName) => sum + byTool[toolName].misses, 0);
+    return { hits, misses, byTool };
+  }
+
+  async countEntries(): Promise<number> {
+    return await this.prisma.toolResponseCache.count({ where: { expiresAt: { gt: new Date() } } });
+  }
+
+  async purge(opts: { toolName?: CacheableToolName } = {}): Promise<number> {
+    const result = await this.prisma.toolResponseCache.deleteMany({
+      where: opts.toolName ? { toolName: opts.toolName } : {}
+    });
+    return result.count;
+  }
+
+  private async getTtlSeconds(toolName: CacheableToolName): Promise<number> {
+    try {
+      const ttls = await this.getTtls();
+      return ttls[toolName] ?? 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  private async read(cacheKey: string): Promise<unknown> {
+    try {
+      const row = await this.prisma.toolResponseCache.findUnique({ where: { cacheKey } });
+      if (!row || row.expiresAt.getTime() <= Date.now()) return undefined;
+      void this.prisma.toolResponseCache
+        .update({ where: { cacheKey }, data: { hitCount: { increment: 1 } } })
+        .catch(() => {});
+      return row.responseJson;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async write(cacheKey: string, toolName: CacheableToolName, response: unknown, ttlSeconds: number): Promise<void> {
+    if (response === undefined || response === null) return;
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+    // Tool responses are parsed upstream JSON.
+    const responseJson = response as Prisma.InputJsonValue;
+    try {
+      await this.prisma.toolResponseCache.upsert({
+        where: { cacheKey },
+        create: { cacheKey, toolName, responseJson, expiresAt },
+        update: { responseJson, expiresAt, hitCount: 0 }
+      });
+      await this.maybeEvictExpired();
+    } catch {
+      // Best-effort: the upstream response is still returned.
+    }
+  }
+
+  /**
+   * Expired rows are skipped on read but would otherwise stay forever, one per distinct request,
+   * so a small share of writes also deletes them. Kept probabilistic to stay off the hot path.
+   */
+  private async maybeEvictExpired(): Promise<void> {
+    if (Math.random() >= this.cleanupProbability) return;
+
+    await this.prisma.toolResponseCache.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+  }
+}
+
+function raceSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
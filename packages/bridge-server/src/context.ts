@@ -1,11 +1,17 @@
 import { AsyncLocalStorage } from 'node:async_hooks';
+import type { VirtualToolDefinition } from '@mcp-nexus/core';
+import type { ClientTokenPolicy } from './auth/clientToken.js';
 
 type RequestContext = {
   clientTokenId: string;
   clientTokenPrefix: string;
   rawClientToken: string;
   allowedTools?: unknown;  // Phase 3.4: Tool scoping
+  tokenDefaultParameters?: unknown;
+  tokenPolicy?: ClientTokenPolicy;
   defaultParametersHeader?: string;
+  /** Set when the call targets a virtual tool, so usage is logged under the virtual tool's name. */
+  virtualTool?: VirtualToolDefinition;
   ip?: string;
   userAgent?: string;
 };
@@ -0,0 +1,41 @@
+import { formatArgumentIssues, type ArgumentIssue, type InvalidArgumentsHandler, type VirtualToolDefinition } from '@mcp-nexus/core';
+import type { PrismaClient } from '@mcp-nexus/db';
+import { requestContext } from '../context.js';
+import { logTavilyToolUsage } from '../tavily/usageLog.js';
+import { logBraveToolUsage } from '../brave/usageLog.js';
+
+/**
+ * Records a tool call rejected by schema validation in the usage log of the tool's provider.
+ * Calls to other providers' tools (e.g. `searxng_search`) have no usage table and are not recorded.
+ * A virtual tool is recorded with its base tool's provider.
+ */
+export async function logInvalidToolArguments(
+  prisma: PrismaClient,
+  toolName: string,
+  args: Record<string, unknown>,
+  issues: ArgumentIssue[],
+  virtualTool: VirtualToolDefinition | undefined = requestContext.getStore()?.virtualTool
+): Promise<void> {
+  const providerTool = virtualTool?.baseTool ?? toolName;
+  const log = providerTool.startsWith('tavily_') ? logTavilyToolUsage : providerTool.startsWith('brave_') ? logBraveToolUsage : null;
+  if (!log) return;
+
+  await log(prisma, {
+    toolName,
+    outcome: 'invalid_params',
+    latencyMs: 0,
+    query: typeof args.query === 'string' ? args.query : undefined,
+    argsSummary: { invalidFields: issues.map((i) => i.path) },
+    errorMessage: formatArgumentIssues(toolName, issues)
+  });
+}
+
+/**
+ * `onInvalidArguments` handler for the proxy server. Rejected calls never reach the runtime
+ * middleware, so the virtual tool comes from the handler argument rather than the request context.
+ */
+export function createInvalidArgumentsLogger(prisma: PrismaClient): InvalidArgumentsHandler {
+  return (toolName, args, issues, _extra, virtualTool) => {
+    void logInvalidToolArguments(prisma, toolName, args, issues, virtualTool).catch(() => {});
+  };
+}
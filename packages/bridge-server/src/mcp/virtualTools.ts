@@ -0,0 +1,63 @@
+import type { ToolCallMiddleware, VirtualToolDefinition } from '@mcp-nexus/core';
+import type { PrismaClient, VirtualTool } from '@mcp-nexus/db';
+
+import { requestContext } from '../context.js';
+
+const REFRESH_MS = Number(process.env.SERVER_SETTINGS_REFRESH_MS ?? '5000');
+
+export function toVirtualToolDefinition(row: VirtualTool): VirtualToolDefinition {
+  const preset = row.presetArguments;
+  const exposed = row.exposedArguments;
+  return {
+    name: row.name,
+    description: row.description,
+    baseTool: row.baseTool,
+    presetArguments: typeof preset === 'object' && preset !== null && !Array.isArray(preset) ? (preset as Record<string, unknown>) : {},
+    exposedArguments: Array.isArray(exposed) ? exposed.filter((v): v is string => typeof v === 'string') : []
+  };
+}
+
+/** Tool-call middleware that records the resolved virtual tool, so usage is logged under its name. */
+export const recordVirtualToolCall: ToolCallMiddleware = (ctx, next) => {
+  const store = requestContext.getStore();
+  if (store && ctx.virtualTool) store.virtualTool = ctx.virtualTool;
+  return next();
+};
+
+/** Enabled virtual tools, cached like the server settings; admin writes call `invalidate()` to apply at once. */
+export class VirtualToolRegistry {
+  private readonly prisma: PrismaClient;
+  private cached: { tools: VirtualToolDefinition[]; expiresAtMs: number } | null = null;
+  private inFlight: Promise<VirtualToolDefinition[]> | null = null;
+
+  constructor(opts: { prisma: PrismaClient }) {
+    this.prisma = opts.prisma;
+  }
+
+  async list(): Promise<VirtualToolDefinition[]> {
+    const now = Date.now();
+    if (this.cached && now < this.cached.expiresAtMs) return this.cached.tools;
+    if (this.inFlight) return this.inFlight;
+
+    this.inFlight = (async () => {
+      try {
+        const rows = await this.prisma.virtualTool.findMany({ where: { enabled: true }, orderBy: { name: 'asc' } });
+        const tools = rows.map(toVirtualToolDefinition);
+        this.cached = { tools, expiresAtMs: Date.now() + Math.max(250, REFRESH_MS) };
+        return tools;
+      } catch {
+        const fallback = this.cached?.tools ?? [];
+        this.cached = { tools: fallback, expiresAtMs: Date.now() + Math.max(250, REFRESH_MS) };
+        return fallback;
+      } finally {
+        this.inFlight = null;
+      }
+    })();
+
+    return this.inFlight;
+  }
+
+  invalidate(): void {
+    this.cached = null;
+  }
+}
@@ -1,28 +1,54 @@
 import type { PrismaClient } from '@mcp-nexus/db';
-import { parseTavilyKeySelectionStrategy, parseSearchSourceMode, type TavilyKeySelectionStrategy, type SearchSourceMode } from '@mcp-nexus/core';
+import {
+  defaultCombinedMergeSettings,
+  parseCombinedMergeSettings,
+  parseTavilyKeySelectionStrategy,
+  parseSearchSourceMode,
+  type CombinedMergeSettings,
+  type TavilyKeySelectionStrategy,
+  type SearchSourceMode
+} from '@mcp-nexus/core';
+import { defaultResponseCacheTtls, parseResponseCacheTtls, type ResponseCacheTtls } from '../cache/responseCache.js';
 
 const REFRESH_MS = Number(process.env.SERVER_SETTINGS_REFRESH_MS ?? '5000');
 const KEY_TAVILY_STRATEGY = 'tavilyKeySelectionStrategy';
 const KEY_SEARCH_SOURCE_MODE = 'searchSourceMode';
 const KEY_RESEARCH_ENABLED = 'researchEnabled';
+const KEY_RESPONSE_CACHE_TTLS = 'responseCacheTtls';
+const KEY_COMBINED_MERGE = 'combinedMerge';
 
 export class ServerSettings {
   private readonly prisma: PrismaClient;
   private readonly fallbackStrategy: TavilyKeySelectionStrategy;
   private readonly fallbackSearchSourceMode: SearchSourceMode;
   private readonly fallbackResearchEnabled: boolean;
+  private readonly fallbackResponseCacheTtls: ResponseCacheTtls;
+  private readonly fallbackCombinedMerge: CombinedMergeSettings;
   private cached: { strategy: TavilyKeySelectionStrategy; expiresAtMs: number } | null = null;
   private cachedSearchSourceMode: { mode: SearchSourceMode; expiresAtMs: number } | null = null;
   private cachedResearchEnabled: { enabled: boolean; expiresAtMs: number } | null = null;
+  private cachedResponseCacheTtls: { ttls: ResponseCacheTtls; expiresAtMs: number } | null = null;
+  private cachedCombinedMerge: { settings: CombinedMergeSettings; expiresAtMs: number } | null = null;
   private inFlight: Promise<TavilyKeySelectionStrategy> | null = null;
   private inFlightSearchSourceMode: Promise<SearchSourceMode> | null = null;
   private inFlightResearchEnabled: Promise<boolean> | null = null;
-
-  constructor(opts: { prisma: PrismaClient; fallbackStrategy: TavilyKeySelectionStrategy; fallbackSearchSourceMode?: SearchSourceMode; fallbackResearchEnabled?: boolean }) {
+  private inFlightResponseCacheTtls: Promise<ResponseCacheTtls> | null = null;
+  private inFlightCombinedMerge: Promise<CombinedMergeSettings> | null = null;
+
+  constructor(opts: {
+    prisma: PrismaClient;
+    fallbackStrategy: TavilyKeySelectionStrategy;
+    fallbackSearchSourceMode?: SearchSourceMode;
+    fallbackResearchEnabled?: boolean;
+    fallbackResponseCacheTtls?: ResponseCacheTtls;
+    fallbackCombinedMerge?: CombinedMergeSettings;
+  }) {
     this.prisma = opts.prisma;
     this.fallbackStrategy = opts.fallbackStrategy;
     this.fallbackSearchSourceMode = opts.fallbackSearchSourceMode ?? 'brave_prefer_tavily_fallback';
     this.fallbackResearchEnabled = opts.fallbackResearchEnabled ?? true;
+    this.fallbackResponseCacheTtls = opts.fallbackResponseCacheTtls ?? defaultResponseCacheTtls();
+    this.fallbackCombinedMerge = opts.fallbackCombinedMerge ?? defaultCombinedMergeSettings();
   }
 
   async getTavilyKeySelectionStrategy(): Promise<TavilyKeySelectionStrategy> {
@@ -127,5 +153,81 @@ export class ServerSettings {
     this.cachedResearchEnabled = { enabled: next, expiresAtMs: Date.now() + Math.max(250, REFRESH_MS) };
     return next;
   }
-}
 
+  async getResponseCacheTtls(): Promise<ResponseCacheTtls> {
+    const now = Date.now();
+    if (this.cachedResponseCacheTtls && now < this.cachedResponseCacheTtls.expiresAtMs) {
+      return this.cachedResponseCacheTtls.ttls;
+    }
+    if (this.inFlightResponseCacheTtls) return this.inFlightResponseCacheTtls;
+
+    this.inFlightResponseCacheTtls = (async () => {
+      try {
+        const row = await this.prisma.serverSetting.findUnique({ where: { key: KEY_RESPONSE_CACHE_TTLS } });
+        const ttls = parseResponseCacheTtls(row?.value, this.fallbackResponseCacheTtls);
+        this.cachedResponseCacheTtls = { ttls, expiresAtMs: Date.now() + Math.max(250, REFRESH_MS) };
+        return ttls;
+      } catch {
+        const fallback = this.cachedResponseCacheTtls?.ttls ?? this.fallbackResponseCacheTtls;
+        this.cachedResponseCacheTtls = { ttls: fallback, expiresAtMs: Date.now() + Math.max(250, REFRESH_MS) };
+        return fallback;
+      } finally {
+        this.inFlightResponseCacheTtls = null;
+      }
+    })();
+
+    return this.inFlightResponseCacheTtls;
+  }
+
+  async setResponseCacheTtls(next: Partial<ResponseCacheTtls>): Promise<ResponseCacheTtls> {
+    const merged = parseResponseCacheTtls(next, await this.getResponseCacheTtls());
+    const value = JSON.stringify(merged);
+    await this.prisma.serverSetting.upsert({
+      where: { key: KEY_RESPONSE_CACHE_TTLS },
+      create: { key: KEY_RESPONSE_CACHE_TTLS, value },
+      update: { value }
+    });
+    this.cachedResponseCacheTtls = { ttls: merged, expiresAtMs: Date.now() + Math.max(250, REFRESH_MS) };
+    return merged;
+  }
+
+  async getCombinedMergeSettings(): Promise<CombinedMergeSettings> {
+    const now = Date.now();
+    if (this.cachedCombinedMerge && now < this.cachedCombinedMerge.expiresAtMs) {
+      return this.cachedCombinedMerge.settings;
+    }
+    if (this.inFlightCombinedMerge) return this.inFlightCombinedMerge;
+
+    this.inFlightCombinedMerge = (async () => {
+      try {
+        const row = await this.prisma.serverSetting.findUnique({ where: { key: KEY_COMBINED_MERGE } });
+        const settings = parseCombinedMergeSettings(row?.value, this.fallbackCombinedMerge);
+        this.cachedCombinedMerge = { settings, expiresAtMs: Date.now() + Math.max(250, REFRESH_MS) };
+        return settings;
+      } catch {
+        const fallback = this.cachedCombinedMerge?.settings ?? this.fallbackCombinedMerge;
+        this.cachedCombinedMerge = { settings: fallback, expiresAtMs: Date.now() + Math.max(250, REFRESH_MS) };
+        return fallback;
+      } finally {
+        this.inFlightCombinedMerge = null;
+      }
+    })();
+
+    return this.inFlightCombinedMerge;
+  }
+
+  async setCombinedMergeSettings(next: {
+    strategy?: CombinedMergeSettings['strategy'];
+    weights?: Partial<CombinedMergeSettings['weights']>;
+  }): Promise<CombinedMergeSettings> {
+    const merged = parseCombinedMergeSettings(next, await this.getCombinedMergeSettings());
+    const value = JSON.stringify(merged);
+    await this.prisma.serverSetting.upsert({
+      where: { key: KEY_COMBINED_MERGE },
+      create: { key: KEY_COMBINED_MERGE, value },
+      update: { value }
+    });
+    this.cachedCombinedMerge = { settings: merged, expiresAtMs: Date.now() + Math.max(250, REFRESH_MS) };
+    return merged;
+  }
+}
@@ -12,6 +12,7 @@ export interface OperationParams {
   max_depth?: number;
   limit?: number;
   model?: 'mini' | 'pro' | 'auto';
+  auto_parameters?: boolean;
 }
 
 interface CreditCost {
@@ -57,6 +58,12 @@ function calculateSearchCost(params: OperationParams): CreditCost {
     return { min: 2, max: 2, estimated: 2 };
   }
 
+  // auto_parameters may pick advanced depth unless the caller pinned search_depth;
+  // topic, include_answer and chunks_per_source do not change the price.
+  if (params.auto_parameters === true && !params.search_depth) {
+    return { min: 1, max: 2, estimated: 2 };
+  }
+
   return { min: 1, max: 1, estimated: 1 };
 }
 
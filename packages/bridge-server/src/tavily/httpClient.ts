@@ -1,12 +1,12 @@
 import { TavilyHttpError } from '@mcp-nexus/core';
 
 type TavilyHttpClient = {
-  search: (payload: Record<string, unknown>) => Promise<any>;
-  extract: (payload: Record<string, unknown>) => Promise<any>;
-  crawl: (payload: Record<string, unknown>) => Promise<any>;
-  map: (payload: Record<string, unknown>) => Promise<any>;
-  researchStart: (payload: Record<string, unknown>) => Promise<any>;
-  researchPoll: (requestId: string) => Promise<any>;
+  search: (payload: Record<string, unknown>, signal?: AbortSignal) => Promise<any>;
+  extract: (payload: Record<string, unknown>, signal?: AbortSignal) => Promise<any>;
+  crawl: (payload: Record<string, unknown>, signal?: AbortSignal) => Promise<any>;
+  map: (payload: Record<string, unknown>, signal?: AbortSignal) => Promise<any>;
+  researchStart: (payload: Record<string, unknown>, signal?: AbortSignal) => Promise<any>;
+  researchPoll: (requestId: string, signal?: AbortSignal) => Promise<any>;
 };
 
 const baseUrls = {
@@ -19,33 +19,35 @@ const baseUrls = {
 
 export function createTavilyHttpClient(apiKey: string): TavilyHttpClient {
   return {
-    search: (payload) => postJson(baseUrls.search, payload, apiKey),
-    extract: (payload) => postJson(baseUrls.extract, payload, apiKey),
-    crawl: (payload) => postJson(baseUrls.crawl, payload, apiKey),
-    map: (payload) => postJson(baseUrls.map, payload, apiKey),
-    researchStart: (payload) => postJson(baseUrls.research, payload, apiKey),
-    researchPoll: (requestId) => getJson(`${baseUrls.research}/${encodeURIComponent(requestId)}`, apiKey)
+    search: (payload, signal) => postJson(baseUrls.search, payload, apiKey, signal),
+    extract: (payload, signal) => postJson(baseUrls.extract, payload, apiKey, signal),
+    crawl: (payload, signal) => postJson(baseUrls.crawl, payload, apiKey, signal),
+    map: (payload, signal) => postJson(baseUrls.map, payload, apiKey, signal),
+    researchStart: (payload, signal) => postJson(baseUrls.research, payload, apiKey, signal),
+    researchPoll: (requestId, signal) => getJson(`${baseUrls.research}/${encodeURIComponent(requestId)}`, apiKey, signal)
   };
 }
 
-async function postJson(url: string, body: Record<string, unknown>, apiKey: string): Promise<any> {
+async function postJson(url: string, body: Record<string, unknown>, apiKey: string, signal?: AbortSignal): Promise<any> {
   const res = await fetch(url, {
     method: 'POST',
     headers: {
       'content-type': 'application/json',
       'Authorization': `Bearer ${apiKey}`
     },
-    body: JSON.stringify(body)
+    body: JSON.stringify(body),
+    signal
   });
   return parseOrThrow(res);
 }
 
-async function getJson(url: string, apiKey: string): Promise<any> {
+async function getJson(url: string, apiKey: string, signal?: AbortSignal): Promise<any> {
   const res = await fetch(url, {
     method: 'GET',
     headers: {
       'Authorization': `Bearer ${apiKey}`
-    }
+    },
+    signal
   });
   return parseOrThrow(res);
 }
@@ -1,5 +1,10 @@
 import type { PrismaClient, TavilyKey } from '@mcp-nexus/db';
-import { orderKeyCandidates, type TavilyKeySelectionStrategy } from '@mcp-nexus/core';
+import {
+  isLoadAwareKeySelectionStrategy,
+  KeyInFlightCounter,
+  orderKeyCandidates,
+  type TavilyKeySelectionStrategy
+} from '@mcp-nexus/core';
 import { decryptAes256Gcm } from '../crypto/crypto.js';
 import { fetchTavilyCredits, releaseCreditsRefreshLock, tryAcquireCreditsRefreshLock } from './credits.js';
 import { calculateOperationCost, isExpensiveOperation, type OperationType, type OperationParams } from './creditCosts.js';
@@ -36,6 +41,7 @@ export class TavilyKeyPool {
   private readonly encryptionKey: Buffer;
   private readonly getSelectionStrategy: () => Promise<TavilyKeySelectionStrategy>;
   private readonly mutex = new Mutex();
+  private readonly inFlight = new KeyInFlightCounter();
 
   constructor(opts: { prisma: PrismaClient; encryptionKey: Buffer; getSelectionStrategy: () => Promise<TavilyKeySelectionStrategy> }) {
     this.prisma = opts.prisma;
@@ -109,6 +115,7 @@ export class TavilyKeyPool {
     return { ok: false, status: 503, error: 'Unable to refresh upstream credits', retryAfterMs: 10_000 };
   }
 
+  /** The returned key counts as in flight for `least_in_flight` until it is passed to `releaseKey`. */
   async selectEligibleKey(
     operation?: OperationType,
     params?: OperationParams
@@ -122,14 +129,18 @@ export class TavilyKeyPool {
           OR: [{ cooldownUntil: null }, { cooldownUntil: { lte: now } }]
         },
         orderBy: [{ lastUsedAt: 'asc' }, { createdAt: 'asc' }],
-        take: 10
+        take: isLoadAwareKeySelectionStrategy(selectionStrategy) ? undefined : 10
       });
       if (keys.length === 0) return null;
 
       // Calculate required credits if operation is provided
       const requiredCredits = operation ? calculateOperationCost(operation, params).estimated : CREDITS_MIN_REMAINING;
 
-      for (const candidate of orderKeyCandidates(keys, selectionStrategy)) {
+      const ordered = orderKeyCandidates(keys, selectionStrategy, Math.random, {
+        remaining: (key) => key.creditsRemaining,
+        inFlight: (key) => this.inFlight.get(key.id)
+      });
+      for (const candidate of ordered) {
         const refreshed = await this.refreshCredits(candidate, now, { force: false });
         if (!refreshed.ok) continue;
 
@@ -168,6 +179,7 @@ export class TavilyKeyPool {
           data
         });
         const apiKey = decryptAes256Gcm(Buffer.from(chosen.keyEncrypted), this.encryptionKey);
+        this.inFlight.acquire(chosen.id);
         return { ...chosen, apiKey };
       }
 
@@ -175,6 +187,18 @@ export class TavilyKeyPool {
     });
   }
 
+  releaseKey(keyId: string): void {
+    this.inFlight.release(keyId);
+  }
+
+  /** Looks up a specific key (e.g. the one a research job is bound to), skipping rotation. */
+  async getKeyById(keyId: string): Promise<EligibleKey | null> {
+    const key = await this.prisma.tavilyKey.findUnique({ where: { id: keyId } });
+    if (!key || key.status === 'invalid') return null;
+    const apiKey = decryptAes256Gcm(Buffer.from(key.keyEncrypted), this.encryptionKey);
+    return { ...key, apiKey };
+  }
+
   async markCooldown(keyId: string, cooldownUntil: Date): Promise<void> {
     await this.prisma.tavilyKey.update({
       where: { id: keyId },
@@ -1,11 +1,24 @@
-import type { TavilyClient } from '@mcp-nexus/core';
-import type { PrismaClient } from '@mcp-nexus/db';
+import type {
+  TavilyCallOptions,
+  TavilyClient,
+  TavilyProgressCallback,
+  TavilyResearchJob,
+  TavilyResearchJobStatus,
+  TavilyResearchResponse
+} from '@mcp-nexus/core';
+import type { PrismaClient, ResearchJob } from '@mcp-nexus/db';
 import { requestContext } from '../context.js';
 import { createTavilyHttpClient } from './httpClient.js';
 import { TavilyKeyPool } from './keyPool.js';
 import { logTavilyToolUsage } from './usageLog.js';
 import type { OperationType, OperationParams } from './creditCosts.js';
 
+const INITIAL_POLL_INTERVAL = 2000;
+const MAX_POLL_INTERVAL = 10000;
+const POLL_BACKOFF_FACTOR = 1.5;
+const MAX_PRO_MODEL_POLL_DURATION = 900000;
+const MAX_MINI_MODEL_POLL_DURATION = 300000;
+
 export class RotatingTavilyClient implements TavilyClient {
   private readonly pool: TavilyKeyPool;
   private readonly prisma: PrismaClient;
@@ -19,7 +32,7 @@ export class RotatingTavilyClient implements TavilyClient {
     this.fixedCooldownMs = opts.fixedCooldownMs;
   }
 
-  async search(params: Record<string, unknown>, opts: { defaults: Record<string, unknown> }): Promise<any> {
+  async search(params: Record<string, unknown>, opts: { defaults: Record<string, unknown> } & TavilyCallOptions): Promise<any> {
     const merged = applyDefaults({ ...params }, opts.defaults);
 
     // Mimic upstream cleaning behavior
@@ -42,133 +55,163 @@ export class RotatingTavilyClient implements TavilyClient {
       time_range: (cleaned as any).time_range,
       start_date: (cleaned as any).start_date,
       end_date: (cleaned as any).end_date,
+      days: (cleaned as any).days,
+      auto_parameters: (cleaned as any).auto_parameters,
       max_results: (cleaned as any).max_results,
       include_domains_count: Array.isArray((cleaned as any).include_domains) ? (cleaned as any).include_domains.length : 0,
       exclude_domains_count: Array.isArray((cleaned as any).exclude_domains) ? (cleaned as any).exclude_domains.length : 0,
-      country: (cleaned as any).country
+      country: (cleaned as any).country,
+      // Set on hedged searches; a hedge that lost is logged as cancelled.
+      hedge: opts.hedge
     } as Record<string, unknown>;
-    return await this.withRotation('tavily_search', 'search', { search_depth: (cleaned as any).search_depth }, { query, argsSummary }, (client) => client.search(cleaned));
+    return await this.withRotation('tavily_search', 'search', { search_depth: (cleaned as any).search_depth, auto_parameters: (cleaned as any).auto_parameters }, { query, argsSummary, signal: opts.signal }, (client) => client.search(cleaned, opts.signal));
   }
 
-  async extract(params: Record<string, unknown>): Promise<any> {
+  async extract(params: Record<string, unknown>, opts?: TavilyCallOptions): Promise<any> {
     const urls = Array.isArray((params as any).urls) ? (params as any).urls : [];
     const argsSummary = { urls_count: Array.isArray(urls) ? urls.length : 0, extract_depth: (params as any).extract_depth, format: (params as any).format };
-    return await this.withRotation('tavily_extract', 'extract', { extract_depth: (params as any).extract_depth, urls }, { argsSummary }, (client) => client.extract(params));
+    return await this.withRotation('tavily_extract', 'extract', { extract_depth: (params as any).extract_depth, urls }, { argsSummary, signal: opts?.signal }, (client) => client.extract(params, opts?.signal));
   }
 
-  async crawl(params: Record<string, unknown>): Promise<any> {
+  async crawl(params: Record<string, unknown>, opts?: TavilyCallOptions): Promise<any> {
     const url = typeof (params as any).url === 'string' ? String((params as any).url) : undefined;
     const argsSummary = { url, max_depth: (params as any).max_depth, limit: (params as any).limit };
-    return await this.withRotation('tavily_crawl', 'crawl', { extract_depth: (params as any).extract_depth, limit: (params as any).limit, max_depth: (params as any).max_depth }, { argsSummary }, (client) => client.crawl(params));
+    return await this.withRotation('tavily_crawl', 'crawl', { extract_depth: (params as any).extract_depth, limit: (params as any).limit, max_depth: (params as any).max_depth }, { argsSummary, signal: opts?.signal }, (client) => client.crawl(params, opts?.signal));
   }
 
-  async map(params: Record<string, unknown>): Promise<any> {
+  async map(params: Record<string, unknown>, opts?: TavilyCallOptions): Promise<any> {
     const url = typeof (params as any).url === 'string' ? String((params as any).url) : undefined;
     const argsSummary = { url, max_depth: (params as any).max_depth, limit: (params as any).limit };
-    return await this.withRotation('tavily_map', 'map', { limit: (params as any).limit, max_depth: (params as any).max_depth }, { argsSummary }, (client) => client.map(params));
+    return await this.withRotation('tavily_map', 'map', { limit: (params as any).limit, max_depth: (params as any).max_depth }, { argsSummary, signal: opts?.signal }, (client) => client.map(params, opts?.signal));
   }
 
-  async research(params: { input: string; model?: 'mini' | 'pro' | 'auto' } & Record<string, unknown>): Promise<any> {
-    const INITIAL_POLL_INTERVAL = 2000;
-    const MAX_POLL_INTERVAL = 10000;
-    const POLL_BACKOFF_FACTOR = 1.5;
-    const MAX_PRO_MODEL_POLL_DURATION = 900000;
-    const MAX_MINI_MODEL_POLL_DURATION = 300000;
-
-    const maxPollDuration = params.model === 'mini' ? MAX_MINI_MODEL_POLL_DURATION : MAX_PRO_MODEL_POLL_DURATION;
+  async research(
+    params: { input: string; model?: 'mini' | 'pro' | 'auto' } & Record<string, unknown>,
+    opts?: { onProgress?: TavilyProgressCallback } & TavilyCallOptions
+  ): Promise<any> {
+    const maxPollDuration = researchMaxPollDuration(params.model);
+    const signal = opts?.signal;
 
     // Start phase can rotate keys if it fails before request_id is issued.
     let attempt = 0;
     while (attempt <= this.maxRetries) {
       attempt += 1;
+      signal?.throwIfAborted();
       const key = await this.pool.selectEligibleKey('research', { model: params.model });
       if (!key) return { error: 'No request_id returned from research endpoint' };
 
       const client = createTavilyHttpClient(key.apiKey);
+      const startedAt = Date.now();
+      let requestId: unknown;
+      let job: ResearchJob | undefined;
+      // Results and errors carry the job id, so the caller can still read the job after an interruption.
+      const withJobId = (response: TavilyResearchResponse): TavilyResearchResponse => (job ? { ...response, job_id: job.id } : response);
+      // The status tools may finish the job first; only the call that moves it out of `running` logs usage.
+      const settle = async (status: TavilyResearchJobStatus, data: { resultJson?: any; errorMessage?: string }) =>
+        !job || (await this.finishResearchJob(job, status, data));
       try {
-        const startedAt = Date.now();
-        const start = await client.researchStart({ input: params.input, model: params.model || 'auto' });
-        const requestId = start?.request_id;
+        const start = await client.researchStart({ input: params.input, model: params.model || 'auto' }, signal);
+        requestId = start?.request_id;
         if (!requestId) return { error: 'No request_id returned from research endpoint' };
 
-        // Persist job->key binding for audit/debug (and future resumability).
+        // Persist the job->key binding so an interrupted call can be picked up with the job tools.
         const ctx = requestContext.getStore();
         if (ctx) {
-          await this.prisma.researchJob.create({
+          job = await this.prisma.researchJob.create({
             data: {
               clientTokenId: ctx.clientTokenId,
               upstreamKeyId: key.id,
               upstreamJobId: String(requestId),
-              status: 'running'
+              status: 'running',
+              model: params.model || 'auto'
             }
           });
         }
 
         let pollInterval = INITIAL_POLL_INTERVAL;
         let totalElapsed = 0;
+        let polls = 0;
 
         while (totalElapsed < maxPollDuration) {
-          await sleep(pollInterval);
+          await sleep(pollInterval, signal);
           totalElapsed += pollInterval;
           try {
-            const poll = await client.researchPoll(String(requestId));
+            const poll = await client.researchPoll(String(requestId), signal);
             const status = poll?.status;
+            polls += 1;
+            opts?.onProgress?.({ elapsedMs: Date.now() - startedAt, polls, status: String(status ?? 'pending'), ...(job ? { jobId: job.id } : {}) });
             if (status === 'completed') {
               const content = poll?.content;
-              await this.prisma.researchJob.update({
-                where: { upstreamJobId: String(requestId) },
-                data: { status: 'completed' }
-              });
-              void logTavilyToolUsage(this.prisma, {
-                toolName: 'tavily_research',
-                upstreamKeyId: key.id,
-                outcome: 'success',
-                latencyMs: Date.now() - startedAt,
-                query: params.input,
-                argsSummary: { model: params.model || 'auto' }
-              }).catch(() => {});
-              return { content: content || '' };
+              const result = { content: content || '', ...(Array.isArray(poll?.sources) ? { sources: poll.sources } : {}) };
+              if (await settle('completed', { resultJson: result })) {
+                void logTavilyToolUsage(this.prisma, {
+                  toolName: 'tavily_research',
+                  upstreamKeyId: key.id,
+                  outcome: 'success',
+                  latencyMs: Date.now() - startedAt,
+                  query: params.input,
+                  argsSummary: { model: params.model || 'auto' }
+                }).catch(() => {});
+              }
+              return withJobId(result);
             }
             if (status === 'failed') {
-              await this.prisma.researchJob.update({
-                where: { upstreamJobId: String(requestId) },
-                data: { status: 'failed' }
-              });
-              void logTavilyToolUsage(this.prisma, {
-                toolName: 'tavily_research',
-                upstreamKeyId: key.id,
-                outcome: 'error',
-                latencyMs: Date.now() - startedAt,
-                query: params.input,
-                argsSummary: { model: params.model || 'auto' },
-                errorMessage: 'Research task failed'
-              }).catch(() => {});
-              return { error: 'Research task failed' };
+              if (await settle('failed', { errorMessage: 'Research task failed' })) {
+                void logTavilyToolUsage(this.prisma, {
+                  toolName: 'tavily_research',
+                  upstreamKeyId: key.id,
+                  outcome: 'error',
+                  latencyMs: Date.now() - startedAt,
+                  query: params.input,
+                  argsSummary: { model: params.model || 'auto' },
+                  errorMessage: 'Research task failed'
+                }).catch(() => {});
+              }
+              return withJobId({ error: 'Research task failed' });
             }
           } catch (pollError: any) {
             if (pollError?.status === 404) {
-              return { error: 'Research task not found' };
+              await settle('failed', { errorMessage: 'Research task not found' });
+              return withJobId({ error: 'Research task not found' });
             }
             throw pollError;
           }
           pollInterval = Math.min(pollInterval * POLL_BACKOFF_FACTOR, MAX_POLL_INTERVAL);
         }
 
-        await this.prisma.researchJob.update({
-          where: { upstreamJobId: String(requestId) },
-          data: { status: 'timed_out' }
-        });
-        void logTavilyToolUsage(this.prisma, {
-          toolName: 'tavily_research',
-          upstreamKeyId: key.id,
-          outcome: 'error',
-          latencyMs: Date.now() - startedAt,
-          query: params.input,
-          argsSummary: { model: params.model || 'auto' },
-          errorMessage: 'Research task timed out'
-        }).catch(() => {});
-        return { error: 'Research task timed out' };
+        if (await settle('timed_out', { errorMessage: 'Research task timed out' })) {
+          void logTavilyToolUsage(this.prisma, {
+            toolName: 'tavily_research',
+            upstreamKeyId: key.id,
+            outcome: 'error',
+            latencyMs: Date.now() - startedAt,
+            query: params.input,
+            argsSummary: { model: params.model || 'auto' },
+            errorMessage: 'Research task timed out'
+          }).catch(() => {});
+        }
+        return withJobId({ error: 'Research task timed out' });
       } catch (err: any) {
+        if (signal?.aborted) {
+          // The client cancelled the call: stop polling and record it, without rotating keys.
+          if (requestId) {
+            await this.prisma.researchJob
+              .updateMany({
+                where: { upstreamJobId: String(requestId), status: 'running' },
+                data: { status: 'cancelled', errorMessage: 'Research task cancelled', completedAt: new Date() }
+              })
+              .catch(() => {});
+          }
+          void logTavilyToolUsage(this.prisma, {
+            toolName: 'tavily_research',
+            upstreamKeyId: key.id,
+            outcome: 'cancelled',
+            latencyMs: Date.now() - startedAt,
+            query: params.input,
+            argsSummary: { model: params.model || 'auto' }
+          }).catch(() => {});
+          throw err;
+        }
         // Respect upstream-style errors
         if (err?.message === 'Invalid API key') {
           await this.pool.markInvalid(key.id);
@@ -186,23 +229,179 @@ export class RotatingTavilyClient implements TavilyClient {
           argsSummary: { model: params.model || 'auto' },
           errorMessage: err instanceof Error ? err.message : String(err)
         }).catch(() => {});
+        if (job) {
+          // The upstream task keeps running; point the caller at the job instead of losing it.
+          const message = err instanceof Error ? err.message : String(err);
+          throw new Error(`${message} (research job ${job.id} is still running; check it with tavily_research_status)`, { cause: err });
+        }
         throw err;
+      } finally {
+        this.pool.releaseKey(key.id);
       }
     }
 
     return { error: 'No request_id returned from research endpoint' };
   }
 
+  /**
+   * Starts an upstream research task without waiting for it. The job is bound to the key that
+   * started it (polling must use the same key) and to the calling client token.
+   */
+  async startResearchJob(
+    params: { input: string; model?: 'mini' | 'pro' | 'auto' } & Record<string, unknown>,
+    opts?: TavilyCallOptions
+  ): Promise<TavilyResearchJob> {
+    const ctx = requestContext.getStore();
+    if (!ctx) throw new Error('Research jobs require an authenticated client token');
+
+    const model = params.model || 'auto';
+    const started = await this.withRotation(
+      'tavily_research_start',
+      'research',
+      { model: params.model },
+      { query: params.input, argsSummary: { model }, signal: opts?.signal },
+      async (client, keyId) => ({ keyId, start: await client.researchStart({ input: params.input, model }, opts?.signal) })
+    );
+    const requestId = started.start?.request_id;
+    if (!requestId) throw new Error('No request_id returned from research endpoint');
+
+    const row = await this.prisma.researchJob.create({
+      data: {
+        clientTokenId: ctx.clientTokenId,
+        upstreamKeyId: started.keyId,
+        upstreamJobId: String(requestId),
+        status: 'running',
+        model
+      }
+    });
+    return toResearchJob(row);
+  }
+
+  /**
+   * Returns a job owned by the calling client token, or null. A running job is polled once with
+   * its bound key and the outcome is persisted, so later calls do not hit upstream again.
+   */
+  async getResearchJob(jobId: string): Promise<TavilyResearchJob | null> {
+    const ctx = requestContext.getStore();
+    if (!ctx) return null;
+
+    const row = await this.prisma.researchJob.findFirst({ where: { id: jobId, clientTokenId: ctx.clientTokenId } });
+    if (!row) return null;
+    if (row.status !== 'running') return toResearchJob(row);
+
+    return toResearchJob(await this.pollResearchJob(row));
+  }
+
+  /**
+   * Picks up jobs left `running` by a previous process (e.g. after a restart) and keeps polling
+   * each one with its bound key in the background until it finishes. Returns how many were resumed.
+   */
+  async resumeResearchJobs(): Promise<number> {
+    const rows = await this.prisma.researchJob.findMany({ where: { status: 'running' } });
+    for (const row of rows) {
+      void this.pollResearchJobUntilDone(row).catch((err) => {
+        // eslint-disable-next-line no-console
+        console.error(`Failed to resume research job ${row.id}:`, err instanceof Error ? err.message : err);
+      });
+    }
+    return rows.length;
+  }
+
+  private async pollResearchJobUntilDone(row: ResearchJob): Promise<ResearchJob> {
+    let current = row;
+    let pollInterval = INITIAL_POLL_INTERVAL;
+    while (current.status === 'running') {
+      await sleep(pollInterval);
+      try {
+        current = await this.pollResearchJob(current);
+      } catch (err) {
+        // Transient upstream errors are retried until the job's poll window runs out.
+        if (Date.now() - current.createdAt.getTime() >= researchMaxPollDuration(current.model)) {
+          const message = err instanceof Error ? err.message : String(err);
+          await this.finishResearchJob(current, 'timed_out', { errorMessage: `Research task timed out: ${message}` });
+          current = await this.reloadResearchJob(current);
+        }
+      }
+      pollInterval = Math.min(pollInterval * POLL_BACKOFF_FACTOR, MAX_POLL_INTERVAL);
+    }
+    return current;
+  }
+
+  /**
+   * Moves a running job to its final status. `getResearchJob`, the background poller and the
+   * sync call can all see the same upstream completion, so the write only applies while the job
+   * is still running; returns whether this caller made the transition (and should log usage).
+   */
+  private async finishResearchJob(
+    row: ResearchJob,
+    status: TavilyResearchJobStatus,
+    data: { resultJson?: any; errorMessage?: string }
+  ): Promise<boolean> {
+    const { count } = await this.prisma.researchJob.updateMany({
+      where: { id: row.id, status: 'running' },
+      data: { status, ...data, completedAt: new Date() }
+    });
+    return count > 0;
+  }
+
+  private async reloadResearchJob(row: ResearchJob): Promise<ResearchJob> {
+    return (await this.prisma.researchJob.findUnique({ where: { id: row.id } })) ?? row;
+  }
+
+  private async pollResearchJob(row: ResearchJob): Promise<ResearchJob> {
+    const finish = async (status: TavilyResearchJobStatus, data: { resultJson?: any; errorMessage?: string }) => {
+      await this.finishResearchJob(row, status, data);
+      return await this.reloadResearchJob(row);
+    };
+
+    const key = await this.pool.getKeyById(row.upstreamKeyId);
+    if (!key) return await finish('failed', { errorMessage: 'Upstream key for this research job is no longer available' });
+
+    const client = createTavilyHttpClient(key.apiKey);
+    let poll: any;
+    try {
+      poll = await client.researchPoll(row.upstreamJobId);
+    } catch (err: any) {
+      if (err?.status === 404) return await finish('failed', { errorMessage: 'Research task not found' });
+      throw err;
+    }
+
+    if (poll?.status === 'completed') {
+      const result: TavilyResearchResponse = {
+        content: poll?.content || '',
+        ...(Array.isArray(poll?.sources) ? { sources: poll.sources } : {})
+      };
+      if (await this.finishResearchJob(row, 'completed', { resultJson: result })) {
+        void logTavilyToolUsage(this.prisma, {
+          toolName: 'tavily_research',
+          upstreamKeyId: key.id,
+          outcome: 'success',
+          latencyMs: Date.now() - row.createdAt.getTime(),
+          argsSummary: { model: row.model ?? 'auto', job: true }
+        }).catch(() => {});
+      }
+      return await this.reloadResearchJob(row);
+    }
+    if (poll?.status === 'failed') {
+      return await finish('failed', { errorMessage: 'Research task failed' });
+    }
+    if (Date.now() - row.createdAt.getTime() >= researchMaxPollDuration(row.model)) {
+      return await finish('timed_out', { errorMessage: 'Research task timed out' });
+    }
+    return row;
+  }
+
   private async withRotation<T>(
     toolName: string,
     operation: OperationType,
     operationParams: OperationParams,
-    meta: { query?: string; argsSummary?: Record<string, unknown> },
-    fn: (client: ReturnType<typeof createTavilyHttpClient>) => Promise<T>
+    meta: { query?: string; argsSummary?: Record<string, unknown>; signal?: AbortSignal },
+    fn: (client: ReturnType<typeof createTavilyHttpClient>, keyId: string) => Promise<T>
   ): Promise<T> {
     let attempt = 0;
     while (attempt <= this.maxRetries) {
       attempt += 1;
+      meta.signal?.throwIfAborted();
       const key = await this.pool.selectEligibleKey(operation, operationParams);
       if (!key) {
         void logTavilyToolUsage(this.prisma, {
@@ -216,9 +415,9 @@ export class RotatingTavilyClient implements TavilyClient {
         throw new Error('Usage limit exceeded');
       }
       const client = createTavilyHttpClient(key.apiKey);
+      const startedAt = Date.now();
       try {
-        const startedAt = Date.now();
-        const result = await fn(client);
+        const result = await fn(client, key.id);
         void logTavilyToolUsage(this.prisma, {
           toolName,
           upstreamKeyId: key.id,
@@ -229,6 +428,17 @@ export class RotatingTavilyClient implements TavilyClient {
         }).catch(() => {});
         return result;
       } catch (err: any) {
+        if (meta.signal?.aborted) {
+          void logTavilyToolUsage(this.prisma, {
+            toolName,
+            upstreamKeyId: key.id,
+            outcome: 'cancelled',
+            latencyMs: Date.now() - startedAt,
+            query: meta.query,
+            argsSummary: { ...(meta.argsSummary ?? {}), attempts: attempt }
+          }).catch(() => {});
+          throw err;
+        }
         if (err?.message === 'Invalid API key') {
           await this.pool.markInvalid(key.id);
           continue;
@@ -246,6 +456,8 @@ export class RotatingTavilyClient implements TavilyClient {
           errorMessage: err instanceof Error ? err.message : String(err)
         }).catch(() => {});
         throw err;
+      } finally {
+        this.pool.releaseKey(key.id);
       }
     }
     throw new Error('Usage limit exceeded');
@@ -261,6 +473,40 @@ function applyDefaults(target: Record<string, unknown>, defaults: Record<string,
   return target;
 }
 
-function sleep(ms: number) {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function researchMaxPollDuration(model: unknown): number {
+  return model === 'mini' ? MAX_MINI_MODEL_POLL_DURATION : MAX_PRO_MODEL_POLL_DURATION;
+}
+
+function toResearchJob(row: ResearchJob): TavilyResearchJob {
+  const job: TavilyResearchJob = {
+    job_id: row.id,
+    status: row.status as TavilyResearchJobStatus,
+    created_at: row.createdAt.toISOString(),
+    updated_at: row.updatedAt.toISOString()
+  };
+  if (row.model) job.model = row.model;
+  if (row.status === 'completed') {
+    job.result = (row.resultJson as TavilyResearchResponse | null) ?? { content: '' };
+  } else if (row.status !== 'running') {
+    job.result = { error: row.errorMessage ?? `Research task ${row.status}` };
+  }
+  return job;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
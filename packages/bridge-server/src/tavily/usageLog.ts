@@ -100,7 +100,7 @@ export async function maybeCleanupOldUsageRows(prisma: PrismaClient): Promise<vo
 export async function logTavilyToolUsage(prisma: PrismaClient, input: {
   toolName: string;
   upstreamKeyId?: string | null;
-  outcome: 'success' | 'error';
+  outcome: 'success' | 'error' | 'cancelled' | 'invalid_params';
   latencyMs?: number;
   query?: string;
   argsSummary?: Record<string, unknown>;
@@ -116,7 +116,7 @@ export async function logTavilyToolUsage(prisma: PrismaClient, input: {
 
   await prisma.tavilyToolUsage.create({
     data: {
-      toolName: input.toolName,
+      toolName: ctx.virtualTool?.name ?? input.toolName,
       outcome: input.outcome,
       latencyMs: typeof input.latencyMs === 'number' ? Math.max(0, Math.floor(input.latencyMs)) : null,
       clientTokenId: ctx.clientTokenId,
@@ -30,6 +30,20 @@ describe('hasTavilyToolsCallRequest', () => {
     expect(hasTavilyToolsCallRequest(body)).toBe(false);
   });
 
+  it('returns false for research job status/result reads', () => {
+    const body = {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: {
+        name: 'tavily_research_result',
+        arguments: { job_id: 'job-1' }
+      }
+    };
+
+    expect(hasTavilyToolsCallRequest(body)).toBe(false);
+  });
+
   it('returns false for non-tools/call request', () => {
     const body = {
       jsonrpc: '2.0',
@@ -90,4 +104,26 @@ describe('hasTavilyToolsCallRequest', () => {
 
     expect(hasTavilyToolsCallRequest(body)).toBe(false);
   });
+
+  it('treats a virtual tool call like a call to its base tool', () => {
+    const body = {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: {
+        name: 'internal_docs_search',
+        arguments: { query: 'hello' }
+      }
+    };
+    const virtualTool = {
+      name: 'internal_docs_search',
+      description: 'Search the internal docs',
+      baseTool: 'tavily_search',
+      presetArguments: {},
+      exposedArguments: ['query']
+    };
+
+    expect(hasTavilyToolsCallRequest(body)).toBe(false);
+    expect(hasTavilyToolsCallRequest(body, [virtualTool])).toBe(true);
+  });
 });
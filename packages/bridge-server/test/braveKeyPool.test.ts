@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BraveKeyPool } from '../src/brave/keyPool.js';
+import { encryptAes256Gcm } from '../src/crypto/crypto.js';
+import type { BraveKey, PrismaClient } from '@mcp-nexus/db';
+
+describe('BraveKeyPool', () => {
+  let mockPrisma: any;
+  let keyPool: BraveKeyPool;
+  let keys: Partial<BraveKey>[];
+
+  beforeEach(() => {
+    const encryptionKey = Buffer.from('0'.repeat(64), 'hex');
+    const now = new Date();
+    keys = ['key_1', 'key_2', 'key_3'].map((id, i) => ({
+      id,
+      keyEncrypted: encryptAes256Gcm(`BSA-test${i}`, encryptionKey),
+      status: 'active',
+      failureScore: id === 'key_1' ? 0 : 1,
+      maxQps: null,
+      burst: null,
+      lastUsedAt: now,
+      createdAt: now
+    }));
+
+    mockPrisma = {
+      braveKey: {
+        findMany: vi.fn(async () => keys),
+        update: vi.fn(async ({ where }: any) => keys.find((k) => k.id === where.id))
+      }
+    };
+
+    keyPool = new BraveKeyPool({
+      prisma: mockPrisma as unknown as PrismaClient,
+      encryptionKey,
+      getSelectionStrategy: async () => 'round_robin' as const
+    });
+  });
+
+  it('prefers the lowest failure score when every key can start at once', async () => {
+    const result = await keyPool.selectEligibleKey({ startDelayMs: () => 0 });
+    expect(result?.id).toBe('key_1');
+    expect(result?.apiKey).toBe('BSA-test0');
+  });
+
+  it('picks the key whose rate gate can start soonest', async () => {
+    const delays: Record<string, number> = { key_1: 900, key_2: 300, key_3: 0 };
+    const result = await keyPool.selectEligibleKey({ startDelayMs: (key) => delays[key.id]! });
+    expect(result?.id).toBe('key_3');
+  });
+
+  it('spreads concurrent calls across keys with least_in_flight until they are released', async () => {
+    const pool = new BraveKeyPool({
+      prisma: mockPrisma as unknown as PrismaClient,
+      encryptionKey: Buffer.from('0'.repeat(64), 'hex'),
+      getSelectionStrategy: async () => 'least_in_flight' as const
+    });
+    keys = keys.map((key) => ({ ...key, failureScore: 0 }));
+
+    const first = await pool.selectEligibleKey();
+    const second = await pool.selectEligibleKey();
+    expect([first?.id, second?.id]).toEqual(['key_1', 'key_2']);
+
+    pool.releaseKey('key_1');
+    expect((await pool.selectEligibleKey())?.id).toBe('key_1');
+  });
+
+  it('drains the key with the least monthly quota first with drain_first', async () => {
+    const pool = new BraveKeyPool({
+      prisma: mockPrisma as unknown as PrismaClient,
+      encryptionKey: Buffer.from('0'.repeat(64), 'hex'),
+      getSelectionStrategy: async () => 'drain_first' as const
+    });
+    const resetAt = new Date(Date.now() + 86_400_000);
+    keys = keys.map((key, i) => ({ ...key, failureScore: 0, quotaLimit: 2000, quotaRemaining: [1500, 40, 900][i]!, quotaResetAt: resetAt }));
+
+    expect((await pool.selectEligibleKey())?.id).toBe('key_2');
+  });
+
+  it('reactivates a key whose cooldown has passed when it is picked', async () => {
+    keys = [{ ...keys[0]!, status: 'cooldown', cooldownUntil: new Date(Date.now() - 1000) }];
+    const result = await keyPool.selectEligibleKey();
+    expect(result?.id).toBe('key_1');
+    expect(mockPrisma.braveKey.update).toHaveBeenCalledWith({
+      where: { id: 'key_1' },
+      data: expect.objectContaining({ status: 'active', cooldownUntil: null })
+    });
+  });
+
+  it('stores the monthly window of the rate-limit headers', async () => {
+    await keyPool.recordQuota('key_2', {
+      perSecond: { limit: 1, remaining: 0, resetMs: 1000 },
+      monthly: { limit: 2000, remaining: 0, resetMs: 60_000 }
+    });
+    const { data } = mockPrisma.braveKey.update.mock.calls[0][0];
+    expect(data).toMatchObject({ quotaLimit: 2000, quotaRemaining: 0 });
+    expect(data.quotaResetAt.getTime() - data.quotaCheckedAt.getTime()).toBe(60_000);
+  });
+});
@@ -43,6 +43,11 @@ interface ClientTokenResponse {
   description: string | null;
   allowedTools: string[] | null;
   rateLimit: number | null;
+  defaultParameters: Record<string, unknown> | null;
+  searchSourceMode: string | null;
+  braveOverflow: string | null;
+  researchEnabled: boolean | null;
+  maxOutputChars: number | null;
   revokedAt: string | null;
   expiresAt: string | null;
   createdAt: string;
@@ -53,6 +58,11 @@ interface CreateTokenRequest {
   expiresInSeconds?: number;
   allowedTools?: string[];
   rateLimit?: number;
+  defaultParameters?: Record<string, unknown>;
+  searchSourceMode?: string | null;
+  braveOverflow?: string | null;
+  researchEnabled?: boolean | null;
+  maxOutputChars?: number | null;
 }
 
 interface CreateTokenResponse {
@@ -60,6 +70,18 @@ interface CreateTokenResponse {
   token: string;
 }
 
+interface VirtualToolResponse {
+  id: string;
+  name: string;
+  description: string;
+  baseTool: string;
+  presetArguments: Record<string, unknown>;
+  exposedArguments: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 describe('Admin API Contract Tests', () => {
   describe('Response Structure Contracts', () => {
     it('server-info response should have consistent structure', () => {
@@ -153,6 +175,11 @@ describe('Admin API Contract Tests', () => {
         description: 'Test Token',
         allowedTools: ['tavily_search'],
         rateLimit: 100,
+        defaultParameters: { search_depth: 'advanced' },
+        searchSourceMode: 'brave_only',
+        braveOverflow: 'error',
+        researchEnabled: false,
+        maxOutputChars: 20000,
         revokedAt: null,
         expiresAt: null,
         createdAt: '2026-01-01T00:00:00.000Z'
@@ -164,6 +191,11 @@ describe('Admin API Contract Tests', () => {
         description: 'Test Token',
         allowedTools: ['tavily_search'],
         rateLimit: 100,
+        defaultParameters: { search_depth: 'advanced' },
+        searchSourceMode: 'brave_only',
+        braveOverflow: 'error',
+        researchEnabled: false,
+        maxOutputChars: 20000,
         revokedAt: null,
         expiresAt: null,
         createdAt: '2026-01-01T00:00:00.000Z'
@@ -179,19 +211,60 @@ describe('Admin API Contract Tests', () => {
       expect(workerToken).toHaveProperty('rateLimit');
     });
 
+    it('virtual-tools list response should have consistent structure', () => {
+      const nodeTool: VirtualToolResponse = {
+        id: 'vt_123',
+        name: 'internal_docs_search',
+        description: 'Search the internal docs',
+        baseTool: 'tavily_search',
+        presetArguments: { include_domains: ['docs.example.com'] },
+        exposedArguments: ['query', 'max_results'],
+        enabled: true,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z'
+      };
+
+      const workerTool: VirtualToolResponse = {
+        id: 'vt_456',
+        name: 'internal_docs_search',
+        description: 'Search the internal docs',
+        baseTool: 'tavily_search',
+        presetArguments: { include_domains: ['docs.example.com'] },
+        exposedArguments: ['query', 'max_results'],
+        enabled: true,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z'
+      };
+
+      expect(Object.keys(nodeTool).sort()).toEqual(Object.keys(workerTool).sort());
+      // D1 stores presets as TEXT; both runtimes return them parsed.
+      expect(typeof workerTool.presetArguments).toBe('object');
+      expect(typeof workerTool.enabled).toBe('boolean');
+    });
+
     it('create-token request should accept consistent parameters', () => {
       const nodeRequest: CreateTokenRequest = {
         description: 'Test Token',
         expiresInSeconds: 3600,
         allowedTools: ['tavily_search', 'brave_web_search'],
-        rateLimit: 120
+        rateLimit: 120,
+        defaultParameters: { include_domains: ['docs.example.com'] },
+        searchSourceMode: 'combined',
+        braveOverflow: null,
+        researchEnabled: true,
+        maxOutputChars: null
       };
 
       const workerRequest: CreateTokenRequest = {
         description: 'Test Token',
         expiresInSeconds: 3600,
         allowedTools: ['tavily_search', 'brave_web_search'],
-        rateLimit: 120
+        rateLimit: 120,
+        defaultParameters: { include_domains: ['docs.example.com'] },
+        searchSourceMode: 'combined',
+        braveOverflow: null,
+        researchEnabled: true,
+        maxOutputChars: null
       };
 
       // Verify both accept same parameters
@@ -25,6 +25,12 @@ describe('creditCosts', () => {
       expect(defaultSearch.estimated).toBe(1);
     });
 
+    it('budgets auto_parameters searches for advanced depth unless the depth is pinned', () => {
+      expect(calculateOperationCost('search', { auto_parameters: true })).toEqual({ min: 1, max: 2, estimated: 2 });
+      expect(calculateOperationCost('search', { auto_parameters: true, search_depth: 'basic' }).estimated).toBe(1);
+      expect(calculateOperationCost('search', { auto_parameters: false }).estimated).toBe(1);
+    });
+
     it('calculates extract costs correctly', () => {
       // Basic extract, 1 URL: 0.2 credits
       const basicExtract = calculateOperationCost('extract', { extract_depth: 'basic', urls: ['https://example.com'] });
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const httpClient = {
+  researchStart: vi.fn(),
+  researchPoll: vi.fn()
+};
+
+vi.mock('../src/tavily/httpClient.js', () => ({
+  createTavilyHttpClient: vi.fn(() => httpClient)
+}));
+
+import { RotatingTavilyClient } from '../src/tavily/rotatingClient.js';
+import { requestContext } from '../src/context.js';
+
+function createMemoryPrisma() {
+  const rows = new Map<string, any>();
+  let seq = 0;
+  const researchJob = {
+    create: vi.fn(async ({ data }: any) => {
+      seq += 1;
+      const now = new Date();
+      const row = { id: `job-${seq}`, resultJson: null, errorMessage: null, completedAt: null, model: null, createdAt: now, updatedAt: now, ...data };
+      rows.set(row.id, row);
+      return row;
+    }),
+    findMany: vi.fn(async ({ where }: any) => [...rows.values()].filter((row) => row.status === where.status)),
+    findFirst: vi.fn(async ({ where }: any) => {
+      const row = rows.get(where.id);
+      return row && row.clientTokenId === where.clientTokenId ? row : null;
+    }),
+    findUnique: vi.fn(async ({ where }: any) => rows.get(where.id) ?? null),
+    update: vi.fn(async ({ where, data }: any) => {
+      const row = where.id ? rows.get(where.id) : [...rows.values()].find((r) => r.upstreamJobId === where.upstreamJobId);
+      Object.assign(row, data, { updatedAt: new Date() });
+      return row;
+    }),
+    updateMany: vi.fn(async ({ where, data }: any) => {
+      let count = 0;
+      for (const row of rows.values()) {
+        if (where.id !== undefined && row.id !== where.id) continue;
+        if (where.upstreamJobId !== undefined && row.upstreamJobId !== where.upstreamJobId) continue;
+        if (row.status !== where.status) continue;
+        Object.assign(row, data, { updatedAt: new Date() });
+        count += 1;
+      }
+      return { count };
+    })
+  };
+  return { rows, prisma: { researchJob, tavilyToolUsage: { create: vi.fn(async () => ({})) } } as any };
+}
+
+function createPool() {
+  const key = { id: 'key-1', status: 'active', apiKey: 'tvly-test' };
+  return {
+    selectEligibleKey: vi.fn(async () => key),
+    getKeyById: vi.fn(async (id: string) => (id === key.id ? key : null)),
+    markInvalid: vi.fn(),
+    markCooldown: vi.fn(),
+    releaseKey: vi.fn()
+  } as any;
+}
+
+function asToken<T>(clientTokenId: string, fn: () => Promise<T>): Promise<T> {
+  return requestContext.run({ clientTokenId, clientTokenPrefix: clientTokenId, rawClientToken: 'raw' }, fn);
+}
+
+describe('RotatingTavilyClient research jobs', () => {
+  beforeEach(() => {
+    httpClient.researchStart.mockReset();
+    httpClient.researchPoll.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts a job bound to the key and client token, then stores the finished result', async () => {
+    const { prisma, rows } = createMemoryPrisma();
+    const client = new RotatingTavilyClient({ pool: createPool(), prisma, maxRetries: 1, fixedCooldownMs: 1000 });
+    httpClient.researchStart.mockResolvedValue({ request_id: 'upstream-1' });
+
+    const job = await asToken('token-a', () => client.startResearchJob({ input: 'topic', model: 'mini' }));
+    expect(job).toMatchObject({ job_id: 'job-1', status: 'running', model: 'mini' });
+    expect(rows.get('job-1')).toMatchObject({ clientTokenId: 'token-a', upstreamKeyId: 'key-1', upstreamJobId: 'upstream-1' });
+
+    httpClient.researchPoll.mockResolvedValueOnce({ status: 'in_progress' });
+    expect(await asToken('token-a', () => client.getResearchJob('job-1'))).toMatchObject({ status: 'running' });
+
+    httpClient.researchPoll.mockResolvedValueOnce({ status: 'completed', content: 'report', sources: [{ url: 'https://a.test' }] });
+    const done = await asToken('token-a', () => client.getResearchJob('job-1'));
+    expect(done).toMatchObject({ status: 'completed', result: { content: 'report', sources: [{ url: 'https://a.test' }] } });
+    expect(httpClient.researchPoll).toHaveBeenCalledWith('upstream-1');
+
+    await asToken('token-a', () => client.getResearchJob('job-1'));
+    expect(httpClient.researchPoll).toHaveBeenCalledTimes(2);
+  });
+
+  it('logs usage once when two status checks see the same completion', async () => {
+    const { prisma, rows } = createMemoryPrisma();
+    const client = new RotatingTavilyClient({ pool: createPool(), prisma, maxRetries: 1, fixedCooldownMs: 1000 });
+    httpClient.researchStart.mockResolvedValue({ request_id: 'upstream-1' });
+    httpClient.researchPoll.mockResolvedValue({ status: 'completed', content: 'report' });
+
+    await asToken('token-a', () => client.startResearchJob({ input: 'topic' }));
+    const [first, second] = await asToken('token-a', () => Promise.all([client.getResearchJob('job-1'), client.getResearchJob('job-1')]));
+
+    expect(first).toMatchObject({ status: 'completed', result: { content: 'report' } });
+    expect(second).toMatchObject({ status: 'completed', result: { content: 'report' } });
+    expect(rows.get('job-1')).toMatchObject({ status: 'completed' });
+    const logged = prisma.tavilyToolUsage.create.mock.calls.map((call: any[]) => call[0].data);
+    expect(logged.filter((row: any) => row.toolName === 'tavily_research' && row.outcome === 'success')).toHaveLength(1);
+  });
+
+  it('hides jobs from other client tokens', async () => {
+    const { prisma } = createMemoryPrisma();
+    const client = new RotatingTavilyClient({ pool: createPool(), prisma, maxRetries: 1, fixedCooldownMs: 1000 });
+    httpClient.researchStart.mockResolvedValue({ request_id: 'upstream-1' });
+
+    await asToken('token-a', () => client.startResearchJob({ input: 'topic' }));
+
+    expect(await asToken('token-b', () => client.getResearchJob('job-1'))).toBeNull();
+    expect(httpClient.researchPoll).not.toHaveBeenCalled();
+  });
+
+  it('records upstream failures on the job', async () => {
+    const { prisma } = createMemoryPrisma();
+    const client = new RotatingTavilyClient({ pool: createPool(), prisma, maxRetries: 1, fixedCooldownMs: 1000 });
+    httpClient.researchStart.mockResolvedValue({ request_id: 'upstream-1' });
+    httpClient.researchPoll.mockRejectedValue(Object.assign(new Error('not found'), { status: 404 }));
+
+    await asToken('token-a', () => client.startResearchJob({ input: 'topic' }));
+    const job = await asToken('token-a', () => client.getResearchJob('job-1'));
+
+    expect(job).toMatchObject({ status: 'failed', result: { error: 'Research task not found' } });
+  });
+
+  it('resumes running jobs on startup with their bound key and stores the result', async () => {
+    vi.useFakeTimers();
+    const { prisma, rows } = createMemoryPrisma();
+    const pool = createPool();
+    const client = new RotatingTavilyClient({ pool, prisma, maxRetries: 1, fixedCooldownMs: 1000 });
+    await prisma.researchJob.create({
+      data: { clientTokenId: 'token-a', upstreamKeyId: 'key-1', upstreamJobId: 'upstream-1', status: 'running', model: 'pro' }
+    });
+    await prisma.researchJob.create({
+      data: { clientTokenId: 'token-a', upstreamKeyId: 'key-1', upstreamJobId: 'upstream-2', status: 'completed', model: 'pro' }
+    });
+    httpClient.researchPoll
+      .mockResolvedValueOnce({ status: 'in_progress' })
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce({ status: 'completed', content: 'report' });
+
+    expect(await client.resumeResearchJobs()).toBe(1);
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(pool.getKeyById).toHaveBeenCalledWith('key-1');
+    expect(httpClient.researchPoll).toHaveBeenCalledTimes(3);
+    expect(httpClient.researchPoll).toHaveBeenCalledWith('upstream-1');
+    expect(rows.get('job-1')).toMatchObject({ status: 'completed', resultJson: { content: 'report' } });
+    expect(await asToken('token-a', () => client.getResearchJob('job-1'))).toMatchObject({ result: { content: 'report' } });
+  });
+
+  it('reports the job id from a sync research call and leaves the usage log to whoever finished the job', async () => {
+    vi.useFakeTimers();
+    const { prisma } = createMemoryPrisma();
+    const client = new RotatingTavilyClient({ pool: createPool(), prisma, maxRetries: 1, fixedCooldownMs: 1000 });
+    const onProgress = vi.fn();
+    httpClient.researchStart.mockResolvedValue({ request_id: 'upstream-1' });
+    httpClient.researchPoll.mockResolvedValueOnce({ status: 'in_progress' }).mockResolvedValue({ status: 'completed', content: 'report' });
+
+    const pending = asToken('token-a', () => client.research({ input: 'topic' }, { onProgress }));
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ status: 'in_progress', jobId: 'job-1' }));
+
+    // The caller lost the sync call and picked the job up by id; it sees the completion first.
+    expect(await asToken('token-a', () => client.getResearchJob('job-1'))).toMatchObject({ status: 'completed' });
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(await pending).toEqual({ content: 'report', job_id: 'job-1' });
+    const logged = prisma.tavilyToolUsage.create.mock.calls.map((call: any[]) => call[0].data);
+    expect(logged.filter((row: any) => row.toolName === 'tavily_research' && row.outcome === 'success')).toHaveLength(1);
+  });
+
+  it('names the still-running job when a sync research poll fails', async () => {
+    vi.useFakeTimers();
+    const { prisma, rows } = createMemoryPrisma();
+    const client = new RotatingTavilyClient({ pool: createPool(), prisma, maxRetries: 1, fixedCooldownMs: 1000 });
+    httpClient.researchStart.mockResolvedValue({ request_id: 'upstream-1' });
+    httpClient.researchPoll.mockRejectedValue(new Error('socket hang up'));
+
+    const pending = asToken('token-a', () => client.research({ input: 'topic' }));
+    const expectation = expect(pending).rejects.toThrow('socket hang up (research job job-1 is still running; check it with tavily_research_status)');
+    await vi.advanceTimersByTimeAsync(60_000);
+    await expectation;
+    expect(rows.get('job-1')).toMatchObject({ status: 'running' });
+  });
+
+  it('stops polling and marks the job cancelled when the call is aborted', async () => {
+    vi.useFakeTimers();
+    const { prisma, rows } = createMemoryPrisma();
+    const client = new RotatingTavilyClient({ pool: createPool(), prisma, maxRetries: 1, fixedCooldownMs: 1000 });
+    const controller = new AbortController();
+    httpClient.researchStart.mockResolvedValue({ request_id: 'upstream-1' });
+    httpClient.researchPoll.mockResolvedValue({ status: 'in_progress' });
+
+    const pending = asToken('token-a', () => client.research({ input: 'topic' }, { signal: controller.signal }));
+    const expectation = expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(2_000);
+    controller.abort();
+    await expectation;
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(httpClient.researchPoll).toHaveBeenCalledTimes(1);
+    expect(rows.get('job-1')).toMatchObject({ status: 'cancelled', errorMessage: 'Research task cancelled' });
+  });
+});
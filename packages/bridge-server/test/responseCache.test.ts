@@ -0,0 +1,263 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ResponseCache,
+  buildResponseCacheKey,
+  defaultResponseCacheTtls,
+  parseResponseCacheCleanupProbability,
+  parseResponseCacheTtls,
+  type ResponseCacheTtls
+} from '../src/cache/responseCache.js';
+import { createCachingBraveClient, createCachingTavilyClient } from '../src/cache/cachingClients.js';
+
+function createMemoryPrisma() {
+  const rows = new Map<string, { cacheKey: string; toolName: string; responseJson: unknown; hitCount: number; expiresAt: Date }>();
+  const toolResponseCache = {
+    findUnique: vi.fn(async ({ where }: any) => rows.get(where.cacheKey) ?? null),
+    update: vi.fn(async ({ where }: any) => {
+      const row = rows.get(where.cacheKey)!;
+      row.hitCount += 1;
+      return row;
+    }),
+    upsert: vi.fn(async ({ where, create, update }: any) => {
+      const existing = rows.get(where.cacheKey);
+      const row = existing ? { ...existing, ...update } : { hitCount: 0, ...create };
+      rows.set(where.cacheKey, row);
+      return row;
+    }),
+    deleteMany: vi.fn(async ({ where }: any) => {
+      let count = 0;
+      for (const [key, row] of rows) {
+        if (where.toolName && row.toolName !== where.toolName) continue;
+        if (where.expiresAt && row.expiresAt.getTime() > where.expiresAt.lte.getTime()) continue;
+        rows.delete(key);
+        count += 1;
+      }
+      return { count };
+    }),
+    count: vi.fn(async () => rows.size)
+  };
+  return { rows, prisma: { toolResponseCache } as any };
+}
+
+function ttls(overrides: Partial<ResponseCacheTtls>): ResponseCacheTtls {
+  return { ...defaultResponseCacheTtls(), ...overrides };
+}
+
+describe('parseResponseCacheTtls', () => {
+  it('parses JSON, ignores unknown tools and invalid values', () => {
+    const parsed = parseResponseCacheTtls('{"tavily_search":600,"tavily_crawl":60,"brave_web_search":-1,"tavily_extract":"x"}');
+    expect(parsed).toEqual(ttls({ tavily_search: 600 }));
+  });
+
+  it('returns the fallback for empty or malformed input', () => {
+    const fallback = ttls({ brave_web_search: 30 });
+    expect(parseResponseCacheTtls(undefined, fallback)).toEqual(fallback);
+    expect(parseResponseCacheTtls('', fallback)).toEqual(fallback);
+    expect(parseResponseCacheTtls('not json', fallback)).toEqual(fallback);
+  });
+});
+
+describe('parseResponseCacheCleanupProbability', () => {
+  it('clamps to (0, 1] and falls back to 0.01 for missing or invalid input', () => {
+    expect(parseResponseCacheCleanupProbability(' 0.25 ')).toBe(0.25);
+    expect(parseResponseCacheCleanupProbability('5')).toBe(1);
+    expect(parseResponseCacheCleanupProbability(undefined)).toBe(0.01);
+    expect(parseResponseCacheCleanupProbability('0')).toBe(0.01);
+    expect(parseResponseCacheCleanupProbability('often')).toBe(0.01);
+  });
+});
+
+describe('buildResponseCacheKey', () => {
+  it('is stable across key order, whitespace and empty values', () => {
+    const a = buildResponseCacheKey('tavily_search', { query: 'mcp ', max_results: 5, include_domains: [] });
+    const b = buildResponseCacheKey('tavily_search', { max_results: 5, query: 'mcp', exclude_domains: undefined });
+    expect(a).toBe(b);
+  });
+
+  it('differs by tool name and params', () => {
+    const base = buildResponseCacheKey('tavily_search', { query: 'mcp' });
+    expect(buildResponseCacheKey('brave_web_search', { query: 'mcp' })).not.toBe(base);
+    expect(buildResponseCacheKey('tavily_search', { query: 'mcp', max_results: 3 })).not.toBe(base);
+  });
+});
+
+describe('ResponseCache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('serves repeated requests from the cache within the TTL and counts hits/misses', async () => {
+    const { prisma } = createMemoryPrisma();
+    const cache = new ResponseCache({ prisma, getTtls: async () => ttls({ tavily_search: 60 }) });
+    const load = vi.fn(async () => ({ results: [{ title: 't', url: 'https://a.test', content: 'c' }] }));
+
+    const first = await cache.getOrLoad('tavily_search', { query: 'q' }, load);
+    const second = await cache.getOrLoad('tavily_search', { query: ' q ' }, load);
+
+    expect(second).toEqual(first);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, byTool: { tavily_search: { hits: 1, misses: 1 } } });
+  });
+
+  it('bypasses the cache when the tool TTL is 0', async () => {
+    const { prisma } = createMemoryPrisma();
+    const cache = new ResponseCache({ prisma, getTtls: async () => ttls({ tavily_search: 60 }) });
+    const load = vi.fn(async () => ({ web: { results: [] } }));
+
+    await cache.getOrLoad('brave_web_search', { query: 'q' }, load);
+    await cache.getOrLoad('brave_web_search', { query: 'q' }, load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(prisma.toolResponseCache.findUnique).not.toHaveBeenCalled();
+    expect(cache.getStats().hits).toBe(0);
+  });
+
+  it('reloads expired entries', async () => {
+    const { prisma, rows } = createMemoryPrisma();
+    const cache = new ResponseCache({ prisma, getTtls: async () => ttls({ tavily_extract: 60 }) });
+    const load = vi.fn(async () => ({ results: [] }));
+
+    await cache.getOrLoad('tavily_extract', { urls: ['https://a.test'] }, load);
+    for (const row of rows.values()) row.expiresAt = new Date(Date.now() - 1000);
+    await cache.getOrLoad('tavily_extract', { urls: ['https://a.test'] }, load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts expired entries on a sampled share of writes', async () => {
+    const { prisma, rows } = createMemoryPrisma();
+    const cache = new ResponseCache({ prisma, getTtls: async () => ttls({ tavily_search: 60 }), cleanupProbability: 0.3 });
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    await cache.getOrLoad('tavily_search', { query: 'old' }, async () => ({ results: [] }));
+    for (const row of rows.values()) row.expiresAt = new Date(Date.now() - 1000);
+    await cache.getOrLoad('tavily_search', { query: 'kept' }, async () => ({ results: [] }));
+    expect(rows.size).toBe(2);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.2);
+    await cache.getOrLoad('tavily_search', { query: 'new' }, async () => ({ results: [] }));
+    expect(rows.size).toBe(2);
+    expect(prisma.toolResponseCache.deleteMany).toHaveBeenCalledWith({ where: { expiresAt: { lte: expect.any(Date) } } });
+  });
+
+  it('does not cache failures and still loads when storage fails', async () => {
+    const { prisma } = createMemoryPrisma();
+    const cache = new ResponseCache({ prisma, getTtls: async () => ttls({ tavily_search: 60 }) });
+
+    await expect(cache.getOrLoad('tavily_search', { query: 'q' }, async () => {
+      throw new Error('upstream down');
+    })).rejects.toThrow('upstream down');
+    expect(prisma.toolResponseCache.upsert).not.toHaveBeenCalled();
+
+    prisma.toolResponseCache.findUnique.mockRejectedValueOnce(new Error('db locked'));
+    await expect(cache.getOrLoad('tavily_search', { query: 'q' }, async () => ({ results: [] }))).resolves.toEqual({ results: [] });
+  });
+
+  it('shares one load between concurrent callers', async () => {
+    const { prisma } = createMemoryPrisma();
+    const cache = new ResponseCache({ prisma, getTtls: async () => ttls({ tavily_search: 60 }) });
+    const load = vi.fn(async () => ({ results: [] }));
+
+    const [a, b] = await Promise.all([
+      cache.getOrLoad('tavily_search', { query: 'q' }, load),
+      cache.getOrLoad('tavily_search', { query: 'q' }, load)
+    ]);
+
+    expect(a).toEqual(b);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('reloads for a waiting caller when the caller that owns the shared load aborts', async () => {
+    const { prisma } = createMemoryPrisma();
+    const cache = new ResponseCache({ prisma, getTtls: async () => ttls({ brave_web_search: 60 }) });
+    const owner = new AbortController();
+    const abortable = (signal: AbortSignal) =>
+      vi.fn(
+        () =>
+          new Promise<unknown>((resolve, reject) => {
+            signal.addEventListener('abort', () => reject(signal.reason));
+            setTimeout(() => resolve({ web: { results: [{ url: 'https://a.test' }] } }), 20);
+          })
+      );
+    const ownerLoad = abortable(owner.signal);
+    const waiterLoad = vi.fn(async () => ({ web: { results: [{ url: 'https://b.test' }] } }));
+
+    const first = cache.getOrLoad('brave_web_search', { query: 'q' }, ownerLoad, { signal: owner.signal });
+    const second = cache.getOrLoad('brave_web_search', { query: 'q' }, waiterLoad, { signal: new AbortController().signal });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    owner.abort();
+
+    await expect(first).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(second).resolves.toEqual({ web: { results: [{ url: 'https://b.test' }] } });
+    expect(waiterLoad).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects only the waiter that aborts while the shared load continues', async () => {
+    const { prisma } = createMemoryPrisma();
+    const cache = new ResponseCache({ prisma, getTtls: async () => ttls({ brave_web_search: 60 }) });
+    let release!: () => void;
+    const load = vi.fn(() => new Promise<unknown>((resolve) => { release = () => resolve({ web: { results: [] } }); }));
+    const waiter = new AbortController();
+
+    const first = cache.getOrLoad('brave_web_search', { query: 'q' }, load);
+    const second = cache.getOrLoad('brave_web_search', { query: 'q' }, load, { signal: waiter.signal });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    waiter.abort();
+    await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+
+    release();
+    await expect(first).resolves.toEqual({ web: { results: [] } });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('purges all entries or a single tool', async () => {
+    const { prisma, rows } = createMemoryPrisma();
+    const cache = new ResponseCache({ prisma, getTtls: async () => ttls({ tavily_search: 60, brave_web_search: 60 }) });
+    await cache.getOrLoad('tavily_search', { query: 'q' }, async () => ({ results: [] }));
+    await cache.getOrLoad('brave_web_search', { query: 'q' }, async () => ({ web: { results: [] } }));
+
+    expect(await cache.purge({ toolName: 'brave_web_search' })).toBe(1);
+    expect(rows.size).toBe(1);
+    expect(await cache.purge()).toBe(1);
+    expect(rows.size).toBe(0);
+  });
+});
+
+describe('caching clients', () => {
+  it('caches tavily search/extract and passes other calls through', async () => {
+    const { prisma } = createMemoryPrisma();
+    const cache = new ResponseCache({ prisma, getTtls: async () => ttls({ tavily_search: 60, tavily_extract: 60 }) });
+    const inner = {
+      search: vi.fn(async () => ({ results: [] })),
+      extract: vi.fn(async () => ({ results: [] })),
+      crawl: vi.fn(async () => ({ base_url: 'https://a.test', results: [] })),
+      map: vi.fn(async () => ({ base_url: 'https://a.test', results: [] })),
+      research: vi.fn(async () => ({ content: 'r' }))
+    };
+    const client = createCachingTavilyClient({ client: inner, cache });
+
+    await client.search({ query: 'q' }, { defaults: { search_depth: 'basic' } });
+    await client.search({ query: 'q', search_depth: 'basic' }, { defaults: {} });
+    await client.search({ query: 'q' }, { defaults: { search_depth: 'advanced' } });
+    await client.crawl({ url: 'https://a.test' });
+    await client.crawl({ url: 'https://a.test' });
+
+    expect(inner.search).toHaveBeenCalledTimes(2);
+    expect(inner.crawl).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches brave web search regardless of maxWaitMs', async () => {
+    const { prisma } = createMemoryPrisma();
+    const cache = new ResponseCache({ prisma, getTtls: async () => ttls({ brave_web_search: 60 }) });
+    const inner = {
+      webSearch: vi.fn(async () => ({ web: { results: [] } })),
+      localSearch: vi.fn(async () => ({ web: { results: [] } }))
+    };
+    const client = createCachingBraveClient({ client: inner, cache });
+
+    await client.webSearch({ query: 'q', count: 5 }, { maxWaitMs: 100 });
+    await client.webSearch({ query: 'q', count: 5 }, { maxWaitMs: 5000 });
+
+    expect(inner.webSearch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -10,6 +10,9 @@ import {
   shouldLogTavilyUsage
 } from '../src/tavily/usageLog.js';
 import { requestContext } from '../src/context.js';
+import { createCombinedProxyServer } from '@mcp-nexus/core';
+import { createInvalidArgumentsLogger, logInvalidToolArguments } from '../src/mcp/invalidArguments.js';
+import { recordVirtualToolCall } from '../src/mcp/virtualTools.js';
 
 async function withEnv<T>(next: Record<string, string | undefined>, fn: () => T | Promise<T>): Promise<T> {
   const prev: Record<string, string | undefined> = {};
@@ -164,4 +167,103 @@ describe('usageLog', () => {
     expect(args?.data?.queryPreview).toBeNull();
     expect(args?.data?.argsJson).toEqual({ max_results: 5 });
   });
+
+  it('logInvalidToolArguments records an invalid_params row for the tool provider', async () => {
+    const tavilyCreate = vi.fn().mockResolvedValue({});
+    const braveCreate = vi.fn().mockResolvedValue({});
+    const prisma: any = {
+      tavilyToolUsage: { create: tavilyCreate },
+      braveToolUsage: { create: braveCreate }
+    };
+
+    await withEnv({ TAVILY_USAGE_LOG_MODE: 'preview', BRAVE_USAGE_LOG_MODE: 'preview', TAVILY_USAGE_SAMPLE_RATE: '1', BRAVE_USAGE_SAMPLE_RATE: '1' }, async () => {
+      await requestContext.run(
+        { clientTokenId: 'ct_1', clientTokenPrefix: 'mcp_abcd', rawClientToken: 'mcp_abcd.secret' },
+        async () => {
+          await logInvalidToolArguments(prisma, 'tavily_search', { query: 'hello', max_results: 50 }, [
+            { path: 'max_results', message: 'must be <= 20' }
+          ]);
+          await logInvalidToolArguments(prisma, 'brave_web_search', {}, [{ path: 'query', message: 'is required' }]);
+          await logInvalidToolArguments(prisma, 'searxng_search', {}, [{ path: 'query', message: 'is required' }]);
+        }
+      );
+    });
+
+    expect(tavilyCreate).toHaveBeenCalledTimes(1);
+    expect(tavilyCreate.mock.calls[0]?.[0]?.data).toMatchObject({
+      toolName: 'tavily_search',
+      outcome: 'invalid_params',
+      queryPreview: 'hello',
+      argsJson: { invalidFields: ['max_results'] },
+      errorMessage: 'Invalid arguments for tavily_search: max_results: must be <= 20'
+    });
+    expect(braveCreate).toHaveBeenCalledTimes(1);
+    expect(braveCreate.mock.calls[0]?.[0]?.data).toMatchObject({ toolName: 'brave_web_search', outcome: 'invalid_params' });
+  });
+
+  it('logs calls made through a virtual tool under the virtual tool name', async () => {
+    const tavilyCreate = vi.fn().mockResolvedValue({});
+    const prisma: any = { tavilyToolUsage: { create: tavilyCreate } };
+    const virtualTool = {
+      name: 'internal_docs_search',
+      description: 'Search the internal docs',
+      baseTool: 'tavily_search',
+      presetArguments: { include_domains: ['docs.example.com'] },
+      exposedArguments: ['query']
+    };
+
+    await withEnv({ TAVILY_USAGE_LOG_MODE: 'preview', TAVILY_USAGE_SAMPLE_RATE: '1' }, async () => {
+      await requestContext.run(
+        { clientTokenId: 'ct_1', clientTokenPrefix: 'mcp_abcd', rawClientToken: 'mcp_abcd.secret', virtualTool },
+        async () => {
+          await logTavilyToolUsage(prisma, { toolName: 'tavily_search', outcome: 'success', query: 'hello' });
+          await logInvalidToolArguments(prisma, 'internal_docs_search', { query: 1 }, [{ path: 'query', message: 'must be a string' }]);
+        }
+      );
+    });
+
+    expect(tavilyCreate).toHaveBeenCalledTimes(2);
+    expect(tavilyCreate.mock.calls[0]?.[0]?.data).toMatchObject({ toolName: 'internal_docs_search', outcome: 'success' });
+    expect(tavilyCreate.mock.calls[1]?.[0]?.data).toMatchObject({ toolName: 'internal_docs_search', outcome: 'invalid_params' });
+  });
+
+  it('logs a virtual tool call rejected by argument validation under the virtual tool name', async () => {
+    const tavilyCreate = vi.fn().mockResolvedValue({});
+    const prisma: any = { tavilyToolUsage: { create: tavilyCreate } };
+    const tavilyClient: any = { search: vi.fn(async () => ({ results: [] })) };
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient,
+      getAuthToken: () => 'tok',
+      getVirtualTools: () => [
+        {
+          name: 'internal_docs_search',
+          description: 'Search the internal docs',
+          baseTool: 'tavily_search',
+          presetArguments: { include_domains: ['docs.example.com'] },
+          exposedArguments: ['query']
+        }
+      ],
+      onInvalidArguments: createInvalidArgumentsLogger(prisma),
+      middleware: [recordVirtualToolCall]
+    });
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+
+    await withEnv({ TAVILY_USAGE_LOG_MODE: 'preview', TAVILY_USAGE_SAMPLE_RATE: '1' }, async () => {
+      await requestContext.run({ clientTokenId: 'ct_1', clientTokenPrefix: 'mcp_abcd', rawClientToken: 'mcp_abcd.secret' }, async () => {
+        await expect(
+          callHandler({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'internal_docs_search', arguments: { query: 1 } } }, {})
+        ).rejects.toThrow('query: must be a string');
+        await vi.waitFor(() => expect(tavilyCreate).toHaveBeenCalledTimes(1));
+      });
+    });
+
+    expect(tavilyClient.search).not.toHaveBeenCalled();
+    expect(tavilyCreate.mock.calls[0]?.[0]?.data).toMatchObject({
+      toolName: 'internal_docs_search',
+      outcome: 'invalid_params',
+      argsJson: { invalidFields: ['query'] }
+    });
+  });
 });
@@ -61,7 +61,7 @@ export function usage(): string {
     '',
     'Options:',
     '  --token <client_token>              Client token used to authenticate requests to this server. (Env: TAVILY_BRIDGE_MCP_TOKEN)',
-    '  --search-source-mode <mode>         Search source mode: tavily_only, brave_only, combined, or brave_prefer_tavily_fallback. (Env: SEARCH_SOURCE_MODE)',
+    '  --search-source-mode <mode>         Search source mode: tavily_only, brave_only, combined, brave_prefer_tavily_fallback, or brave_hedged_tavily. (Env: SEARCH_SOURCE_MODE)',
     '  -h, --help                          Show help.'
   ].join('\n');
 }
@@ -19,7 +19,17 @@ function sha256Bytes(input: string): Buffer {
 }
 
 export async function validateClientToken(prisma: PrismaClient, raw: string): Promise<
-  | { ok: true; clientTokenId: string; prefix: string }
+  | {
+      ok: true;
+      clientTokenId: string;
+      prefix: string;
+      defaultParameters: unknown;
+      searchSourceMode: string | null;
+      braveOverflow: string | null;
+      researchEnabled: boolean | null;
+      maxOutputChars: number | null;
+      allowedTools: unknown;
+    }
   | { ok: false; error: string }
 > {
   const parsed = parseClientToken(raw);
@@ -35,6 +45,16 @@ export async function validateClientToken(prisma: PrismaClient, raw: string): Pr
   if (expected.length !== actual.length) return { ok: false, error: 'Invalid token' };
   if (!timingSafeEqual(expected, actual)) return { ok: false, error: 'Invalid token' };
 
-  return { ok: true, clientTokenId: record.id, prefix: record.tokenPrefix };
+  return {
+    ok: true,
+    clientTokenId: record.id,
+    prefix: record.tokenPrefix,
+    defaultParameters: record.defaultParameters,
+    searchSourceMode: record.searchSourceMode,
+    braveOverflow: record.braveOverflow,
+    researchEnabled: record.researchEnabled,
+    maxOutputChars: record.maxOutputChars,
+    allowedTools: record.allowedTools
+  };
 }
 
@@ -8,21 +8,25 @@ type LoggingBraveClientOptions = {
   upstreamKeyId?: string;
 };
 
+type BraveCallOptions = Parameters<BraveClient['webSearch']>[1];
+
 export function createLoggingBraveClient(opts: LoggingBraveClientOptions): BraveClient {
   const { client, prisma, upstreamKeyId } = opts;
 
-  const webSearch: BraveClient['webSearch'] = async (params, callOpts) => {
+  const logged = async <T>(
+    toolName: string,
+    params: { query?: unknown },
+    argsSummary: Record<string, unknown>,
+    callOpts: BraveCallOptions,
+    run: () => Promise<T>
+  ): Promise<T> => {
     const query = typeof params.query === 'string' ? params.query : undefined;
-    const argsSummary = {
-      count: params.count,
-      offset: params.offset
-    };
     const startedAt = Date.now();
 
     try {
-      const result = await client.webSearch(params, callOpts);
+      const result = await run();
       void logBraveToolUsage(prisma, {
-        toolName: 'brave_web_search',
+        toolName,
         upstreamKeyId,
         outcome: 'success',
         latencyMs: Date.now() - startedAt,
@@ -32,9 +36,9 @@ export function createLoggingBraveClient(opts: LoggingBraveClientOptions): Brave
       return result;
     } catch (err) {
       void logBraveToolUsage(prisma, {
-        toolName: 'brave_web_search',
+        toolName,
         upstreamKeyId,
-        outcome: 'error',
+        outcome: callOpts?.signal?.aborted ? 'cancelled' : 'error',
         latencyMs: Date.now() - startedAt,
         query,
         argsSummary,
@@ -44,37 +48,24 @@ export function createLoggingBraveClient(opts: LoggingBraveClientOptions): Brave
     }
   };
 
-  const localSearch: BraveClient['localSearch'] = async (params, callOpts) => {
-    const query = typeof params.query === 'string' ? params.query : undefined;
-    const argsSummary = {
-      count: params.count
-    };
-    const startedAt = Date.now();
-
-    try {
-      const result = await client.localSearch(params, callOpts);
-      void logBraveToolUsage(prisma, {
-        toolName: 'brave_local_search',
-        upstreamKeyId,
-        outcome: 'success',
-        latencyMs: Date.now() - startedAt,
-        query,
-        argsSummary
-      }).catch(() => {});
-      return result;
-    } catch (err) {
-      void logBraveToolUsage(prisma, {
-        toolName: 'brave_local_search',
-        upstreamKeyId,
-        outcome: 'error',
-        latencyMs: Date.now() - startedAt,
-        query,
-        argsSummary,
-        errorMessage: err instanceof Error ? err.message : String(err)
-      }).catch(() => {});
-      throw err;
-    }
+  return {
+    webSearch: (params, callOpts) =>
+      logged('brave_web_search', params, { count: params.count, offset: params.offset, hedge: callOpts?.hedge }, callOpts, () =>
+        client.webSearch(params, callOpts)
+      ),
+    localSearch: (params, callOpts) =>
+      logged('brave_local_search', params, { count: params.count }, callOpts, () => client.localSearch(params, callOpts)),
+    newsSearch: (params, callOpts) =>
+      logged('brave_news_search', params, { count: params.count, offset: params.offset, freshness: params.freshness }, callOpts, () =>
+        client.newsSearch(params, callOpts)
+      ),
+    imageSearch: (params, callOpts) =>
+      logged('brave_image_search', params, { count: params.count }, callOpts, () => client.imageSearch(params, callOpts)),
+    videoSearch: (params, callOpts) =>
+      logged('brave_video_search', params, { count: params.count, offset: params.offset, freshness: params.freshness }, callOpts, () =>
+        client.videoSearch(params, callOpts)
+      ),
+    summarize: (params, callOpts) =>
+      logged('brave_summarize', params, {}, callOpts, () => client.summarize(params, callOpts))
   };
-
-  return { webSearch, localSearch };
 }
@@ -100,7 +100,7 @@ async function maybeCleanupOldBraveUsageRows(prisma: PrismaClient): Promise<void
 export async function logBraveToolUsage(prisma: PrismaClient, input: {
   toolName: string;
   upstreamKeyId?: string | null;
-  outcome: 'success' | 'error';
+  outcome: 'success' | 'error' | 'cancelled';
   latencyMs?: number;
   query?: string;
   argsSummary?: Record<string, unknown>;
@@ -3,11 +3,24 @@ import process from 'node:process';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { PrismaClient } from '@mcp-nexus/db';
 import {
+  CircuitBreaker,
   createBraveHttpClient,
+  createCircuitBreakingBraveClient,
+  createCircuitBreakingTavilyClient,
   createCombinedProxyServer,
+  createSearxngProvider,
   getDefaultParametersFromEnv,
+  MemoryOutputContinuationStore,
+  parseHedgeThreshold,
+  parseMaxOutputChars,
   parseTavilyKeySelectionStrategy,
+  parseSearchProviderRouting,
+  parseSearchSourceMode,
+  parseTavilyToolsVersion,
+  parseUrlCanonicalizationOptions,
   QueuedRateGate,
+  RequestHedger,
+  toDefaultParameters,
   type BraveOverflowMode
 } from '@mcp-nexus/core';
 
@@ -52,29 +65,58 @@ async function main(): Promise<void> {
   const braveHttpTimeoutMsRaw = Number(process.env.BRAVE_HTTP_TIMEOUT_MS ?? String(20_000));
   const braveMaxQps = Number(process.env.BRAVE_MAX_QPS ?? '1');
   const braveMinIntervalMsEnv = Number(process.env.BRAVE_MIN_INTERVAL_MS ?? '');
+  const braveBurstRaw = Number(process.env.BRAVE_BURST ?? '1');
   const braveMaxQueueMsRaw = Number(process.env.BRAVE_MAX_QUEUE_MS ?? String(30_000));
-  const braveOverflow = parseBraveOverflowMode(process.env.BRAVE_OVERFLOW);
+  // The token's own policy overrides take precedence over local flags and env.
+  const braveOverflow = parseBraveOverflowMode(validated.braveOverflow ?? process.env.BRAVE_OVERFLOW);
 
   const braveHttpTimeoutMs = Number.isFinite(braveHttpTimeoutMsRaw) && braveHttpTimeoutMsRaw > 0 ? braveHttpTimeoutMsRaw : 20_000;
   const braveMaxQueueMs = Number.isFinite(braveMaxQueueMsRaw) && braveMaxQueueMsRaw >= 0 ? braveMaxQueueMsRaw : 30_000;
 
   const braveMinIntervalMs =
     Number.isFinite(braveMinIntervalMsEnv) && braveMinIntervalMsEnv > 0 ? braveMinIntervalMsEnv : minIntervalMsFromQps(braveMaxQps);
-  const braveGate = new QueuedRateGate({ minIntervalMs: braveMinIntervalMs });
+  const braveBurst = Number.isFinite(braveBurstRaw) && braveBurstRaw >= 1 ? Math.floor(braveBurstRaw) : 1;
+  const braveGate = new QueuedRateGate({ minIntervalMs: braveMinIntervalMs, burst: braveBurst });
   const braveHttpClient = braveApiKey ? createBraveHttpClient({ apiKey: braveApiKey, gate: braveGate, timeoutMs: braveHttpTimeoutMs }) : undefined;
   const braveClient = braveHttpClient ? createLoggingBraveClient({ client: braveHttpClient, prisma }) : undefined;
 
+  const circuitBreakerOptions = {
+    consecutiveFailures: Number(process.env.CIRCUIT_BREAKER_FAILURES ?? '5'),
+    errorRate: Number(process.env.CIRCUIT_BREAKER_ERROR_RATE ?? '0.5'),
+    openMs: Number(process.env.CIRCUIT_BREAKER_OPEN_MS ?? String(30_000))
+  };
+
+  const searxngUrl = process.env.SEARXNG_URL?.trim() || undefined;
+  const searxngProvider = searxngUrl
+    ? createSearxngProvider({
+        baseUrl: searxngUrl,
+        routing: parseSearchProviderRouting(process.env.SEARXNG_ROUTING),
+        timeoutMs: Number(process.env.SEARXNG_TIMEOUT_MS ?? String(20_000))
+      })
+    : undefined;
+
   const server = createCombinedProxyServer({
     serverName: 'tavily-mcp',
     serverVersion: '0.2.16',
-    tavilyClient,
-    braveClient,
+    tavilyClient: createCircuitBreakingTavilyClient({ client: tavilyClient, breaker: new CircuitBreaker('tavily', circuitBreakerOptions) }),
+    braveClient: braveClient
+      ? createCircuitBreakingBraveClient({ client: braveClient, breaker: new CircuitBreaker('brave', circuitBreakerOptions) })
+      : undefined,
     braveOverflow,
     braveMaxQueueMs,
     getAuthToken: () => rawToken,
-    getDefaultParameters: () => getDefaultParametersFromEnv(),
-    getSearchSourceMode: () => parsed.value.searchSourceMode,
-    getResearchEnabled: () => process.env.TAVILY_RESEARCH_ENABLED !== 'false'
+    getDefaultParameters: () => ({ ...getDefaultParametersFromEnv(), ...toDefaultParameters(validated.defaultParameters) }),
+    getSearchSourceMode: () => parseSearchSourceMode(validated.searchSourceMode, parsed.value.searchSourceMode),
+    hedger: new RequestHedger({ threshold: parseHedgeThreshold(process.env.SEARCH_HEDGE_THRESHOLD) }),
+    urlCanonicalization: parseUrlCanonicalizationOptions(process.env.URL_CANONICALIZATION),
+    providers: searxngProvider ? [searxngProvider] : [],
+    getResearchEnabled: () => validated.researchEnabled ?? process.env.TAVILY_RESEARCH_ENABLED !== 'false',
+    getAllowedTools: () => validated.allowedTools,
+    tavilyToolsVersion: parseTavilyToolsVersion(process.env.TAVILY_TOOLS_VERSION),
+    maxOutputChars: validated.maxOutputChars ?? parseMaxOutputChars(process.env.MAX_OUTPUT_CHARS),
+    outputContinuations: new MemoryOutputContinuationStore({
+      ttlMs: Number(process.env.OUTPUT_CURSOR_TTL_MS ?? String(15 * 60_000))
+    })
   });
 
   const transport = new StdioServerTransport();
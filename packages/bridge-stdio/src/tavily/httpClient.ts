@@ -10,7 +10,7 @@ const baseUrls = {
 
 export function createTavilyHttpClient(apiKey: string) {
   return {
-    search: (payload: Record<string, unknown>) => postJson(baseUrls.search, payload, apiKey),
+    search: (payload: Record<string, unknown>, signal?: AbortSignal) => postJson(baseUrls.search, payload, apiKey, signal),
     extract: (payload: Record<string, unknown>) => postJson(baseUrls.extract, payload, apiKey),
     crawl: (payload: Record<string, unknown>) => postJson(baseUrls.crawl, payload, apiKey),
     map: (payload: Record<string, unknown>) => postJson(baseUrls.map, payload, apiKey),
@@ -19,14 +19,15 @@ export function createTavilyHttpClient(apiKey: string) {
   };
 }
 
-async function postJson(url: string, body: Record<string, unknown>, apiKey: string) {
+async function postJson(url: string, body: Record<string, unknown>, apiKey: string, signal?: AbortSignal) {
   const res = await fetch(url, {
     method: 'POST',
     headers: {
       'content-type': 'application/json',
       'Authorization': `Bearer ${apiKey}`
     },
-    body: JSON.stringify(body)
+    body: JSON.stringify(body),
+    signal
   });
   return parseOrThrow(res);
 }
@@ -1,5 +1,10 @@
 import type { PrismaClient, TavilyKey } from '@mcp-nexus/db';
-import { orderKeyCandidates, type TavilyKeySelectionStrategy } from '@mcp-nexus/core';
+import {
+  isLoadAwareKeySelectionStrategy,
+  KeyInFlightCounter,
+  orderKeyCandidates,
+  type TavilyKeySelectionStrategy
+} from '@mcp-nexus/core';
 import { decryptAes256Gcm } from '../crypto/crypto.js';
 
 type EligibleKey = TavilyKey & { apiKey: string };
@@ -25,6 +30,7 @@ export class TavilyKeyPool {
   private readonly encryptionKey: Buffer;
   private readonly getSelectionStrategy: () => Promise<TavilyKeySelectionStrategy>;
   private readonly mutex = new Mutex();
+  private readonly inFlight = new KeyInFlightCounter();
 
   constructor(opts: { prisma: PrismaClient; encryptionKey: Buffer; getSelectionStrategy: () => Promise<TavilyKeySelectionStrategy> }) {
     this.prisma = opts.prisma;
@@ -32,6 +38,7 @@ export class TavilyKeyPool {
     this.getSelectionStrategy = opts.getSelectionStrategy;
   }
 
+  /** The returned key counts as in flight for `least_in_flight` until it is passed to `releaseKey`. */
   async selectEligibleKey(): Promise<EligibleKey | null> {
     return await this.mutex.runExclusive(async () => {
       const selectionStrategy = await this.getSelectionStrategy();
@@ -39,16 +46,24 @@ export class TavilyKeyPool {
       const keys = await this.prisma.tavilyKey.findMany({
         where: { status: 'active', OR: [{ cooldownUntil: null }, { cooldownUntil: { lte: now } }] },
         orderBy: [{ lastUsedAt: 'asc' }, { createdAt: 'asc' }],
-        take: 10
+        take: isLoadAwareKeySelectionStrategy(selectionStrategy) ? undefined : 10
       });
       if (keys.length === 0) return null;
-      const chosen = orderKeyCandidates(keys, selectionStrategy)[0]!;
+      const chosen = orderKeyCandidates(keys, selectionStrategy, Math.random, {
+        remaining: (key) => key.creditsRemaining,
+        inFlight: (key) => this.inFlight.get(key.id)
+      })[0]!;
       await this.prisma.tavilyKey.update({ where: { id: chosen.id }, data: { lastUsedAt: now } });
       const apiKey = decryptAes256Gcm(Buffer.from(chosen.keyEncrypted), this.encryptionKey);
+      this.inFlight.acquire(chosen.id);
       return { ...chosen, apiKey };
     });
   }
 
+  releaseKey(keyId: string): void {
+    this.inFlight.release(keyId);
+  }
+
   async markCooldown(keyId: string, cooldownUntil: Date): Promise<void> {
     await this.prisma.tavilyKey.update({ where: { id: keyId }, data: { status: 'cooldown', cooldownUntil } });
   }
@@ -1,5 +1,5 @@
 import type { PrismaClient } from '@mcp-nexus/db';
-import type { TavilyClient } from '@mcp-nexus/core';
+import type { TavilyCallOptions, TavilyClient, TavilyProgressCallback } from '@mcp-nexus/core';
 import { requestContext } from '../context.js';
 import { createTavilyHttpClient } from './httpClient.js';
 import { TavilyKeyPool } from './keyPool.js';
@@ -18,7 +18,7 @@ export class RotatingTavilyClient implements TavilyClient {
     this.fixedCooldownMs = opts.fixedCooldownMs;
   }
 
-  async search(params: Record<string, unknown>, opts: { defaults: Record<string, unknown> }): Promise<any> {
+  async search(params: Record<string, unknown>, opts: { defaults: Record<string, unknown> } & TavilyCallOptions): Promise<any> {
     const merged = applyDefaults({ ...params }, opts.defaults);
     if (((merged as any).start_date || (merged as any).end_date) && (merged as any).time_range) {
       (merged as any).time_range = undefined;
@@ -41,9 +41,11 @@ export class RotatingTavilyClient implements TavilyClient {
       max_results: (cleaned as any).max_results,
       include_domains_count: Array.isArray((cleaned as any).include_domains) ? (cleaned as any).include_domains.length : 0,
       exclude_domains_count: Array.isArray((cleaned as any).exclude_domains) ? (cleaned as any).exclude_domains.length : 0,
-      country: (cleaned as any).country
+      country: (cleaned as any).country,
+      // Set on hedged searches; a hedge that lost is logged as cancelled.
+      hedge: opts.hedge
     } as Record<string, unknown>;
-    return await this.withRotation('tavily_search', { query, argsSummary }, (client) => client.search(cleaned));
+    return await this.withRotation('tavily_search', { query, argsSummary, signal: opts.signal }, (client) => client.search(cleaned, opts.signal));
   }
 
   async extract(params: Record<string, unknown>): Promise<any> {
@@ -62,7 +64,10 @@ export class RotatingTavilyClient implements TavilyClient {
     return await this.withRotation('tavily_map', { argsSummary }, (client) => client.map(params));
   }
 
-  async research(params: { input: string; model?: 'mini' | 'pro' | 'auto' } & Record<string, unknown>): Promise<any> {
+  async research(
+    params: { input: string; model?: 'mini' | 'pro' | 'auto' } & Record<string, unknown>,
+    opts?: { onProgress?: TavilyProgressCallback }
+  ): Promise<any> {
     const INITIAL_POLL_INTERVAL = 2000;
     const MAX_POLL_INTERVAL = 10000;
     const POLL_BACKOFF_FACTOR = 1.5;
@@ -92,11 +97,14 @@ export class RotatingTavilyClient implements TavilyClient {
 
         let pollInterval = INITIAL_POLL_INTERVAL;
         let totalElapsed = 0;
+        let polls = 0;
         while (totalElapsed < maxPollDuration) {
           await sleep(pollInterval);
           totalElapsed += pollInterval;
           const poll = await client.researchPoll(String(requestId));
           const status = poll?.status;
+          polls += 1;
+          opts?.onProgress?.({ elapsedMs: Date.now() - startedAt, polls, status: String(status ?? 'pending') });
           if (status === 'completed') {
             await this.prisma.researchJob.update({ where: { upstreamJobId: String(requestId) }, data: { status: 'completed' } });
             void logTavilyToolUsage(this.prisma, {
@@ -107,7 +115,7 @@ export class RotatingTavilyClient implements TavilyClient {
               query: params.input,
               argsSummary: { model: params.model || 'auto' }
             }).catch(() => {});
-            return { content: poll?.content || '' };
+            return { content: poll?.content || '', ...(Array.isArray(poll?.sources) ? { sources: poll.sources } : {}) };
           }
           if (status === 'failed') {
             await this.prisma.researchJob.update({ where: { upstreamJobId: String(requestId) }, data: { status: 'failed' } });
@@ -154,6 +162,8 @@ export class RotatingTavilyClient implements TavilyClient {
           errorMessage: err instanceof Error ? err.message : String(err)
         }).catch(() => {});
         throw err;
+      } finally {
+        this.pool.releaseKey(key.id);
       }
     }
     return { error: 'No request_id returned from research endpoint' };
@@ -161,7 +171,7 @@ export class RotatingTavilyClient implements TavilyClient {
 
   private async withRotation<T>(
     toolName: string,
-    meta: { query?: string; argsSummary?: Record<string, unknown> },
+    meta: { query?: string; argsSummary?: Record<string, unknown>; signal?: AbortSignal },
     fn: (client: ReturnType<typeof createTavilyHttpClient>) => Promise<T>
   ): Promise<T> {
     let attempt = 0;
@@ -180,8 +190,8 @@ export class RotatingTavilyClient implements TavilyClient {
         throw new Error('Usage limit exceeded');
       }
       const client = createTavilyHttpClient(key.apiKey);
+      const startedAt = Date.now();
       try {
-        const startedAt = Date.now();
         const result = await fn(client);
         void logTavilyToolUsage(this.prisma, {
           toolName,
@@ -193,6 +203,17 @@ export class RotatingTavilyClient implements TavilyClient {
         }).catch(() => {});
         return result;
       } catch (err: any) {
+        if (meta.signal?.aborted) {
+          void logTavilyToolUsage(this.prisma, {
+            toolName,
+            upstreamKeyId: key.id,
+            outcome: 'cancelled',
+            latencyMs: Date.now() - startedAt,
+            query: meta.query,
+            argsSummary: { ...(meta.argsSummary ?? {}), attempts: attempt }
+          }).catch(() => {});
+          throw err;
+        }
         if (err?.message === 'Invalid API key') {
           await this.pool.markInvalid(key.id);
           continue;
@@ -210,6 +231,8 @@ export class RotatingTavilyClient implements TavilyClient {
           errorMessage: err instanceof Error ? err.message : String(err)
         }).catch(() => {});
         throw err;
+      } finally {
+        this.pool.releaseKey(key.id);
       }
     }
     throw new Error('Usage limit exceeded');
@@ -86,7 +86,7 @@ export async function maybeCleanupOldUsageRows(prisma: PrismaClient): Promise<vo
 export async function logTavilyToolUsage(prisma: PrismaClient, input: {
   toolName: string;
   upstreamKeyId?: string | null;
-  outcome: 'success' | 'error';
+  outcome: 'success' | 'error' | 'cancelled';
   latencyMs?: number;
   query?: string;
   argsSummary?: Record<string, unknown>;
@@ -22,6 +22,17 @@ export class BraveRateGateTimeoutError extends Error {
   }
 }
 
+/** The upstream did not answer within the client's own timeout; unlike a caller's abort, this is a provider failure. */
+export class BraveTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(message: string, opts: { timeoutMs: number }) {
+    super(message);
+    this.name = 'BraveTimeoutError';
+    this.timeoutMs = opts.timeoutMs;
+  }
+}
+
 export function isBraveHttpError(err: unknown): err is BraveHttpError {
   return err instanceof BraveHttpError;
 }
@@ -30,3 +41,7 @@ export function isBraveRateGateTimeoutError(err: unknown): err is BraveRateGateT
   return err instanceof BraveRateGateTimeoutError;
 }
 
+
+export function isBraveTimeoutError(err: unknown): err is BraveTimeoutError {
+  return err instanceof BraveTimeoutError;
+}
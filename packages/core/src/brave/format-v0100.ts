@@ -1,5 +1,18 @@
 import type { TavilySearchResponse } from '../tavily/types.js';
-import type { BraveLocalSearchResult, BraveWebSearchResult } from './types.js';
+import type {
+  BraveImageSearchResult,
+  BraveLocalSearchResult,
+  BraveNewsSearchResult,
+  BraveSummarizeResponse,
+  BraveVideoSearchResult,
+  BraveWebSearchResult
+} from './types.js';
+import {
+  structuredResultItem,
+  type StructuredResultItem,
+  type StructuredResultProvider,
+  type StructuredToolResult
+} from '../mcp/structuredResult.js';
 
 export function formatBraveWebResultsV0100(response: unknown): string {
   const results = extractWebResults(response);
@@ -11,6 +24,39 @@ export function formatBraveLocalResultsV0100(response: unknown): string {
   return JSON.stringify(results, null, 2);
 }
 
+export function formatBraveNewsResultsV0100(response: unknown): string {
+  return JSON.stringify(extractNewsResults(response), null, 2);
+}
+
+export function formatBraveImageResultsV0100(response: unknown): string {
+  return JSON.stringify(extractImageResults(response), null, 2);
+}
+
+export function formatBraveVideoResultsV0100(response: unknown): string {
+  return JSON.stringify(extractVideoResults(response), null, 2);
+}
+
+/** Returns an empty string when Brave produced no summary (no summarizer key, or the summarizer failed). */
+export function extractBraveSummaryTextV0100(response: BraveSummarizeResponse): string {
+  const summary = response.summary as any;
+  if (!summary || summary.status === 'failed') return '';
+  if (typeof summary.enrichments?.raw === 'string' && summary.enrichments.raw.trim()) return summary.enrichments.raw.trim();
+  const tokens = Array.isArray(summary.summary) ? summary.summary : [];
+  return tokens
+    .filter((m: any) => m?.type === 'token' && typeof m.data === 'string')
+    .map((m: any) => m.data)
+    .join('')
+    .trim();
+}
+
+export function formatBraveSummaryV0100(response: BraveSummarizeResponse): string {
+  return JSON.stringify(
+    { summary: extractBraveSummaryTextV0100(response), references: extractSummaryReferences(response) },
+    null,
+    2
+  );
+}
+
 export function formatBraveWebResultsFromTavilyV0100(response: TavilySearchResponse): string {
   const mapped: BraveWebSearchResult[] = (response.results ?? []).map((r) => ({
     title: safeString((r as any).title),
@@ -20,6 +66,65 @@ export function formatBraveWebResultsFromTavilyV0100(response: TavilySearchRespo
   return JSON.stringify(mapped, null, 2);
 }
 
+export function structuredBraveWebResultsV0100(response: unknown): StructuredToolResult {
+  return structuredBraveResultsV0100(extractWebResults(response), 'brave');
+}
+
+export function structuredBraveLocalResultsV0100(response: unknown): StructuredToolResult {
+  return structuredBraveResultsV0100(extractLocalResults(response), 'brave');
+}
+
+export function structuredBraveNewsResultsV0100(response: unknown): StructuredToolResult {
+  return structuredBraveResultsV0100(extractNewsResults(response), 'brave');
+}
+
+/** Result items point at the page each image was found on; the images themselves go to `images`. */
+export function structuredBraveImageResultsV0100(response: unknown): StructuredToolResult {
+  const results = extractImageResults(response);
+  return {
+    kind: 'search',
+    provider: 'brave',
+    results: results.map((r) => structuredResultItem({ url: r.url, title: r.title })),
+    images: results.map((r) => ({ url: r.image_url, ...(r.title ? { description: r.title } : {}) }))
+  };
+}
+
+export function structuredBraveVideoResultsV0100(response: unknown): StructuredToolResult {
+  return structuredBraveResultsV0100(extractVideoResults(response), 'brave');
+}
+
+/** The summary goes to `answer`, mirroring Tavily's `include_answer`; results are the cited pages. */
+export function structuredBraveSummaryV0100(response: BraveSummarizeResponse): StructuredToolResult {
+  return {
+    ...structuredBraveResultsV0100(extractSummaryReferences(response), 'brave'),
+    answer: extractBraveSummaryTextV0100(response)
+  };
+}
+
+export function structuredBraveWebResultsFromTavilyV0100(response: TavilySearchResponse): StructuredToolResult {
+  return {
+    kind: 'search',
+    provider: 'tavily',
+    results: (response.results ?? []).map((r) =>
+      structuredResultItem({ url: (r as any).url, title: (r as any).title, content: (r as any).content })
+    )
+  };
+}
+
+/** Converts Brave-shaped `{ title, url, description }` rows (including merged results) to the structured shape. */
+export function structuredBraveResultsV0100(
+  results: Array<{ title: string; url: string; description?: string; sources?: StructuredResultItem['sources']; score?: number }>,
+  provider: StructuredResultProvider
+): StructuredToolResult {
+  return {
+    kind: 'search',
+    provider,
+    results: results.map((r) =>
+      structuredResultItem({ url: r.url, title: r.title, content: r.description, sources: r.sources, score: r.score })
+    )
+  };
+}
+
 function extractWebResults(response: unknown): BraveWebSearchResult[] {
   const candidates =
     (Array.isArray((response as any)?.results) && (response as any).results) ||
@@ -50,11 +155,127 @@ function extractLocalResults(response: unknown): BraveLocalSearchResult[] {
     .map((r: any) => ({
       title: safeString(r?.title ?? r?.name),
       url: safeString(r?.url ?? r?.website),
-      description: safeString(r?.description ?? r?.snippet ?? r?.content) || undefined
+      description: safeString(r?.description ?? r?.snippet ?? r?.content) || undefined,
+      ...poiDetails(r)
     }))
     .filter((r) => r.title || r.url);
 }
 
+/** Business fields from a Brave `/local/pois` row; web-result rows have none of them. */
+function poiDetails(r: any): Omit<BraveLocalSearchResult, 'title' | 'url' | 'description'> {
+  const details: Omit<BraveLocalSearchResult, 'title' | 'url' | 'description'> = {};
+
+  const postal = r?.postal_address;
+  const address =
+    safeString(postal?.displayAddress) ||
+    [postal?.streetAddress, postal?.addressLocality, postal?.addressRegion, postal?.postalCode]
+      .filter((p): p is string => typeof p === 'string' && p.trim() !== '')
+      .join(', ');
+  if (address) details.address = address;
+
+  const phone = safeString(r?.contact?.telephone);
+  if (phone) details.phone = phone;
+
+  if (typeof r?.rating?.ratingValue === 'number' && r.rating.ratingValue >= 0) {
+    details.rating = r.rating.ratingValue;
+    if (typeof r.rating.reviewCount === 'number') details.review_count = r.rating.reviewCount;
+  }
+
+  const priceRange = safeString(r?.price_range);
+  if (priceRange) details.price_range = priceRange;
+
+  const hours = formatOpeningHours(r?.opening_hours);
+  if (hours.length > 0) details.opening_hours = hours;
+
+  if (Array.isArray(r?.coordinates) && r.coordinates.length === 2) {
+    const [latitude, longitude] = r.coordinates;
+    if (typeof latitude === 'number' && typeof longitude === 'number') {
+      details.latitude = latitude;
+      details.longitude = longitude;
+    }
+  }
+
+  const categories = Array.isArray(r?.categories) ? r.categories.filter((c: unknown) => typeof c === 'string' && c) : [];
+  if (categories.length > 0) details.categories = categories;
+
+  return details;
+}
+
+function formatOpeningHours(hours: any): string[] {
+  const days: any[] = Array.isArray(hours?.days) ? hours.days.flat() : [];
+  return days
+    .map((d) => {
+      const day = safeString(d?.abbr_name ?? d?.full_name);
+      const opens = safeString(d?.opens);
+      const closes = safeString(d?.closes);
+      if (!day || !opens || !closes) return '';
+      return `${day} ${opens}-${closes}`;
+    })
+    .filter(Boolean);
+}
+
+/** Pages cited by the summarizer; falls back to the underlying web results when it lists none. */
+function extractSummaryReferences(response: BraveSummarizeResponse): BraveWebSearchResult[] {
+  const context = (response.summary as any)?.enrichments?.context;
+  if (Array.isArray(context) && context.length > 0) {
+    return context
+      .map((c: any) => ({ title: safeString(c?.title), url: safeString(c?.url) }))
+      .filter((r) => r.url);
+  }
+  return extractWebResults(response.search);
+}
+
+function resultRows(response: unknown): any[] {
+  const rows = (response as any)?.results;
+  return Array.isArray(rows) ? rows : [];
+}
+
+function extractNewsResults(response: unknown): BraveNewsSearchResult[] {
+  return resultRows(response)
+    .map((r: any) => ({
+      title: safeString(r?.title),
+      url: safeString(r?.url),
+      description: safeString(r?.description) || undefined,
+      age: safeString(r?.age) || undefined,
+      source: safeString(r?.meta_url?.hostname) || undefined,
+      thumbnail: safeString(r?.thumbnail?.src) || undefined
+    }))
+    .filter((r) => r.title || r.url);
+}
+
+function extractImageResults(response: unknown): BraveImageSearchResult[] {
+  return resultRows(response)
+    .map((r: any) => ({
+      title: safeString(r?.title),
+      url: safeString(r?.url),
+      image_url: safeString(r?.properties?.url),
+      thumbnail: safeString(r?.thumbnail?.src) || undefined,
+      source: safeString(r?.source ?? r?.meta_url?.hostname) || undefined,
+      width: safeNumber(r?.properties?.width),
+      height: safeNumber(r?.properties?.height)
+    }))
+    .filter((r) => r.image_url);
+}
+
+function extractVideoResults(response: unknown): BraveVideoSearchResult[] {
+  return resultRows(response)
+    .map((r: any) => ({
+      title: safeString(r?.title),
+      url: safeString(r?.url),
+      description: safeString(r?.description) || undefined,
+      age: safeString(r?.age) || undefined,
+      duration: safeString(r?.video?.duration) || undefined,
+      creator: safeString(r?.video?.creator) || undefined,
+      publisher: safeString(r?.video?.publisher) || undefined,
+      thumbnail: safeString(r?.thumbnail?.src) || undefined
+    }))
+    .filter((r) => r.title || r.url);
+}
+
+function safeNumber(v: unknown): number | undefined {
+  return typeof v === 'number' && Number.isFinite(v) ? v : undefined;
+}
+
 function safeString(v: unknown): string {
   return typeof v === 'string' ? v : '';
 }
@@ -1,28 +1,48 @@
-import { BraveHttpError } from './errors.js';
+import { BraveHttpError, BraveTimeoutError } from './errors.js';
 import type { BraveClient, BraveLocalSearchParams, BraveWebSearchParams } from './types.js';
 import type { QueuedRateGate } from './rateGate.js';
+import { braveQuotaRetryAfterMs, parseBraveRateLimitHeaders, type BraveQuota } from './rateLimit.js';
 
 const baseUrls = {
-  webSearch: 'https://api.search.brave.com/res/v1/web/search'
+  webSearch: 'https://api.search.brave.com/res/v1/web/search',
+  newsSearch: 'https://api.search.brave.com/res/v1/news/search',
+  imageSearch: 'https://api.search.brave.com/res/v1/images/search',
+  videoSearch: 'https://api.search.brave.com/res/v1/videos/search',
+  summarizer: 'https://api.search.brave.com/res/v1/summarizer/search',
+  localPois: 'https://api.search.brave.com/res/v1/local/pois',
+  localDescriptions: 'https://api.search.brave.com/res/v1/local/descriptions'
 } as const;
 
+// Brave accepts at most 20 location ids per POI / description lookup.
+const MAX_LOCATION_IDS = 20;
+
 export function createBraveHttpClient(opts: {
   apiKey: string;
   gate: QueuedRateGate;
   fetchImpl?: typeof fetch;
   timeoutMs?: number;
+  /** Called with the rate-limit windows of every response that reports them, errors included. */
+  onQuota?: (quota: BraveQuota) => void;
 }): BraveClient {
   const fetchImpl = opts.fetchImpl ?? fetch;
   const timeoutMs =
     typeof opts.timeoutMs === 'number' && Number.isFinite(opts.timeoutMs) ? Math.max(1, Math.floor(opts.timeoutMs)) : 20_000;
 
-  const webSearch: BraveClient['webSearch'] = async (params, callOpts) => {
-    const merged = applyDefaults({ ...params }, callOpts?.defaults ?? {});
-    const url = buildWebSearchUrl(merged);
+  const getJson = async (
+    url: string,
+    callOpts?: { maxWaitMs?: number; signal?: AbortSignal }
+  ): Promise<any> => {
     return await opts.gate.run(
       async () => {
         const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), timeoutMs);
+        let timedOut = false;
+        const timeout = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs);
+        const signal = callOpts?.signal;
+        const onAbort = () => controller.abort(signal?.reason);
+        signal?.addEventListener('abort', onAbort, { once: true });
         try {
           const res = await fetchImpl(url, {
             method: 'GET',
@@ -32,33 +52,114 @@ export function createBraveHttpClient(opts: {
             },
             signal: controller.signal
           });
-          return await parseOrThrow(res);
+          const quota = parseBraveRateLimitHeaders(res.headers);
+          if (quota) opts.onQuota?.(quota);
+          return await parseOrThrow(res, quota);
+        } catch (err) {
+          if (timedOut && !signal?.aborted) {
+            throw new BraveTimeoutError(`Brave request timed out after ${timeoutMs}ms`, { timeoutMs });
+          }
+          throw err;
         } finally {
           clearTimeout(timeout);
+          signal?.removeEventListener('abort', onAbort);
         }
       },
-      { maxWaitMs: callOpts?.maxWaitMs }
+      { maxWaitMs: callOpts?.maxWaitMs, signal: callOpts?.signal }
     );
   };
 
+  const webSearch: BraveClient['webSearch'] = async (params, callOpts) => {
+    const merged = applyDefaults({ ...params }, callOpts?.defaults ?? {});
+    return await getJson(buildWebSearchUrl(merged), callOpts);
+  };
+
+  const newsSearch: BraveClient['newsSearch'] = async (params, callOpts) => {
+    const merged = applyDefaults({ ...params }, callOpts?.defaults ?? {});
+    return await getJson(buildSearchUrl(baseUrls.newsSearch, merged, { defaultCount: 20, maxCount: 50, paginated: true }), callOpts);
+  };
+
+  const imageSearch: BraveClient['imageSearch'] = async (params, callOpts) => {
+    const merged = applyDefaults({ ...params }, callOpts?.defaults ?? {});
+    return await getJson(buildSearchUrl(baseUrls.imageSearch, merged, { defaultCount: 20, maxCount: 200, paginated: false }), callOpts);
+  };
+
+  const videoSearch: BraveClient['videoSearch'] = async (params, callOpts) => {
+    const merged = applyDefaults({ ...params }, callOpts?.defaults ?? {});
+    return await getJson(buildSearchUrl(baseUrls.videoSearch, merged, { defaultCount: 20, maxCount: 50, paginated: true }), callOpts);
+  };
+
+  /**
+   * Web search with `summary=1`, then the summarizer endpoint for the returned key. Plans without
+   * the Summarizer return no key; `summary` is null in that case.
+   */
+  const summarize: BraveClient['summarize'] = async (params, callOpts) => {
+    const merged = applyDefaults({ ...params }, callOpts?.defaults ?? {});
+    const search = await getJson(buildWebSearchUrl({ ...merged, summary: 1 }), callOpts);
+    const key = typeof search?.summarizer?.key === 'string' ? search.summarizer.key : '';
+    if (!key) return { search, summary: null };
+
+    const url = new URL(baseUrls.summarizer);
+    url.searchParams.set('key', key);
+    url.searchParams.set('entity_info', '1');
+    return { search, summary: await getJson(url.toString(), callOpts) };
+  };
+
+  /**
+   * Web search filtered to web results and locations, then POI details and descriptions for the
+   * returned ids. Plans without Local Search (or queries without places) yield no location ids;
+   * those get the web results of that same response, which the local formatter also understands.
+   */
   const localSearch: BraveClient['localSearch'] = async (params, callOpts) => {
-    // Many Brave MCP servers fall back to web search for local queries when the plan doesn't support local endpoints.
-    return await webSearch(params as any, callOpts);
+    const merged = applyDefaults({ ...params }, callOpts?.defaults ?? {});
+    const located = await getJson(buildWebSearchUrl({ ...merged, result_filter: 'web,locations' }), callOpts);
+    const ids = extractLocationIds(located).slice(0, clampInt(merged.count, 10, 1, MAX_LOCATION_IDS));
+    if (ids.length === 0) return located;
+
+    const [pois, descriptions] = await Promise.all([
+      getJson(buildIdsUrl(baseUrls.localPois, ids), callOpts),
+      // Descriptions are supplementary; a failed lookup should not discard the POI details.
+      getJson(buildIdsUrl(baseUrls.localDescriptions, ids), callOpts).catch((err) => {
+        if (callOpts?.signal?.aborted) throw err;
+        return null;
+      })
+    ]);
+
+    const descriptionById = new Map<string, string>();
+    for (const d of Array.isArray(descriptions?.results) ? descriptions.results : []) {
+      if (typeof d?.id === 'string' && typeof d?.description === 'string') descriptionById.set(d.id, d.description);
+    }
+    const results = (Array.isArray(pois?.results) ? pois.results : []).map((poi: any) => {
+      const description = typeof poi?.id === 'string' ? descriptionById.get(poi.id) : undefined;
+      return description ? { ...poi, description } : poi;
+    });
+    return { type: 'local', local: { results } };
   };
 
-  return { webSearch, localSearch };
+  return { webSearch, localSearch, newsSearch, imageSearch, videoSearch, summarize };
 }
 
 function buildWebSearchUrl(params: Record<string, unknown>): string {
-  const url = new URL(baseUrls.webSearch);
+  return buildSearchUrl(baseUrls.webSearch, params, { defaultCount: 10, maxCount: 20, paginated: true });
+}
+
+/** Query string shared by the Brave search verticals; `count` limits and `offset` support differ per endpoint. */
+function buildSearchUrl(
+  base: string,
+  params: Record<string, unknown>,
+  limits: { defaultCount: number; maxCount: number; paginated: boolean }
+): string {
+  const url = new URL(base);
 
   const q = typeof (params as any).query === 'string' ? (params as any).query : '';
   url.searchParams.set('q', q);
 
-  const count = clampInt((params as any).count, 10, 1, 20);
-  const offset = clampInt((params as any).offset, 0, 0, 9);
+  const count = clampInt((params as any).count, limits.defaultCount, 1, limits.maxCount);
   url.searchParams.set('count', String(count));
-  url.searchParams.set('offset', String(offset));
+  if (limits.paginated) {
+    const offset = clampInt((params as any).offset, 0, 0, 9);
+    url.searchParams.set('offset', String(offset));
+  }
 
   for (const [key, value] of Object.entries(params)) {
     if (key === 'query' || key === 'count' || key === 'offset') continue;
@@ -68,6 +169,17 @@ function buildWebSearchUrl(params: Record<string, unknown>): string {
   return url.toString();
 }
 
+function buildIdsUrl(base: string, ids: string[]): string {
+  const url = new URL(base);
+  for (const id of ids) url.searchParams.append('ids', id);
+  return url.toString();
+}
+
+function extractLocationIds(response: any): string[] {
+  const rows = Array.isArray(response?.locations?.results) ? response.locations.results : [];
+  return rows.map((r: any) => r?.id).filter((id: unknown): id is string => typeof id === 'string' && id !== '');
+}
+
 function appendSearchParam(params: URLSearchParams, key: string, value: unknown): void {
   if (value === undefined || value === null) return;
   if (typeof value === 'string' && value.trim() === '') return;
@@ -87,7 +199,7 @@ function appendSearchParam(params: URLSearchParams, key: string, value: unknown)
   params.set(key, String(value));
 }
 
-async function parseOrThrow(res: Response): Promise<any> {
+async function parseOrThrow(res: Response, quota: BraveQuota | null): Promise<any> {
   const text = await res.text();
   const body = safeJson(text);
   if (res.ok) return body;
@@ -96,7 +208,7 @@ async function parseOrThrow(res: Response): Promise<any> {
 
   if (res.status === 429) {
     const retryAfterHeader = res.headers.get('Retry-After');
-    const retryAfterMs = parseRetryAfterMs(retryAfterHeader);
+    const retryAfterMs = parseRetryAfterMs(retryAfterHeader) ?? braveQuotaRetryAfterMs(quota);
     throw new BraveHttpError('Rate limit exceeded', { status: res.status, retryAfterMs, braveMessage: typeof body?.message === 'string' ? body.message : undefined });
   }
 
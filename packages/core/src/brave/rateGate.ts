@@ -3,21 +3,48 @@ import { BraveRateGateTimeoutError } from './errors.js';
 type Sleep = (ms: number) => Promise<void>;
 type Now = () => number;
 
+/**
+ * FIFO rate gate. With `burst` 1 (the default) calls run one at a time with at least `minIntervalMs`
+ * between starts. A larger `burst` switches to a token bucket: up to `burst` calls may start at
+ * once, one token is refilled every `minIntervalMs`, and calls run concurrently once started.
+ */
 export class QueuedRateGate {
   private readonly minIntervalMs: number;
+  private readonly burst: number;
   private readonly sleep: Sleep;
   private readonly now: Now;
-  private lastStartAtMs = 0;
+  private tokens: number;
+  private refilledAtMs: number;
+  private waiting = 0;
   private tail: Promise<void> = Promise.resolve();
 
-  constructor(opts: { minIntervalMs: number; sleep?: Sleep; now?: Now }) {
+  constructor(opts: { minIntervalMs: number; burst?: number; sleep?: Sleep; now?: Now }) {
     this.minIntervalMs = Math.max(0, Math.floor(opts.minIntervalMs));
+    this.burst = Math.max(1, Math.floor(opts.burst ?? 1));
     this.sleep = opts.sleep ?? ((ms) => new Promise((r) => setTimeout(r, ms)));
     this.now = opts.now ?? (() => Date.now());
+    this.tokens = this.burst;
+    this.refilledAtMs = this.now();
   }
 
-  async run<T>(fn: () => Promise<T>, opts?: { maxWaitMs?: number }): Promise<T> {
+  /**
+   * Estimated wait before a call queued now could start: queued callers take the available tokens
+   * first. A call still running in one-at-a-time mode is not counted, as its duration is unknown.
+   */
+  startDelayMs(): number {
+    this.refill();
+    const deficit = this.waiting + 1 - this.tokens;
+    return deficit > 0 ? Math.ceil(deficit * this.minIntervalMs) : 0;
+  }
+
+  /**
+   * Runs `fn` once every earlier call has started (and, with `burst` 1, finished) and a token is
+   * available. Aborting `signal` while queued leaves the queue immediately (rejecting with the
+   * abort reason) so the slot is handed to the next caller.
+   */
+  async run<T>(fn: () => Promise<T>, opts?: { maxWaitMs?: number; signal?: AbortSignal }): Promise<T> {
     const enqueuedAtMs = this.now();
+    const signal = opts?.signal;
     const maxWaitMs = typeof opts?.maxWaitMs === 'number' ? Math.max(0, Math.floor(opts.maxWaitMs)) : undefined;
 
     let resolveDone!: () => void;
@@ -25,7 +52,19 @@ export class QueuedRateGate {
     const prev = this.tail;
     this.tail = prev.then(() => done).catch(() => done);
 
+    let removeAbortListener = () => {};
+    this.waiting += 1;
     try {
+      signal?.throwIfAborted();
+      const abortPromise = signal
+        ? new Promise<never>((_, reject) => {
+            const onAbort = () => reject(signal.reason);
+            signal.addEventListener('abort', onAbort, { once: true });
+            removeAbortListener = () => signal.removeEventListener('abort', onAbort);
+          })
+        : undefined;
+      const waitForTurn = abortPromise ? Promise.race([prev, abortPromise]) : prev;
+
       if (typeof maxWaitMs === 'number') {
         const remainingMs = Math.max(0, maxWaitMs - (this.now() - enqueuedAtMs));
         if (remainingMs === 0) {
@@ -36,27 +75,42 @@ export class QueuedRateGate {
           timeoutId = setTimeout(() => reject(new BraveRateGateTimeoutError('Brave request queue timeout', { maxWaitMs })), remainingMs);
         });
         try {
-          await Promise.race([prev, timeoutPromise]);
+          await Promise.race([waitForTurn, timeoutPromise]);
         } finally {
           clearTimeout(timeoutId);
         }
       } else {
-        await prev;
+        await waitForTurn;
       }
+
+      this.refill();
+      const delayMs = this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * this.minIntervalMs);
+      if (delayMs > 0) await (abortPromise ? Promise.race([this.sleep(delayMs), abortPromise]) : this.sleep(delayMs));
     } catch (err) {
       resolveDone();
       throw err;
+    } finally {
+      this.waiting -= 1;
+      removeAbortListener();
     }
 
-    const nextAllowedAtMs = this.lastStartAtMs + this.minIntervalMs;
-    const delayMs = nextAllowedAtMs - this.now();
-    if (delayMs > 0) await this.sleep(delayMs);
-
-    this.lastStartAtMs = this.now();
+    this.refill();
+    this.tokens -= 1;
+    // In token-bucket mode only starts are queued; the next caller need not wait for this call to finish.
+    if (this.burst > 1) resolveDone();
     try {
       return await fn();
     } finally {
       resolveDone();
     }
   }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens =
+      this.minIntervalMs === 0
+        ? this.burst
+        : Math.min(this.burst, this.tokens + (now - this.refilledAtMs) / this.minIntervalMs);
+    this.refilledAtMs = now;
+  }
 }
@@ -0,0 +1,50 @@
+/** One Brave rate-limit window as reported in the `X-RateLimit-*` headers. */
+export type BraveRateLimitWindow = {
+  limit: number;
+  remaining: number;
+  /** Time until the window resets. */
+  resetMs: number;
+};
+
+/** Brave reports a per-second window followed by the plan's monthly window. */
+export type BraveQuota = {
+  perSecond: BraveRateLimitWindow | null;
+  monthly: BraveRateLimitWindow | null;
+};
+
+/**
+ * Reads `X-RateLimit-Limit`, `X-RateLimit-Remaining` and `X-RateLimit-Reset` (seconds), each a
+ * comma-separated list with the per-second window first and the monthly one second. Returns `null`
+ * when the response carries no usable rate-limit headers.
+ */
+export function parseBraveRateLimitHeaders(headers: Headers): BraveQuota | null {
+  const limits = parseList(headers.get('X-RateLimit-Limit'));
+  const remaining = parseList(headers.get('X-RateLimit-Remaining'));
+  const resets = parseList(headers.get('X-RateLimit-Reset'));
+
+  const windowAt = (index: number): BraveRateLimitWindow | null => {
+    const limit = limits[index];
+    const left = remaining[index];
+    const reset = resets[index];
+    if (limit === undefined || left === undefined || reset === undefined) return null;
+    return { limit, remaining: left, resetMs: reset * 1000 };
+  };
+
+  const quota = { perSecond: windowAt(0), monthly: windowAt(1) };
+  return quota.perSecond || quota.monthly ? quota : null;
+}
+
+/** How long to wait for the exhausted window to reset; the monthly window wins when both are spent. */
+export function braveQuotaRetryAfterMs(quota: BraveQuota | null): number | undefined {
+  if (quota?.monthly && quota.monthly.remaining <= 0) return quota.monthly.resetMs;
+  if (quota?.perSecond && quota.perSecond.remaining <= 0) return quota.perSecond.resetMs;
+  return undefined;
+}
+
+function parseList(value: string | null): Array<number | undefined> {
+  if (!value) return [];
+  return value.split(',').map((part) => {
+    const n = Number(part.trim());
+    return part.trim() !== '' && Number.isFinite(n) && n >= 0 ? n : undefined;
+  });
+}
@@ -1,4 +1,5 @@
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { structuredToolResultOutputSchema } from '../mcp/structuredResult.js';
 
 export const braveToolsV0100: Tool[] = [
   {
@@ -14,12 +15,13 @@ export const braveToolsV0100: Tool[] = [
       },
       required: ['query'],
       additionalProperties: true
-    }
+    },
+    outputSchema: structuredToolResultOutputSchema
   },
   {
     name: 'brave_local_search',
     description:
-      'Search for local businesses and places using the Brave Search API. Implementations commonly fall back to web search if local results are unavailable. Returns a JSON array of results.',
+      'Search for local businesses and places using the Brave Search API. Results include address, phone, rating, price range and opening hours when Brave has location data; otherwise falls back to web search results. Returns a JSON array of results.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -28,7 +30,85 @@ export const braveToolsV0100: Tool[] = [
       },
       required: ['query'],
       additionalProperties: true
-    }
+    },
+    outputSchema: structuredToolResultOutputSchema
+  },
+  {
+    name: 'brave_news_search',
+    description:
+      'Searches recent news articles using the Brave News Search API. Use for current events, breaking news and monitoring a topic over time. Results include the publisher and article age. Returns a JSON array of results.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'News search query' },
+        count: { type: 'number', description: 'Number of results (1-50, default 20)', default: 20, minimum: 1, maximum: 50 },
+        offset: { type: 'number', description: 'Pagination offset (0-9, default 0)', default: 0, minimum: 0, maximum: 9 },
+        freshness: {
+          type: 'string',
+          description: "Publication window: 'pd' (24h), 'pw' (7 days), 'pm' (31 days), 'py' (365 days) or 'YYYY-MM-DDtoYYYY-MM-DD'"
+        },
+        country: { type: 'string', description: "Two-letter country code, e.g. 'US'" },
+        search_lang: { type: 'string', description: "Language of the articles, e.g. 'en'" }
+      },
+      required: ['query'],
+      additionalProperties: true
+    },
+    outputSchema: structuredToolResultOutputSchema
+  },
+  {
+    name: 'brave_image_search',
+    description:
+      'Searches images using the Brave Image Search API. Returns a JSON array of results with the image URL, thumbnail and the page it was found on.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Image search query' },
+        count: { type: 'number', description: 'Number of results (1-200, default 20)', default: 20, minimum: 1, maximum: 200 },
+        country: { type: 'string', description: "Two-letter country code, e.g. 'US'" },
+        search_lang: { type: 'string', description: "Language code, e.g. 'en'" },
+        safesearch: { type: 'string', enum: ['off', 'strict'], description: "Adult content filter (default 'strict')" }
+      },
+      required: ['query'],
+      additionalProperties: true
+    },
+    outputSchema: structuredToolResultOutputSchema
+  },
+  {
+    name: 'brave_video_search',
+    description:
+      'Searches videos using the Brave Video Search API. Results include duration, creator and publisher when available. Returns a JSON array of results.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Video search query' },
+        count: { type: 'number', description: 'Number of results (1-50, default 20)', default: 20, minimum: 1, maximum: 50 },
+        offset: { type: 'number', description: 'Pagination offset (0-9, default 0)', default: 0, minimum: 0, maximum: 9 },
+        freshness: {
+          type: 'string',
+          description: "Publication window: 'pd' (24h), 'pw' (7 days), 'pm' (31 days), 'py' (365 days) or 'YYYY-MM-DDtoYYYY-MM-DD'"
+        },
+        country: { type: 'string', description: "Two-letter country code, e.g. 'US'" },
+        search_lang: { type: 'string', description: "Language code, e.g. 'en'" }
+      },
+      required: ['query'],
+      additionalProperties: true
+    },
+    outputSchema: structuredToolResultOutputSchema
+  },
+  {
+    name: 'brave_summarize',
+    description:
+      "Answers a question with Brave's AI Summarizer: runs a Brave web search and returns a generated summary with the source pages it cites. Requires a Brave plan that includes the Summarizer.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Question or search query to summarize' },
+        country: { type: 'string', description: "Two-letter country code, e.g. 'US'" },
+        search_lang: { type: 'string', description: "Language code, e.g. 'en'" }
+      },
+      required: ['query'],
+      additionalProperties: true
+    },
+    outputSchema: structuredToolResultOutputSchema
   }
 ];
-
@@ -1,5 +1,11 @@
+import type { HedgeRole } from '../mcp/hedging.js';
+
 export type BraveWebSearchParams = { query: string; count?: number; offset?: number } & Record<string, unknown>;
 export type BraveLocalSearchParams = { query: string; count?: number } & Record<string, unknown>;
+export type BraveNewsSearchParams = { query: string; count?: number; offset?: number } & Record<string, unknown>;
+export type BraveImageSearchParams = { query: string; count?: number } & Record<string, unknown>;
+export type BraveVideoSearchParams = { query: string; count?: number; offset?: number } & Record<string, unknown>;
+export type BraveSummarizeParams = { query: string } & Record<string, unknown>;
 
 export type BraveWebSearchResult = {
   title: string;
@@ -11,16 +17,64 @@ export type BraveLocalSearchResult = {
   title: string;
   url: string;
   description?: string;
+  address?: string;
+  phone?: string;
+  rating?: number;
+  review_count?: number;
+  price_range?: string;
+  /** One entry per day, e.g. `Mon 09:00-17:00`. */
+  opening_hours?: string[];
+  latitude?: number;
+  longitude?: number;
+  categories?: string[];
+};
+
+export type BraveNewsSearchResult = {
+  title: string;
+  url: string;
+  description?: string;
+  /** Brave's relative publication age, e.g. `2 hours ago`. */
+  age?: string;
+  source?: string;
+  thumbnail?: string;
+};
+
+export type BraveImageSearchResult = {
+  title: string;
+  /** Page the image was found on. */
+  url: string;
+  image_url: string;
+  thumbnail?: string;
+  source?: string;
+  width?: number;
+  height?: number;
+};
+
+export type BraveVideoSearchResult = {
+  title: string;
+  url: string;
+  description?: string;
+  age?: string;
+  duration?: string;
+  creator?: string;
+  publisher?: string;
+  thumbnail?: string;
+};
+
+/** Raw web search response (requested with `summary=1`) and the summarizer response, when Brave returned a key. */
+export type BraveSummarizeResponse = {
+  search: unknown;
+  summary: unknown | null;
 };
 
+type BraveCallOptions = { defaults?: Record<string, unknown>; maxWaitMs?: number; signal?: AbortSignal; hedge?: HedgeRole };
+
 export type BraveClient = {
-  webSearch(
-    params: BraveWebSearchParams,
-    opts?: { defaults?: Record<string, unknown>; maxWaitMs?: number }
-  ): Promise<unknown>;
-  localSearch(
-    params: BraveLocalSearchParams,
-    opts?: { defaults?: Record<string, unknown>; maxWaitMs?: number }
-  ): Promise<unknown>;
+  webSearch(params: BraveWebSearchParams, opts?: BraveCallOptions): Promise<unknown>;
+  localSearch(params: BraveLocalSearchParams, opts?: BraveCallOptions): Promise<unknown>;
+  newsSearch(params: BraveNewsSearchParams, opts?: BraveCallOptions): Promise<unknown>;
+  imageSearch(params: BraveImageSearchParams, opts?: BraveCallOptions): Promise<unknown>;
+  videoSearch(params: BraveVideoSearchParams, opts?: BraveCallOptions): Promise<unknown>;
+  summarize(params: BraveSummarizeParams, opts?: BraveCallOptions): Promise<BraveSummarizeResponse>;
 };
 
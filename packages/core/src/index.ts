@@ -1,17 +1,38 @@
 export * from './mcp/createTavilyProxyServer.js';
 export * from './mcp/createCombinedProxyServer.js';
 export * from './mcp/searchSource.js';
+export * from './mcp/mergeStrategy.js';
+export * from './mcp/canonicalUrl.js';
+export * from './mcp/structuredResult.js';
+export * from './mcp/progress.js';
+export * from './mcp/validateArguments.js';
+export * from './mcp/virtualTools.js';
+export * from './mcp/outputBudget.js';
+export * from './mcp/webSearch.js';
+export * from './mcp/middleware.js';
+export * from './mcp/hedging.js';
 
 export * from './brave/tools-v0100.js';
 export * from './brave/format-v0100.js';
 export * from './brave/types.js';
 export * from './brave/errors.js';
 export * from './brave/rateGate.js';
+export * from './brave/rateLimit.js';
 export * from './brave/httpClient.js';
 
 export * from './tavily/tools-v0216.js';
+export * from './tavily/tools-v0300.js';
+export * from './tavily/toolsVersion.js';
+export * from './tavily/tools-research-jobs.js';
 export * from './tavily/format-v0216.js';
+export * from './tavily/format-v0300.js';
 export * from './tavily/default-parameters.js';
 export * from './tavily/types.js';
 export * from './tavily/errors.js';
 export * from './tavily/keySelection.js';
+
+export * from './providers/types.js';
+export * from './providers/errors.js';
+export * from './providers/routing.js';
+export * from './providers/circuitBreaker.js';
+export * from './searxng/provider.js';
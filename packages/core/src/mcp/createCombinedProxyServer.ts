@@ -1,54 +1,176 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { CallToolRequestSchema, ListToolsRequestSchema, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
-import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 
-import type { TavilyClient, TavilyDefaultParametersProvider } from '../tavily/types.js';
-import { tavilyToolsV0216 } from '../tavily/tools-v0216.js';
+import type { TavilyClient, TavilyDefaultParametersProvider, TavilyResearchJob, TavilySearchParams } from '../tavily/types.js';
+import {
+  formatTavilySearchResults,
+  normalizeTavilySearchArgs,
+  tavilyToolsFor,
+  type TavilyToolsVersion
+} from '../tavily/toolsVersion.js';
+import { tavilyResearchJobTools } from '../tavily/tools-research-jobs.js';
 import {
   formatCrawlResultsV0216,
   formatMapResultsV0216,
+  formatResearchJobV0216,
   formatResearchResultsV0216,
-  formatResultsV0216
+  formatResultsV0216,
+  structuredCrawlResultsV0216,
+  structuredResearchJobV0216,
+  structuredMapResultsV0216,
+  structuredResearchResultsV0216,
+  structuredResultsV0216
 } from '../tavily/format-v0216.js';
 import { TavilyHttpError, isTavilyHttpError } from '../tavily/errors.js';
 
 import type { BraveClient } from '../brave/types.js';
 import { braveToolsV0100 } from '../brave/tools-v0100.js';
-import { formatBraveLocalResultsV0100, formatBraveWebResultsFromTavilyV0100, formatBraveWebResultsV0100 } from '../brave/format-v0100.js';
-import { BraveHttpError, isBraveHttpError, isBraveRateGateTimeoutError } from '../brave/errors.js';
+import {
+  extractBraveSummaryTextV0100,
+  formatBraveImageResultsV0100,
+  formatBraveLocalResultsV0100,
+  formatBraveNewsResultsV0100,
+  formatBraveSummaryV0100,
+  formatBraveVideoResultsV0100,
+  formatBraveWebResultsFromTavilyV0100,
+  formatBraveWebResultsV0100,
+  structuredBraveImageResultsV0100,
+  structuredBraveLocalResultsV0100,
+  structuredBraveNewsResultsV0100,
+  structuredBraveResultsV0100,
+  structuredBraveSummaryV0100,
+  structuredBraveVideoResultsV0100,
+  structuredBraveWebResultsFromTavilyV0100,
+  structuredBraveWebResultsV0100
+} from '../brave/format-v0100.js';
+import { BraveHttpError, isBraveHttpError, isBraveRateGateTimeoutError, isBraveTimeoutError } from '../brave/errors.js';
+
+import type { ProviderSearchResult, SearchProviderAdapter } from '../providers/types.js';
+import { routedProviders, runProviderSearch } from '../providers/routing.js';
+import {
+  isSearchProviderHttpError,
+  isSearchProviderUnavailableError,
+  type SearchProviderHttpError
+} from '../providers/errors.js';
+import { isCircuitOpenError } from '../providers/circuitBreaker.js';
 
+import { createProgressReporter, withProgressHeartbeat } from './progress.js';
 import type { SearchSourceMode } from './searchSource.js';
+import type { UrlCanonicalizationOptions } from './canonicalUrl.js';
+import {
+  defaultCombinedMergeSettings,
+  mergeProviderResults,
+  type CombinedMergeSettings,
+  type MergeCandidate
+} from './mergeStrategy.js';
+import type { StructuredToolResult } from './structuredResult.js';
+import { formatArgumentIssues, validateToolArguments, type ArgumentIssue } from './validateArguments.js';
+import {
+  MAX_OUTPUT_CHARS_ARGUMENT,
+  NEXUS_CONTINUE_TOOL,
+  applyOutputBudget,
+  continueOutput,
+  nexusContinueTool,
+  parseMaxOutputChars,
+  withOutputBudgetArgument,
+  type MaxOutputCharsProvider,
+  type OutputContinuationStore
+} from './outputBudget.js';
+import { RequestHedger } from './hedging.js';
+import { parseWebSearchArgs, toBraveWebSearchArgs, toTavilyWebSearchArgs, toWebSearchResult, webSearchTool } from './webSearch.js';
+import { applyVirtualToolArguments, buildVirtualTool, type VirtualToolDefinition, type VirtualToolsProvider } from './virtualTools.js';
+import {
+  composeToolCallMiddleware,
+  redactToolErrors,
+  requireClientToken,
+  scopeAllowedTools,
+  type ToolCallContext,
+  type ToolCallMiddleware
+} from './middleware.js';
 
 export type BraveOverflowMode = 'queue' | 'error' | 'fallback_to_tavily';
 
 export type SearchSourceModeProvider = (ctx: unknown) => SearchSourceMode | Promise<SearchSourceMode>;
 
+/** Per-request Brave overflow policy (e.g. a client token override); `undefined` keeps the `braveOverflow` option. */
+export type BraveOverflowModeProvider = (ctx: unknown) => BraveOverflowMode | undefined | Promise<BraveOverflowMode | undefined>;
+
+export type CombinedMergeSettingsProvider = () => CombinedMergeSettings | Promise<CombinedMergeSettings>;
+
 type CreateCombinedProxyServerOptions = {
   serverName: string;
   serverVersion: string;
   tavilyClient: TavilyClient;
   braveClient?: BraveClient;
   braveOverflow?: BraveOverflowMode;
+  getBraveOverflow?: BraveOverflowModeProvider;
   braveMaxQueueMs?: number;
   getDefaultParameters?: TavilyDefaultParametersProvider;
   getAuthToken?: (ctx: unknown) => string | undefined;
   getSearchSourceMode?: SearchSourceModeProvider;
+  /** Hedges web searches in `brave_hedged_tavily` mode; share one across sessions so its latency percentiles are server-wide. */
+  hedger?: RequestHedger;
+  getCombinedMergeSettings?: CombinedMergeSettingsProvider;
+  urlCanonicalization?: UrlCanonicalizationOptions;
+  /** Additional search providers (e.g. SearXNG): their tools are registered and they join combined/fallback routing. */
+  providers?: SearchProviderAdapter[];
   getAllowedTools?: (ctx: unknown) => unknown | Promise<unknown>;  // Phase 3.4: Tool scoping
-  getResearchEnabled?: () => boolean | Promise<boolean>;
+  getResearchEnabled?: (ctx: unknown) => boolean | Promise<boolean>;
+  /** Tavily tool-schema version to advertise; defaults to `v0216`. */
+  tavilyToolsVersion?: TavilyToolsVersion;
+  /** Admin-defined virtual tools; advertised next to the built-in tools and dispatched to their base tool. */
+  getVirtualTools?: VirtualToolsProvider;
+  /** Called before a call is rejected because its arguments do not match the tool's input schema. */
+  onInvalidArguments?: InvalidArgumentsHandler;
+  /** Server-wide text output budget in characters; unset means unlimited. */
+  maxOutputChars?: number;
+  /** Per-request budget (e.g. a client token override); `undefined` keeps `maxOutputChars`. */
+  getMaxOutputChars?: MaxOutputCharsProvider;
+  /** Keeps truncated output for `nexus_continue`; without it truncated output cannot be continued. */
+  outputContinuations?: OutputContinuationStore;
+  /**
+   * Runtime middleware for every tool call (quotas, caching, usage attribution...), in order. It runs
+   * inside the built-in auth, scoping, redaction, argument resolution and output budget steps, so it
+   * sees the resolved tool and arguments; provider errors already arrive as tool error results.
+   */
+  middleware?: ToolCallMiddleware[];
 };
 
+export type InvalidArgumentsHandler = (
+  toolName: string,
+  args: Record<string, unknown>,
+  issues: ArgumentIssue[],
+  ctx: unknown,
+  /** Set when `toolName` is a virtual tool; runtime middleware has not run yet for a rejected call. */
+  virtualTool?: VirtualToolDefinition
+) => void | Promise<void>;
+
 export function createCombinedProxyServer({
   serverName,
   serverVersion,
   tavilyClient,
   braveClient,
   braveOverflow = 'fallback_to_tavily',
+  getBraveOverflow,
   braveMaxQueueMs = 30_000,
   getDefaultParameters,
   getAuthToken,
   getSearchSourceMode,
+  hedger = new RequestHedger(),
+  getCombinedMergeSettings,
+  urlCanonicalization,
+  providers = [],
   getAllowedTools,  // Phase 3.4: Tool scoping
-  getResearchEnabled
+  getResearchEnabled,
+  tavilyToolsVersion = 'v0216',
+  getVirtualTools,
+  onInvalidArguments,
+  maxOutputChars,
+  getMaxOutputChars,
+  outputContinuations,
+  middleware = []
 }: CreateCombinedProxyServerOptions): Server {
   const server = new Server(
     { name: serverName, version: serverVersion },
@@ -59,132 +181,238 @@ export function createCombinedProxyServer({
     }
   );
 
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    const researchEnabled = await getResearchEnabled?.() ?? true;
+  server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+    const researchEnabled = await getResearchEnabled?.(extra) ?? true;
     const tavilyTools = researchEnabled
-      ? tavilyToolsV0216
-      : tavilyToolsV0216.filter(t => t.name !== 'tavily_research');
-    return { tools: [...tavilyTools, ...braveToolsV0100] };
+      ? tavilyToolsFor(tavilyToolsVersion)
+      : tavilyToolsFor(tavilyToolsVersion).filter(t => t.name !== 'tavily_research');
+    const researchJobTools = researchEnabled && supportsResearchJobs(tavilyClient) ? tavilyResearchJobTools : [];
+    const providerTools = providers.flatMap((p) => p.tools);
+    const builtinTools = [webSearchTool, ...tavilyTools, ...researchJobTools, ...braveToolsV0100, ...providerTools];
+    // A virtual tool is hidden whenever its base tool is (e.g. research disabled).
+    const virtualTools = (await getVirtualTools?.(extra) ?? []).flatMap((definition) => {
+      const base = builtinTools.find((t) => t.name === definition.baseTool);
+      return base && !builtinTools.some((t) => t.name === definition.name) ? [buildVirtualTool(definition, base)] : [];
+    });
+    const continueTools = outputContinuations ? [nexusContinueTool] : [];
+    return { tools: [...[...builtinTools, ...virtualTools].map(withOutputBudgetArgument), ...continueTools] };
   });
 
-  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
-    const token = getAuthToken?.(extra) ?? (extra as any)?.authInfo?.token;
-    if (!token) {
-      throw new McpError(
-        ErrorCode.InvalidRequest,
-        'Client token is required. Provide Authorization: Bearer <token> (HTTP) or set TAVILY_BRIDGE_MCP_TOKEN (stdio).'
-      );
-    }
+  const builtinMiddleware: ToolCallMiddleware[] = [
+    requireClientToken(getAuthToken),
+    // Phase 3.4: Tool scoping. nexus_continue is exempt: its cursors only come from tools the token
+    // was allowed to call and only work for that token.
+    ...(getAllowedTools ? [scopeAllowedTools(getAllowedTools, { exempt: outputContinuations ? [NEXUS_CONTINUE_TOOL] : [] })] : []),
+    redactToolErrors(),
+    resolveToolCall,
+    applyOutputBudgetMiddleware
+  ];
+  const handleToolCall = composeToolCallMiddleware(
+    [...builtinMiddleware, ...middleware, mapProviderErrors],
+    (ctx) => dispatchToolCall(ctx.toolName, ctx.arguments, ctx.extra)
+  );
 
-    const args = request.params.arguments ?? {};
-    const toolName = request.params.name;
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const name = request.params.name;
+    return await handleToolCall({ name, toolName: name, arguments: request.params.arguments ?? {}, extra });
+  });
 
-    // Phase 3.4: Check if tool is allowed for this token
-    if (getAllowedTools) {
-      const allowedTools = await getAllowedTools(extra);
-      if (allowedTools !== null && allowedTools !== undefined) {
+  /** Validates the arguments against the called tool and turns virtual tools into calls of their base tool. */
+  async function resolveToolCall(ctx: ToolCallContext, next: () => Promise<CallToolResult>): Promise<CallToolResult> {
+    const { name, extra } = ctx;
+    const requestArgs = ctx.arguments;
+
+    // Unknown tools fall through to the dispatcher, which reports MethodNotFound.
+    const builtinTools = [
+      webSearchTool,
+      ...tavilyToolsFor(tavilyToolsVersion),
+      ...tavilyResearchJobTools,
+      ...braveToolsV0100,
+      ...providers.flatMap((p) => p.tools)
+    ].map(withOutputBudgetArgument);
+    let tool = name === NEXUS_CONTINUE_TOOL && outputContinuations
+      ? nexusContinueTool
+      : builtinTools.find((t) => t.name === name);
+    if (!tool && getVirtualTools) {
+      const definition = (await getVirtualTools(extra)).find((v) => v.name === name);
+      const base = definition && builtinTools.find((t) => t.name === definition.baseTool);
+      if (definition && base) {
+        ctx.virtualTool = definition;
+        tool = withOutputBudgetArgument(buildVirtualTool(definition, base));
+      }
+    }
+    if (tool) {
+      const issues = validateToolArguments(tool.inputSchema, requestArgs);
+      if (issues.length > 0) {
         try {
-          const allowedToolsArray = Array.isArray(allowedTools)
-            ? allowedTools
-            : (typeof allowedTools === 'string' ? JSON.parse(allowedTools) : []);
-
-          if (Array.isArray(allowedToolsArray) && allowedToolsArray.length > 0) {
-            if (!allowedToolsArray.includes(toolName)) {
-              throw new McpError(
-                ErrorCode.InvalidRequest,
-                `Tool '${toolName}' is not allowed for this token. Allowed tools: ${allowedToolsArray.join(', ')}`
-              );
-            }
-          }
-        } catch (error) {
-          if (error instanceof McpError) throw error;
-          // Ignore JSON parse errors, allow all tools if parsing fails
+          await onInvalidArguments?.(name, requestArgs, issues, extra, ctx.virtualTool);
+        } catch {
+          // Reporting must never mask the validation error.
         }
+        throw new McpError(ErrorCode.InvalidParams, formatArgumentIssues(name, issues), { issues });
       }
     }
 
-    try {
-      switch (toolName) {
-        case 'tavily_search': {
-          const defaults = getDefaultParameters?.(extra) ?? {};
-          const country = (args as any).country;
-          const normalizedArgs = {
-            ...args,
-            ...(country ? { topic: 'general' } : null)
-          } as any;
-
-          const response = await tavilyClient.search(normalizedArgs, { defaults });
-          return textResult(formatResultsV0216(response));
-        }
-        case 'tavily_extract': {
-          const response = await tavilyClient.extract(args as any);
-          return textResult(formatResultsV0216(response));
-        }
-        case 'tavily_crawl': {
-          const response = await tavilyClient.crawl(args as any);
-          return textResult(formatCrawlResultsV0216(response));
-        }
-        case 'tavily_map': {
-          const response = await tavilyClient.map(args as any);
-          return textResult(formatMapResultsV0216(response));
+    if (tool === nexusContinueTool && outputContinuations) {
+      return await continueOutput(outputContinuations, ctx.token ?? '', requestArgs);
+    }
+
+    // The budget argument is ours; upstream APIs never see it.
+    const { [MAX_OUTPUT_CHARS_ARGUMENT]: requestedBudget, ...toolArgs } = requestArgs;
+    ctx.maxOutputChars = parseMaxOutputChars(requestedBudget) ?? (await getMaxOutputChars?.(extra)) ?? maxOutputChars;
+
+    // Virtual tools run as their base tool, with the preset arguments locked in.
+    ctx.toolName = ctx.virtualTool ? ctx.virtualTool.baseTool : name;
+    ctx.arguments = ctx.virtualTool ? applyVirtualToolArguments(ctx.virtualTool, toolArgs) : toolArgs;
+    return await next();
+  }
+
+  async function applyOutputBudgetMiddleware(ctx: ToolCallContext, next: () => Promise<CallToolResult>): Promise<CallToolResult> {
+    const result = await next();
+    return await applyOutputBudget(result, { maxChars: ctx.maxOutputChars, owner: ctx.token ?? '', store: outputContinuations });
+  }
+
+  async function dispatchToolCall(
+    toolName: string,
+    args: Record<string, unknown>,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): Promise<CallToolResult> {
+    switch (toolName) {
+      case 'tavily_search': {
+        const defaults = getDefaultParameters?.(extra) ?? {};
+        const normalizedArgs = normalizeTavilySearchArgs(tavilyToolsVersion, args);
+        const response = await tavilyClient.search(normalizedArgs, { defaults, signal: extra.signal });
+        return textResult(formatTavilySearchResults(tavilyToolsVersion, response), structuredResultsV0216(response, 'search'));
+      }
+      case 'tavily_extract': {
+        const response = await tavilyClient.extract(args as any, { signal: extra.signal });
+        return textResult(formatResultsV0216(response), structuredResultsV0216(response, 'extract'));
+      }
+      case 'tavily_crawl': {
+        const response = await withProgressHeartbeat(createProgressReporter(extra), 'crawling', () =>
+          tavilyClient.crawl(args as any, { signal: extra.signal })
+        );
+        return textResult(formatCrawlResultsV0216(response), structuredCrawlResultsV0216(response));
+      }
+      case 'tavily_map': {
+        const response = await tavilyClient.map(args as any, { signal: extra.signal });
+        return textResult(formatMapResultsV0216(response), structuredMapResultsV0216(response));
+      }
+      case 'tavily_research': {
+        const researchEnabled = await getResearchEnabled?.(extra) ?? true;
+        if (!researchEnabled) {
+          return toolError('Tavily Research is disabled by the server administrator.');
         }
-        case 'tavily_research': {
-          const researchEnabled = await getResearchEnabled?.() ?? true;
-          if (!researchEnabled) {
-            return toolError('Tavily Research is disabled by the server administrator.');
-          }
-          const response = await tavilyClient.research(args as any);
-          return textResult(formatResearchResultsV0216(response));
+        const response = await tavilyClient.research(args as any, { onProgress: createProgressReporter(extra), signal: extra.signal });
+        return textResult(formatResearchResultsV0216(response), structuredResearchResultsV0216(response));
+      }
+      case 'tavily_research_start':
+      case 'tavily_research_status':
+      case 'tavily_research_result': {
+        if (!supportsResearchJobs(tavilyClient)) {
+          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
         }
-        case 'brave_web_search': {
-          const searchSourceMode = await getSearchSourceMode?.(extra) ?? 'brave_prefer_tavily_fallback';
-          return await handleBraveWebSearch({
-            args,
-            extra,
-            tavilyClient,
-            braveClient,
-            braveOverflow,
-            braveMaxQueueMs,
-            getDefaultParameters,
-            searchSourceMode
-          });
+        const researchEnabled = await getResearchEnabled?.(extra) ?? true;
+        if (!researchEnabled) {
+          return toolError('Tavily Research is disabled by the server administrator.');
         }
-        case 'brave_local_search': {
-          const searchSourceMode = await getSearchSourceMode?.(extra) ?? 'brave_prefer_tavily_fallback';
-          return await handleBraveLocalSearch({
-            args,
-            extra,
-            tavilyClient,
-            braveClient,
-            braveOverflow,
-            braveMaxQueueMs,
-            getDefaultParameters,
-            searchSourceMode
-          });
+        return await handleResearchJobTool(toolName, args, tavilyClient, extra.signal);
+      }
+      case 'brave_web_search': {
+        const searchSourceMode = await getSearchSourceMode?.(extra) ?? 'brave_prefer_tavily_fallback';
+        const overflow = await getBraveOverflow?.(extra) ?? braveOverflow;
+        return await withFallbackProviders({ providers, kind: 'web', args, signal: extra.signal }, () => handleBraveWebSearch({
+          args,
+          extra,
+          tavilyClient,
+          braveClient,
+          braveOverflow: overflow,
+          braveMaxQueueMs,
+          getDefaultParameters,
+          searchSourceMode,
+          hedger,
+          signal: extra.signal,
+          getCombinedMergeSettings,
+          urlCanonicalization,
+          providers
+        }));
+      }
+      case 'web_search': {
+        const parsed = parseWebSearchArgs(args);
+        if (!parsed.ok) {
+          throw new McpError(ErrorCode.InvalidParams, parsed.error);
         }
-        default:
-          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
+        // Routed exactly like brave_web_search; only the argument translation and output shape differ.
+        const braveArgs = toBraveWebSearchArgs(parsed.value);
+        const searchSourceMode = await getSearchSourceMode?.(extra) ?? 'brave_prefer_tavily_fallback';
+        const overflow = await getBraveOverflow?.(extra) ?? braveOverflow;
+        const result = await withFallbackProviders({ providers, kind: 'web', args: braveArgs, signal: extra.signal }, () => handleBraveWebSearch({
+          args: braveArgs,
+          tavilyArgs: toTavilyWebSearchArgs(parsed.value),
+          extra,
+          tavilyClient,
+          braveClient,
+          braveOverflow: overflow,
+          braveMaxQueueMs,
+          getDefaultParameters,
+          searchSourceMode,
+          hedger,
+          signal: extra.signal,
+          getCombinedMergeSettings,
+          urlCanonicalization,
+          providers
+        }));
+        return toWebSearchResult(result);
       }
-    } catch (error) {
-      if (isTavilyHttpError(error)) {
-        return toolError(`Tavily API error: ${(error as TavilyHttpError).tavilyMessage || error.message}`);
+      case 'brave_local_search': {
+        const searchSourceMode = await getSearchSourceMode?.(extra) ?? 'brave_prefer_tavily_fallback';
+        const overflow = await getBraveOverflow?.(extra) ?? braveOverflow;
+        return await withFallbackProviders({ providers, kind: 'local', args, signal: extra.signal }, () => handleBraveLocalSearch({
+          args,
+          extra,
+          tavilyClient,
+          braveClient,
+          braveOverflow: overflow,
+          braveMaxQueueMs,
+          getDefaultParameters,
+          searchSourceMode,
+          signal: extra.signal,
+          getCombinedMergeSettings,
+          urlCanonicalization,
+          providers
+        }));
       }
-      if (isBraveHttpError(error)) {
-        const details = (error as BraveHttpError).braveMessage ?? error.message;
-        return toolError(`Brave API error: ${details}`);
+      case 'brave_news_search':
+      case 'brave_image_search':
+      case 'brave_video_search':
+      case 'brave_summarize': {
+        return await handleBraveOnlyTool(toolName, {
+          args,
+          braveClient,
+          braveOverflow: await getBraveOverflow?.(extra) ?? braveOverflow,
+          braveMaxQueueMs,
+          signal: extra.signal
+        });
       }
-      if (isBraveClientRuntimeError(error)) {
-        return toolError(`Brave API error: ${error.message}`);
+      default: {
+        const provider = providers.find((p) => p.tools.some((t) => t.name === toolName));
+        if (!provider) {
+          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
+        }
+        const query = typeof (args as any).query === 'string' ? String((args as any).query) : '';
+        const results = await runProviderSearch(provider, { ...args, query }, { signal: extra.signal });
+        return providerResult(provider, results);
       }
-      throw error;
     }
-  });
+  }
 
   return server;
 }
 
 async function handleBraveWebSearch(opts: {
   args: Record<string, unknown>;
+  /** Tavily arguments when they are more than `{ query, max_results: count }` (e.g. web_search filters). */
+  tavilyArgs?: TavilySearchParams;
   extra: unknown;
   tavilyClient: TavilyClient;
   braveClient: BraveClient | undefined;
@@ -192,15 +420,21 @@ async function handleBraveWebSearch(opts: {
   braveMaxQueueMs: number;
   getDefaultParameters: TavilyDefaultParametersProvider | undefined;
   searchSourceMode: SearchSourceMode;
+  hedger: RequestHedger;
+  signal?: AbortSignal;
+  getCombinedMergeSettings?: CombinedMergeSettingsProvider;
+  urlCanonicalization?: UrlCanonicalizationOptions;
+  providers: SearchProviderAdapter[];
 }): Promise<CallToolResult> {
   const defaults = opts.getDefaultParameters?.(opts.extra) ?? {};
   const query = typeof (opts.args as any).query === 'string' ? String((opts.args as any).query) : '';
   const maxResults = typeof (opts.args as any).count === 'number' ? (opts.args as any).count : undefined;
+  const tavilyArgs = opts.tavilyArgs ?? { query, max_results: maxResults };
 
   // Handle tavily_only mode
   if (opts.searchSourceMode === 'tavily_only') {
-    const response = await opts.tavilyClient.search({ query, max_results: maxResults }, { defaults });
-    return textResult(formatBraveWebResultsFromTavilyV0100(response));
+    const response = await opts.tavilyClient.search(tavilyArgs, { defaults, signal: opts.signal });
+    return textResult(formatBraveWebResultsFromTavilyV0100(response), structuredBraveWebResultsFromTavilyV0100(response));
   }
 
   // Handle brave_only mode
@@ -209,30 +443,48 @@ async function handleBraveWebSearch(opts: {
       return toolError('Brave Search is not configured. Please add a Brave API key or change the search source mode.');
     }
     const maxWaitMs = resolveBraveMaxWaitMs(opts.braveOverflow, opts.braveMaxQueueMs);
-    const response = await opts.braveClient.webSearch(opts.args as any, { defaults, maxWaitMs });
-    return textResult(formatBraveWebResultsV0100(response));
+    const response = await opts.braveClient.webSearch(opts.args as any, { defaults, maxWaitMs, signal: opts.signal });
+    return textResult(formatBraveWebResultsV0100(response), structuredBraveWebResultsV0100(response));
   }
 
   // Handle combined mode - call both in parallel and dedupe
   if (opts.searchSourceMode === 'combined') {
-    return await handleCombinedWebSearch(opts, query, maxResults, defaults);
+    return await handleCombinedWebSearch(opts, tavilyArgs, maxResults, defaults);
   }
 
   // Default: brave_prefer_tavily_fallback (original behavior)
   if (!opts.braveClient) {
-    const response = await opts.tavilyClient.search({ query, max_results: maxResults }, { defaults });
-    return textResult(formatBraveWebResultsFromTavilyV0100(response));
+    const response = await opts.tavilyClient.search(tavilyArgs, { defaults, signal: opts.signal });
+    return textResult(formatBraveWebResultsFromTavilyV0100(response), structuredBraveWebResultsFromTavilyV0100(response));
   }
 
   const maxWaitMs = resolveBraveMaxWaitMs(opts.braveOverflow, opts.braveMaxQueueMs);
 
+  // Hedged mode: Tavily also runs when Brave is slower than the threshold or fails; the first answer wins.
+  // `_meta.hedge` reports which call answered and whether the hedge was sent at all.
+  if (opts.searchSourceMode === 'brave_hedged_tavily') {
+    const braveClient = opts.braveClient;
+    const { value, winner, hedged } = await opts.hedger.run({
+      primary: async (signal) => {
+        const response = await braveClient.webSearch(opts.args as any, { defaults, maxWaitMs, signal, hedge: 'primary' });
+        return textResult(formatBraveWebResultsV0100(response), structuredBraveWebResultsV0100(response));
+      },
+      hedge: async (signal) => {
+        const response = await opts.tavilyClient.search(tavilyArgs, { defaults, signal, hedge: 'hedge' });
+        return textResult(formatBraveWebResultsFromTavilyV0100(response), structuredBraveWebResultsFromTavilyV0100(response));
+      },
+      signal: opts.signal
+    });
+    return { ...value, _meta: { ...value._meta, hedge: { winner, hedged } } };
+  }
+
   try {
-    const response = await opts.braveClient.webSearch(opts.args as any, { defaults, maxWaitMs });
-    return textResult(formatBraveWebResultsV0100(response));
+    const response = await opts.braveClient.webSearch(opts.args as any, { defaults, maxWaitMs, signal: opts.signal });
+    return textResult(formatBraveWebResultsV0100(response), structuredBraveWebResultsV0100(response));
   } catch (err: unknown) {
     if (opts.braveOverflow === 'fallback_to_tavily' && isBraveFallbackToTavilyError(err)) {
-      const response = await opts.tavilyClient.search({ query, max_results: maxResults }, { defaults });
-      return textResult(formatBraveWebResultsFromTavilyV0100(response));
+      const response = await opts.tavilyClient.search(tavilyArgs, { defaults, signal: opts.signal });
+      return textResult(formatBraveWebResultsFromTavilyV0100(response), structuredBraveWebResultsFromTavilyV0100(response));
     }
     if (isBraveRateGateTimeoutError(err)) {
       return toolError(`Brave API error: request queued too long (maxWaitMs=${opts.braveMaxQueueMs})`);
@@ -250,8 +502,12 @@ async function handleCombinedWebSearch(
     args: Record<string, unknown>;
     getDefaultParameters: TavilyDefaultParametersProvider | undefined;
     extra: unknown;
+    signal?: AbortSignal;
+    getCombinedMergeSettings?: CombinedMergeSettingsProvider;
+    urlCanonicalization?: UrlCanonicalizationOptions;
+    providers: SearchProviderAdapter[];
   },
-  query: string,
+  tavilyArgs: TavilySearchParams,
   maxResults: number | undefined,
   defaults: Record<string, unknown>
 ): Promise<CallToolResult> {
@@ -264,89 +520,47 @@ async function handleCombinedWebSearch(
       return toolError('Brave Search is not configured for pagination.');
     }
     const maxWaitMs = resolveBraveMaxWaitMs(opts.braveOverflow, opts.braveMaxQueueMs);
-    const response = await opts.braveClient.webSearch(opts.args as any, { defaults, maxWaitMs });
-    return textResult(formatBraveWebResultsV0100(response));
+    const response = await opts.braveClient.webSearch(opts.args as any, { defaults, maxWaitMs, signal: opts.signal });
+    return textResult(formatBraveWebResultsV0100(response), structuredBraveWebResultsV0100(response));
   }
 
-  // Combined mode: call both in parallel
-  const promises: Promise<{ source: 'tavily' | 'brave'; results: any[]; error?: any }>[] = [];
+  const query = typeof (opts.args as any).query === 'string' ? String((opts.args as any).query) : '';
 
-  // Always call Tavily
-  promises.push(
-    opts.tavilyClient.search({ query, max_results: maxResults }, { defaults })
-      .then(res => ({ source: 'tavily' as const, results: res.results ?? [] }))
-      .catch(err => ({ source: 'tavily' as const, results: [], error: err }))
-  );
+  // Combined mode: query every participating provider in parallel
+  const searches: Array<{ provider: string; run: Promise<MergeCandidate[]> }> = [
+    {
+      provider: 'tavily',
+      run: opts.tavilyClient
+        .search(tavilyArgs, { defaults, signal: opts.signal })
+        .then((res) => tavilyCandidates(res.results ?? []))
+    }
+  ];
 
-  // Call Brave if available
   if (opts.braveClient) {
     const maxWaitMs = resolveBraveMaxWaitMs(opts.braveOverflow, opts.braveMaxQueueMs);
-    promises.push(
-      opts.braveClient.webSearch(opts.args as any, { defaults, maxWaitMs })
-        .then(res => {
-          const webResults = (res as any)?.web?.results ?? (res as any)?.results ?? [];
-          return { source: 'brave' as const, results: webResults };
-        })
-        .catch(err => ({ source: 'brave' as const, results: [], error: err }))
-    );
+    searches.push({
+      provider: 'brave',
+      run: opts.braveClient.webSearch(opts.args as any, { defaults, maxWaitMs, signal: opts.signal }).then((res) => {
+        const webResults = (res as any)?.web?.results ?? (res as any)?.results ?? [];
+        return braveCandidates(webResults);
+      })
+    });
   }
 
-  const settled = await Promise.allSettled(promises);
-
-  // Extract results and check for errors
-  const tavilyResult = settled[0].status === 'fulfilled' ? settled[0].value : { source: 'tavily' as const, results: [], error: settled[0].reason };
-  const braveResult = settled[1]?.status === 'fulfilled' ? settled[1].value : (settled[1] ? { source: 'brave' as const, results: [], error: settled[1].reason } : null);
-
-  const tavilyFailed = tavilyResult.error !== undefined;
-  const braveFailed = braveResult?.error !== undefined;
-
-  // If both failed, return error
-  if (tavilyFailed && braveFailed) {
-    return toolError('Both Tavily and Brave search failed.');
+  for (const provider of routedProviders(opts.providers, 'web', 'combined')) {
+    searches.push({
+      provider: provider.id,
+      run: runProviderSearch(provider, { ...opts.args, query, count: maxResults }, { signal: opts.signal })
+    });
   }
 
-  // Interleave merge and deduplicate by URL
-  const seenUrls = new Set<string>();
-  const merged: Array<{ title: string; url: string; description?: string }> = [];
-
-  const tavilyData = tavilyResult.results;
-  const braveData = braveResult?.results ?? [];
-
-  const maxLen = Math.max(tavilyData.length, braveData.length);
-  for (let i = 0; i < maxLen; i++) {
-    // Tavily
-    if (i < tavilyData.length) {
-      const r = tavilyData[i];
-      const url = String(r?.url ?? '');
-      if (url && !seenUrls.has(url)) {
-        seenUrls.add(url);
-        merged.push({
-          title: String(r?.title ?? ''),
-          url,
-          description: String(r?.content ?? '') || undefined
-        });
-      }
-    }
-
-    // Brave
-    if (i < braveData.length) {
-      const r = braveData[i];
-      const url = String(r?.url ?? '');
-      if (url && !seenUrls.has(url)) {
-        seenUrls.add(url);
-        merged.push({
-          title: String(r?.title ?? ''),
-          url,
-          description: String(r?.description ?? r?.snippet ?? '') || undefined
-        });
-      }
-    }
-  }
+  const merged = await mergeCombinedSearches(searches, opts);
+  if (!Array.isArray(merged)) return merged;
 
   // Enforce count limit
   const finalResults = maxResults ? merged.slice(0, maxResults) : merged.slice(0, 10);
 
-  return textResult(JSON.stringify(finalResults, null, 2));
+  return textResult(JSON.stringify(finalResults, null, 2), structuredBraveResultsV0100(finalResults, 'combined'));
 }
 
 async function handleBraveLocalSearch(opts: {
@@ -358,6 +572,10 @@ async function handleBraveLocalSearch(opts: {
   braveMaxQueueMs: number;
   getDefaultParameters: TavilyDefaultParametersProvider | undefined;
   searchSourceMode: SearchSourceMode;
+  signal?: AbortSignal;
+  getCombinedMergeSettings?: CombinedMergeSettingsProvider;
+  urlCanonicalization?: UrlCanonicalizationOptions;
+  providers: SearchProviderAdapter[];
 }): Promise<CallToolResult> {
   const defaults = opts.getDefaultParameters?.(opts.extra) ?? {};
   const query = typeof (opts.args as any).query === 'string' ? String((opts.args as any).query) : '';
@@ -365,8 +583,8 @@ async function handleBraveLocalSearch(opts: {
 
   // Handle tavily_only mode
   if (opts.searchSourceMode === 'tavily_only') {
-    const response = await opts.tavilyClient.search({ query, max_results: maxResults }, { defaults });
-    return textResult(formatBraveWebResultsFromTavilyV0100(response));
+    const response = await opts.tavilyClient.search({ query, max_results: maxResults }, { defaults, signal: opts.signal });
+    return textResult(formatBraveWebResultsFromTavilyV0100(response), structuredBraveWebResultsFromTavilyV0100(response));
   }
 
   // Handle brave_only mode
@@ -375,8 +593,8 @@ async function handleBraveLocalSearch(opts: {
       return toolError('Brave Search is not configured. Please add a Brave API key or change the search source mode.');
     }
     const maxWaitMs = resolveBraveMaxWaitMs(opts.braveOverflow, opts.braveMaxQueueMs);
-    const response = await opts.braveClient.localSearch(opts.args as any, { defaults, maxWaitMs });
-    return textResult(formatBraveLocalResultsV0100(response));
+    const response = await opts.braveClient.localSearch(opts.args as any, { defaults, maxWaitMs, signal: opts.signal });
+    return textResult(formatBraveLocalResultsV0100(response), structuredBraveLocalResultsV0100(response));
   }
 
   // Handle combined mode - call both in parallel and dedupe
@@ -386,19 +604,19 @@ async function handleBraveLocalSearch(opts: {
 
   // Default: brave_prefer_tavily_fallback (original behavior)
   if (!opts.braveClient) {
-    const response = await opts.tavilyClient.search({ query, max_results: maxResults }, { defaults });
-    return textResult(formatBraveWebResultsFromTavilyV0100(response));
+    const response = await opts.tavilyClient.search({ query, max_results: maxResults }, { defaults, signal: opts.signal });
+    return textResult(formatBraveWebResultsFromTavilyV0100(response), structuredBraveWebResultsFromTavilyV0100(response));
   }
 
   const maxWaitMs = resolveBraveMaxWaitMs(opts.braveOverflow, opts.braveMaxQueueMs);
 
   try {
-    const response = await opts.braveClient.localSearch(opts.args as any, { defaults, maxWaitMs });
-    return textResult(formatBraveLocalResultsV0100(response));
+    const response = await opts.braveClient.localSearch(opts.args as any, { defaults, maxWaitMs, signal: opts.signal });
+    return textResult(formatBraveLocalResultsV0100(response), structuredBraveLocalResultsV0100(response));
   } catch (err: unknown) {
     if (opts.braveOverflow === 'fallback_to_tavily' && isBraveFallbackToTavilyError(err)) {
-      const response = await opts.tavilyClient.search({ query, max_results: maxResults }, { defaults });
-      return textResult(formatBraveWebResultsFromTavilyV0100(response));
+      const response = await opts.tavilyClient.search({ query, max_results: maxResults }, { defaults, signal: opts.signal });
+      return textResult(formatBraveWebResultsFromTavilyV0100(response), structuredBraveWebResultsFromTavilyV0100(response));
     }
     if (isBraveRateGateTimeoutError(err)) {
       return toolError(`Brave API error: request queued too long (maxWaitMs=${opts.braveMaxQueueMs})`);
@@ -416,89 +634,210 @@ async function handleCombinedLocalSearch(
     args: Record<string, unknown>;
     getDefaultParameters: TavilyDefaultParametersProvider | undefined;
     extra: unknown;
+    signal?: AbortSignal;
+    getCombinedMergeSettings?: CombinedMergeSettingsProvider;
+    urlCanonicalization?: UrlCanonicalizationOptions;
+    providers: SearchProviderAdapter[];
   },
   query: string,
   maxResults: number | undefined,
   defaults: Record<string, unknown>
 ): Promise<CallToolResult> {
-  const promises: Promise<{ source: 'tavily' | 'brave'; results: any[]; error?: any }>[] = [];
-
-  // Always call Tavily
-  promises.push(
-    opts.tavilyClient.search({ query, max_results: maxResults }, { defaults })
-      .then(res => ({ source: 'tavily' as const, results: res.results ?? [] }))
-      .catch(err => ({ source: 'tavily' as const, results: [], error: err }))
-  );
+  const searches: Array<{ provider: string; run: Promise<MergeCandidate[]> }> = [
+    {
+      provider: 'tavily',
+      run: opts.tavilyClient
+        .search({ query, max_results: maxResults }, { defaults, signal: opts.signal })
+        .then((res) => tavilyCandidates(res.results ?? []))
+    }
+  ];
 
   // Call Brave local search if available
   if (opts.braveClient) {
     const maxWaitMs = resolveBraveMaxWaitMs(opts.braveOverflow, opts.braveMaxQueueMs);
-    promises.push(
-      opts.braveClient.localSearch(opts.args as any, { defaults, maxWaitMs })
-        .then(res => {
-          const localResults = (res as any)?.local?.results ?? (res as any)?.results ?? (res as any)?.web?.results ?? [];
-          return { source: 'brave' as const, results: localResults };
-        })
-        .catch(err => ({ source: 'brave' as const, results: [], error: err }))
-    );
+    searches.push({
+      provider: 'brave',
+      run: opts.braveClient.localSearch(opts.args as any, { defaults, maxWaitMs, signal: opts.signal }).then((res) => {
+        const localResults = (res as any)?.local?.results ?? (res as any)?.results ?? (res as any)?.web?.results ?? [];
+        return braveCandidates(localResults);
+      })
+    });
+  }
+
+  for (const provider of routedProviders(opts.providers, 'local', 'combined')) {
+    searches.push({
+      provider: provider.id,
+      run: runProviderSearch(provider, { ...opts.args, query, count: maxResults }, { signal: opts.signal })
+    });
+  }
+
+  const merged = await mergeCombinedSearches(searches, opts);
+  if (!Array.isArray(merged)) return merged;
+
+  // Enforce count limit
+  const finalResults = maxResults ? merged.slice(0, maxResults) : merged.slice(0, 10);
+
+  return textResult(JSON.stringify(finalResults, null, 2), structuredBraveResultsV0100(finalResults, 'combined'));
+}
+
+/**
+ * News, image and video search and the summarizer have no Tavily equivalent and take no part in
+ * search source routing: they always go to Brave and report an error when Brave is unavailable.
+ */
+async function handleBraveOnlyTool(
+  toolName: 'brave_news_search' | 'brave_image_search' | 'brave_video_search' | 'brave_summarize',
+  opts: {
+    args: Record<string, unknown>;
+    braveClient: BraveClient | undefined;
+    braveOverflow: BraveOverflowMode;
+    braveMaxQueueMs: number;
+    signal?: AbortSignal;
   }
+): Promise<CallToolResult> {
+  if (!opts.braveClient) {
+    return toolError('Brave Search is not configured. Please add a Brave API key to use this tool.');
+  }
+  const callOpts = { maxWaitMs: resolveBraveMaxWaitMs(opts.braveOverflow, opts.braveMaxQueueMs), signal: opts.signal };
 
-  const settled = await Promise.allSettled(promises);
+  try {
+    if (toolName === 'brave_news_search') {
+      const response = await opts.braveClient.newsSearch(opts.args as any, callOpts);
+      return textResult(formatBraveNewsResultsV0100(response), structuredBraveNewsResultsV0100(response));
+    }
+    if (toolName === 'brave_image_search') {
+      const response = await opts.braveClient.imageSearch(opts.args as any, callOpts);
+      return textResult(formatBraveImageResultsV0100(response), structuredBraveImageResultsV0100(response));
+    }
+    if (toolName === 'brave_video_search') {
+      const response = await opts.braveClient.videoSearch(opts.args as any, callOpts);
+      return textResult(formatBraveVideoResultsV0100(response), structuredBraveVideoResultsV0100(response));
+    }
+    const response = await opts.braveClient.summarize(opts.args as any, callOpts);
+    if (!extractBraveSummaryTextV0100(response)) {
+      return toolError('Brave returned no summary for this query. The Summarizer requires a Brave plan that includes it.');
+    }
+    return textResult(formatBraveSummaryV0100(response), structuredBraveSummaryV0100(response));
+  } catch (err: unknown) {
+    if (isBraveRateGateTimeoutError(err)) {
+      return toolError(`Brave API error: request queued too long (maxWaitMs=${opts.braveMaxQueueMs})`);
+    }
+    throw err;
+  }
+}
 
-  // Extract results and check for errors
-  const tavilyResult = settled[0].status === 'fulfilled' ? settled[0].value : { source: 'tavily' as const, results: [], error: settled[0].reason };
-  const braveResult = settled[1]?.status === 'fulfilled' ? settled[1].value : (settled[1] ? { source: 'brave' as const, results: [], error: settled[1].reason } : null);
+function tavilyCandidates(results: any[]): MergeCandidate[] {
+  return results.map((r: any) => ({
+    title: String(r?.title ?? ''),
+    url: String(r?.url ?? ''),
+    description: String(r?.content ?? '') || undefined,
+    ...(typeof r?.score === 'number' ? { score: r.score } : {})
+  }));
+}
 
-  const tavilyFailed = tavilyResult.error !== undefined;
-  const braveFailed = braveResult?.error !== undefined;
+function braveCandidates(results: any[]): MergeCandidate[] {
+  return results.map((r: any) => ({
+    title: String(r?.title ?? r?.name ?? ''),
+    url: String(r?.url ?? r?.website ?? ''),
+    description: String(r?.description ?? r?.snippet ?? '') || undefined
+  }));
+}
 
-  // If both failed, return error
-  if (tavilyFailed && braveFailed) {
-    return toolError('Both Tavily and Brave search failed.');
+/** Waits for every combined-mode search and merges the lists; returns a tool error when all of them failed. */
+async function mergeCombinedSearches(
+  searches: Array<{ provider: string; run: Promise<MergeCandidate[]> }>,
+  opts: { getCombinedMergeSettings?: CombinedMergeSettingsProvider; urlCanonicalization?: UrlCanonicalizationOptions }
+): Promise<ReturnType<typeof mergeProviderResults> | CallToolResult> {
+  const settled = await Promise.allSettled(searches.map((s) => s.run));
+  if (settled.every((r) => r.status === 'rejected')) {
+    const ids = searches.map((s) => s.provider);
+    return toolError(
+      ids.join(',') === 'tavily,brave' ? 'Both Tavily and Brave search failed.' : `All search providers failed (${ids.join(', ')}).`
+    );
   }
 
-  // Interleave merge and deduplicate by URL
-  const seenUrls = new Set<string>();
-  const merged: Array<{ title: string; url: string; description?: string }> = [];
+  const lists: Record<string, MergeCandidate[]> = {};
+  searches.forEach((search, i) => {
+    const result = settled[i]!;
+    lists[search.provider] = result.status === 'fulfilled' ? result.value : [];
+  });
+  const mergeSettings = (await opts.getCombinedMergeSettings?.()) ?? defaultCombinedMergeSettings();
+  return mergeProviderResults(lists, mergeSettings, opts.urlCanonicalization);
+}
 
-  const tavilyData = tavilyResult.results;
-  const braveData = braveResult?.results ?? [];
+/**
+ * Runs the configured routing for a brave_* search tool and, when it fails, tries the providers
+ * routed for `fallback` in order. The original failure is reported if every fallback fails too.
+ */
+async function withFallbackProviders(
+  opts: { providers: SearchProviderAdapter[]; kind: 'web' | 'local'; args: Record<string, unknown>; signal?: AbortSignal },
+  primary: () => Promise<CallToolResult>
+): Promise<CallToolResult> {
+  const fallbacks = routedProviders(opts.providers, opts.kind, 'fallback');
+  if (fallbacks.length === 0) return await primary();
 
-  const maxLen = Math.max(tavilyData.length, braveData.length);
-  for (let i = 0; i < maxLen; i++) {
-    // Tavily
-    if (i < tavilyData.length) {
-      const r = tavilyData[i];
-      const url = String(r?.url ?? '');
-      if (url && !seenUrls.has(url)) {
-        seenUrls.add(url);
-        merged.push({
-          title: String(r?.title ?? ''),
-          url,
-          description: String(r?.content ?? '') || undefined
-        });
-      }
-    }
+  let primaryResult: CallToolResult | undefined;
+  let primaryError: unknown;
+  try {
+    primaryResult = await primary();
+    if (!primaryResult.isError) return primaryResult;
+  } catch (err) {
+    if (err instanceof McpError || opts.signal?.aborted) throw err;
+    primaryError = err;
+  }
 
-    // Brave
-    if (i < braveData.length) {
-      const r = braveData[i];
-      const url = String(r?.url ?? r?.website ?? '');
-      if (url && !seenUrls.has(url)) {
-        seenUrls.add(url);
-        merged.push({
-          title: String(r?.title ?? r?.name ?? ''),
-          url,
-          description: String(r?.description ?? r?.snippet ?? '') || undefined
-        });
-      }
+  const query = typeof (opts.args as any).query === 'string' ? String((opts.args as any).query) : '';
+  for (const provider of fallbacks) {
+    try {
+      const results = await runProviderSearch(provider, { ...opts.args, query }, { signal: opts.signal });
+      return providerResult(provider, results);
+    } catch (err) {
+      if (opts.signal?.aborted) throw err;
     }
   }
 
-  // Enforce count limit
-  const finalResults = maxResults ? merged.slice(0, maxResults) : merged.slice(0, 10);
+  if (primaryResult) return primaryResult;
+  throw primaryError;
+}
+
+function providerResult(provider: SearchProviderAdapter, results: ProviderSearchResult[]): CallToolResult {
+  return textResult(provider.format(results), structuredBraveResultsV0100(results, provider.id));
+}
 
-  return textResult(JSON.stringify(finalResults, null, 2));
+function supportsResearchJobs(
+  client: TavilyClient
+): client is TavilyClient & Required<Pick<TavilyClient, 'startResearchJob' | 'getResearchJob'>> {
+  return typeof client.startResearchJob === 'function' && typeof client.getResearchJob === 'function';
+}
+
+async function handleResearchJobTool(
+  toolName: 'tavily_research_start' | 'tavily_research_status' | 'tavily_research_result',
+  args: Record<string, unknown>,
+  tavilyClient: TavilyClient & Required<Pick<TavilyClient, 'startResearchJob' | 'getResearchJob'>>,
+  signal: AbortSignal
+): Promise<CallToolResult> {
+  if (toolName === 'tavily_research_start') {
+    const job = await tavilyClient.startResearchJob(args as any, { signal });
+    return textResult(formatResearchJobV0216(job), structuredResearchJobV0216(job));
+  }
+
+  const jobId = typeof args.job_id === 'string' ? args.job_id.trim() : '';
+  if (!jobId) {
+    throw new McpError(ErrorCode.InvalidParams, 'job_id is required');
+  }
+  const job = await tavilyClient.getResearchJob(jobId);
+  if (!job) {
+    return toolError(`Research job not found: ${jobId}`);
+  }
+
+  if (toolName === 'tavily_research_status') {
+    return textResult(formatResearchJobV0216(job), structuredResearchJobV0216(job));
+  }
+
+  if (job.status === 'running') {
+    return toolError(`Research job ${jobId} is still running. Check tavily_research_status and try again later.`);
+  }
+  const response = job.result ?? { error: `Research job ${job.status}` };
+  return textResult(formatResearchResultsV0216(response), structuredResearchResultsV0216(response));
 }
 
 function resolveBraveMaxWaitMs(mode: BraveOverflowMode, maxQueueMs: number): number | undefined {
@@ -508,9 +847,10 @@ function resolveBraveMaxWaitMs(mode: BraveOverflowMode, maxQueueMs: number): num
   return maxQueueMs;
 }
 
-function textResult(text: string): CallToolResult {
+function textResult(text: string, structuredContent: StructuredToolResult | Omit<TavilyResearchJob, 'result'>): CallToolResult {
   return {
-    content: [{ type: 'text', text }]
+    content: [{ type: 'text', text }],
+    structuredContent
   };
 }
 
@@ -521,8 +861,41 @@ function toolError(text: string): CallToolResult {
   };
 }
 
+/** Turns upstream API failures into tool error results; anything else propagates as a protocol error. */
+async function mapProviderErrors(_ctx: ToolCallContext, next: () => Promise<CallToolResult>): Promise<CallToolResult> {
+  try {
+    return await next();
+  } catch (error) {
+    if (isTavilyHttpError(error)) {
+      return toolError(`Tavily API error: ${(error as TavilyHttpError).tavilyMessage || error.message}`);
+    }
+    if (isBraveHttpError(error)) {
+      const details = (error as BraveHttpError).braveMessage ?? error.message;
+      return toolError(`Brave API error: ${details}`);
+    }
+    if (isBraveClientRuntimeError(error)) {
+      return toolError(`Brave API error: ${error.message}`);
+    }
+    if (isSearchProviderHttpError(error)) {
+      const details = (error as SearchProviderHttpError).providerMessage ?? error.message;
+      return toolError(`${error.providerId} API error: ${details}`);
+    }
+    if (isSearchProviderUnavailableError(error)) {
+      return toolError(error.message);
+    }
+    throw error;
+  }
+}
+
 function isBraveFallbackToTavilyError(err: unknown): boolean {
-  return isBraveRateGateTimeoutError(err) || isBraveHttpError(err) || isBraveClientRuntimeError(err);
+  return (
+    isBraveRateGateTimeoutError(err) ||
+    isBraveTimeoutError(err) ||
+    isBraveHttpError(err) ||
+    isBraveClientRuntimeError(err) ||
+    // An open Brave circuit skips straight to Tavily instead of waiting for another timeout.
+    (isCircuitOpenError(err) && err.providerId === 'brave')
+  );
 }
 
 function isBraveClientRuntimeError(err: unknown): err is Error {
@@ -3,14 +3,25 @@ import { CallToolRequestSchema, ListToolsRequestSchema, ErrorCode, McpError } fr
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 
 import type { TavilyClient, TavilyDefaultParametersProvider } from '../tavily/types.js';
-import { tavilyToolsV0216 } from '../tavily/tools-v0216.js';
+import {
+  formatTavilySearchResults,
+  normalizeTavilySearchArgs,
+  tavilyToolsFor,
+  type TavilyToolsVersion
+} from '../tavily/toolsVersion.js';
 import {
   formatCrawlResultsV0216,
   formatMapResultsV0216,
   formatResearchResultsV0216,
-  formatResultsV0216
+  formatResultsV0216,
+  structuredCrawlResultsV0216,
+  structuredMapResultsV0216,
+  structuredResearchResultsV0216,
+  structuredResultsV0216
 } from '../tavily/format-v0216.js';
 import { TavilyHttpError, isTavilyHttpError } from '../tavily/errors.js';
+import { createProgressReporter, withProgressHeartbeat } from './progress.js';
+import type { StructuredToolResult } from './structuredResult.js';
 
 type CreateTavilyProxyServerOptions = {
   serverName: string;
@@ -18,7 +29,9 @@ type CreateTavilyProxyServerOptions = {
   tavilyClient: TavilyClient;
   getDefaultParameters?: TavilyDefaultParametersProvider;
   getAuthToken?: (ctx: unknown) => string | undefined;
-  getResearchEnabled?: () => boolean | Promise<boolean>;
+  getResearchEnabled?: (ctx: unknown) => boolean | Promise<boolean>;
+  /** Tavily tool-schema version to advertise; defaults to `v0216`. */
+  tavilyToolsVersion?: TavilyToolsVersion;
 };
 
 export function createTavilyProxyServer({
@@ -27,7 +40,8 @@ export function createTavilyProxyServer({
   tavilyClient,
   getDefaultParameters,
   getAuthToken,
-  getResearchEnabled
+  getResearchEnabled,
+  tavilyToolsVersion = 'v0216'
 }: CreateTavilyProxyServerOptions): Server {
   const server = new Server(
     { name: serverName, version: serverVersion },
@@ -38,11 +52,11 @@ export function createTavilyProxyServer({
     }
   );
 
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    const researchEnabled = await getResearchEnabled?.() ?? true;
+  server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+    const researchEnabled = await getResearchEnabled?.(extra) ?? true;
     const tools = researchEnabled
-      ? tavilyToolsV0216
-      : tavilyToolsV0216.filter(t => t.name !== 'tavily_research');
+      ? tavilyToolsFor(tavilyToolsVersion)
+      : tavilyToolsFor(tavilyToolsVersion).filter(t => t.name !== 'tavily_research');
     return { tools };
   });
 
@@ -62,34 +76,31 @@ export function createTavilyProxyServer({
       switch (toolName) {
         case 'tavily_search': {
           const defaults = getDefaultParameters?.(extra) ?? {};
-          const country = (args as any).country;
-          const normalizedArgs = {
-            ...args,
-            ...(country ? { topic: 'general' } : null)
-          } as any;
-
-          const response = await tavilyClient.search(normalizedArgs, { defaults });
-          return textResult(formatResultsV0216(response));
+          const normalizedArgs = normalizeTavilySearchArgs(tavilyToolsVersion, args);
+          const response = await tavilyClient.search(normalizedArgs, { defaults, signal: extra.signal });
+          return textResult(formatTavilySearchResults(tavilyToolsVersion, response), structuredResultsV0216(response, 'search'));
         }
         case 'tavily_extract': {
-          const response = await tavilyClient.extract(args as any);
-          return textResult(formatResultsV0216(response));
+          const response = await tavilyClient.extract(args as any, { signal: extra.signal });
+          return textResult(formatResultsV0216(response), structuredResultsV0216(response, 'extract'));
         }
         case 'tavily_crawl': {
-          const response = await tavilyClient.crawl(args as any);
-          return textResult(formatCrawlResultsV0216(response));
+          const response = await withProgressHeartbeat(createProgressReporter(extra), 'crawling', () =>
+            tavilyClient.crawl(args as any, { signal: extra.signal })
+          );
+          return textResult(formatCrawlResultsV0216(response), structuredCrawlResultsV0216(response));
         }
         case 'tavily_map': {
-          const response = await tavilyClient.map(args as any);
-          return textResult(formatMapResultsV0216(response));
+          const response = await tavilyClient.map(args as any, { signal: extra.signal });
+          return textResult(formatMapResultsV0216(response), structuredMapResultsV0216(response));
         }
         case 'tavily_research': {
-          const researchEnabled = await getResearchEnabled?.() ?? true;
+          const researchEnabled = await getResearchEnabled?.(extra) ?? true;
           if (!researchEnabled) {
             return toolError('Tavily Research is disabled by the server administrator.');
           }
-          const response = await tavilyClient.research(args as any);
-          return textResult(formatResearchResultsV0216(response));
+          const response = await tavilyClient.research(args as any, { onProgress: createProgressReporter(extra), signal: extra.signal });
+          return textResult(formatResearchResultsV0216(response), structuredResearchResultsV0216(response));
         }
         default:
           throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${toolName}`);
@@ -105,9 +116,10 @@ export function createTavilyProxyServer({
   return server;
 }
 
-function textResult(text: string): CallToolResult {
+function textResult(text: string, structuredContent: StructuredToolResult): CallToolResult {
   return {
-    content: [{ type: 'text', text }]
+    content: [{ type: 'text', text }],
+    structuredContent
   };
 }
 
@@ -0,0 +1,136 @@
+/** Role of an upstream call in a hedged search, passed to clients so usage logs can tag it. */
+export type HedgeRole = 'primary' | 'hedge';
+
+/**
+ * When to fire the hedge: a fixed delay, or a percentile of the primary's recent latencies
+ * (e.g. p95 hedges the slowest 5% of calls).
+ */
+export type HedgeThreshold = { kind: 'fixed'; ms: number } | { kind: 'percentile'; percentile: number };
+
+export const DEFAULT_HEDGE_THRESHOLD: HedgeThreshold = { kind: 'percentile', percentile: 95 };
+
+/** Delay used by percentile thresholds until enough latencies have been observed. */
+const WARMUP_DELAY_MS = 1000;
+const MIN_SAMPLES = 20;
+const MAX_SAMPLES = 200;
+
+/** Parses `p95` (percentile of recent primary latency) or `800` / `800ms` (fixed delay); anything else keeps `fallback`. */
+export function parseHedgeThreshold(raw: unknown, fallback: HedgeThreshold = DEFAULT_HEDGE_THRESHOLD): HedgeThreshold {
+  if (typeof raw !== 'string') return fallback;
+  const normalized = raw.trim().toLowerCase();
+  const percentile = /^p(\d{1,2}(?:\.\d+)?)$/.exec(normalized);
+  if (percentile) {
+    const value = Number(percentile[1]);
+    return value > 0 && value < 100 ? { kind: 'percentile', percentile: value } : fallback;
+  }
+  const fixed = /^(\d+)(?:ms)?$/.exec(normalized);
+  if (fixed) return { kind: 'fixed', ms: Number(fixed[1]) };
+  return fallback;
+}
+
+export type HedgedResult<T> = {
+  value: T;
+  /** Which call produced `value`. */
+  winner: HedgeRole;
+  /** Whether the hedge call was started at all. */
+  hedged: boolean;
+};
+
+/**
+ * Runs a primary call and, if it has not answered within the threshold (or fails first), a hedge
+ * call; the first success wins and the other call is aborted. Primary latencies are kept for
+ * percentile thresholds, so one hedger should be shared by every session of a server.
+ */
+export class RequestHedger {
+  private readonly threshold: HedgeThreshold;
+  private readonly samples: number[] = [];
+
+  constructor(opts: { threshold?: HedgeThreshold } = {}) {
+    this.threshold = opts.threshold ?? DEFAULT_HEDGE_THRESHOLD;
+  }
+
+  /** Milliseconds to wait for the primary before firing the hedge. */
+  delayMs(): number {
+    if (this.threshold.kind === 'fixed') return this.threshold.ms;
+    if (this.samples.length < MIN_SAMPLES) return WARMUP_DELAY_MS;
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil((this.threshold.percentile / 100) * sorted.length) - 1);
+    return sorted[Math.max(0, index)]!;
+  }
+
+  async run<T>(opts: {
+    primary: (signal: AbortSignal) => Promise<T>;
+    hedge: (signal: AbortSignal) => Promise<T>;
+    signal?: AbortSignal;
+  }): Promise<HedgedResult<T>> {
+    const primaryAbort = linkedAbortController(opts.signal);
+    const hedgeAbort = linkedAbortController(opts.signal);
+    const startedAt = Date.now();
+
+    return await new Promise<HedgedResult<T>>((resolve, reject) => {
+      let settled = false;
+      let hedged = false;
+      let pending = 1;
+      let primaryFailed = false;
+      let lastError: unknown;
+
+      const finish = (role: HedgeRole, value: T) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        // A primary that lost was at least this slow; keeping the bound stops the tail from vanishing.
+        if (role === 'primary' || !primaryFailed) this.record(Date.now() - startedAt);
+        (role === 'primary' ? hedgeAbort : primaryAbort).abort();
+        resolve({ value, winner: role, hedged });
+      };
+      const fail = (error: unknown) => {
+        lastError = error;
+        pending -= 1;
+        if (!settled && pending === 0 && hedged) {
+          settled = true;
+          reject(lastError);
+        }
+      };
+      const fireHedge = () => {
+        if (settled || hedged) return;
+        hedged = true;
+        pending += 1;
+        opts.hedge(hedgeAbort.signal).then((value) => finish('hedge', value), fail);
+      };
+
+      const timer = setTimeout(fireHedge, this.delayMs());
+      opts.primary(primaryAbort.signal).then(
+        (value) => finish('primary', value),
+        (error) => {
+          if (settled) return;
+          primaryFailed = true;
+          clearTimeout(timer);
+          if (opts.signal?.aborted) {
+            settled = true;
+            reject(error);
+            return;
+          }
+          fail(error);
+          // A failed primary hedges at once, like the fallback mode.
+          fireHedge();
+        }
+      );
+    }).finally(() => {
+      primaryAbort.dispose();
+      hedgeAbort.dispose();
+    });
+  }
+
+  private record(latencyMs: number): void {
+    this.samples.push(latencyMs);
+    if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+  }
+}
+
+function linkedAbortController(parent?: AbortSignal): AbortController & { dispose(): void } {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) controller.abort(parent.reason);
+  else parent?.addEventListener('abort', onAbort, { once: true });
+  return Object.assign(controller, { dispose: () => parent?.removeEventListener('abort', onAbort) });
+}
@@ -0,0 +1,165 @@
+import { canonicalizeUrl, type UrlCanonicalizationOptions } from './canonicalUrl.js';
+
+export type CombinedMergeStrategy = 'interleave' | 'rrf' | 'weighted';
+
+/** `tavily`, `brave` or the id of a registered search provider adapter. */
+export type MergeProvider = string;
+
+export type CombinedMergeSettings = {
+  strategy: CombinedMergeStrategy;
+  /** Per-provider weight; providers without an entry weigh 1. */
+  weights: Record<MergeProvider, number>;
+};
+
+export type MergeCandidate = {
+  title: string;
+  url: string;
+  description?: string;
+  /** Provider relevance score when the upstream returns one (Tavily does, Brave does not). */
+  score?: number;
+};
+
+/** A merged result, with the 1-based rank at which each provider returned its URL. */
+export type MergedSearchResult = {
+  title: string;
+  url: string;
+  description?: string;
+  sources: Array<{ provider: MergeProvider; rank: number }>;
+  score?: number;
+};
+
+const VALID_STRATEGIES: CombinedMergeStrategy[] = ['interleave', 'rrf', 'weighted'];
+const PROVIDER_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+const RRF_K = 60;
+const MAX_WEIGHT = 100;
+
+export function defaultCombinedMergeSettings(): CombinedMergeSettings {
+  return { strategy: 'interleave', weights: { tavily: 1, brave: 1 } };
+}
+
+export function parseCombinedMergeStrategy(
+  raw: unknown,
+  fallback: CombinedMergeStrategy = 'interleave'
+): CombinedMergeStrategy {
+  if (typeof raw !== 'string') return fallback;
+  const normalized = raw.trim().toLowerCase();
+  if (VALID_STRATEGIES.includes(normalized as CombinedMergeStrategy)) {
+    return normalized as CombinedMergeStrategy;
+  }
+  return fallback;
+}
+
+/**
+ * Parses `{ strategy, weights: { tavily, brave } }` (JSON string or object). Invalid fields keep
+ * the fallback; weights must be non-negative numbers.
+ */
+export function parseCombinedMergeSettings(
+  raw: unknown,
+  fallback: CombinedMergeSettings = defaultCombinedMergeSettings()
+): CombinedMergeSettings {
+  let value: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return { strategy: fallback.strategy, weights: { ...fallback.weights } };
+    }
+  }
+  const out: CombinedMergeSettings = { strategy: fallback.strategy, weights: { ...fallback.weights } };
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return out;
+
+  const record = value as Record<string, unknown>;
+  out.strategy = parseCombinedMergeStrategy(record.strategy, fallback.strategy);
+  const weights = record.weights;
+  if (typeof weights === 'object' && weights !== null && !Array.isArray(weights)) {
+    for (const [provider, weight] of Object.entries(weights as Record<string, unknown>)) {
+      if (!PROVIDER_ID_PATTERN.test(provider)) continue;
+      if (typeof weight === 'number' && Number.isFinite(weight) && weight >= 0) {
+        out.weights[provider] = Math.min(MAX_WEIGHT, weight);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Merges per-provider result lists into one ranked list, deduplicating by canonical URL (see
+ * `canonicalizeUrl`). The first-seen URL is kept as the result's `url`.
+ *
+ * - `interleave` alternates providers in the order of `lists` and keeps the first occurrence.
+ * - `rrf` scores each URL by reciprocal rank fusion: sum of `weight / (60 + rank)`.
+ * - `weighted` sums `weight * normalizedScore`, using the provider's own score when present
+ *   (min-max normalized) and a linear rank decay otherwise.
+ *
+ * URLs returned by both providers get contributions from both, so agreement ranks higher.
+ */
+export function mergeProviderResults(
+  lists: Record<MergeProvider, MergeCandidate[]>,
+  settings: CombinedMergeSettings,
+  canonicalization?: UrlCanonicalizationOptions
+): MergedSearchResult[] {
+  const byUrl = new Map<string, MergedSearchResult>();
+  const order: MergedSearchResult[] = [];
+
+  const providers = Object.keys(lists);
+  const maxLen = Math.max(0, ...providers.map((provider) => lists[provider]!.length));
+  for (let i = 0; i < maxLen; i++) {
+    for (const provider of providers) {
+      const candidate = lists[provider]![i];
+      const url = candidate?.url ?? '';
+      if (!url) continue;
+
+      const key = canonicalizeUrl(url, canonicalization);
+      const existing = byUrl.get(key);
+      if (existing) {
+        if (!existing.sources.some((s) => s.provider === provider)) {
+          existing.sources.push({ provider, rank: i + 1 });
+        }
+        if (!existing.description && candidate!.description) existing.description = candidate!.description;
+        continue;
+      }
+
+      const merged: MergedSearchResult = {
+        title: candidate!.title,
+        url,
+        ...(candidate!.description ? { description: candidate!.description } : {}),
+        sources: [{ provider, rank: i + 1 }]
+      };
+      byUrl.set(key, merged);
+      order.push(merged);
+    }
+  }
+
+  if (settings.strategy === 'interleave') return order;
+
+  const scoreOf = settings.strategy === 'rrf' ? rrfContribution : weightedContribution(lists);
+  for (const result of order) {
+    const score = result.sources.reduce(
+      (sum, source) => sum + (settings.weights[source.provider] ?? 1) * scoreOf(source.provider, source.rank),
+      0
+    );
+    result.score = Math.round(score * 1e6) / 1e6;
+  }
+
+  // Array.prototype.sort is stable, so ties keep the interleaved order.
+  return [...order].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+}
+
+function rrfContribution(_provider: MergeProvider, rank: number): number {
+  return 1 / (RRF_K + rank);
+}
+
+function weightedContribution(lists: Record<MergeProvider, MergeCandidate[]>) {
+  const normalized = new Map<MergeProvider, number[]>();
+  for (const [provider, list] of Object.entries(lists)) {
+    const scores = list.map((c) => c.score);
+    if (list.length > 0 && scores.every((s) => typeof s === 'number' && Number.isFinite(s))) {
+      const min = Math.min(...(scores as number[]));
+      const max = Math.max(...(scores as number[]));
+      normalized.set(provider, (scores as number[]).map((s) => (max === min ? 1 : (s - min) / (max - min))));
+    } else {
+      normalized.set(provider, list.map((_, i) => (list.length - i) / list.length));
+    }
+  }
+  return (provider: MergeProvider, rank: number): number => normalized.get(provider)?.[rank - 1] ?? 0;
+}
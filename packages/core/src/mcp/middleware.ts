@@ -0,0 +1,122 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+
+import type { VirtualToolDefinition } from './virtualTools.js';
+
+/** State of one `tools/call` request as it moves through the middleware chain. */
+export type ToolCallContext = {
+  /** Tool name the client called; for a virtual tool this is its own name. */
+  readonly name: string;
+  /** Tool that will run: `name`, or a virtual tool's base tool once the call is resolved. */
+  toolName: string;
+  /** Arguments that will be dispatched; virtual tool presets are merged in once the call is resolved. */
+  arguments: Record<string, unknown>;
+  /** Client token of the caller, set by `requireClientToken`. */
+  token?: string;
+  virtualTool?: VirtualToolDefinition;
+  /** Text output budget in characters, set once the call is resolved; `undefined` means unlimited. */
+  maxOutputChars?: number;
+  readonly extra: RequestHandlerExtra<ServerRequest, ServerNotification>;
+};
+
+/**
+ * One step of the tool-call pipeline. Call `next` to continue down the chain, or return a result
+ * (or throw an `McpError`) to short-circuit it.
+ */
+export type ToolCallMiddleware = (ctx: ToolCallContext, next: () => Promise<CallToolResult>) => Promise<CallToolResult>;
+
+export type ToolCallHandler = (ctx: ToolCallContext) => Promise<CallToolResult>;
+
+/** Runs `middleware` in order around `handler`; the first entry is the outermost. */
+export function composeToolCallMiddleware(middleware: ToolCallMiddleware[], handler: ToolCallHandler): ToolCallHandler {
+  return (ctx) => {
+    let lastIndex = -1;
+    const run = (index: number): Promise<CallToolResult> => {
+      if (index <= lastIndex) return Promise.reject(new Error('Tool-call middleware called next() more than once'));
+      lastIndex = index;
+      const step = middleware[index];
+      if (!step) return handler(ctx);
+      try {
+        return step(ctx, () => run(index + 1));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    };
+    return run(0);
+  };
+}
+
+/** Rejects calls without a client token; the token comes from `getAuthToken` or the transport's auth info. */
+export function requireClientToken(getAuthToken?: (ctx: unknown) => string | undefined): ToolCallMiddleware {
+  return (ctx, next) => {
+    const token = getAuthToken?.(ctx.extra) ?? (ctx.extra as any)?.authInfo?.token;
+    if (!token) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Client token is required. Provide Authorization: Bearer <token> (HTTP) or set TAVILY_BRIDGE_MCP_TOKEN (stdio).'
+      );
+    }
+    ctx.token = token;
+    return next();
+  };
+}
+
+/**
+ * Parses a token's allowed-tools setting (an array or its JSON text). `null` means every tool is
+ * allowed: unset, empty or unparseable settings do not lock a token out.
+ */
+export function parseAllowedTools(raw: unknown): string[] | null {
+  let parsed: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) return null;
+  return parsed.filter((name): name is string => typeof name === 'string');
+}
+
+/**
+ * Rejects tools outside the token's allowed list. Tools are scoped by the name the client called,
+ * so a virtual tool can be allowed without its base tool. `exempt` tools are never checked.
+ */
+export function scopeAllowedTools(
+  getAllowedTools: (ctx: unknown) => unknown | Promise<unknown>,
+  opts: { exempt?: string[] } = {}
+): ToolCallMiddleware {
+  return async (ctx, next) => {
+    if (!opts.exempt?.includes(ctx.name)) {
+      const allowedTools = parseAllowedTools(await getAllowedTools(ctx.extra));
+      if (allowedTools && !allowedTools.includes(ctx.name)) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Tool '${ctx.name}' is not allowed for this token. Allowed tools: ${allowedTools.join(', ')}`
+        );
+      }
+    }
+    return next();
+  };
+}
+
+/** Masks API keys and client tokens that upstream error messages may echo back. */
+export function redactSecrets(text: string): string {
+  return text
+    .replace(/\btvly-[A-Za-z0-9_-]+/g, 'tvly-<redacted>')
+    .replace(/\bmcp_[A-Za-z0-9]+\.[A-Za-z0-9]+/g, 'mcp_<redacted>')
+    .replace(/\b(Bearer\s+)[A-Za-z0-9._~+/=-]+/gi, '$1<redacted>');
+}
+
+/** Applies `redactSecrets` to the text of error results before they reach the client. */
+export function redactToolErrors(): ToolCallMiddleware {
+  return async (_ctx, next) => {
+    const result = await next();
+    if (!result.isError) return result;
+    return {
+      ...result,
+      content: result.content.map((item) => (item.type === 'text' ? { ...item, text: redactSecrets(item.text) } : item))
+    };
+  };
+}
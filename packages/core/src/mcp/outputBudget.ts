@@ -0,0 +1,249 @@
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const MAX_OUTPUT_CHARS_ARGUMENT = 'max_output_chars';
+export const NEXUS_CONTINUE_TOOL = 'nexus_continue';
+
+/** Smallest accepted budget; anything lower leaves no room for useful output next to the notice. */
+export const MIN_MAX_OUTPUT_CHARS = 1000;
+
+/** Per-request output budget in characters (e.g. a client token override); `undefined` keeps the `maxOutputChars` option. */
+export type MaxOutputCharsProvider = (ctx: unknown) => number | undefined | Promise<number | undefined>;
+
+/** The full text of a truncated result, kept so `nexus_continue` can serve the following slices. */
+export type StoredOutput = {
+  /** Client token that produced the output; only the same token may read it back. */
+  owner: string;
+  text: string;
+  /** Budget in effect when the output was truncated; later slices default to the same size. */
+  sliceChars: number;
+};
+
+export interface OutputContinuationStore {
+  /** Stores `output` and returns its id. */
+  save(output: StoredOutput): string | Promise<string>;
+  /** Returns the output if it exists, has not expired and belongs to `owner`. */
+  load(id: string, owner: string): StoredOutput | null | Promise<StoredOutput | null>;
+}
+
+/**
+ * Process-local continuation store. Entries expire after `ttlMs`; when `maxEntries` is reached the
+ * oldest entry is dropped, so a burst of huge results cannot grow memory without bound.
+ */
+export class MemoryOutputContinuationStore implements OutputContinuationStore {
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, StoredOutput & { expiresAtMs: number }>();
+
+  constructor(opts: { ttlMs?: number; maxEntries?: number } = {}) {
+    this.ttlMs = opts.ttlMs ?? 15 * 60_000;
+    this.maxEntries = opts.maxEntries ?? 100;
+  }
+
+  save(output: StoredOutput): string {
+    this.evictExpired();
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+    const id = globalThis.crypto.randomUUID();
+    this.entries.set(id, { ...output, expiresAtMs: Date.now() + this.ttlMs });
+    return id;
+  }
+
+  load(id: string, owner: string): StoredOutput | null {
+    const entry = this.entries.get(id);
+    if (!entry) return null;
+    if (Date.now() >= entry.expiresAtMs) {
+      this.entries.delete(id);
+      return null;
+    }
+    if (entry.owner !== owner) return null;
+    return { owner: entry.owner, text: entry.text, sliceChars: entry.sliceChars };
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.entries) {
+      if (now >= entry.expiresAtMs) this.entries.delete(id);
+    }
+  }
+}
+
+/** Parses a budget from config (env var, token setting); empty, invalid or non-positive values mean "no budget". */
+export function parseMaxOutputChars(raw: unknown): number | undefined {
+  const value = typeof raw === 'string' ? (raw.trim() ? Number(raw) : NaN) : raw;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) return undefined;
+  return Math.max(MIN_MAX_OUTPUT_CHARS, Math.floor(value));
+}
+
+const maxOutputCharsProperty = {
+  type: 'integer',
+  minimum: MIN_MAX_OUTPUT_CHARS,
+  description:
+    'Maximum characters of text output to return. Longer output is truncated and a nexus_continue cursor is returned for the rest. Overrides the token and server defaults.'
+};
+
+/** Adds the optional `max_output_chars` argument to a tool's input schema. */
+export function withOutputBudgetArgument(tool: Tool): Tool {
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, [MAX_OUTPUT_CHARS_ARGUMENT]: maxOutputCharsProperty }
+    }
+  };
+}
+
+export const nexusContinueTool: Tool = {
+  name: NEXUS_CONTINUE_TOOL,
+  description:
+    'Fetch the next part of a tool result that was truncated by max_output_chars. Pass the cursor from the truncation notice; cursors expire and only work for the client token that made the original call.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      cursor: { type: 'string', description: 'Cursor from the truncation notice of the previous result' },
+      [MAX_OUTPUT_CHARS_ARGUMENT]: {
+        ...maxOutputCharsProperty,
+        description: 'Maximum characters to return in this part; defaults to the budget of the original call'
+      }
+    },
+    required: ['cursor']
+  },
+  outputSchema: {
+    type: 'object',
+    properties: {
+      next_cursor: { type: ['string', 'null'], description: 'Cursor for the following part, or null when this was the last one' },
+      start: { type: 'integer', description: 'Offset of the first character of this part' },
+      end: { type: 'integer', description: 'Offset just past the last character of this part' },
+      total: { type: 'integer', description: 'Length of the full output' }
+    },
+    required: ['next_cursor', 'start', 'end', 'total']
+  }
+};
+
+/**
+ * Truncates the text of a successful result to `maxChars`. When a store is available the full text
+ * is kept and the notice carries a `nexus_continue` cursor. `structuredContent` is trimmed to the
+ * same budget (see `trimStructuredContent`) so the structured copy does not carry the full payload.
+ */
+export async function applyOutputBudget(
+  result: CallToolResult,
+  opts: { maxChars: number | undefined; owner: string; store?: OutputContinuationStore }
+): Promise<CallToolResult> {
+  if (result.isError || opts.maxChars === undefined) return result;
+  const [first, ...rest] = result.content;
+  if (!first || first.type !== 'text' || rest.length > 0) return result;
+  const structuredFits = !result.structuredContent || JSON.stringify(result.structuredContent).length <= opts.maxChars;
+  if (first.text.length <= opts.maxChars && structuredFits) return result;
+
+  let content = result.content;
+  let nextCursor: string | undefined;
+  const text = first.text;
+  if (text.length > opts.maxChars) {
+    const slice = sliceOutput(text, 0, opts.maxChars);
+    const id = opts.store ? await opts.store.save({ owner: opts.owner, text, sliceChars: opts.maxChars }) : undefined;
+    nextCursor = id ? encodeCursor(id, slice.end) : undefined;
+    const notice = nextCursor
+      ? continuationNotice(0, slice.end, text.length, nextCursor)
+      : `\n\n[Output truncated: showing characters 1-${slice.end} of ${text.length}. Pass a larger ${MAX_OUTPUT_CHARS_ARGUMENT} to see more.]`;
+    content = [{ type: 'text', text: slice.text + notice }];
+  }
+
+  return {
+    ...result,
+    content,
+    ...(result.structuredContent && !structuredFits
+      ? { structuredContent: trimStructuredContent(result.structuredContent, opts.maxChars, nextCursor) }
+      : {})
+  };
+}
+
+/** Longest an item's `content` or a top-level string field may stay once trimming has to shorten text. */
+const TRIMMED_FIELD_CHARS = 500;
+
+/**
+ * Shrinks a `StructuredToolResult`-shaped payload until its JSON fits `maxChars`, keeping the fields
+ * the output schema requires: `raw_content` goes first, then long text is shortened, then trailing
+ * results are dropped. The result is marked `truncated`, with `next_cursor` when the full text can be
+ * read through `nexus_continue`.
+ */
+function trimStructuredContent(
+  structured: Record<string, unknown>,
+  maxChars: number,
+  nextCursor: string | undefined
+): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...structured, truncated: true, ...(nextCursor ? { next_cursor: nextCursor } : {}) };
+  const fits = () => JSON.stringify(out).length <= maxChars;
+  const results = Array.isArray(out.results) ? (out.results as unknown[]).map((item) => ({ ...(item as Record<string, unknown>) })) : null;
+  if (results) out.results = results;
+
+  if (results) for (const item of results) delete item.raw_content;
+  if (fits()) return out;
+
+  const shorten = (value: unknown, limit: number) =>
+    typeof value === 'string' && value.length > limit ? `${value.slice(0, Math.max(0, limit - 1))}…` : value;
+  if (results) {
+    for (const item of results) if (item.content !== undefined) item.content = shorten(item.content, TRIMMED_FIELD_CHARS);
+  }
+  for (const field of ['answer', 'content']) {
+    if (out[field] !== undefined) out[field] = shorten(out[field], TRIMMED_FIELD_CHARS);
+  }
+
+  while (results && results.length > 0 && !fits()) results.pop();
+  return out;
+}
+
+/** Serves the slice of a stored output that `cursor` points at. */
+export async function continueOutput(
+  store: OutputContinuationStore,
+  owner: string,
+  args: Record<string, unknown>
+): Promise<CallToolResult> {
+  const cursor = typeof args.cursor === 'string' ? decodeCursor(args.cursor) : null;
+  const stored = cursor ? await store.load(cursor.id, owner) : null;
+  if (!cursor || !stored || cursor.offset >= stored.text.length) {
+    return {
+      content: [{ type: 'text', text: 'Cursor is invalid or has expired. Run the original tool call again.' }],
+      isError: true
+    };
+  }
+
+  const maxChars = parseMaxOutputChars(args[MAX_OUTPUT_CHARS_ARGUMENT]) ?? stored.sliceChars;
+  const slice = sliceOutput(stored.text, cursor.offset, maxChars);
+  const total = stored.text.length;
+  const nextCursor = slice.end < total ? encodeCursor(cursor.id, slice.end) : null;
+  const notice = nextCursor
+    ? continuationNotice(cursor.offset, slice.end, total, nextCursor)
+    : `\n\n[End of output: characters ${cursor.offset + 1}-${total} of ${total}.]`;
+  return {
+    content: [{ type: 'text', text: slice.text + notice }],
+    structuredContent: { next_cursor: nextCursor, start: cursor.offset, end: slice.end, total }
+  };
+}
+
+/** Cuts at most `maxChars` from `start`, backing up to a line break when one falls in the second half of the slice. */
+function sliceOutput(text: string, start: number, maxChars: number): { text: string; end: number } {
+  let end = Math.min(text.length, start + maxChars);
+  if (end < text.length) {
+    const lineBreak = text.lastIndexOf('\n', end - 1);
+    if (lineBreak >= start + Math.floor(maxChars / 2)) end = lineBreak + 1;
+  }
+  return { text: text.slice(start, end), end };
+}
+
+function continuationNotice(start: number, end: number, total: number, cursor: string): string {
+  return `\n\n[Output truncated: showing characters ${start + 1}-${end} of ${total}. Call ${NEXUS_CONTINUE_TOOL} with {"cursor": "${cursor}"} for the next part.]`;
+}
+
+function encodeCursor(id: string, offset: number): string {
+  return `${id}.${offset.toString(36)}`;
+}
+
+function decodeCursor(cursor: string): { id: string; offset: number } | null {
+  const dot = cursor.lastIndexOf('.');
+  if (dot <= 0) return null;
+  const offset = parseInt(cursor.slice(dot + 1), 36);
+  if (!Number.isSafeInteger(offset) || offset < 0) return null;
+  return { id: cursor.slice(0, dot), offset };
+}
@@ -0,0 +1,55 @@
+import type { ProgressToken, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+
+import type { TavilyProgress, TavilyProgressCallback } from '../tavily/types.js';
+
+const HEARTBEAT_INTERVAL_MS = 5000;
+
+type ProgressExtra = {
+  _meta?: { progressToken?: ProgressToken };
+  sendNotification?: (notification: ServerNotification) => Promise<void>;
+};
+
+/**
+ * Returns a callback that emits `notifications/progress` for the request's `progressToken`, or
+ * undefined when the client did not ask for progress. Notification failures are ignored.
+ */
+export function createProgressReporter(extra: unknown): TavilyProgressCallback | undefined {
+  const { _meta, sendNotification } = (extra ?? {}) as ProgressExtra;
+  const progressToken = _meta?.progressToken;
+  if (progressToken === undefined || typeof sendNotification !== 'function') return undefined;
+
+  let progress = 0;
+  return (update: TavilyProgress) => {
+    progress += 1;
+    void sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, message: formatProgressMessage(update) }
+    }).catch(() => {});
+  };
+}
+
+/** Reports a heartbeat while `task` is pending, for upstream calls that have no status to poll. */
+export async function withProgressHeartbeat<T>(
+  onProgress: TavilyProgressCallback | undefined,
+  status: string,
+  task: () => Promise<T>
+): Promise<T> {
+  if (!onProgress) return await task();
+
+  const startedAt = Date.now();
+  let polls = 0;
+  const timer = setInterval(() => {
+    polls += 1;
+    onProgress({ elapsedMs: Date.now() - startedAt, polls, status });
+  }, HEARTBEAT_INTERVAL_MS);
+  try {
+    return await task();
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+function formatProgressMessage(update: TavilyProgress): string {
+  const job = update.jobId ? `, job ${update.jobId}` : '';
+  return `${update.status} (elapsed ${Math.round(update.elapsedMs / 1000)}s, poll ${update.polls}${job})`;
+}
@@ -1,6 +1,6 @@
-export type SearchSourceMode = 'tavily_only' | 'brave_only' | 'combined' | 'brave_prefer_tavily_fallback';
+export type SearchSourceMode = 'tavily_only' | 'brave_only' | 'combined' | 'brave_prefer_tavily_fallback' | 'brave_hedged_tavily';
 
-const VALID_MODES: SearchSourceMode[] = ['tavily_only', 'brave_only', 'combined', 'brave_prefer_tavily_fallback'];
+const VALID_MODES: SearchSourceMode[] = ['tavily_only', 'brave_only', 'combined', 'brave_prefer_tavily_fallback', 'brave_hedged_tavily'];
 
 export function parseSearchSourceMode(
   raw: unknown,
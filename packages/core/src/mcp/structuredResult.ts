@@ -0,0 +1,112 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export type StructuredResultKind = 'search' | 'extract' | 'crawl' | 'map' | 'research';
+
+/** `tavily`, `brave`, `combined` or the id of a registered search provider adapter (e.g. `searxng`). */
+export type StructuredResultProvider = 'tavily' | 'brave' | 'combined' | (string & {});
+
+export type StructuredResultItem = {
+  url: string;
+  title?: string;
+  content?: string;
+  raw_content?: string;
+  favicon?: string;
+  /** Combined mode only: which providers returned this URL and at what 1-based rank. */
+  sources?: Array<{ provider: string; rank: number }>;
+  /** Combined mode only: fused relevance score (rrf/weighted strategies). */
+  score?: number;
+};
+
+/**
+ * The single `structuredContent` shape returned by every tool. Fields that do not apply to a
+ * kind are omitted (e.g. `answer` only for search, `base_url` only for crawl/map).
+ */
+export type StructuredToolResult = {
+  kind: StructuredResultKind;
+  provider: StructuredResultProvider;
+  results: StructuredResultItem[];
+  answer?: string;
+  base_url?: string;
+  content?: string;
+  error?: string;
+  images?: Array<{ url: string; description?: string }>;
+  /** Research only: the persisted job behind the call, for tavily_research_status / tavily_research_result. */
+  job_id?: string;
+  /** Set when `max_output_chars` trimmed this payload. */
+  truncated?: boolean;
+  /** `nexus_continue` cursor for the rest of the text output, when it was kept. */
+  next_cursor?: string;
+};
+
+export const structuredToolResultOutputSchema: NonNullable<Tool['outputSchema']> = {
+  type: 'object',
+  properties: {
+    kind: { type: 'string', enum: ['search', 'extract', 'crawl', 'map', 'research'] },
+    provider: { type: 'string', description: 'tavily, brave, combined or a registered search provider id' },
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          url: { type: 'string' },
+          title: { type: 'string' },
+          content: { type: 'string' },
+          raw_content: { type: 'string' },
+          favicon: { type: 'string' },
+          sources: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                provider: { type: 'string' },
+                rank: { type: 'integer' }
+              },
+              required: ['provider', 'rank']
+            }
+          },
+          score: { type: 'number' }
+        },
+        required: ['url']
+      }
+    },
+    answer: { type: 'string' },
+    base_url: { type: 'string' },
+    content: { type: 'string', description: 'Research report (research only)' },
+    error: { type: 'string' },
+    job_id: { type: 'string', description: 'Research job id for tavily_research_status / tavily_research_result (research only)' },
+    truncated: { type: 'boolean', description: 'Set when max_output_chars trimmed this payload; raw_content, long text and trailing results may be missing' },
+    next_cursor: { type: 'string', description: 'Cursor for nexus_continue to read the rest of the text output' },
+    images: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          url: { type: 'string' },
+          description: { type: 'string' }
+        },
+        required: ['url']
+      }
+    }
+  },
+  required: ['kind', 'provider', 'results']
+};
+
+/** Builds a result item, dropping empty optional fields so it validates against the output schema. */
+export function structuredResultItem(fields: {
+  url: unknown;
+  title?: unknown;
+  content?: unknown;
+  raw_content?: unknown;
+  favicon?: unknown;
+  sources?: StructuredResultItem['sources'];
+  score?: unknown;
+}): StructuredResultItem {
+  const item: StructuredResultItem = { url: typeof fields.url === 'string' ? fields.url : '' };
+  if (typeof fields.title === 'string' && fields.title) item.title = fields.title;
+  if (typeof fields.content === 'string' && fields.content) item.content = fields.content;
+  if (typeof fields.raw_content === 'string' && fields.raw_content) item.raw_content = fields.raw_content;
+  if (typeof fields.favicon === 'string' && fields.favicon) item.favicon = fields.favicon;
+  if (Array.isArray(fields.sources) && fields.sources.length > 0) item.sources = fields.sources;
+  if (typeof fields.score === 'number' && Number.isFinite(fields.score)) item.score = fields.score;
+  return item;
+}
@@ -0,0 +1,136 @@
+export type ArgumentIssue = {
+  /** Dotted path of the offending field (`max_results`, `urls[1]`); empty for the arguments object itself. */
+  path: string;
+  message: string;
+};
+
+type Schema = Record<string, unknown>;
+
+/**
+ * Validates tool-call arguments against a tool's `inputSchema`.
+ *
+ * Covers the JSON Schema subset our tool definitions use: `type` (including type arrays), `enum`,
+ * `minimum`/`maximum`, `items`, `properties`, `required`, `additionalProperties` and `anyOf`.
+ * Unknown keywords are ignored, so a schema outside this subset is never rejected more strictly than advertised.
+ */
+export function validateToolArguments(schema: unknown, args: unknown): ArgumentIssue[] {
+  const issues: ArgumentIssue[] = [];
+  if (isSchema(schema)) validateValue(schema, args, '', issues);
+  return issues;
+}
+
+export function formatArgumentIssues(toolName: string, issues: ArgumentIssue[]): string {
+  const details = issues.map((i) => (i.path ? `${i.path}: ${i.message}` : i.message)).join('; ');
+  return `Invalid arguments for ${toolName}: ${details}`;
+}
+
+function validateValue(schema: Schema, value: unknown, path: string, issues: ArgumentIssue[]): void {
+  if (Array.isArray(schema.anyOf)) {
+    const branches = schema.anyOf.filter(isSchema);
+    const matches = branches.some((branch) => {
+      const branchIssues: ArgumentIssue[] = [];
+      validateValue(branch, value, path, branchIssues);
+      return branchIssues.length === 0;
+    });
+    if (branches.length > 0 && !matches) {
+      issues.push({ path, message: `must match one of: ${branches.map(describeSchema).join(', ')}` });
+      return;
+    }
+  }
+
+  const types = schemaTypes(schema);
+  if (types.length > 0 && !types.some((t) => matchesType(t, value))) {
+    issues.push({ path, message: `must be ${types.map(articleFor).join(' or ')}` });
+    return;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((allowed) => allowed === value)) {
+    issues.push({ path, message: `must be one of: ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}` });
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value) && isSchema(schema.items)) {
+    const items = schema.items;
+    value.forEach((item, index) => validateValue(items, item, `${path}[${index}]`, issues));
+  }
+
+  if (isPlainObject(value)) {
+    const properties = isSchema(schema.properties) ? schema.properties : {};
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (typeof key === 'string' && value[key] === undefined) {
+          issues.push({ path: joinPath(path, key), message: 'is required' });
+        }
+      }
+    }
+    for (const [key, fieldValue] of Object.entries(value)) {
+      if (fieldValue === undefined) continue;
+      const fieldSchema = properties[key];
+      if (isSchema(fieldSchema)) {
+        validateValue(fieldSchema, fieldValue, joinPath(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), message: 'is not a recognized argument' });
+      } else if (isSchema(schema.additionalProperties)) {
+        validateValue(schema.additionalProperties, fieldValue, joinPath(path, key), issues);
+      }
+    }
+  }
+}
+
+function schemaTypes(schema: Schema): string[] {
+  if (typeof schema.type === 'string') return [schema.type];
+  if (Array.isArray(schema.type)) return schema.type.filter((t): t is string => typeof t === 'string');
+  return [];
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function describeSchema(schema: Schema): string {
+  if (Array.isArray(schema.enum)) return schema.enum.map((v) => JSON.stringify(v)).join(' | ');
+  const types = schemaTypes(schema);
+  return types.length > 0 ? types.join(' | ') : 'any';
+}
+
+function articleFor(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isSchema(value: unknown): value is Schema {
+  return isPlainObject(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,86 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { formatArgumentIssues, validateToolArguments } from './validateArguments.js';
+
+/** An admin-defined alias of a built-in tool, e.g. `internal_docs_search` = `tavily_search` with `include_domains` pinned. */
+export type VirtualToolDefinition = {
+  name: string;
+  description: string;
+  /** Built-in tool the call is dispatched to. */
+  baseTool: string;
+  /** Arguments always sent to the base tool; clients cannot override them. */
+  presetArguments: Record<string, unknown>;
+  /** Base-tool arguments clients may pass; anything else is rejected. */
+  exposedArguments: string[];
+};
+
+export type VirtualToolsProvider = (ctx: unknown) => VirtualToolDefinition[] | Promise<VirtualToolDefinition[]>;
+
+const VIRTUAL_TOOL_NAME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+/** Builds the advertised tool: the base tool's input schema narrowed to the exposed arguments. */
+export function buildVirtualTool(definition: VirtualToolDefinition, baseTool: Tool): Tool {
+  const baseProperties = toolProperties(baseTool);
+  const exposed = definition.exposedArguments.filter((name) => name in baseProperties);
+  const required = (baseTool.inputSchema.required ?? []).filter((name) => exposed.includes(name));
+  return {
+    name: definition.name,
+    description: definition.description,
+    inputSchema: {
+      type: 'object',
+      properties: Object.fromEntries(exposed.map((name) => [name, baseProperties[name]])),
+      ...(required.length > 0 ? { required } : {}),
+      additionalProperties: false
+    },
+    ...(baseTool.outputSchema ? { outputSchema: baseTool.outputSchema } : {})
+  };
+}
+
+/** Arguments sent to the base tool: the client's exposed arguments with the presets locked on top. */
+export function applyVirtualToolArguments(definition: VirtualToolDefinition, args: Record<string, unknown>): Record<string, unknown> {
+  return { ...args, ...definition.presetArguments };
+}
+
+/** Returns why `definition` cannot be served on top of `baseTools`, or `null` when it is usable. */
+export function validateVirtualToolDefinition(definition: VirtualToolDefinition, baseTools: Tool[]): string | null {
+  if (!VIRTUAL_TOOL_NAME_PATTERN.test(definition.name)) {
+    return 'name must start with a lowercase letter and contain only lowercase letters, digits and underscores (max 64)';
+  }
+  if (baseTools.some((t) => t.name === definition.name)) {
+    return `name '${definition.name}' is already a built-in tool`;
+  }
+  if (!definition.description.trim()) {
+    return 'description is required';
+  }
+
+  const base = baseTools.find((t) => t.name === definition.baseTool);
+  if (!base) {
+    return `baseTool must be one of: ${baseTools.map((t) => t.name).join(', ')}`;
+  }
+
+  const properties = toolProperties(base);
+  const unknown = definition.exposedArguments.filter((name) => !(name in properties));
+  if (unknown.length > 0) {
+    return `exposedArguments are not arguments of ${base.name}: ${unknown.join(', ')}`;
+  }
+  const locked = definition.exposedArguments.filter((name) => name in definition.presetArguments);
+  if (locked.length > 0) {
+    return `exposedArguments cannot include preset arguments: ${locked.join(', ')}`;
+  }
+  const missing = (base.inputSchema.required ?? []).filter(
+    (name) => !definition.exposedArguments.includes(name) && !(name in definition.presetArguments)
+  );
+  if (missing.length > 0) {
+    return `required arguments of ${base.name} must be exposed or preset: ${missing.join(', ')}`;
+  }
+
+  // Presets are a partial argument set, so only their own values are checked here.
+  const issues = validateToolArguments({ ...base.inputSchema, required: [] }, definition.presetArguments);
+  if (issues.length > 0) {
+    return `presetArguments: ${formatArgumentIssues(base.name, issues)}`;
+  }
+  return null;
+}
+
+function toolProperties(tool: Tool): Record<string, object> {
+  return tool.inputSchema.properties ?? {};
+}
@@ -0,0 +1,31 @@
+export class SearchProviderHttpError extends Error {
+  readonly providerId: string;
+  readonly status: number;
+  readonly providerMessage?: string;
+
+  constructor(message: string, opts: { providerId: string; status: number; providerMessage?: string }) {
+    super(message);
+    this.name = 'SearchProviderHttpError';
+    this.providerId = opts.providerId;
+    this.status = opts.status;
+    this.providerMessage = opts.providerMessage;
+  }
+}
+
+export class SearchProviderUnavailableError extends Error {
+  readonly providerId: string;
+
+  constructor(message: string, opts: { providerId: string }) {
+    super(message);
+    this.name = 'SearchProviderUnavailableError';
+    this.providerId = opts.providerId;
+  }
+}
+
+export function isSearchProviderHttpError(err: unknown): err is SearchProviderHttpError {
+  return err instanceof SearchProviderHttpError;
+}
+
+export function isSearchProviderUnavailableError(err: unknown): err is SearchProviderUnavailableError {
+  return err instanceof SearchProviderUnavailableError;
+}
@@ -0,0 +1,65 @@
+import { SearchProviderUnavailableError } from './errors.js';
+import type {
+  ProviderSearchParams,
+  ProviderSearchResult,
+  SearchProviderAdapter,
+  SearchProviderRouting
+} from './types.js';
+
+/**
+ * Parses a comma-separated routing list such as `fallback`, `combined` or `combined,fallback`.
+ * `none` disables routing (the provider's tools stay available); anything else keeps the fallback.
+ */
+export function parseSearchProviderRouting(
+  raw: unknown,
+  fallback: SearchProviderRouting = { combined: false, fallback: true }
+): SearchProviderRouting {
+  if (typeof raw !== 'string' || !raw.trim()) return { ...fallback };
+  const parts = raw
+    .split(',')
+    .map((p) => p.trim().toLowerCase())
+    .filter(Boolean);
+  if (parts.length === 1 && parts[0] === 'none') return { combined: false, fallback: false };
+  if (parts.some((p) => p !== 'combined' && p !== 'fallback')) return { ...fallback };
+  return { combined: parts.includes('combined'), fallback: parts.includes('fallback') };
+}
+
+/** Providers that can serve `kind` and are routed for `role`, in registration order. */
+export function routedProviders(
+  providers: SearchProviderAdapter[],
+  kind: 'web' | 'local',
+  role: keyof SearchProviderRouting
+): SearchProviderAdapter[] {
+  return providers.filter(
+    (p) => p.routing[role] && (kind === 'web' ? p.capabilities.webSearch : p.capabilities.localSearch)
+  );
+}
+
+/** Runs one provider search, acquiring a key from the provider's key pool when it is bound to one. */
+export async function runProviderSearch(
+  provider: SearchProviderAdapter,
+  params: ProviderSearchParams,
+  opts: { signal?: AbortSignal } = {}
+): Promise<ProviderSearchResult[]> {
+  if (!provider.keyPool) {
+    if (provider.capabilities.requiresKey) {
+      throw new SearchProviderUnavailableError(`${provider.displayName} has no key pool configured`, {
+        providerId: provider.id
+      });
+    }
+    return await provider.search(params, { signal: opts.signal });
+  }
+
+  const key = await provider.keyPool.acquire();
+  if (!key) {
+    throw new SearchProviderUnavailableError(`No ${provider.displayName} API keys available`, { providerId: provider.id });
+  }
+  try {
+    const results = await provider.search(params, { signal: opts.signal, apiKey: key.apiKey });
+    await provider.keyPool.report?.(key.id, 'success');
+    return results;
+  } catch (err) {
+    await provider.keyPool.report?.(key.id, 'error');
+    throw err;
+  }
+}
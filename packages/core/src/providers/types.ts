@@ -0,0 +1,65 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export type SearchProviderCapabilities = {
+  /** Can answer `brave_web_search` and take part in combined web search. */
+  webSearch: boolean;
+  /** Can answer `brave_local_search` (web results are acceptable, as with the Tavily fallback). */
+  localSearch: boolean;
+  /** Honours `offset` (Brave-style page index). */
+  pagination: boolean;
+  /** Returns a relevance `score` per result, used by the `weighted` merge strategy. */
+  relevanceScores: boolean;
+  /** Every call needs a key from `keyPool`. */
+  requiresKey: boolean;
+};
+
+/**
+ * Where a provider takes part in `brave_web_search` / `brave_local_search` routing:
+ * - `combined`: queried in parallel with Tavily and Brave when the search source mode is `combined`.
+ * - `fallback`: tried in registration order after the configured search source mode fails.
+ */
+export type SearchProviderRouting = {
+  combined: boolean;
+  fallback: boolean;
+};
+
+export type ProviderSearchParams = { query: string; count?: number; offset?: number } & Record<string, unknown>;
+
+export type ProviderSearchResult = {
+  title: string;
+  url: string;
+  description?: string;
+  score?: number;
+};
+
+export type ProviderCallOptions = {
+  signal?: AbortSignal;
+  /** Key acquired from the provider's key pool, when it has one. */
+  apiKey?: string;
+};
+
+export type ProviderKeyOutcome = 'success' | 'error';
+
+/** Binds a provider to a key pool. Keyless providers (e.g. a private SearXNG) omit it. */
+export type ProviderKeyPool = {
+  /** Returns a key for one upstream call, or null when no key is usable. */
+  acquire(): Promise<{ id: string; apiKey: string } | null>;
+  report?(keyId: string, outcome: ProviderKeyOutcome): void | Promise<void>;
+};
+
+/**
+ * Contract for a search provider other than Tavily and Brave. The provider registers its own
+ * `tools`; calling any of them runs `search` with the tool arguments and renders the results
+ * with `format`.
+ */
+export type SearchProviderAdapter = {
+  /** Stable lowercase id used in tool routing, merge weights and `structuredContent.provider`. */
+  id: string;
+  displayName: string;
+  capabilities: SearchProviderCapabilities;
+  routing: SearchProviderRouting;
+  keyPool?: ProviderKeyPool;
+  tools: Tool[];
+  search(params: ProviderSearchParams, opts: ProviderCallOptions): Promise<ProviderSearchResult[]>;
+  format(results: ProviderSearchResult[]): string;
+};
@@ -0,0 +1,132 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+import { structuredToolResultOutputSchema } from '../mcp/structuredResult.js';
+import { SearchProviderHttpError } from '../providers/errors.js';
+import type {
+  ProviderSearchParams,
+  ProviderSearchResult,
+  SearchProviderAdapter,
+  SearchProviderRouting
+} from '../providers/types.js';
+
+const PROVIDER_ID = 'searxng';
+
+export const searxngTools: Tool[] = [
+  {
+    name: 'searxng_search',
+    description:
+      'Performs a web search using the self-hosted SearXNG metasearch instance. Free to use; results aggregate several engines. Returns a JSON array of results.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search query' },
+        count: { type: 'number', description: 'Number of results (1-20, default 10)', default: 10, minimum: 1, maximum: 20 },
+        offset: { type: 'number', description: 'Result page offset (0-9, default 0)', default: 0, minimum: 0, maximum: 9 },
+        categories: { type: 'string', description: "Comma-separated SearXNG categories, e.g. 'general' or 'news'" },
+        language: { type: 'string', description: "Language code, e.g. 'en' or 'zh-CN'" },
+        time_range: { type: 'string', enum: ['day', 'month', 'year'], description: 'Only return results from this time range' },
+        safesearch: { type: 'number', enum: [0, 1, 2], description: 'Safe search level (0 off, 1 moderate, 2 strict)' }
+      },
+      required: ['query']
+    },
+    outputSchema: structuredToolResultOutputSchema
+  }
+];
+
+/**
+ * SearXNG adapter. Needs an instance with the JSON output format enabled
+ * (`search.formats: [html, json]` in settings.yml). The instance is keyless; extra `headers`
+ * (e.g. a reverse-proxy token) are sent on every request.
+ */
+export function createSearxngProvider(opts: {
+  baseUrl: string;
+  routing?: SearchProviderRouting;
+  headers?: Record<string, string>;
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+}): SearchProviderAdapter {
+  const fetchImpl = opts.fetchImpl ?? fetch;
+  const timeoutMs =
+    typeof opts.timeoutMs === 'number' && Number.isFinite(opts.timeoutMs) ? Math.max(1, Math.floor(opts.timeoutMs)) : 20_000;
+  const searchUrl = new URL('search', opts.baseUrl.endsWith('/') ? opts.baseUrl : `${opts.baseUrl}/`);
+
+  const search: SearchProviderAdapter['search'] = async (params, callOpts) => {
+    const url = buildSearchUrl(searchUrl, params);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const signal = callOpts.signal;
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      const res = await fetchImpl(url, {
+        method: 'GET',
+        headers: { accept: 'application/json', ...opts.headers },
+        signal: controller.signal
+      });
+      const text = await res.text();
+      if (!res.ok) {
+        throw new SearchProviderHttpError(`HTTP ${res.status}`, {
+          providerId: PROVIDER_ID,
+          status: res.status,
+          providerMessage: text.slice(0, 200) || res.statusText
+        });
+      }
+      const count = clampInt(params.count, 10, 1, 20);
+      return extractResults(safeJson(text)).slice(0, count);
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+
+  return {
+    id: PROVIDER_ID,
+    displayName: 'SearXNG',
+    capabilities: { webSearch: true, localSearch: true, pagination: true, relevanceScores: true, requiresKey: false },
+    routing: opts.routing ?? { combined: false, fallback: true },
+    tools: searxngTools,
+    search,
+    format: (results) => JSON.stringify(results, null, 2)
+  };
+}
+
+function buildSearchUrl(base: URL, params: ProviderSearchParams): string {
+  const url = new URL(base);
+  url.searchParams.set('q', typeof params.query === 'string' ? params.query : '');
+  url.searchParams.set('format', 'json');
+  url.searchParams.set('pageno', String(clampInt(params.offset, 0, 0, 9) + 1));
+  for (const key of ['categories', 'language', 'time_range'] as const) {
+    const value = params[key];
+    if (typeof value === 'string' && value.trim()) url.searchParams.set(key, value.trim());
+  }
+  if (params.safesearch === 0 || params.safesearch === 1 || params.safesearch === 2) {
+    url.searchParams.set('safesearch', String(params.safesearch));
+  }
+  return url.toString();
+}
+
+function extractResults(body: any): ProviderSearchResult[] {
+  const rows = Array.isArray(body?.results) ? body.results : [];
+  return rows
+    .map((r: any) => ({
+      title: typeof r?.title === 'string' ? r.title : '',
+      url: typeof r?.url === 'string' ? r.url : '',
+      ...(typeof r?.content === 'string' && r.content ? { description: r.content } : {}),
+      ...(typeof r?.score === 'number' && Number.isFinite(r.score) ? { score: r.score } : {})
+    }))
+    .filter((r: ProviderSearchResult) => r.url);
+}
+
+function safeJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return {};
+  }
+}
+
+function clampInt(value: unknown, fallback: number, min: number, max: number): number {
+  const n = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, Math.floor(n)));
+}
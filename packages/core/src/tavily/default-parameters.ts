@@ -13,6 +13,13 @@ export function parseDefaultParametersJson(value: string | undefined): DefaultPa
   }
 }
 
+/** Reads stored defaults (e.g. `ClientToken.defaultParameters`), given either as a JSON object or as its serialized form. */
+export function toDefaultParameters(value: unknown): DefaultParameters {
+  if (typeof value === 'string') return parseDefaultParametersJson(value);
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+  return value as DefaultParameters;
+}
+
 export function getDefaultParametersFromEnv(): DefaultParameters {
   return parseDefaultParametersJson(process.env.DEFAULT_PARAMETERS);
 }
@@ -1,9 +1,11 @@
 import type {
   TavilyCrawlResponse,
   TavilyMapResponse,
+  TavilyResearchJob,
   TavilyResearchResponse,
   TavilySearchResponse
 } from './types.js';
+import { structuredResultItem, type StructuredToolResult } from '../mcp/structuredResult.js';
 
 export function formatResultsV0216(response: TavilySearchResponse): string {
   const output: string[] = [];
@@ -67,7 +69,91 @@ export function formatMapResultsV0216(response: TavilyMapResponse): string {
 }
 
 export function formatResearchResultsV0216(response: TavilyResearchResponse): string {
-  if (response.error) return `Research Error: ${response.error}`;
-  return response.content || 'No research results available';
+  // The job line goes first so it survives output budgeting of a long report.
+  const job = response.job_id ? `Research Job: ${response.job_id}\n\n` : '';
+  if (response.error) return `${job}Research Error: ${response.error}`;
+  return `${job}${response.content || 'No research results available'}`;
 }
 
+
+export function formatResearchJobV0216(job: TavilyResearchJob): string {
+  const output: string[] = [];
+  output.push(`Research Job: ${job.job_id}`);
+  output.push(`Status: ${job.status}`);
+  if (job.model) output.push(`Model: ${job.model}`);
+  output.push(`Created: ${job.created_at}`);
+  output.push(`Updated: ${job.updated_at}`);
+  return output.join('\n');
+}
+
+export function structuredResearchJobV0216(job: TavilyResearchJob): Omit<TavilyResearchJob, 'result'> {
+  const structured: Omit<TavilyResearchJob, 'result'> = {
+    job_id: job.job_id,
+    status: job.status,
+    created_at: job.created_at,
+    updated_at: job.updated_at
+  };
+  if (job.model) structured.model = job.model;
+  return structured;
+}
+
+export function structuredResultsV0216(response: TavilySearchResponse, kind: 'search' | 'extract'): StructuredToolResult {
+  const structured: StructuredToolResult = {
+    kind,
+    provider: 'tavily',
+    results: (response.results ?? []).map((r) =>
+      structuredResultItem({ url: r.url, title: r.title, content: r.content, raw_content: r.raw_content, favicon: r.favicon })
+    )
+  };
+  const answer = (response as any).answer;
+  if (typeof answer === 'string' && answer) structured.answer = answer;
+
+  const images = (response as any).images;
+  if (Array.isArray(images) && images.length > 0) {
+    structured.images = images
+      .map((image: any) => {
+        if (typeof image === 'string') return { url: image };
+        const entry: { url: string; description?: string } = { url: typeof image?.url === 'string' ? image.url : '' };
+        if (typeof image?.description === 'string' && image.description) entry.description = image.description;
+        return entry;
+      })
+      .filter((image) => image.url);
+  }
+  return structured;
+}
+
+export function structuredCrawlResultsV0216(response: TavilyCrawlResponse): StructuredToolResult {
+  return {
+    kind: 'crawl',
+    provider: 'tavily',
+    base_url: response.base_url ?? '',
+    results: (response.results ?? []).map((page) =>
+      structuredResultItem({ url: page.url, raw_content: page.raw_content, favicon: page.favicon })
+    )
+  };
+}
+
+export function structuredMapResultsV0216(response: TavilyMapResponse): StructuredToolResult {
+  return {
+    kind: 'map',
+    provider: 'tavily',
+    base_url: response.base_url ?? '',
+    results: (response.results ?? []).map((url) => structuredResultItem({ url }))
+  };
+}
+
+export function structuredResearchResultsV0216(response: TavilyResearchResponse): StructuredToolResult {
+  const sources = Array.isArray(response.sources) ? response.sources : [];
+  const structured: StructuredToolResult = {
+    kind: 'research',
+    provider: 'tavily',
+    results: sources.map((source) => structuredResultItem({ url: source?.url, title: source?.title, favicon: source?.favicon }))
+  };
+  if (response.error) {
+    structured.error = response.error;
+  } else {
+    structured.content = response.content ?? '';
+  }
+  if (response.job_id) structured.job_id = response.job_id;
+  return structured;
+}
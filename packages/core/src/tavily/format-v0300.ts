@@ -0,0 +1,62 @@
+import type { TavilySearchResponse } from './types.js';
+
+// Tavily joins the chunks of one source with this marker when `chunks_per_source` is used.
+const CHUNK_SEPARATOR = ' [...] ';
+
+/**
+ * v0216 output plus the parameters chosen by `auto_parameters` and one line per content chunk.
+ * The structured result is unchanged, so `structuredResultsV0216` is used for both versions.
+ */
+export function formatResultsV0300(response: TavilySearchResponse): string {
+  const output: string[] = [];
+
+  if (response.answer) {
+    output.push(`Answer: ${response.answer}`);
+  }
+
+  const autoParameters = response.auto_parameters;
+  if (autoParameters && typeof autoParameters === 'object') {
+    const chosen = Object.entries(autoParameters)
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join(',') : String(value)}`);
+    if (chosen.length > 0) output.push(`Auto Parameters: ${chosen.join(', ')}`);
+  }
+
+  output.push('Detailed Results:');
+  for (const result of response.results ?? []) {
+    output.push(`\nTitle: ${result.title}`);
+    output.push(`URL: ${result.url}`);
+    const chunks = splitChunks(result.content);
+    if (chunks.length > 1) {
+      output.push('Content:');
+      chunks.forEach((chunk, index) => output.push(`  [${index + 1}] ${chunk}`));
+    } else {
+      output.push(`Content: ${result.content}`);
+    }
+    if (result.raw_content) output.push(`Raw Content: ${result.raw_content}`);
+    if (result.favicon) output.push(`Favicon: ${result.favicon}`);
+  }
+
+  const images = response.images;
+  if (Array.isArray(images) && images.length > 0) {
+    output.push('\nImages:');
+    images.forEach((image, index) => {
+      if (typeof image === 'string') {
+        output.push(`\n[${index + 1}] URL: ${image}`);
+        return;
+      }
+      output.push(`\n[${index + 1}] URL: ${image.url}`);
+      if (image.description) output.push(`   Description: ${image.description}`);
+    });
+  }
+
+  return output.join('\n');
+}
+
+function splitChunks(content: unknown): string[] {
+  if (typeof content !== 'string') return [];
+  return content
+    .split(CHUNK_SEPARATOR)
+    .map((chunk) => chunk.trim())
+    .filter(Boolean);
+}
@@ -1,22 +1,58 @@
-export type TavilyKeySelectionStrategy = 'round_robin' | 'random';
+export type TavilyKeySelectionStrategy = 'round_robin' | 'random' | 'weighted_remaining' | 'drain_first' | 'least_in_flight';
 
 export function parseTavilyKeySelectionStrategy(raw: unknown, fallback: TavilyKeySelectionStrategy = 'round_robin'): TavilyKeySelectionStrategy {
   if (typeof raw !== 'string') return fallback;
-  const normalized = raw.trim().toLowerCase();
+  const normalized = raw.trim().toLowerCase().replace(/-/g, '_');
   if (!normalized) return fallback;
 
   if (normalized === 'random') return 'random';
-  if (normalized === 'round_robin' || normalized === 'round-robin' || normalized === 'rr') return 'round_robin';
+  if (normalized === 'round_robin' || normalized === 'rr') return 'round_robin';
+  if (normalized === 'weighted_remaining' || normalized === 'weighted') return 'weighted_remaining';
+  if (normalized === 'drain_first' || normalized === 'drain') return 'drain_first';
+  if (normalized === 'least_in_flight' || normalized === 'least_loaded') return 'least_in_flight';
 
   return fallback;
 }
 
+/** Whether the strategy ranks keys by their credits or load, so it needs to see every eligible key rather than the least recently used few. */
+export function isLoadAwareKeySelectionStrategy(strategy: TavilyKeySelectionStrategy): boolean {
+  return strategy === 'weighted_remaining' || strategy === 'drain_first' || strategy === 'least_in_flight';
+}
+
+/** Per-key figures the load-aware strategies rank by. */
+export type KeyCandidateLoad<T> = {
+  /** Credits or quota the key has left; `null` when it has not been reported yet. */
+  remaining?: (key: T) => number | null;
+  /** Calls currently running on the key. */
+  inFlight?: (key: T) => number;
+};
+
+/**
+ * Orders candidates (given least recently used first) for a selection strategy:
+ * - `round_robin` keeps the given order;
+ * - `random` shuffles;
+ * - `weighted_remaining` draws keys at random in proportion to their remaining credits, so larger
+ *   plans take a larger share of calls; keys with unknown credits weigh as much as the average known key;
+ * - `drain_first` puts the key with the fewest remaining credits first and unknown ones last;
+ * - `least_in_flight` puts the key with the fewest running calls first.
+ * Ties keep the given order.
+ */
 export function orderKeyCandidates<T>(
   keys: readonly T[],
   strategy: TavilyKeySelectionStrategy,
-  rng: () => number = Math.random
+  rng: () => number = Math.random,
+  load: KeyCandidateLoad<T> = {}
 ): T[] {
   if (strategy === 'round_robin') return [...keys];
+  if (strategy === 'weighted_remaining') return weightedOrder(keys, load.remaining ?? (() => null), rng);
+  if (strategy === 'drain_first') {
+    const remaining = load.remaining ?? (() => null);
+    return sortStable(keys, (key) => remaining(key) ?? Number.POSITIVE_INFINITY);
+  }
+  if (strategy === 'least_in_flight') {
+    const inFlight = load.inFlight ?? (() => 0);
+    return sortStable(keys, inFlight);
+  }
 
   // Fisher–Yates shuffle.
   const out = [...keys];
@@ -31,3 +67,56 @@ export function orderKeyCandidates<T>(
   return out;
 }
 
+/** Counts the calls running on each key, for `least_in_flight`. */
+export class KeyInFlightCounter {
+  private readonly counts = new Map<string, number>();
+
+  get(keyId: string): number {
+    return this.counts.get(keyId) ?? 0;
+  }
+
+  acquire(keyId: string): void {
+    this.counts.set(keyId, this.get(keyId) + 1);
+  }
+
+  release(keyId: string): void {
+    const next = this.get(keyId) - 1;
+    if (next > 0) this.counts.set(keyId, next);
+    else this.counts.delete(keyId);
+  }
+}
+
+function sortStable<T>(keys: readonly T[], rank: (key: T) => number): T[] {
+  return keys
+    .map((key, index) => ({ key, index, rank: rank(key) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map((entry) => entry.key);
+}
+
+function weightedOrder<T>(keys: readonly T[], remaining: (key: T) => number | null, rng: () => number): T[] {
+  const known = keys.map(remaining).filter((n): n is number => n !== null && Number.isFinite(n));
+  const fallbackWeight = known.length > 0 ? Math.max(1, known.reduce((sum, n) => sum + n, 0) / known.length) : 1;
+
+  const pool = keys.map((key) => {
+    const n = remaining(key);
+    return { key, weight: n === null || !Number.isFinite(n) ? fallbackWeight : Math.max(0, n) };
+  });
+
+  const out: T[] = [];
+  while (pool.length > 0) {
+    const total = pool.reduce((sum, entry) => sum + entry.weight, 0);
+    // Spent keys come last, in the given order.
+    if (total <= 0) return [...out, ...pool.map((entry) => entry.key)];
+
+    let target = rng() * total;
+    let picked = 0;
+    for (let i = 0; i < pool.length; i += 1) {
+      if (pool[i]!.weight <= 0) continue;
+      picked = i;
+      target -= pool[i]!.weight;
+      if (target < 0) break;
+    }
+    out.push(pool.splice(picked, 1)[0]!.key);
+  }
+  return out;
+}
@@ -0,0 +1,57 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { structuredToolResultOutputSchema } from '../mcp/structuredResult.js';
+
+const researchJobOutputSchema: NonNullable<Tool['outputSchema']> = {
+  type: 'object',
+  properties: {
+    job_id: { type: 'string' },
+    status: { type: 'string', enum: ['running', 'completed', 'failed', 'timed_out', 'cancelled'] },
+    model: { type: 'string' },
+    created_at: { type: 'string' },
+    updated_at: { type: 'string' }
+  },
+  required: ['job_id', 'status', 'created_at', 'updated_at']
+};
+
+const jobIdInputSchema: Tool['inputSchema'] = {
+  type: 'object',
+  properties: {
+    job_id: { type: 'string', description: 'The job_id returned by tavily_research_start' }
+  },
+  required: ['job_id']
+};
+
+export const tavilyResearchJobTools: Tool[] = [
+  {
+    name: 'tavily_research_start',
+    description:
+      'Start a research task in the background and return immediately with a job_id. Use tavily_research_status to check progress and tavily_research_result to fetch the report. Prefer this over tavily_research when the task may take several minutes.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        input: { type: 'string', description: 'A comprehensive description of the research task' },
+        model: {
+          type: 'string',
+          enum: ['mini', 'pro', 'auto'],
+          description:
+            "Defines the degree of depth of the research. 'mini' is good for narrow tasks with few subtopics. 'pro' is good for broad tasks with many subtopics. 'auto' automatically selects the best model.",
+          default: 'auto'
+        }
+      },
+      required: ['input']
+    },
+    outputSchema: researchJobOutputSchema
+  },
+  {
+    name: 'tavily_research_status',
+    description: "Check the status of a research job started with tavily_research_start ('running', 'completed', 'failed', 'timed_out' or 'cancelled').",
+    inputSchema: jobIdInputSchema,
+    outputSchema: researchJobOutputSchema
+  },
+  {
+    name: 'tavily_research_result',
+    description: 'Fetch the report of a finished research job started with tavily_research_start. Returns an error while the job is still running.',
+    inputSchema: jobIdInputSchema,
+    outputSchema: structuredToolResultOutputSchema
+  }
+];
@@ -1,4 +1,5 @@
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { structuredToolResultOutputSchema } from '../mcp/structuredResult.js';
 
 export const tavilyToolsV0216: Tool[] = [
   {
@@ -86,7 +87,8 @@ export const tavilyToolsV0216: Tool[] = [
         }
       },
       required: ['query']
-    }
+    },
+    outputSchema: structuredToolResultOutputSchema
   },
   {
     name: 'tavily_extract',
@@ -107,7 +109,8 @@ export const tavilyToolsV0216: Tool[] = [
         query: { type: 'string', description: 'Query to rerank content chunks by relevance' }
       },
       required: ['urls']
-    }
+    },
+    outputSchema: structuredToolResultOutputSchema
   },
   {
     name: 'tavily_crawl',
@@ -128,7 +131,8 @@ export const tavilyToolsV0216: Tool[] = [
         include_favicon: { type: 'boolean', description: 'Whether to include the favicon URL for each result', default: false }
       },
       required: ['url']
-    }
+    },
+    outputSchema: structuredToolResultOutputSchema
   },
   {
     name: 'tavily_map',
@@ -146,7 +150,8 @@ export const tavilyToolsV0216: Tool[] = [
         allow_external: { type: 'boolean', description: 'Whether to return external links in the final response', default: true }
       },
       required: ['url']
-    }
+    },
+    outputSchema: structuredToolResultOutputSchema
   },
   {
     name: 'tavily_research',
@@ -165,7 +170,8 @@ export const tavilyToolsV0216: Tool[] = [
         }
       },
       required: ['input']
-    }
+    },
+    outputSchema: structuredToolResultOutputSchema
   }
 ];
 
@@ -0,0 +1,56 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { tavilyToolsV0216 } from './tools-v0216.js';
+
+const searchV0216 = tavilyToolsV0216.find((t) => t.name === 'tavily_search')!;
+const searchPropertiesV0216 = searchV0216.inputSchema.properties as Record<string, Record<string, unknown>>;
+
+/**
+ * v0216 tools with the newer `tavily_search` parameters: all topics, `days`, `include_answer`,
+ * `chunks_per_source` and `auto_parameters`. Unlike v0216, `country` no longer forces
+ * `topic: 'general'`; Tavily rejects the combination itself. The other tools are unchanged.
+ */
+export const tavilyToolsV0300: Tool[] = tavilyToolsV0216.map((tool) =>
+  tool.name === 'tavily_search'
+    ? {
+        ...tool,
+        inputSchema: {
+          ...tool.inputSchema,
+          properties: {
+            ...searchPropertiesV0216,
+            topic: {
+              type: 'string',
+              enum: ['general', 'news', 'finance'],
+              description:
+                "The category of the search. 'news' for real-time updates on politics, sports and current events, 'finance' for markets and company data, 'general' for everything else",
+              default: 'general'
+            },
+            days: {
+              type: 'number',
+              description: "Number of days back from the current date to include. Only used when topic is 'news'",
+              minimum: 1
+            },
+            include_answer: {
+              anyOf: [{ type: 'boolean' }, { type: 'string', enum: ['basic', 'advanced'] }],
+              description:
+                "Include an LLM-generated answer to the query. 'basic' (or true) returns a quick answer, 'advanced' a more detailed one",
+              default: false
+            },
+            chunks_per_source: {
+              type: 'integer',
+              description:
+                "Maximum number of relevant content chunks (up to 500 characters each) returned per source. Only used when search_depth is 'advanced'",
+              minimum: 1,
+              maximum: 3,
+              default: 3
+            },
+            auto_parameters: {
+              type: 'boolean',
+              description:
+                "Let Tavily choose topic, search_depth and time_range from the query. Explicitly set parameters take precedence. May pick 'advanced' depth, which costs 2 credits",
+              default: false
+            }
+          }
+        }
+      }
+    : tool
+);
@@ -0,0 +1,35 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+import { tavilyToolsV0216 } from './tools-v0216.js';
+import { tavilyToolsV0300 } from './tools-v0300.js';
+import { formatResultsV0216 } from './format-v0216.js';
+import { formatResultsV0300 } from './format-v0300.js';
+import type { TavilySearchParams, TavilySearchResponse } from './types.js';
+
+/** Tavily tool-schema version advertised to MCP clients. `v0216` stays the default for existing clients. */
+export type TavilyToolsVersion = 'v0216' | 'v0300';
+
+const VALID_VERSIONS: TavilyToolsVersion[] = ['v0216', 'v0300'];
+
+export function parseTavilyToolsVersion(raw: unknown, fallback: TavilyToolsVersion = 'v0216'): TavilyToolsVersion {
+  if (typeof raw !== 'string') return fallback;
+  const normalized = raw.trim().toLowerCase();
+  if (VALID_VERSIONS.includes(normalized as TavilyToolsVersion)) {
+    return normalized as TavilyToolsVersion;
+  }
+  return fallback;
+}
+
+export function tavilyToolsFor(version: TavilyToolsVersion): Tool[] {
+  return version === 'v0300' ? tavilyToolsV0300 : tavilyToolsV0216;
+}
+
+/** v0216 pins `topic: 'general'` whenever `country` is set; v0300 forwards the arguments unchanged. */
+export function normalizeTavilySearchArgs(version: TavilyToolsVersion, args: Record<string, unknown>): TavilySearchParams {
+  if (version === 'v0216' && args.country) return { ...args, topic: 'general' };
+  return { ...args };
+}
+
+export function formatTavilySearchResults(version: TavilyToolsVersion, response: TavilySearchResponse): string {
+  return version === 'v0300' ? formatResultsV0300(response) : formatResultsV0216(response);
+}
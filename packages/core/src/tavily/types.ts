@@ -1,3 +1,5 @@
+import type { HedgeRole } from '../mcp/hedging.js';
+
 export type TavilySearchParams = Record<string, unknown>;
 export type TavilyExtractParams = Record<string, unknown>;
 export type TavilyCrawlParams = Record<string, unknown>;
@@ -16,6 +18,8 @@ export type TavilySearchResponse = {
   answer?: string;
   results: TavilySearchResult[];
   images?: Array<string | { url: string; description?: string }>;
+  /** Parameters Tavily picked when the request set `auto_parameters`. */
+  auto_parameters?: Record<string, unknown>;
 };
 
 export type TavilyExtractResponse = TavilySearchResponse;
@@ -30,14 +34,55 @@ export type TavilyMapResponse = {
   results: string[];
 };
 
-export type TavilyResearchResponse = { content?: string; error?: string };
+export type TavilyResearchResponse = {
+  content?: string;
+  error?: string;
+  sources?: Array<{ url: string; title?: string; favicon?: string }>;
+  /** Persisted job behind a `tavily_research` call, when the client keeps one; readable with the tavily_research_* job tools. */
+  job_id?: string;
+};
+
+export type TavilyResearchJobStatus = 'running' | 'completed' | 'failed' | 'timed_out' | 'cancelled';
+
+/** A research task that outlives a single tool call; `result` is set once the job is no longer running. */
+export type TavilyResearchJob = {
+  job_id: string;
+  status: TavilyResearchJobStatus;
+  model?: string;
+  created_at: string;
+  updated_at: string;
+  result?: TavilyResearchResponse;
+};
+
+/** A progress update for a long-running call: time since start, upstream polls so far and the last upstream status. */
+export type TavilyProgress = {
+  elapsedMs: number;
+  polls: number;
+  status: string;
+  /** Persisted research job the call is bound to, so an interrupted caller can pick it up with tavily_research_status. */
+  jobId?: string;
+};
+
+export type TavilyProgressCallback = (progress: TavilyProgress) => void;
+
+/**
+ * Per-call options; `signal` aborts the upstream request when the MCP client cancels the call.
+ * `hedge` is set on calls that take part in a hedged search, for usage logging.
+ */
+export type TavilyCallOptions = { signal?: AbortSignal; hedge?: HedgeRole };
 
 export type TavilyDefaultParametersProvider = (ctx: unknown) => Record<string, unknown>;
 
 export type TavilyClient = {
-  search(params: TavilySearchParams, opts: { defaults: Record<string, unknown> }): Promise<TavilySearchResponse>;
-  extract(params: TavilyExtractParams): Promise<TavilyExtractResponse>;
-  crawl(params: TavilyCrawlParams): Promise<TavilyCrawlResponse>;
-  map(params: TavilyMapParams): Promise<TavilyMapResponse>;
-  research(params: TavilyResearchParams): Promise<TavilyResearchResponse>;
+  search(params: TavilySearchParams, opts: { defaults: Record<string, unknown> } & TavilyCallOptions): Promise<TavilySearchResponse>;
+  extract(params: TavilyExtractParams, opts?: TavilyCallOptions): Promise<TavilyExtractResponse>;
+  crawl(params: TavilyCrawlParams, opts?: TavilyCallOptions): Promise<TavilyCrawlResponse>;
+  map(params: TavilyMapParams, opts?: TavilyCallOptions): Promise<TavilyMapResponse>;
+  research(
+    params: TavilyResearchParams,
+    opts?: { onProgress?: TavilyProgressCallback } & TavilyCallOptions
+  ): Promise<TavilyResearchResponse>;
+  /** Optional async research API; the tavily_research_* job tools are only advertised when implemented. */
+  startResearchJob?(params: TavilyResearchParams, opts?: TavilyCallOptions): Promise<TavilyResearchJob>;
+  getResearchJob?(jobId: string): Promise<TavilyResearchJob | null>;
 };
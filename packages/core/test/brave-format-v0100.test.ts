@@ -1,6 +1,12 @@
 import { describe, expect, it } from 'vitest';
 
-import { formatBraveLocalResultsV0100, formatBraveWebResultsFromTavilyV0100, formatBraveWebResultsV0100 } from '../src/brave/format-v0100.js';
+import {
+  formatBraveLocalResultsV0100,
+  formatBraveWebResultsFromTavilyV0100,
+  formatBraveWebResultsV0100,
+  structuredBraveLocalResultsV0100,
+  structuredBraveWebResultsV0100
+} from '../src/brave/format-v0100.js';
 
 describe('brave format-v0100', () => {
   it('formats web.results into JSON array', () => {
@@ -32,6 +38,42 @@ describe('brave format-v0100', () => {
     expect(parsed[0]).toEqual({ title: 'n', url: 'w', description: 'd' });
   });
 
+  it('formats Brave POI rows with business details', () => {
+    const text = formatBraveLocalResultsV0100({
+      local: {
+        results: [
+          {
+            id: 'loc1',
+            title: 'Cafe',
+            url: 'https://cafe.test',
+            description: 'Cosy',
+            postal_address: { streetAddress: '1 Main St', addressLocality: 'Springfield', postalCode: '12345' },
+            contact: { telephone: '+1 555 0100' },
+            rating: { ratingValue: 4.5, reviewCount: 120 },
+            price_range: '$$',
+            opening_hours: { days: [[{ abbr_name: 'Mon', opens: '08:00', closes: '17:00' }], [{ abbr_name: 'Tue' }]] },
+            coordinates: [40.1, -75.2],
+            categories: ['Coffee shop']
+          }
+        ]
+      }
+    });
+    expect(JSON.parse(text)[0]).toEqual({
+      title: 'Cafe',
+      url: 'https://cafe.test',
+      description: 'Cosy',
+      address: '1 Main St, Springfield, 12345',
+      phone: '+1 555 0100',
+      rating: 4.5,
+      review_count: 120,
+      price_range: '$$',
+      opening_hours: ['Mon 08:00-17:00'],
+      latitude: 40.1,
+      longitude: -75.2,
+      categories: ['Coffee shop']
+    });
+  });
+
   it('formats Tavily results into Brave JSON array', () => {
     const text = formatBraveWebResultsFromTavilyV0100({
       results: [{ title: 't', url: 'u', content: 'c' }]
@@ -39,5 +81,17 @@ describe('brave format-v0100', () => {
     const parsed = JSON.parse(text);
     expect(parsed[0]).toEqual({ title: 't', url: 'u', description: 'c' });
   });
-});
 
+  it('builds structured results with description mapped to content', () => {
+    expect(structuredBraveWebResultsV0100({ web: { results: [{ title: 't', url: 'u', description: 'd' }] } })).toEqual({
+      kind: 'search',
+      provider: 'brave',
+      results: [{ title: 't', url: 'u', content: 'd' }]
+    });
+    expect(structuredBraveLocalResultsV0100({ local: { results: [{ name: 'n', website: 'w' }] } })).toEqual({
+      kind: 'search',
+      provider: 'brave',
+      results: [{ title: 'n', url: 'w' }]
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { BraveHttpError } from '../src/brave/errors.js';
+import { createBraveHttpClient } from '../src/brave/httpClient.js';
+import { QueuedRateGate } from '../src/brave/rateGate.js';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+function routedFetch(routes: Record<string, (url: URL) => Response>) {
+  return vi.fn(async (input: string) => {
+    const url = new URL(input);
+    const handler = routes[url.pathname];
+    if (!handler) throw new Error(`unexpected ${url.pathname}`);
+    return handler(url);
+  });
+}
+
+function client(fetchImpl: unknown) {
+  return createBraveHttpClient({
+    apiKey: 'k',
+    gate: new QueuedRateGate({ minIntervalMs: 0 }),
+    fetchImpl: fetchImpl as typeof fetch
+  });
+}
+
+describe('createBraveHttpClient localSearch', () => {
+  it('looks up POIs and descriptions for the location ids', async () => {
+    const fetchImpl = routedFetch({
+      '/res/v1/web/search': () =>
+        jsonResponse({ locations: { results: [{ id: 'a', title: 'A' }, { id: 'b', title: 'B' }, { id: 'c' }] } }),
+      '/res/v1/local/pois': () =>
+        jsonResponse({
+          results: [
+            { id: 'a', title: 'A', contact: { telephone: '1' } },
+            { id: 'b', title: 'B' }
+          ]
+        }),
+      '/res/v1/local/descriptions': () => jsonResponse({ results: [{ id: 'a', description: 'About A' }] })
+    });
+
+    const res = await client(fetchImpl).localSearch({ query: 'coffee', count: 2 });
+
+    expect(res).toEqual({
+      type: 'local',
+      local: {
+        results: [
+          { id: 'a', title: 'A', contact: { telephone: '1' }, description: 'About A' },
+          { id: 'b', title: 'B' }
+        ]
+      }
+    });
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+    const urls = fetchImpl.mock.calls.map(([u]) => new URL(u));
+    expect(urls[0]!.searchParams.get('result_filter')).toBe('web,locations');
+    const pois = urls.find((u) => u.pathname === '/res/v1/local/pois')!;
+    expect(pois.searchParams.getAll('ids')).toEqual(['a', 'b']);
+  });
+
+  it('keeps POI details when the description lookup fails', async () => {
+    const fetchImpl = routedFetch({
+      '/res/v1/web/search': () => jsonResponse({ locations: { results: [{ id: 'a' }] } }),
+      '/res/v1/local/pois': () => jsonResponse({ results: [{ id: 'a', title: 'A' }] }),
+      '/res/v1/local/descriptions': () => jsonResponse({ message: 'boom' }, 500)
+    });
+
+    const res = await client(fetchImpl).localSearch({ query: 'coffee' });
+    expect(res).toEqual({ type: 'local', local: { results: [{ id: 'a', title: 'A' }] } });
+  });
+
+  it('returns the web results of the same request when there are no locations', async () => {
+    const fetchImpl = routedFetch({
+      '/res/v1/web/search': () => jsonResponse({ web: { results: [{ title: 'W', url: 'https://w.test' }] } })
+    });
+
+    const res = await client(fetchImpl).localSearch({ query: 'coffee' });
+    expect(res).toEqual({ web: { results: [{ title: 'W', url: 'https://w.test' }] } });
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(new URL(fetchImpl.mock.calls[0]![0]).searchParams.get('result_filter')).toBe('web,locations');
+  });
+});
+
+describe('createBraveHttpClient verticals', () => {
+  it('calls the news, image and video endpoints with their own count limits', async () => {
+    const fetchImpl = vi.fn(async (_input: string) => jsonResponse({ results: [] }));
+    const brave = client(fetchImpl);
+
+    await brave.newsSearch({ query: 'q', count: 100, freshness: 'pd' });
+    await brave.imageSearch({ query: 'q', count: 100, offset: 3 });
+    await brave.videoSearch({ query: 'q', offset: 2 });
+
+    const [news, images, videos] = fetchImpl.mock.calls.map(([u]) => new URL(u));
+    expect(news!.pathname).toBe('/res/v1/news/search');
+    expect(Object.fromEntries(news!.searchParams)).toEqual({ q: 'q', count: '50', offset: '0', freshness: 'pd' });
+    expect(images!.pathname).toBe('/res/v1/images/search');
+    expect(Object.fromEntries(images!.searchParams)).toEqual({ q: 'q', count: '100' });
+    expect(videos!.pathname).toBe('/res/v1/videos/search');
+    expect(Object.fromEntries(videos!.searchParams)).toEqual({ q: 'q', count: '20', offset: '2' });
+  });
+});
+
+describe('createBraveHttpClient summarize', () => {
+  it('requests a summary key and fetches the summarizer result', async () => {
+    const fetchImpl = routedFetch({
+      '/res/v1/web/search': () => jsonResponse({ summarizer: { key: 'sum-key' }, web: { results: [] } }),
+      '/res/v1/summarizer/search': () => jsonResponse({ status: 'complete', enrichments: { raw: 'Answer.' } })
+    });
+
+    const res = await client(fetchImpl).summarize({ query: 'why' });
+
+    expect(res.summary).toEqual({ status: 'complete', enrichments: { raw: 'Answer.' } });
+    const [search, summarizer] = fetchImpl.mock.calls.map(([u]) => new URL(u));
+    expect(search!.searchParams.get('summary')).toBe('1');
+    expect(summarizer!.searchParams.get('key')).toBe('sum-key');
+  });
+
+  it('returns a null summary when the plan yields no summarizer key', async () => {
+    const fetchImpl = routedFetch({
+      '/res/v1/web/search': () => jsonResponse({ web: { results: [{ title: 'W', url: 'https://w.test' }] } })
+    });
+
+    const res = await client(fetchImpl).summarize({ query: 'why' });
+    expect(res.summary).toBeNull();
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createBraveHttpClient rate-limit headers', () => {
+  const rateLimitHeaders = (remaining: string) => ({
+    'X-RateLimit-Limit': '1, 2000',
+    'X-RateLimit-Remaining': remaining,
+    'X-RateLimit-Reset': '1, 86400'
+  });
+
+  it('reports the per-second and monthly windows of each response', async () => {
+    const onQuota = vi.fn();
+    const fetchImpl = vi.fn(async () => new Response('{}', { status: 200, headers: rateLimitHeaders('0, 1500') }));
+    const http = createBraveHttpClient({ apiKey: 'k', gate: new QueuedRateGate({ minIntervalMs: 0 }), fetchImpl, onQuota });
+
+    await http.webSearch({ query: 'q' });
+
+    expect(onQuota).toHaveBeenCalledWith({
+      perSecond: { limit: 1, remaining: 0, resetMs: 1000 },
+      monthly: { limit: 2000, remaining: 1500, resetMs: 86_400_000 }
+    });
+  });
+
+  it('waits for the monthly reset after a 429 on an exhausted plan', async () => {
+    const fetchImpl = vi.fn(async () => new Response('{}', { status: 429, headers: rateLimitHeaders('1, 0') }));
+
+    const err = await client(fetchImpl).webSearch({ query: 'q' }).catch((e) => e);
+
+    expect(err).toBeInstanceOf(BraveHttpError);
+    expect(err.retryAfterMs).toBe(86_400_000);
+  });
+});
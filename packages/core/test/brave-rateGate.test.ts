@@ -56,4 +56,79 @@ describe('QueuedRateGate', () => {
       vi.useRealTimers();
     }
   });
+
+  it('leaves the queue when the signal aborts and lets the next caller run', async () => {
+    vi.useFakeTimers();
+    try {
+      const gate = new QueuedRateGate({ minIntervalMs: 1000 });
+      const controller = new AbortController();
+      const ran: string[] = [];
+
+      const p1 = gate.run(async () => {
+        await new Promise((r) => setTimeout(r, 5_000));
+        ran.push('p1');
+      });
+      const p2 = gate.run(async () => {
+        ran.push('p2');
+      }, { signal: controller.signal });
+      const p2Expectation = expect(p2).rejects.toMatchObject({ name: 'AbortError' });
+      const p3 = gate.run(async () => {
+        ran.push('p3');
+      });
+
+      controller.abort();
+      await p2Expectation;
+
+      await vi.runAllTimersAsync();
+      await Promise.all([p1, p3]);
+      expect(ran).toEqual(['p1', 'p3']);
+
+      await expect(gate.run(async () => 'never', { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('lets a burst start at once in token-bucket mode and then refills one token per interval', async () => {
+    vi.useFakeTimers();
+    try {
+      const gate = new QueuedRateGate({ minIntervalMs: 1000, burst: 3 });
+      const startedAt = Date.now();
+      const starts: number[] = [];
+      const slow = () => gate.run(async () => {
+        starts.push(Date.now() - startedAt);
+        await new Promise((r) => setTimeout(r, 5_000));
+      });
+
+      const calls = [slow(), slow(), slow(), slow()];
+      await vi.advanceTimersByTimeAsync(0);
+      // The first three run concurrently; the fourth waits for a refilled token, not for them to finish.
+      expect(starts).toEqual([0, 0, 0]);
+      expect(gate.startDelayMs()).toBe(2000);
+
+      await vi.runAllTimersAsync();
+      await Promise.all(calls);
+      expect(starts).toEqual([0, 0, 0, 1000]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('estimates the start delay from queued callers and the refill rate', async () => {
+    vi.useFakeTimers();
+    try {
+      const gate = new QueuedRateGate({ minIntervalMs: 500 });
+      expect(gate.startDelayMs()).toBe(0);
+
+      const first = gate.run(async () => 'first');
+      await vi.advanceTimersByTimeAsync(0);
+      await first;
+      expect(gate.startDelayMs()).toBe(500);
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(gate.startDelayMs()).toBe(300);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
 });
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+
+import { canonicalizeUrl, parseUrlCanonicalizationOptions } from '../src/mcp/canonicalUrl.js';
+import { defaultCombinedMergeSettings, mergeProviderResults } from '../src/mcp/mergeStrategy.js';
+
+describe('canonicalizeUrl', () => {
+  it('normalizes host, tracking params, trailing slash and fragment', () => {
+    expect(canonicalizeUrl('https://WWW.Example.com/a/?utm_source=x&b=2&a=1&gclid=abc#top')).toBe(
+      'https://example.com/a?a=1&b=2'
+    );
+    expect(canonicalizeUrl('https://example.com/a')).toBe('https://example.com/a');
+    expect(canonicalizeUrl('https://www.example.com/')).toBe('https://example.com/');
+    expect(canonicalizeUrl('http://example.com:80/x')).toBe('http://example.com/x');
+  });
+
+  it('returns non-http strings unchanged', () => {
+    expect(canonicalizeUrl(' not a url ')).toBe('not a url');
+    expect(canonicalizeUrl('mailto:someone@example.com')).toBe('mailto:someone@example.com');
+  });
+
+  it('applies configurable rules', () => {
+    const url = 'https://www.example.com/a/?utm_campaign=spring&ref=home&z=1#section';
+    expect(canonicalizeUrl(url, { keepQueryKeys: ['UTM_CAMPAIGN'] })).toBe(
+      'https://example.com/a?ref=home&utm_campaign=spring&z=1'
+    );
+    expect(canonicalizeUrl(url, { extraTrackingParams: ['ref'] })).toBe('https://example.com/a?z=1');
+    expect(
+      canonicalizeUrl(url, { stripWww: false, stripTrailingSlash: false, dropFragment: false, sortQueryParams: false })
+    ).toBe('https://www.example.com/a/?ref=home&z=1#section');
+  });
+});
+
+describe('parseUrlCanonicalizationOptions', () => {
+  it('parses JSON and ignores invalid fields', () => {
+    expect(parseUrlCanonicalizationOptions('{"stripWww":false,"keepQueryKeys":["Ref",1],"dropFragment":"no"}')).toEqual({
+      stripWww: false,
+      keepQueryKeys: ['ref']
+    });
+    expect(parseUrlCanonicalizationOptions('not json')).toEqual({});
+    expect(parseUrlCanonicalizationOptions(undefined)).toEqual({});
+  });
+});
+
+describe('mergeProviderResults URL canonicalization', () => {
+  it('dedupes URL variants across providers and keeps the first-seen URL', () => {
+    const merged = mergeProviderResults(
+      {
+        tavily: [{ title: 'T', url: 'https://www.example.com/a/?utm_source=x' }],
+        brave: [{ title: 'B', url: 'https://example.com/a' }]
+      },
+      defaultCombinedMergeSettings()
+    );
+    expect(merged).toHaveLength(1);
+    expect(merged[0]!.url).toBe('https://www.example.com/a/?utm_source=x');
+    expect(merged[0]!.sources).toEqual([
+      { provider: 'tavily', rank: 1 },
+      { provider: 'brave', rank: 1 }
+    ]);
+  });
+});
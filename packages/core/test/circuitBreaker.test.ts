@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { BraveHttpError, BraveRateGateTimeoutError, BraveTimeoutError } from '../src/brave/errors.js';
+import { createBraveHttpClient } from '../src/brave/httpClient.js';
+import { QueuedRateGate } from '../src/brave/rateGate.js';
+import { CircuitBreaker, CircuitOpenError, createCircuitBreakingBraveClient } from '../src/providers/circuitBreaker.js';
+
+function fail(status = 503) {
+  return () => Promise.reject(new BraveHttpError('upstream', { status }));
+}
+
+function clock() {
+  let now = 1_000_000;
+  return { now: () => now, advance: (ms: number) => { now += ms; } };
+}
+
+describe('CircuitBreaker', () => {
+  it('opens after consecutive failures and then skips calls without running them', async () => {
+    const breaker = new CircuitBreaker('brave', { consecutiveFailures: 3, now: clock().now });
+    for (let i = 0; i < 3; i++) await expect(breaker.run(fail())).rejects.toBeInstanceOf(BraveHttpError);
+
+    const call = vi.fn(async () => 'ok');
+    await expect(breaker.run(call)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(call).not.toHaveBeenCalled();
+    expect(breaker.snapshot()).toMatchObject({ state: 'open', consecutiveFailures: 3, recentCalls: 3, errorRate: 1 });
+  });
+
+  it('opens when the error rate over the window crosses the threshold', async () => {
+    const breaker = new CircuitBreaker('tavily', { consecutiveFailures: 100, errorRate: 0.5, minimumCalls: 4, windowSize: 4 });
+    await breaker.run(async () => 'ok');
+    await expect(breaker.run(fail())).rejects.toThrow();
+    await breaker.run(async () => 'ok');
+    expect(breaker.snapshot().state).toBe('closed');
+    await expect(breaker.run(fail())).rejects.toThrow();
+    expect(breaker.snapshot()).toMatchObject({ state: 'open', errorRate: 0.5 });
+  });
+
+  it('does not count client errors or cancelled calls as failures', async () => {
+    const breaker = new CircuitBreaker('brave', { consecutiveFailures: 1 });
+    await expect(breaker.run(fail(400))).rejects.toThrow();
+    const aborted = new AbortController();
+    aborted.abort();
+    await expect(breaker.run(fail(), { signal: aborted.signal })).rejects.toThrow();
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('does not count calls that time out in the local rate-gate queue', async () => {
+    const breaker = new CircuitBreaker('brave', { consecutiveFailures: 1 });
+    const queued = () => Promise.reject(new BraveRateGateTimeoutError('Brave request queue timeout', { maxWaitMs: 1 }));
+    await expect(breaker.run(queued)).rejects.toBeInstanceOf(BraveRateGateTimeoutError);
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0, recentCalls: 0 });
+  });
+
+  it('probes one call at a time when half-open and closes after enough successful probes', async () => {
+    const time = clock();
+    const breaker = new CircuitBreaker('brave', { consecutiveFailures: 1, openMs: 1000, probeSuccesses: 2, now: time.now });
+    await expect(breaker.run(fail())).rejects.toThrow();
+    time.advance(1000);
+    expect(breaker.snapshot().state).toBe('half_open');
+
+    let release!: () => void;
+    const probe = breaker.run(() => new Promise<string>((resolve) => { release = () => resolve('probe'); }));
+    await expect(breaker.run(async () => 'concurrent')).rejects.toBeInstanceOf(CircuitOpenError);
+    release();
+    await expect(probe).resolves.toBe('probe');
+    expect(breaker.snapshot().state).toBe('half_open');
+
+    await expect(breaker.run(async () => 'second probe')).resolves.toBe('second probe');
+    expect(breaker.snapshot().state).toBe('closed');
+  });
+
+  it('reopens when a probe fails', async () => {
+    const time = clock();
+    const breaker = new CircuitBreaker('brave', { consecutiveFailures: 1, openMs: 1000, now: time.now });
+    await expect(breaker.run(fail())).rejects.toThrow();
+    time.advance(1000);
+    await expect(breaker.run(fail())).rejects.toBeInstanceOf(BraveHttpError);
+    expect(breaker.snapshot()).toMatchObject({ state: 'open', retryAt: new Date(time.now() + 1000).toISOString() });
+  });
+});
+
+describe('createCircuitBreakingBraveClient', () => {
+  it('fails calls fast once the breaker is open', async () => {
+    const webSearch = vi.fn(fail());
+    const client = createCircuitBreakingBraveClient({
+      client: { webSearch } as any,
+      breaker: new CircuitBreaker('brave', { consecutiveFailures: 1 })
+    });
+
+    await expect(client.webSearch({ query: 'a' })).rejects.toBeInstanceOf(BraveHttpError);
+    await expect(client.webSearch({ query: 'b' })).rejects.toThrow("Search provider 'brave' is temporarily unavailable");
+    expect(webSearch).toHaveBeenCalledTimes(1);
+  });
+
+  it('counts an upstream that hangs past the client timeout as a failure', async () => {
+    const hangingFetch = vi.fn(
+      (_input: string, init?: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+        })
+    );
+    const client = createCircuitBreakingBraveClient({
+      client: createBraveHttpClient({
+        apiKey: 'k',
+        gate: new QueuedRateGate({ minIntervalMs: 0 }),
+        fetchImpl: hangingFetch as unknown as typeof fetch,
+        timeoutMs: 5
+      }),
+      breaker: new CircuitBreaker('brave', { consecutiveFailures: 1 })
+    });
+
+    await expect(client.webSearch({ query: 'a' })).rejects.toBeInstanceOf(BraveTimeoutError);
+    await expect(client.webSearch({ query: 'b' })).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(hangingFetch).toHaveBeenCalledTimes(1);
+  });
+});
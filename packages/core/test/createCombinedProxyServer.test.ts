@@ -1,6 +1,12 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
 
 import { createCombinedProxyServer } from '../src/mcp/createCombinedProxyServer.js';
+import { MemoryOutputContinuationStore } from '../src/mcp/outputBudget.js';
+import { TavilyHttpError } from '../src/tavily/errors.js';
+import { RequestHedger } from '../src/mcp/hedging.js';
+import { CircuitBreaker, createCircuitBreakingBraveClient } from '../src/providers/circuitBreaker.js';
 
 describe('createCombinedProxyServer', () => {
   it('lists both Tavily and Brave tools', async () => {
@@ -16,6 +22,7 @@ describe('createCombinedProxyServer', () => {
     expect(listHandler).toBeTypeOf('function');
     const res = await listHandler({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }, {});
     const names = (res.tools ?? []).map((t: any) => t.name);
+    expect(names).toContain('web_search');
     expect(names).toContain('tavily_search');
     expect(names).toContain('brave_web_search');
     expect(names).toContain('brave_local_search');
@@ -50,6 +57,330 @@ describe('createCombinedProxyServer', () => {
     expect(parsed[0]?.title).toBe('t');
   });
 
+  it('routes web_search through the search source mode and reports the serving provider', async () => {
+    const brave = stubBraveClient();
+    const webSearch = vi.spyOn(brave, 'webSearch');
+    const tavily = stubTavilyClient();
+    tavily.search = vi.fn(async () => ({ results: [{ title: 'tt', url: 'https://t.test', content: 'c' }] }));
+    let mode: 'brave_only' | 'tavily_only' = 'brave_only';
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: tavily,
+      braveClient: brave,
+      getAuthToken: () => 'tok',
+      getSearchSourceMode: () => mode
+    });
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const args = {
+      query: 'hello',
+      count: 3,
+      freshness: 'week',
+      include_domains: ['a.test', 'b.test'],
+      exclude_domains: ['c.test'],
+      country: 'gb',
+      language: 'EN'
+    };
+    const call = () =>
+      callHandler({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'web_search', arguments: args } }, {});
+
+    const fromBrave = await call();
+    expect(webSearch.mock.calls[0]![0]).toEqual({
+      query: 'hello (site:a.test OR site:b.test) -site:c.test',
+      count: 3,
+      freshness: 'pw',
+      country: 'GB',
+      search_lang: 'en'
+    });
+    expect(fromBrave.structuredContent).toEqual({ kind: 'search', provider: 'brave', results: [{ url: 'u', title: 't', content: 'd' }] });
+    expect(JSON.parse(fromBrave.content[0].text)).toEqual({ provider: 'brave', results: [{ url: 'u', title: 't', content: 'd' }] });
+
+    mode = 'tavily_only';
+    const fromTavily = await call();
+    expect(tavily.search).toHaveBeenCalledWith(
+      {
+        query: 'hello',
+        max_results: 3,
+        time_range: 'week',
+        include_domains: ['a.test', 'b.test'],
+        exclude_domains: ['c.test'],
+        country: 'united kingdom',
+        topic: 'general'
+      },
+      expect.anything()
+    );
+    expect(JSON.parse(fromTavily.content[0].text)).toEqual({
+      provider: 'tavily',
+      results: [{ url: 'https://t.test', title: 'tt', content: 'c' }]
+    });
+
+    await expect(
+      callHandler(
+        { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'web_search', arguments: { query: 'x', country: 'Germany' } } },
+        {}
+      )
+    ).rejects.toThrow(/two-letter country code/);
+  });
+
+  it('dispatches news, image and video search to the Brave client', async () => {
+    const brave = stubBraveClient();
+    const newsSearch = vi.spyOn(brave, 'newsSearch');
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: stubTavilyClient(),
+      braveClient: brave,
+      getAuthToken: () => 'tok'
+    });
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const call = (name: string) =>
+      callHandler({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: { query: 'q', freshness: 'pd' } } }, {});
+
+    const news = await call('brave_news_search');
+    expect(newsSearch).toHaveBeenCalledWith({ query: 'q', freshness: 'pd' }, expect.objectContaining({ maxWaitMs: 30_000 }));
+    expect(JSON.parse(news.content[0].text)).toEqual([
+      { title: 'n', url: 'https://news.test/a', description: 'd', age: '1 hour ago', source: 'news.test' }
+    ]);
+
+    const images = await call('brave_image_search');
+    expect(JSON.parse(images.content[0].text)).toEqual([
+      { title: 'i', url: 'https://page.test', image_url: 'https://img.test/i.png', width: 10, height: 20 }
+    ]);
+    expect(images.structuredContent.images).toEqual([{ url: 'https://img.test/i.png', description: 'i' }]);
+
+    const videos = await call('brave_video_search');
+    expect(JSON.parse(videos.content[0].text)).toEqual([
+      { title: 'v', url: 'https://video.test/v', duration: '03:15', creator: 'c' }
+    ]);
+  });
+
+  it('returns the Brave summary as answer with the cited pages as results', async () => {
+    const brave = stubBraveClient();
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: stubTavilyClient(),
+      braveClient: brave,
+      getAuthToken: () => 'tok'
+    });
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const call = () =>
+      callHandler({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'brave_summarize', arguments: { query: 'q' } } }, {});
+
+    const result = await call();
+    expect(JSON.parse(result.content[0].text)).toEqual({
+      summary: 'Short answer.',
+      references: [{ title: 'Ref', url: 'https://ref.test' }]
+    });
+    expect(result.structuredContent).toMatchObject({ answer: 'Short answer.', results: [{ url: 'https://ref.test', title: 'Ref' }] });
+
+    brave.summarize = async () => ({ search: { web: { results: [] } }, summary: null });
+    const missing = await call();
+    expect(missing.isError).toBe(true);
+    expect(missing.content[0].text).toContain('no summary');
+  });
+
+  it('returns a tool error for news search when Brave is not configured', async () => {
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: stubTavilyClient(),
+      getAuthToken: () => 'tok'
+    });
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const result = await callHandler(
+      { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'brave_news_search', arguments: { query: 'q' } } },
+      {}
+    );
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Brave Search is not configured');
+  });
+
+  it('applies allowedTools scoping to the Brave vertical tools', async () => {
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: stubTavilyClient(),
+      braveClient: stubBraveClient(),
+      getAuthToken: () => 'tok',
+      getAllowedTools: () => ['brave_news_search']
+    });
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const call = (name: string) =>
+      callHandler({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: { query: 'q' } } }, {});
+
+    await expect(call('brave_news_search')).resolves.toMatchObject({ structuredContent: { provider: 'brave' } });
+    await expect(call('brave_video_search')).rejects.toThrow("Tool 'brave_video_search' is not allowed");
+  });
+
+  it('rejects arguments that do not match the input schema before dispatch', async () => {
+    const tavily = stubTavilyClient();
+    tavily.search = vi.fn(async () => ({ results: [] }));
+    const onInvalidArguments = vi.fn();
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: tavily,
+      braveClient: stubBraveClient(),
+      getAuthToken: () => 'tok',
+      onInvalidArguments
+    });
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const call = (name: string, args: Record<string, unknown>) =>
+      callHandler({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }, {});
+
+    await expect(call('tavily_search', { query: 'q', max_results: 50 })).rejects.toMatchObject({
+      code: -32602,
+      message: expect.stringContaining('max_results: must be <= 20')
+    });
+    await expect(call('brave_web_search', {})).rejects.toThrow('query: is required');
+    expect(tavily.search).not.toHaveBeenCalled();
+    expect(onInvalidArguments).toHaveBeenCalledTimes(2);
+    expect(onInvalidArguments.mock.calls[0].slice(0, 3)).toEqual([
+      'tavily_search',
+      { query: 'q', max_results: 50 },
+      [{ path: 'max_results', message: 'must be <= 20' }]
+    ]);
+  });
+
+  it('advertises virtual tools and dispatches them to the base tool with locked presets', async () => {
+    const tavily = stubTavilyClient();
+    tavily.search = vi.fn(async () => ({ results: [] }));
+    const seen: Array<{ name: string; toolName: string; virtualTool?: unknown }> = [];
+    const docsSearch = {
+      name: 'internal_docs_search',
+      description: 'Search the internal docs',
+      baseTool: 'tavily_search',
+      presetArguments: { include_domains: ['docs.example.com'] },
+      exposedArguments: ['query']
+    };
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: tavily,
+      getAuthToken: () => 'tok',
+      getAllowedTools: () => ['internal_docs_search'],
+      getVirtualTools: () => [docsSearch, { ...docsSearch, name: 'orphan_search', baseTool: 'missing_tool' }],
+      middleware: [
+        async (ctx, next) => {
+          seen.push({ name: ctx.name, toolName: ctx.toolName, virtualTool: ctx.virtualTool });
+          return await next();
+        }
+      ]
+    });
+    const listHandler = (server as any)._requestHandlers.get('tools/list');
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const call = (name: string, args: Record<string, unknown>) =>
+      callHandler({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }, {});
+
+    const listed = (await listHandler({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }, {})).tools;
+    const virtual = listed.find((t: any) => t.name === 'internal_docs_search');
+    expect(Object.keys(virtual.inputSchema.properties)).toEqual(['query', 'max_output_chars']);
+    expect(listed.map((t: any) => t.name)).not.toContain('orphan_search');
+
+    await call('internal_docs_search', { query: 'q' });
+    expect(tavily.search).toHaveBeenCalledWith(
+      { query: 'q', include_domains: ['docs.example.com'] },
+      expect.objectContaining({ defaults: {} })
+    );
+    expect(seen).toEqual([{ name: 'internal_docs_search', toolName: 'tavily_search', virtualTool: docsSearch }]);
+
+    // Preset arguments cannot be overridden, and the base tool stays out of scope.
+    await expect(call('internal_docs_search', { query: 'q', include_domains: ['evil.test'] })).rejects.toThrow(
+      'Invalid arguments for internal_docs_search: include_domains: is not a recognized argument'
+    );
+    await expect(call('tavily_search', { query: 'q' })).rejects.toThrow("Tool 'tavily_search' is not allowed");
+  });
+
+  it('runs runtime middleware inside auth and scoping, after provider errors are mapped and before redaction', async () => {
+    const tavily = stubTavilyClient();
+    tavily.search = vi.fn(async () => {
+      throw new TavilyHttpError('bad key', { status: 401, tavilyMessage: 'Invalid key tvly-abc123' });
+    });
+    tavily.map = vi.fn(async () => ({ base_url: '', results: [] }));
+    const results: unknown[] = [];
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: tavily,
+      getAuthToken: () => 'tok',
+      getAllowedTools: () => ['tavily_search', 'tavily_map'],
+      middleware: [
+        async (ctx, next) => {
+          if (ctx.toolName === 'tavily_map') return { content: [{ type: 'text', text: 'quota exceeded' }], isError: true };
+          const result = await next();
+          results.push(result);
+          return result;
+        }
+      ]
+    });
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const call = (name: string, args: Record<string, unknown>) =>
+      callHandler({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }, {});
+
+    await expect(call('tavily_search', { query: 'q' })).resolves.toEqual({
+      content: [{ type: 'text', text: 'Tavily API error: Invalid key tvly-<redacted>' }],
+      isError: true
+    });
+    expect(results).toEqual([{ content: [{ type: 'text', text: 'Tavily API error: Invalid key tvly-abc123' }], isError: true }]);
+
+    await expect(call('tavily_map', { url: 'https://a.test' })).resolves.toMatchObject({ content: [{ text: 'quota exceeded' }] });
+    expect(tavily.map).not.toHaveBeenCalled();
+
+    // Scoping rejects the call before runtime middleware sees it.
+    await expect(call('tavily_extract', { urls: ['https://a.test'] })).rejects.toThrow("Tool 'tavily_extract' is not allowed");
+    expect(results).toHaveLength(1);
+  });
+
+  it('truncates output to max_output_chars and serves the rest through nexus_continue', async () => {
+    const tavily = stubTavilyClient();
+    const longContent = 'x'.repeat(3000);
+    tavily.extract = vi.fn(async () => ({ results: [{ url: 'https://a.test', raw_content: longContent }] }));
+    let token = 'tok';
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: tavily,
+      getAuthToken: () => token,
+      getAllowedTools: () => ['tavily_extract'],
+      getMaxOutputChars: () => 5000,
+      outputContinuations: new MemoryOutputContinuationStore()
+    });
+    const listHandler = (server as any)._requestHandlers.get('tools/list');
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const call = (name: string, args: Record<string, unknown>) =>
+      callHandler({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }, {});
+
+    const listed = (await listHandler({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }, {})).tools;
+    expect(listed.map((t: any) => t.name)).toContain('nexus_continue');
+
+    // The per-call budget wins over the token budget and is not forwarded upstream.
+    const first = await call('tavily_extract', { urls: ['https://a.test'], max_output_chars: 1000 });
+    expect(tavily.extract).toHaveBeenCalledWith({ urls: ['https://a.test'] }, expect.anything());
+    const firstText: string = first.content[0].text;
+    expect(firstText.length).toBeLessThan(1300);
+    const cursor = /"cursor": "([^"]+)"/.exec(firstText)?.[1];
+    expect(cursor).toBeTruthy();
+    // The structured copy is trimmed to the same budget and points at the same continuation.
+    expect(JSON.stringify(first.structuredContent).length).toBeLessThanOrEqual(1000);
+    expect(first.structuredContent).toMatchObject({ truncated: true, next_cursor: cursor });
+    expect(first.structuredContent.results[0].raw_content).toBeUndefined();
+
+    // Continuation is exempt from allowedTools but bound to the calling token.
+    const parts = [firstText.slice(0, firstText.indexOf('\n\n[Output truncated'))];
+    let next: string | null = cursor!;
+    while (next) {
+      const res = await call('nexus_continue', { cursor: next, max_output_chars: 2000 });
+      expect(res.isError).toBeUndefined();
+      parts.push(res.content[0].text.replace(/\n\n\[(Output truncated|End of output)[^\]]*\]$/, ''));
+      next = res.structuredContent.next_cursor;
+    }
+    expect(parts.join('')).toContain(longContent);
+
+    token = 'other';
+    expect((await call('nexus_continue', { cursor })).isError).toBe(true);
+  });
+
   it('falls back to Tavily when Brave has no available keys (web search)', async () => {
     const tavily = stubTavilyClient();
     const brave = stubBraveClient();
@@ -85,6 +416,35 @@ describe('createCombinedProxyServer', () => {
     expect(parsed[0]?.title).toBe('From Tavily');
   });
 
+  it('skips Brave and goes straight to Tavily while the Brave circuit is open', async () => {
+    const tavily = stubTavilyClient();
+    const brave = stubBraveClient();
+    const braveBreaker = new CircuitBreaker('brave', { consecutiveFailures: 1 });
+    await expect(braveBreaker.run(() => Promise.reject(new Error('timeout')))).rejects.toThrow();
+
+    tavily.search = async () => ({
+      results: [{ title: 'From Tavily', url: 'https://tavily.com', content: 'fallback' }]
+    });
+    brave.webSearch = vi.fn(async () => ({ web: { results: [] } }));
+
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: tavily,
+      braveClient: createCircuitBreakingBraveClient({ client: brave, breaker: braveBreaker }),
+      getAuthToken: () => 'tok'
+    });
+
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const result = await callHandler(
+      { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'brave_web_search', arguments: { query: 'hello' } } },
+      {}
+    );
+
+    expect(JSON.parse(result.content?.[0]?.text)[0]?.title).toBe('From Tavily');
+    expect(brave.webSearch).not.toHaveBeenCalled();
+  });
+
   it('falls back to Tavily when Brave key decryption fails (web search)', async () => {
     const tavily = stubTavilyClient();
     const brave = stubBraveClient();
@@ -185,6 +545,71 @@ describe('createCombinedProxyServer', () => {
     expect(result.content?.[0]?.text).toContain('Brave API error: No Brave API keys available');
   });
 
+  it('hedges a slow Brave search with Tavily in brave_hedged_tavily mode and cancels Brave', async () => {
+    const tavily = stubTavilyClient();
+    const brave = stubBraveClient();
+    const braveCalls: any[] = [];
+    brave.webSearch = (_params: unknown, opts: any) => {
+      braveCalls.push(opts);
+      return new Promise((_resolve, reject) => opts.signal.addEventListener('abort', () => reject(new Error('aborted'))));
+    };
+    tavily.search = vi.fn(async () => ({ results: [{ title: 'Tavily Result', url: 'https://tavily.com', content: 'c' }] }));
+
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: tavily,
+      braveClient: brave,
+      getAuthToken: () => 'tok',
+      getSearchSourceMode: async () => 'brave_hedged_tavily',
+      hedger: new RequestHedger({ threshold: { kind: 'fixed', ms: 5 } })
+    });
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const result = await callHandler(
+      { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'brave_web_search', arguments: { query: 'hello' } } },
+      { signal: new AbortController().signal }
+    );
+
+    expect(result.structuredContent).toMatchObject({ provider: 'tavily' });
+    expect(result._meta).toEqual({ hedge: { winner: 'hedge', hedged: true } });
+    expect(braveCalls).toHaveLength(1);
+    expect(braveCalls[0]).toMatchObject({ hedge: 'primary' });
+    expect(braveCalls[0].signal.aborted).toBe(true);
+    expect(tavily.search).toHaveBeenCalledWith({ query: 'hello', max_results: undefined }, expect.objectContaining({ hedge: 'hedge' }));
+  });
+
+  it('reports an unhedged Brave win in brave_hedged_tavily mode, also through web_search', async () => {
+    const tavily = stubTavilyClient();
+    const brave = stubBraveClient();
+    brave.webSearch = async () => ({ web: { results: [{ title: 'Brave Result', url: 'https://brave.com', description: 'd' }] } });
+    tavily.search = vi.fn(async () => ({ results: [] }));
+
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: tavily,
+      braveClient: brave,
+      getAuthToken: () => 'tok',
+      getSearchSourceMode: async () => 'brave_hedged_tavily',
+      hedger: new RequestHedger({ threshold: { kind: 'fixed', ms: 1_000 } })
+    });
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const call = (name: string) =>
+      callHandler(
+        { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: { query: 'hello' } } },
+        { signal: new AbortController().signal }
+      );
+
+    const braveResult = await call('brave_web_search');
+    expect(braveResult.structuredContent).toMatchObject({ provider: 'brave' });
+    expect(braveResult._meta).toEqual({ hedge: { winner: 'primary', hedged: false } });
+
+    const webResult = await call('web_search');
+    expect(webResult.structuredContent).toMatchObject({ kind: 'search', provider: 'brave' });
+    expect(webResult._meta).toEqual({ hedge: { winner: 'primary', hedged: false } });
+    expect(tavily.search).not.toHaveBeenCalled();
+  });
+
   it('executes combined search when searchSourceMode is combined', async () => {
     const tavily = stubTavilyClient();
     const brave = stubBraveClient();
@@ -380,7 +805,7 @@ describe('createCombinedProxyServer', () => {
 
     const callHandler = (server as any)._requestHandlers.get('tools/call');
     const result = await callHandler(
-      { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'brave_web_search', arguments: { query: 'test', offset: 10 } } },
+      { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'brave_web_search', arguments: { query: 'test', offset: 1 } } },
       {}
     );
 
@@ -388,8 +813,244 @@ describe('createCombinedProxyServer', () => {
     expect(braveCalled).toBe(true); // Brave should be called
     expect(result.isError).toBeUndefined();
   });
+
+  it('declares an outputSchema and returns schema-valid structuredContent for every tool', async () => {
+    const tavily = stubTavilyClient();
+    tavily.search = async () => ({ answer: 'a', results: [{ title: 't', url: 'https://a.test', content: 'c' }] });
+    tavily.crawl = async () => ({ base_url: 'https://a.test', results: [{ url: 'https://a.test/x', raw_content: 'r' }] });
+    tavily.map = async () => ({ base_url: 'https://a.test', results: ['https://a.test/x'] });
+    tavily.research = async () => ({ content: 'report', sources: [{ url: 'https://a.test', title: 't' }] });
+
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: tavily,
+      braveClient: stubBraveClient(),
+      getAuthToken: () => 'tok'
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test', version: '0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const { tools } = await client.listTools();
+    for (const tool of tools) {
+      expect(tool.outputSchema, tool.name).toBeDefined();
+    }
+
+    const calls: Array<[string, Record<string, unknown>, string]> = [
+      ['tavily_search', { query: 'q' }, 'search'],
+      ['tavily_extract', { urls: ['https://a.test'] }, 'extract'],
+      ['tavily_crawl', { url: 'https://a.test' }, 'crawl'],
+      ['tavily_map', { url: 'https://a.test' }, 'map'],
+      ['tavily_research', { input: 'q' }, 'research'],
+      ['brave_web_search', { query: 'q' }, 'search'],
+      ['brave_local_search', { query: 'q' }, 'search'],
+      ['brave_news_search', { query: 'q' }, 'search'],
+      ['brave_image_search', { query: 'q' }, 'search'],
+      ['brave_video_search', { query: 'q' }, 'search'],
+      ['brave_summarize', { query: 'q' }, 'search']
+    ];
+    for (const [name, args, kind] of calls) {
+      // Client.callTool validates structuredContent against the tool's outputSchema.
+      const result = await client.callTool({ name, arguments: args });
+      expect(result.isError, name).toBeFalsy();
+      expect((result.structuredContent as any)?.kind, name).toBe(kind);
+    }
+
+    await client.close();
+  });
+
+  it('advertises research job tools only when the client supports them and research is enabled', async () => {
+    const listNames = async (tavilyClient: any, researchEnabled: boolean) => {
+      const server = createCombinedProxyServer({
+        serverName: 'x',
+        serverVersion: '0',
+        tavilyClient,
+        getAuthToken: () => 'tok',
+        getResearchEnabled: () => researchEnabled
+      });
+      const listHandler = (server as any)._requestHandlers.get('tools/list');
+      const res = await listHandler({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }, {});
+      return (res.tools ?? []).map((t: any) => t.name);
+    };
+
+    expect(await listNames(stubTavilyClient(), true)).not.toContain('tavily_research_start');
+    expect(await listNames(stubResearchJobClient(), true)).toEqual(
+      expect.arrayContaining(['tavily_research_start', 'tavily_research_status', 'tavily_research_result'])
+    );
+    expect(await listNames(stubResearchJobClient(), false)).not.toContain('tavily_research_start');
+  });
+
+  it('starts a research job, reports status and returns the result once finished', async () => {
+    const tavily = stubResearchJobClient();
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: tavily,
+      getAuthToken: () => 'tok'
+    });
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const call = (name: string, args: Record<string, unknown>) =>
+      callHandler({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }, {});
+
+    const started = await call('tavily_research_start', { input: 'topic', model: 'pro' });
+    expect(started.structuredContent).toMatchObject({ job_id: 'job-1', status: 'running', model: 'pro' });
+
+    const pending = await call('tavily_research_result', { job_id: 'job-1' });
+    expect(pending.isError).toBe(true);
+    expect(pending.content[0].text).toContain('still running');
+
+    tavily.jobs.get('job-1').status = 'completed';
+    tavily.jobs.get('job-1').result = { content: 'report' };
+
+    const status = await call('tavily_research_status', { job_id: 'job-1' });
+    expect(status.structuredContent).toMatchObject({ job_id: 'job-1', status: 'completed' });
+
+    const result = await call('tavily_research_result', { job_id: 'job-1' });
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toBe('report');
+    expect(result.structuredContent).toMatchObject({ kind: 'research', content: 'report' });
+
+    const missing = await call('tavily_research_status', { job_id: 'other' });
+    expect(missing.isError).toBe(true);
+  });
+
+  it('sends progress notifications during research polling and crawl when a progressToken is given', async () => {
+    vi.useFakeTimers();
+    try {
+      const tavily = {
+        ...stubTavilyClient(),
+        research: async (_params: any, opts: any) => {
+          opts?.onProgress?.({ elapsedMs: 2000, polls: 1, status: 'pending' });
+          opts?.onProgress?.({ elapsedMs: 5000, polls: 2, status: 'in_progress', jobId: 'job-1' });
+          return { content: 'report' };
+        },
+        crawl: () => new Promise((resolve) => setTimeout(() => resolve({ base_url: 'b', results: [] }), 12_000))
+      };
+      const server = createCombinedProxyServer({
+        serverName: 'x',
+        serverVersion: '0',
+        tavilyClient: tavily as any,
+        getAuthToken: () => 'tok'
+      });
+      const callHandler = (server as any)._requestHandlers.get('tools/call');
+      const sendNotification = vi.fn(async () => {});
+      const call = (name: string, args: Record<string, unknown>, progressToken?: string) =>
+        callHandler(
+          { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } },
+          { sendNotification, ...(progressToken ? { _meta: { progressToken } } : {}) }
+        );
+
+      await call('tavily_research', { input: 'topic' }, 'p1');
+      expect(sendNotification.mock.calls.map((c: any[]) => c[0])).toEqual([
+        { method: 'notifications/progress', params: { progressToken: 'p1', progress: 1, message: 'pending (elapsed 2s, poll 1)' } },
+        { method: 'notifications/progress', params: { progressToken: 'p1', progress: 2, message: 'in_progress (elapsed 5s, poll 2, job job-1)' } }
+      ]);
+
+      sendNotification.mockClear();
+      const crawl = call('tavily_crawl', { url: 'https://a.test' }, 'p2');
+      await vi.advanceTimersByTimeAsync(12_000);
+      await crawl;
+      expect(sendNotification).toHaveBeenCalledTimes(2);
+      expect(sendNotification.mock.calls[1]![0]).toMatchObject({ params: { progressToken: 'p2', progress: 2, message: 'crawling (elapsed 10s, poll 2)' } });
+
+      sendNotification.mockClear();
+      await call('tavily_research', { input: 'topic' });
+      expect(sendNotification).not.toHaveBeenCalled();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('passes the request abort signal to the upstream clients', async () => {
+    const seen: Array<AbortSignal | undefined> = [];
+    const tavily = {
+      ...stubTavilyClient(),
+      extract: async (_params: any, opts: any) => {
+        seen.push(opts?.signal);
+        return { results: [] };
+      }
+    };
+    const brave = {
+      webSearch: async (_params: any, opts: any) => {
+        seen.push(opts?.signal);
+        return { web: { results: [] } };
+      },
+      localSearch: async () => ({ web: { results: [] } })
+    };
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: tavily as any,
+      braveClient: brave as any,
+      getAuthToken: () => 'tok',
+      getSearchSourceMode: async () => 'brave_only'
+    });
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const signal = new AbortController().signal;
+
+    await callHandler({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'tavily_extract', arguments: { urls: ['u'] } } }, { signal });
+    await callHandler({ jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'brave_web_search', arguments: { query: 'q' } } }, { signal });
+
+    expect(seen).toEqual([signal, signal]);
+  });
+
+  it('resolves Brave overflow and research enablement per request', async () => {
+    const maxWaits: Array<number | undefined> = [];
+    const brave = {
+      ...stubBraveClient(),
+      webSearch: async (_params: any, opts: any) => {
+        maxWaits.push(opts?.maxWaitMs);
+        return { web: { results: [] } };
+      }
+    };
+    const policyFor = (ctx: any) => (ctx?.authInfo?.token === 'intern' ? { overflow: 'error' as const, research: false } : undefined);
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: stubTavilyClient(),
+      braveClient: brave as any,
+      braveOverflow: 'queue',
+      braveMaxQueueMs: 5_000,
+      getAuthToken: () => 'tok',
+      getSearchSourceMode: async () => 'brave_only',
+      getBraveOverflow: (ctx) => policyFor(ctx)?.overflow,
+      getResearchEnabled: (ctx) => policyFor(ctx)?.research ?? true
+    });
+    const listHandler = (server as any)._requestHandlers.get('tools/list');
+    const callHandler = (server as any)._requestHandlers.get('tools/call');
+    const intern = { authInfo: { token: 'intern' } };
+    const search = (extra: any) =>
+      callHandler({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'brave_web_search', arguments: { query: 'q' } } }, extra);
+
+    await search(intern);
+    await search({});
+    expect(maxWaits).toEqual([1, 5_000]);
+
+    const names = async (extra: any) =>
+      ((await listHandler({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }, extra)).tools ?? []).map((t: any) => t.name);
+    expect(await names(intern)).not.toContain('tavily_research');
+    expect(await names({})).toContain('tavily_research');
+  });
 });
 
+function stubResearchJobClient(): any {
+  const jobs = new Map<string, any>();
+  return {
+    ...stubTavilyClient(),
+    jobs,
+    startResearchJob: async (params: any) => {
+      const job = { job_id: 'job-1', status: 'running', model: params.model, created_at: 'c', updated_at: 'u' };
+      jobs.set(job.job_id, job);
+      return { ...job };
+    },
+    getResearchJob: async (jobId: string) => {
+      const job = jobs.get(jobId);
+      return job ? { ...job } : null;
+    }
+  };
+}
+
 function stubTavilyClient(): any {
   return {
     search: async () => ({ results: [] }),
@@ -411,6 +1072,26 @@ function stubBraveClient(): any {
     localSearch: async function () {
       this.localSearchCalls += 1;
       return { local: { results: [{ name: 'n', website: 'w', description: 'd' }] } };
-    }
+    },
+    newsSearch: async () => ({
+      results: [{ title: 'n', url: 'https://news.test/a', description: 'd', age: '1 hour ago', meta_url: { hostname: 'news.test' } }]
+    }),
+    imageSearch: async () => ({
+      results: [{ title: 'i', url: 'https://page.test', properties: { url: 'https://img.test/i.png', width: 10, height: 20 } }]
+    }),
+    videoSearch: async () => ({
+      results: [{ title: 'v', url: 'https://video.test/v', video: { duration: '03:15', creator: 'c' } }]
+    }),
+    summarize: async () => ({
+      search: { web: { results: [] } },
+      summary: {
+        status: 'complete',
+        summary: [
+          { type: 'token', data: 'Short ' },
+          { type: 'token', data: 'answer.' }
+        ],
+        enrichments: { context: [{ title: 'Ref', url: 'https://ref.test' }] }
+      }
+    })
   };
 }
@@ -1,5 +1,11 @@
 import { describe, expect, it } from 'vitest';
-import { formatResearchResultsV0216, formatResultsV0216 } from '../src/tavily/format-v0216.js';
+import {
+  formatResearchResultsV0216,
+  formatResultsV0216,
+  structuredCrawlResultsV0216,
+  structuredResearchResultsV0216,
+  structuredResultsV0216
+} from '../src/tavily/format-v0216.js';
 
 describe('format-v0216', () => {
   it('formats search results with headings', () => {
@@ -21,5 +27,46 @@ describe('format-v0216', () => {
   it('formats research errors with prefix', () => {
     expect(formatResearchResultsV0216({ error: 'x' })).toBe('Research Error: x');
   });
-});
 
+  it('leads research output with the job id when the call was persisted', () => {
+    expect(formatResearchResultsV0216({ content: 'report', job_id: 'job-1' })).toBe('Research Job: job-1\n\nreport');
+    expect(formatResearchResultsV0216({ error: 'Research task timed out', job_id: 'job-1' })).toBe(
+      'Research Job: job-1\n\nResearch Error: Research task timed out'
+    );
+    expect(structuredResearchResultsV0216({ error: 'x', job_id: 'job-1' })).toMatchObject({ kind: 'research', error: 'x', job_id: 'job-1' });
+  });
+
+  it('builds structured search results without empty optional fields', () => {
+    const structured = structuredResultsV0216(
+      {
+        answer: 'a',
+        results: [{ title: 't', url: 'u', content: 'c', raw_content: '' }],
+        images: ['i1', { url: 'i2', description: 'd' }]
+      },
+      'search'
+    );
+    expect(structured).toEqual({
+      kind: 'search',
+      provider: 'tavily',
+      answer: 'a',
+      results: [{ title: 't', url: 'u', content: 'c' }],
+      images: [{ url: 'i1' }, { url: 'i2', description: 'd' }]
+    });
+  });
+
+  it('builds structured crawl and research results', () => {
+    expect(structuredCrawlResultsV0216({ base_url: 'b', results: [{ url: 'u', raw_content: 'r' }] })).toEqual({
+      kind: 'crawl',
+      provider: 'tavily',
+      base_url: 'b',
+      results: [{ url: 'u', raw_content: 'r' }]
+    });
+    expect(structuredResearchResultsV0216({ content: 'report', sources: [{ url: 'u', title: 't' }] })).toEqual({
+      kind: 'research',
+      provider: 'tavily',
+      content: 'report',
+      results: [{ url: 'u', title: 't' }]
+    });
+    expect(structuredResearchResultsV0216({ error: 'x' })).toEqual({ kind: 'research', provider: 'tavily', error: 'x', results: [] });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { RequestHedger, parseHedgeThreshold } from '../src/mcp/hedging.js';
+
+function after<T>(ms: number, value: T, signal?: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(value), ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('aborted'));
+    });
+  });
+}
+
+describe('parseHedgeThreshold', () => {
+  it('parses percentiles and fixed delays, keeping the fallback otherwise', () => {
+    expect(parseHedgeThreshold('p95')).toEqual({ kind: 'percentile', percentile: 95 });
+    expect(parseHedgeThreshold(' P99.5 ')).toEqual({ kind: 'percentile', percentile: 99.5 });
+    expect(parseHedgeThreshold('800')).toEqual({ kind: 'fixed', ms: 800 });
+    expect(parseHedgeThreshold('250ms')).toEqual({ kind: 'fixed', ms: 250 });
+    expect(parseHedgeThreshold('p0')).toEqual({ kind: 'percentile', percentile: 95 });
+    expect(parseHedgeThreshold('soon', { kind: 'fixed', ms: 1 })).toEqual({ kind: 'fixed', ms: 1 });
+  });
+});
+
+describe('RequestHedger', () => {
+  it('does not hedge a primary that answers within the threshold', async () => {
+    const hedger = new RequestHedger({ threshold: { kind: 'fixed', ms: 50 } });
+    const hedge = vi.fn(async () => 'hedge');
+
+    await expect(hedger.run({ primary: (signal) => after(1, 'primary', signal), hedge })).resolves.toEqual({
+      value: 'primary',
+      winner: 'primary',
+      hedged: false
+    });
+    expect(hedge).not.toHaveBeenCalled();
+  });
+
+  it('fires the hedge after the threshold and aborts the losing primary', async () => {
+    const hedger = new RequestHedger({ threshold: { kind: 'fixed', ms: 10 } });
+    let primarySignal: AbortSignal | undefined;
+
+    const result = await hedger.run({
+      primary: (signal) => {
+        primarySignal = signal;
+        return after(1000, 'primary', signal);
+      },
+      hedge: (signal) => after(1, 'hedge', signal)
+    });
+
+    expect(result).toEqual({ value: 'hedge', winner: 'hedge', hedged: true });
+    expect(primarySignal?.aborted).toBe(true);
+  });
+
+  it('hedges at once when the primary fails and rejects only when both fail', async () => {
+    const hedger = new RequestHedger({ threshold: { kind: 'fixed', ms: 1000 } });
+    const startedAt = Date.now();
+
+    await expect(
+      hedger.run({ primary: async () => Promise.reject(new Error('brave down')), hedge: (signal) => after(1, 'hedge', signal) })
+    ).resolves.toMatchObject({ winner: 'hedge' });
+    expect(Date.now() - startedAt).toBeLessThan(500);
+
+    await expect(
+      hedger.run({
+        primary: async () => Promise.reject(new Error('brave down')),
+        hedge: async () => Promise.reject(new Error('tavily down'))
+      })
+    ).rejects.toThrow('tavily down');
+  });
+
+  it('derives percentile thresholds from recent primary latency', async () => {
+    const hedger = new RequestHedger({ threshold: { kind: 'percentile', percentile: 50 } });
+    expect(hedger.delayMs()).toBe(1000);
+
+    for (let i = 0; i < 20; i += 1) {
+      await hedger.run({ primary: async () => 'ok', hedge: async () => 'hedge' });
+    }
+    expect(hedger.delayMs()).toBeLessThan(50);
+  });
+});
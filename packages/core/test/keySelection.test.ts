@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { orderKeyCandidates, parseTavilyKeySelectionStrategy } from '../src/tavily/keySelection.js';
+import { KeyInFlightCounter, orderKeyCandidates, parseTavilyKeySelectionStrategy } from '../src/tavily/keySelection.js';
 
 describe('keySelection', () => {
   describe('parseTavilyKeySelectionStrategy', () => {
@@ -15,6 +15,9 @@ describe('keySelection', () => {
       expect(parseTavilyKeySelectionStrategy('ROUND_ROBIN')).toBe('round_robin');
       expect(parseTavilyKeySelectionStrategy('round-robin')).toBe('round_robin');
       expect(parseTavilyKeySelectionStrategy('rr')).toBe('round_robin');
+      expect(parseTavilyKeySelectionStrategy('weighted_remaining')).toBe('weighted_remaining');
+      expect(parseTavilyKeySelectionStrategy('drain-first')).toBe('drain_first');
+      expect(parseTavilyKeySelectionStrategy('LEAST_IN_FLIGHT')).toBe('least_in_flight');
     });
   });
 
@@ -36,6 +39,38 @@ describe('keySelection', () => {
       const ordered = orderKeyCandidates(keys, 'random', rng);
       expect(ordered).toEqual([2, 3, 4, 1]);
     });
+
+    it('draws keys in proportion to remaining credits for weighted_remaining', () => {
+      const remaining: Record<string, number | null> = { small: 100, large: 900, spent: 0 };
+      const load = { remaining: (key: string) => remaining[key] ?? null };
+      // 0.5 of 1000 lands in large's share (100..1000); the only weighted key left is small.
+      expect(orderKeyCandidates(['spent', 'small', 'large'], 'weighted_remaining', () => 0.5, load)).toEqual(['large', 'small', 'spent']);
+      expect(orderKeyCandidates(['spent', 'small', 'large'], 'weighted_remaining', () => 0.05, load)).toEqual(['small', 'large', 'spent']);
+    });
+
+    it('weighs keys with unknown credits as the average known key', () => {
+      const remaining: Record<string, number | null> = { a: 100, b: 300, unknown: null };
+      const load = { remaining: (key: string) => remaining[key] ?? null };
+      // Weights 100, 300, 200: 0.7 of 600 = 420 falls in unknown's share (400..600).
+      expect(orderKeyCandidates(['a', 'b', 'unknown'], 'weighted_remaining', () => 0.7, load)[0]).toBe('unknown');
+    });
+
+    it('puts the most spent key first for drain_first', () => {
+      const remaining: Record<string, number | null> = { a: 500, b: 20, c: null, d: 20 };
+      const ordered = orderKeyCandidates(['a', 'b', 'c', 'd'], 'drain_first', undefined, { remaining: (key) => remaining[key] ?? null });
+      expect(ordered).toEqual(['b', 'd', 'a', 'c']);
+    });
+
+    it('puts the key with the fewest running calls first for least_in_flight', () => {
+      const counter = new KeyInFlightCounter();
+      counter.acquire('a');
+      counter.acquire('a');
+      counter.acquire('b');
+      counter.acquire('c');
+      counter.release('c');
+      const ordered = orderKeyCandidates(['a', 'b', 'c'], 'least_in_flight', undefined, { inFlight: (key) => counter.get(key) });
+      expect(ordered).toEqual(['c', 'b', 'a']);
+    });
   });
 });
 
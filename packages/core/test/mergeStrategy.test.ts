@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  defaultCombinedMergeSettings,
+  mergeProviderResults,
+  parseCombinedMergeSettings,
+  type CombinedMergeSettings
+} from '../src/mcp/mergeStrategy.js';
+
+const tavily = [
+  { title: 'A', url: 'https://a.test', description: 'a', score: 0.9 },
+  { title: 'B', url: 'https://b.test', score: 0.5 },
+  { title: 'C', url: 'https://c.test', score: 0.1 }
+];
+const brave = [
+  { title: 'D', url: 'https://d.test' },
+  { title: 'C', url: 'https://c.test', description: 'c from brave' }
+];
+
+function settings(overrides: Partial<CombinedMergeSettings>): CombinedMergeSettings {
+  return { ...defaultCombinedMergeSettings(), ...overrides };
+}
+
+describe('parseCombinedMergeSettings', () => {
+  it('parses strategy and weights from JSON', () => {
+    expect(parseCombinedMergeSettings('{"strategy":"RRF","weights":{"brave":2}}')).toEqual({
+      strategy: 'rrf',
+      weights: { tavily: 1, brave: 2 }
+    });
+  });
+
+  it('keeps the fallback for invalid fields', () => {
+    const fallback = settings({ strategy: 'weighted' });
+    expect(parseCombinedMergeSettings('{"strategy":"best","weights":{"tavily":-1}}', fallback)).toEqual(fallback);
+    expect(parseCombinedMergeSettings('not json', fallback)).toEqual(fallback);
+    expect(parseCombinedMergeSettings(undefined, fallback)).toEqual(fallback);
+  });
+});
+
+describe('mergeProviderResults', () => {
+  it('interleaves providers and records every provider rank for duplicate URLs', () => {
+    const merged = mergeProviderResults({ tavily, brave }, settings({ strategy: 'interleave' }));
+    expect(merged.map((r) => r.url)).toEqual(['https://a.test', 'https://d.test', 'https://b.test', 'https://c.test']);
+    expect(merged[3]).toEqual({
+      title: 'C',
+      url: 'https://c.test',
+      description: 'c from brave',
+      sources: [
+        { provider: 'brave', rank: 2 },
+        { provider: 'tavily', rank: 3 }
+      ]
+    });
+    expect(merged[0]!.score).toBeUndefined();
+  });
+
+  it('ranks URLs returned by both providers first with reciprocal rank fusion', () => {
+    const merged = mergeProviderResults({ tavily, brave }, settings({ strategy: 'rrf' }));
+    expect(merged[0]!.url).toBe('https://c.test');
+    expect(merged[0]!.score).toBeCloseTo(1 / 62 + 1 / 63, 6);
+    expect(merged.map((r) => r.url).slice(1)).toEqual(['https://a.test', 'https://d.test', 'https://b.test']);
+  });
+
+  it('applies provider weights', () => {
+    const merged = mergeProviderResults({ tavily, brave }, settings({ strategy: 'rrf', weights: { tavily: 0, brave: 1 } }));
+    expect(merged.map((r) => r.url).slice(0, 2)).toEqual(['https://d.test', 'https://c.test']);
+  });
+
+  it('uses provider scores for weighted fusion and rank decay when scores are missing', () => {
+    const merged = mergeProviderResults({ tavily, brave }, settings({ strategy: 'weighted' }));
+    const scores = Object.fromEntries(merged.map((r) => [r.url, r.score]));
+    expect(scores).toEqual({
+      'https://a.test': 1,
+      'https://d.test': 1,
+      'https://b.test': 0.5,
+      'https://c.test': 0.5
+    });
+  });
+});
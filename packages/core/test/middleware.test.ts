@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  composeToolCallMiddleware,
+  parseAllowedTools,
+  redactSecrets,
+  requireClientToken,
+  scopeAllowedTools,
+  type ToolCallContext,
+  type ToolCallMiddleware
+} from '../src/mcp/middleware.js';
+
+const ok = { content: [{ type: 'text' as const, text: 'ok' }] };
+
+function context(name: string): ToolCallContext {
+  return { name, toolName: name, arguments: {}, extra: {} as any };
+}
+
+describe('composeToolCallMiddleware', () => {
+  it('runs middleware in order around the handler', async () => {
+    const order: string[] = [];
+    const step = (label: string): ToolCallMiddleware => async (_ctx, next) => {
+      order.push(`${label}:before`);
+      const result = await next();
+      order.push(`${label}:after`);
+      return result;
+    };
+    const handle = composeToolCallMiddleware([step('a'), step('b')], async () => {
+      order.push('handler');
+      return ok;
+    });
+
+    await expect(handle(context('tavily_search'))).resolves.toEqual(ok);
+    expect(order).toEqual(['a:before', 'b:before', 'handler', 'b:after', 'a:after']);
+  });
+
+  it('rejects a second next() call and surfaces synchronous throws as rejections', async () => {
+    const twice = composeToolCallMiddleware([async (_ctx, next) => (await next(), next())], async () => ok);
+    await expect(twice(context('x'))).rejects.toThrow('called next() more than once');
+
+    const throws = composeToolCallMiddleware([() => { throw new Error('boom'); }], async () => ok);
+    await expect(throws(context('x'))).rejects.toThrow('boom');
+  });
+});
+
+describe('built-in middleware', () => {
+  it('requires a client token and records it on the context', async () => {
+    const ctx = context('tavily_search');
+    await expect(composeToolCallMiddleware([requireClientToken(() => 'tok')], async () => ok)(ctx)).resolves.toEqual(ok);
+    expect(ctx.token).toBe('tok');
+
+    await expect(composeToolCallMiddleware([requireClientToken()], async () => ok)(context('x'))).rejects.toThrow(
+      'Client token is required'
+    );
+  });
+
+  it('scopes calls to the allowed tools, skipping exempt tools', async () => {
+    const handle = composeToolCallMiddleware(
+      [scopeAllowedTools(() => '["tavily_search"]', { exempt: ['nexus_continue'] })],
+      async () => ok
+    );
+    await expect(handle(context('tavily_search'))).resolves.toEqual(ok);
+    await expect(handle(context('nexus_continue'))).resolves.toEqual(ok);
+    await expect(handle(context('brave_web_search'))).rejects.toThrow(
+      "Tool 'brave_web_search' is not allowed for this token. Allowed tools: tavily_search"
+    );
+  });
+
+  it('treats unset, empty and unparseable allowed-tools settings as unrestricted', () => {
+    expect(parseAllowedTools(null)).toBeNull();
+    expect(parseAllowedTools([])).toBeNull();
+    expect(parseAllowedTools('not json')).toBeNull();
+    expect(parseAllowedTools(['a', 1, 'b'])).toEqual(['a', 'b']);
+  });
+
+  it('redacts API keys, client tokens and bearer credentials', () => {
+    expect(redactSecrets('key tvly-dev-ABC_1 failed for mcp_abc.def (Authorization: Bearer s3cr3t.x)')).toBe(
+      'key tvly-<redacted> failed for mcp_<redacted> (Authorization: Bearer <redacted>)'
+    );
+  });
+});
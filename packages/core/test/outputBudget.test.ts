@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  MemoryOutputContinuationStore,
+  applyOutputBudget,
+  continueOutput,
+  parseMaxOutputChars
+} from '../src/mcp/outputBudget.js';
+
+describe('outputBudget', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('parses budgets and clamps them to the minimum', () => {
+    expect(parseMaxOutputChars(undefined)).toBeUndefined();
+    expect(parseMaxOutputChars('')).toBeUndefined();
+    expect(parseMaxOutputChars('abc')).toBeUndefined();
+    expect(parseMaxOutputChars(0)).toBeUndefined();
+    expect(parseMaxOutputChars('250')).toBe(1000);
+    expect(parseMaxOutputChars(4096.7)).toBe(4096);
+  });
+
+  it('leaves results within budget, errors and multi-part content untouched', async () => {
+    const small = { content: [{ type: 'text' as const, text: 'short' }] };
+    expect(await applyOutputBudget(small, { maxChars: 1000, owner: 't' })).toBe(small);
+    const error = { content: [{ type: 'text' as const, text: 'e'.repeat(2000) }], isError: true };
+    expect(await applyOutputBudget(error, { maxChars: 1000, owner: 't' })).toBe(error);
+  });
+
+  it('cuts at a line break in the second half of the slice', async () => {
+    const text = `${'a'.repeat(800)}\n${'b'.repeat(800)}`;
+    const store = new MemoryOutputContinuationStore();
+    const res = await applyOutputBudget({ content: [{ type: 'text', text }] }, { maxChars: 1000, owner: 't', store });
+    const out = (res.content[0] as { text: string }).text;
+    expect(out.startsWith(`${'a'.repeat(800)}\n\n\n[Output truncated: showing characters 1-801 of 1601.`)).toBe(true);
+
+    const cursor = /"cursor": "([^"]+)"/.exec(out)![1];
+    const next = await continueOutput(store, 't', { cursor });
+    expect(next.structuredContent).toEqual({ next_cursor: null, start: 801, end: 1601, total: 1601 });
+  });
+
+  it('trims the structured payload of a large crawl result to the budget', async () => {
+    const results = Array.from({ length: 30 }, (_, i) => ({
+      url: `https://docs.test/page-${i}`,
+      title: `Page ${i}`,
+      content: 'summary '.repeat(20),
+      raw_content: 'raw page text '.repeat(400)
+    }));
+    const structuredContent = { kind: 'crawl', provider: 'tavily', base_url: 'https://docs.test', results };
+    const text = results.map((r) => `## ${r.title}\n${r.raw_content}`).join('\n');
+    const store = new MemoryOutputContinuationStore();
+
+    const res = await applyOutputBudget({ content: [{ type: 'text', text }], structuredContent }, { maxChars: 4000, owner: 't', store });
+
+    const trimmed = res.structuredContent as typeof structuredContent & { truncated: boolean; next_cursor: string };
+    expect(JSON.stringify(trimmed).length).toBeLessThanOrEqual(4000);
+    expect(trimmed).toMatchObject({ kind: 'crawl', provider: 'tavily', base_url: 'https://docs.test', truncated: true });
+    expect(trimmed.results.length).toBeGreaterThan(0);
+    expect(trimmed.results.length).toBeLessThan(30);
+    expect(trimmed.results.some((r) => 'raw_content' in r)).toBe(false);
+    expect((res.content[0] as { text: string }).text).toContain(`"cursor": "${trimmed.next_cursor}"`);
+    expect(structuredContent.results[0]!.raw_content).toBeDefined();
+  });
+
+  it('suggests a larger budget when no continuation store is configured', async () => {
+    const res = await applyOutputBudget({ content: [{ type: 'text', text: 'x'.repeat(1500) }] }, { maxChars: 1000, owner: 't' });
+    expect((res.content[0] as { text: string }).text).toMatch(/Pass a larger max_output_chars/);
+  });
+
+  it('rejects cursors from other tokens and after expiry', async () => {
+    vi.useFakeTimers();
+    const store = new MemoryOutputContinuationStore({ ttlMs: 1000 });
+    const id = store.save({ owner: 'a', text: 'x'.repeat(3000), sliceChars: 1000 });
+    const cursor = `${id}.${(1000).toString(36)}`;
+
+    expect((await continueOutput(store, 'b', { cursor })).isError).toBe(true);
+    expect((await continueOutput(store, 'a', { cursor })).isError).toBeUndefined();
+    vi.advanceTimersByTime(1000);
+    expect((await continueOutput(store, 'a', { cursor })).isError).toBe(true);
+  });
+
+  it('drops the oldest entry when full', () => {
+    const store = new MemoryOutputContinuationStore({ maxEntries: 2 });
+    const first = store.save({ owner: 'a', text: '1', sliceChars: 1000 });
+    store.save({ owner: 'a', text: '2', sliceChars: 1000 });
+    store.save({ owner: 'a', text: '3', sliceChars: 1000 });
+    expect(store.load(first, 'a')).toBeNull();
+  });
+});
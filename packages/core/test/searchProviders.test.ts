@@ -0,0 +1,222 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createCombinedProxyServer } from '../src/mcp/createCombinedProxyServer.js';
+import { parseSearchProviderRouting, runProviderSearch } from '../src/providers/routing.js';
+import type { SearchProviderAdapter } from '../src/providers/types.js';
+import { createSearxngProvider } from '../src/searxng/provider.js';
+
+describe('parseSearchProviderRouting', () => {
+  it('parses comma-separated roles', () => {
+    expect(parseSearchProviderRouting('combined, fallback')).toEqual({ combined: true, fallback: true });
+    expect(parseSearchProviderRouting('combined')).toEqual({ combined: true, fallback: false });
+    expect(parseSearchProviderRouting('none')).toEqual({ combined: false, fallback: false });
+  });
+
+  it('keeps the fallback for empty or unknown values', () => {
+    expect(parseSearchProviderRouting(undefined)).toEqual({ combined: false, fallback: true });
+    expect(parseSearchProviderRouting('primary')).toEqual({ combined: false, fallback: true });
+  });
+});
+
+describe('runProviderSearch', () => {
+  it('acquires a key from the bound key pool and reports the outcome', async () => {
+    const report = vi.fn();
+    const search = vi.fn(async () => [{ title: 't', url: 'https://x.test' }]);
+    const provider = stubProvider({
+      search,
+      capabilities: { webSearch: true, localSearch: false, pagination: false, relevanceScores: false, requiresKey: true },
+      keyPool: { acquire: async () => ({ id: 'k1', apiKey: 'secret' }), report }
+    });
+
+    await runProviderSearch(provider, { query: 'q' });
+    expect(search).toHaveBeenCalledWith({ query: 'q' }, { signal: undefined, apiKey: 'secret' });
+    expect(report).toHaveBeenCalledWith('k1', 'success');
+  });
+
+  it('fails with SearchProviderUnavailableError when the pool has no key', async () => {
+    const provider = stubProvider({
+      capabilities: { webSearch: true, localSearch: false, pagination: false, relevanceScores: false, requiresKey: true },
+      keyPool: { acquire: async () => null }
+    });
+    await expect(runProviderSearch(provider, { query: 'q' })).rejects.toMatchObject({
+      name: 'SearchProviderUnavailableError',
+      providerId: 'stub'
+    });
+  });
+});
+
+describe('createSearxngProvider', () => {
+  it('queries the JSON API and maps results', async () => {
+    const fetchImpl = vi.fn(async () =>
+      new Response(
+        JSON.stringify({
+          results: [
+            { title: 'A', url: 'https://a.test', content: 'about a', score: 2.5, engine: 'duckduckgo' },
+            { title: 'No URL' },
+            { title: 'B', url: 'https://b.test' }
+          ]
+        }),
+        { status: 200 }
+      )
+    );
+    const provider = createSearxngProvider({
+      baseUrl: 'https://search.internal/searx',
+      headers: { 'x-token': 't' },
+      fetchImpl: fetchImpl as any
+    });
+
+    const results = await provider.search({ query: 'hello', offset: 1, language: 'en', safesearch: 2, count: 5 }, {});
+    expect(results).toEqual([
+      { title: 'A', url: 'https://a.test', description: 'about a', score: 2.5 },
+      { title: 'B', url: 'https://b.test' }
+    ]);
+
+    const [url, init] = fetchImpl.mock.calls[0] as any[];
+    const parsed = new URL(url);
+    expect(parsed.origin + parsed.pathname).toBe('https://search.internal/searx/search');
+    expect(Object.fromEntries(parsed.searchParams)).toEqual({
+      q: 'hello',
+      format: 'json',
+      pageno: '2',
+      language: 'en',
+      safesearch: '2'
+    });
+    expect(init.headers['x-token']).toBe('t');
+  });
+
+  it('throws SearchProviderHttpError on non-2xx responses', async () => {
+    const provider = createSearxngProvider({
+      baseUrl: 'https://search.internal',
+      fetchImpl: (async () => new Response('Forbidden', { status: 403 })) as any
+    });
+    await expect(provider.search({ query: 'q' }, {})).rejects.toMatchObject({
+      name: 'SearchProviderHttpError',
+      status: 403,
+      providerId: 'searxng'
+    });
+  });
+});
+
+describe('createCombinedProxyServer with provider adapters', () => {
+  it('registers provider tools and dispatches them to the provider', async () => {
+    const provider = stubProvider();
+    const server = createServer({ providers: [provider] });
+
+    const listHandler = (server as any)._requestHandlers.get('tools/list');
+    const listed = await listHandler({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }, {});
+    expect(listed.tools.map((t: any) => t.name)).toContain('stub_search');
+
+    const result = await call(server, 'stub_search', { query: 'hi' });
+    expect(JSON.parse(result.content[0].text)).toEqual([{ title: 'From stub', url: 'https://stub.test' }]);
+    expect(result.structuredContent).toMatchObject({ kind: 'search', provider: 'stub' });
+  });
+
+  it('falls back to a fallback provider when Brave and Tavily both fail', async () => {
+    const provider = stubProvider();
+    const server = createServer({
+      providers: [provider],
+      tavilySearch: async () => {
+        throw new Error('No Tavily API keys available');
+      },
+      braveWebSearch: async () => {
+        throw new Error('No Brave API keys available');
+      }
+    });
+
+    const result = await call(server, 'brave_web_search', { query: 'hi' });
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent.provider).toBe('stub');
+  });
+
+  it('reports the original error when fallback providers fail too', async () => {
+    const provider = stubProvider({
+      search: async () => {
+        throw new Error('searxng down');
+      }
+    });
+    const server = createServer({
+      providers: [provider],
+      searchSourceMode: 'combined',
+      tavilySearch: async () => {
+        throw new Error('Tavily failed');
+      },
+      braveWebSearch: async () => {
+        throw new Error('Brave failed');
+      }
+    });
+
+    const result = await call(server, 'brave_web_search', { query: 'hi' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Both Tavily and Brave search failed');
+  });
+
+  it('does not use fallback providers when the primary route succeeds', async () => {
+    const search = vi.fn(async () => []);
+    const server = createServer({ providers: [stubProvider({ search })] });
+
+    const result = await call(server, 'brave_web_search', { query: 'hi' });
+    expect(result.structuredContent.provider).toBe('brave');
+    expect(search).not.toHaveBeenCalled();
+  });
+
+  it('merges combined-routed providers in combined mode', async () => {
+    const provider = stubProvider({ routing: { combined: true, fallback: false } });
+    const server = createServer({
+      providers: [provider],
+      searchSourceMode: 'combined',
+      tavilySearch: async () => ({ results: [{ title: 'T', url: 'https://stub.test/?utm_source=x' }] })
+    });
+
+    const result = await call(server, 'brave_web_search', { query: 'hi' });
+    const items = result.structuredContent.results;
+    expect(items.map((r: any) => r.url)).toEqual(['https://stub.test/?utm_source=x', 'https://brave.test']);
+    expect(items[0].sources).toEqual([
+      { provider: 'tavily', rank: 1 },
+      { provider: 'stub', rank: 1 }
+    ]);
+  });
+});
+
+function stubProvider(overrides: Partial<SearchProviderAdapter> = {}): SearchProviderAdapter {
+  return {
+    id: 'stub',
+    displayName: 'Stub',
+    capabilities: { webSearch: true, localSearch: true, pagination: false, relevanceScores: false, requiresKey: false },
+    routing: { combined: false, fallback: true },
+    tools: [{ name: 'stub_search', inputSchema: { type: 'object', properties: { query: { type: 'string' } } } }],
+    search: async () => [{ title: 'From stub', url: 'https://stub.test' }],
+    format: (results) => JSON.stringify(results),
+    ...overrides
+  };
+}
+
+function createServer(opts: {
+  providers: SearchProviderAdapter[];
+  searchSourceMode?: 'combined' | 'brave_prefer_tavily_fallback';
+  tavilySearch?: () => Promise<unknown>;
+  braveWebSearch?: () => Promise<unknown>;
+}) {
+  return createCombinedProxyServer({
+    serverName: 'x',
+    serverVersion: '0',
+    tavilyClient: {
+      search: opts.tavilySearch ?? (async () => ({ results: [] })),
+      extract: async () => ({ results: [] }),
+      crawl: async () => ({ base_url: '', results: [] }),
+      map: async () => ({ base_url: '', results: [] }),
+      research: async () => ({ content: '' })
+    } as any,
+    braveClient: {
+      webSearch: opts.braveWebSearch ?? (async () => ({ web: { results: [{ title: 'B', url: 'https://brave.test' }] } })),
+      localSearch: async () => ({ results: [] })
+    },
+    getAuthToken: () => 'tok',
+    getSearchSourceMode: async () => opts.searchSourceMode ?? 'brave_prefer_tavily_fallback',
+    providers: opts.providers
+  });
+}
+
+async function call(server: unknown, name: string, args: Record<string, unknown>): Promise<any> {
+  const callHandler = (server as any)._requestHandlers.get('tools/call');
+  return await callHandler({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }, {});
+}
@@ -7,6 +7,7 @@ describe('parseSearchSourceMode', () => {
     expect(parseSearchSourceMode('brave_only')).toBe('brave_only');
     expect(parseSearchSourceMode('combined')).toBe('combined');
     expect(parseSearchSourceMode('brave_prefer_tavily_fallback')).toBe('brave_prefer_tavily_fallback');
+    expect(parseSearchSourceMode('brave_hedged_tavily')).toBe('brave_hedged_tavily');
   });
 
   it('should handle case insensitivity', () => {
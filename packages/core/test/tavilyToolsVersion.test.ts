@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+
+import { createCombinedProxyServer } from '../src/mcp/createCombinedProxyServer.js';
+import { formatResultsV0300 } from '../src/tavily/format-v0300.js';
+import { tavilyToolsV0300 } from '../src/tavily/tools-v0300.js';
+import { normalizeTavilySearchArgs, parseTavilyToolsVersion } from '../src/tavily/toolsVersion.js';
+
+describe('tavily tools versions', () => {
+  it('parses the version and falls back to v0216', () => {
+    expect(parseTavilyToolsVersion(' V0300 ')).toBe('v0300');
+    expect(parseTavilyToolsVersion('v9999')).toBe('v0216');
+    expect(parseTavilyToolsVersion(undefined, 'v0300')).toBe('v0300');
+  });
+
+  it('exposes the newer search parameters in v0300 only', () => {
+    const search = tavilyToolsV0300.find((t) => t.name === 'tavily_search')!;
+    const props = search.inputSchema.properties as Record<string, any>;
+    expect(props.topic.enum).toEqual(['general', 'news', 'finance']);
+    expect(Object.keys(props)).toEqual(expect.arrayContaining(['days', 'include_answer', 'chunks_per_source', 'auto_parameters']));
+    expect(tavilyToolsV0300.map((t) => t.name)).toContain('tavily_extract');
+  });
+
+  it('only pins topic to general for country in v0216', () => {
+    const args = { query: 'q', country: 'germany', topic: 'news' };
+    expect(normalizeTavilySearchArgs('v0216', args)).toEqual({ ...args, topic: 'general' });
+    expect(normalizeTavilySearchArgs('v0300', args)).toEqual(args);
+  });
+
+  it('formats the answer, auto parameters and content chunks', () => {
+    const text = formatResultsV0300({
+      answer: 'Yes.',
+      auto_parameters: { topic: 'news', search_depth: 'advanced' },
+      results: [
+        { title: 't', url: 'https://a.test', content: 'first chunk [...] second chunk' },
+        { title: 'u', url: 'https://b.test', content: 'single' }
+      ]
+    });
+    expect(text).toContain('Answer: Yes.');
+    expect(text).toContain('Auto Parameters: topic=news, search_depth=advanced');
+    expect(text).toContain('Content:\n  [1] first chunk\n  [2] second chunk');
+    expect(text).toContain('Content: single');
+  });
+
+  it('advertises and applies the configured version in the combined server', async () => {
+    const calls: any[] = [];
+    const server = createCombinedProxyServer({
+      serverName: 'x',
+      serverVersion: '0',
+      tavilyClient: {
+        search: async (params: any) => {
+          calls.push(params);
+          return { answer: 'A', results: [] };
+        }
+      } as any,
+      getAuthToken: () => 'tok',
+      tavilyToolsVersion: 'v0300'
+    });
+
+    const listed = await (server as any)._requestHandlers.get('tools/list')({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} }, {});
+    const search = listed.tools.find((t: any) => t.name === 'tavily_search');
+    expect(search.inputSchema.properties.topic.enum).toContain('finance');
+
+    const result = await (server as any)._requestHandlers.get('tools/call')(
+      {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tools/call',
+        params: { name: 'tavily_search', arguments: { query: 'q', topic: 'news', country: 'germany', include_answer: true } }
+      },
+      {}
+    );
+    expect(calls[0]).toMatchObject({ topic: 'news', country: 'germany', include_answer: true });
+    expect(result.structuredContent.answer).toBe('A');
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatArgumentIssues, validateToolArguments } from '../src/mcp/validateArguments.js';
+import { tavilyToolsV0300 } from '../src/tavily/tools-v0300.js';
+
+const searchSchema = tavilyToolsV0300.find((t) => t.name === 'tavily_search')!.inputSchema;
+
+describe('validateToolArguments', () => {
+  it('accepts arguments that match the schema', () => {
+    expect(
+      validateToolArguments(searchSchema, {
+        query: 'q',
+        topic: 'news',
+        max_results: 5,
+        include_answer: 'advanced',
+        include_domains: ['a.test']
+      })
+    ).toEqual([]);
+  });
+
+  it('reports missing, mistyped, out-of-range and non-enum fields by path', () => {
+    expect(
+      validateToolArguments(searchSchema, {
+        max_results: 'ten',
+        chunks_per_source: 4,
+        topic: 'sports',
+        include_domains: ['a.test', 3]
+      })
+    ).toEqual([
+      { path: 'query', message: 'is required' },
+      { path: 'max_results', message: 'must be a number' },
+      { path: 'chunks_per_source', message: 'must be <= 3' },
+      { path: 'topic', message: 'must be one of: "general", "news", "finance"' },
+      { path: 'include_domains[1]', message: 'must be a string' }
+    ]);
+  });
+
+  it('requires one anyOf branch to match', () => {
+    expect(validateToolArguments(searchSchema, { query: 'q', include_answer: 'full' })).toEqual([
+      { path: 'include_answer', message: 'must match one of: boolean, "basic" | "advanced"' }
+    ]);
+  });
+
+  it('rejects unknown fields only when additionalProperties is false', () => {
+    const schema = { type: 'object', properties: { a: { type: 'integer' } }, additionalProperties: false };
+    expect(validateToolArguments(schema, { a: 1.5, b: true })).toEqual([
+      { path: 'a', message: 'must be an integer' },
+      { path: 'b', message: 'is not a recognized argument' }
+    ]);
+    expect(validateToolArguments({ ...schema, additionalProperties: true }, { a: 1, b: true })).toEqual([]);
+  });
+});
+
+describe('formatArgumentIssues', () => {
+  it('names the tool and every offending field', () => {
+    expect(
+      formatArgumentIssues('tavily_search', [
+        { path: 'query', message: 'is required' },
+        { path: 'max_results', message: 'must be <= 20' }
+      ])
+    ).toBe('Invalid arguments for tavily_search: query: is required; max_results: must be <= 20');
+  });
+});
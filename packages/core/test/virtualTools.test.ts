@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildVirtualTool, validateVirtualToolDefinition, type VirtualToolDefinition } from '../src/mcp/virtualTools.js';
+import { braveToolsV0100 } from '../src/brave/tools-v0100.js';
+import { tavilyToolsV0216 } from '../src/tavily/tools-v0216.js';
+
+const baseTools = [...tavilyToolsV0216, ...braveToolsV0100];
+const tavilySearch = baseTools.find((t) => t.name === 'tavily_search')!;
+
+const docsSearch: VirtualToolDefinition = {
+  name: 'internal_docs_search',
+  description: 'Search the internal docs',
+  baseTool: 'tavily_search',
+  presetArguments: { include_domains: ['docs.example.com'], search_depth: 'advanced' },
+  exposedArguments: ['query', 'max_results']
+};
+
+describe('buildVirtualTool', () => {
+  it('narrows the base input schema to the exposed arguments and rejects the rest', () => {
+    const tool = buildVirtualTool(docsSearch, tavilySearch);
+    expect(tool.name).toBe('internal_docs_search');
+    expect(tool.description).toBe('Search the internal docs');
+    expect(Object.keys(tool.inputSchema.properties ?? {})).toEqual(['query', 'max_results']);
+    expect(tool.inputSchema.required).toEqual(['query']);
+    expect(tool.inputSchema.additionalProperties).toBe(false);
+    expect(tool.outputSchema).toBe(tavilySearch.outputSchema);
+  });
+});
+
+describe('validateVirtualToolDefinition', () => {
+  it('accepts a well-formed definition', () => {
+    expect(validateVirtualToolDefinition(docsSearch, baseTools)).toBeNull();
+  });
+
+  it('rejects bad names, unknown base tools and built-in name collisions', () => {
+    expect(validateVirtualToolDefinition({ ...docsSearch, name: 'Docs Search' }, baseTools)).toMatch(/^name must start/);
+    expect(validateVirtualToolDefinition({ ...docsSearch, name: 'brave_web_search' }, baseTools)).toBe(
+      "name 'brave_web_search' is already a built-in tool"
+    );
+    expect(validateVirtualToolDefinition({ ...docsSearch, baseTool: 'nope' }, baseTools)).toMatch(/^baseTool must be one of: tavily_search/);
+  });
+
+  it('checks exposed and preset arguments against the base schema', () => {
+    expect(validateVirtualToolDefinition({ ...docsSearch, exposedArguments: ['query', 'colour'] }, baseTools)).toBe(
+      'exposedArguments are not arguments of tavily_search: colour'
+    );
+    expect(validateVirtualToolDefinition({ ...docsSearch, exposedArguments: ['query', 'search_depth'] }, baseTools)).toBe(
+      'exposedArguments cannot include preset arguments: search_depth'
+    );
+    expect(validateVirtualToolDefinition({ ...docsSearch, exposedArguments: ['max_results'] }, baseTools)).toBe(
+      'required arguments of tavily_search must be exposed or preset: query'
+    );
+    expect(validateVirtualToolDefinition({ ...docsSearch, presetArguments: { search_depth: 'deep' } }, baseTools)).toMatch(
+      /^presetArguments: Invalid arguments for tavily_search: search_depth: must be one of/
+    );
+  });
+});
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "ToolResponseCache" (
+    "cacheKey" TEXT NOT NULL PRIMARY KEY,
+    "toolName" TEXT NOT NULL,
+    "responseJson" JSONB NOT NULL,
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "ToolResponseCache_toolName_idx" ON "ToolResponseCache"("toolName");
+
+-- CreateIndex
+CREATE INDEX "ToolResponseCache_expiresAt_idx" ON "ToolResponseCache"("expiresAt");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ResearchJob" ADD COLUMN "completedAt" DATETIME;
+ALTER TABLE "ResearchJob" ADD COLUMN "errorMessage" TEXT;
+ALTER TABLE "ResearchJob" ADD COLUMN "model" TEXT;
+ALTER TABLE "ResearchJob" ADD COLUMN "resultJson" JSONB;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ClientToken" ADD COLUMN "defaultParameters" JSONB;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ClientToken" ADD COLUMN "searchSourceMode" TEXT;
+ALTER TABLE "ClientToken" ADD COLUMN "braveOverflow" TEXT;
+ALTER TABLE "ClientToken" ADD COLUMN "researchEnabled" BOOLEAN;
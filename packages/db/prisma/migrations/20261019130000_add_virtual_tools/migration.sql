@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "VirtualTool" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "baseTool" TEXT NOT NULL,
+    "presetArguments" JSONB NOT NULL DEFAULT '{}',
+    "exposedArguments" JSONB NOT NULL DEFAULT '[]',
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VirtualTool_name_key" ON "VirtualTool"("name");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "BraveKey" ADD COLUMN "maxQps" REAL;
+ALTER TABLE "BraveKey" ADD COLUMN "burst" INTEGER;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "BraveKey" ADD COLUMN "cooldownUntil" DATETIME;
+ALTER TABLE "BraveKey" ADD COLUMN "quotaLimit" INTEGER;
+ALTER TABLE "BraveKey" ADD COLUMN "quotaRemaining" INTEGER;
+ALTER TABLE "BraveKey" ADD COLUMN "quotaResetAt" DATETIME;
+ALTER TABLE "BraveKey" ADD COLUMN "quotaCheckedAt" DATETIME;
+
+-- DropIndex
+DROP INDEX "BraveKey_status_lastUsedAt_idx";
+
+-- CreateIndex
+CREATE INDEX "BraveKey_status_cooldownUntil_lastUsedAt_idx" ON "BraveKey"("status", "cooldownUntil", "lastUsedAt");
@@ -2,7 +2,7 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { CallToolRequestSchema, ListToolsRequestSchema, type Progress } from '@modelcontextprotocol/sdk/types.js';
 import type { Readable, Writable } from 'node:stream';
 
 type StartBridgeOptions = {
@@ -94,9 +94,22 @@ export async function startStdioHttpBridge({
     return await withReconnect(() => remoteClient.listTools(request.params));
   });
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    // Relay remote progress (long research/crawl calls) to the local client under its own token.
+    const progressToken = request.params._meta?.progressToken;
+    const requestOptions =
+      progressToken === undefined
+        ? undefined
+        : {
+            resetTimeoutOnProgress: true,
+            onprogress: (progress: Progress) => {
+              void extra
+                .sendNotification({ method: 'notifications/progress', params: { ...progress, progressToken } })
+                .catch(() => {});
+            }
+          };
     return await withReconnect(() =>
-      remoteClient.callTool({ name: request.params.name, arguments: request.params.arguments })
+      remoteClient.callTool({ name: request.params.name, arguments: request.params.arguments }, undefined, requestOptions)
     );
   });
 
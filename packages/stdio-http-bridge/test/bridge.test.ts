@@ -158,4 +158,74 @@ describe('stdio-http-bridge', () => {
       await transport.close();
     }
   });
+
+  it('forwards remote progress notifications to the stdio client', async () => {
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: () => 'test-session'
+    });
+    const server = new Server({ name: 'tavily-mcp', version: '0.2.16' }, { capabilities: { tools: {} } });
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const progressToken = request.params._meta?.progressToken;
+      if (progressToken !== undefined) {
+        await extra.sendNotification({
+          method: 'notifications/progress',
+          params: { progressToken, progress: 1, message: 'pending (elapsed 2s, poll 1)' }
+        });
+      }
+      return { content: [{ type: 'text', text: 'report' }] };
+    });
+    await server.connect(transport);
+
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = input instanceof Request ? input : new Request(input, init);
+      if (request.method === 'GET') return new Response('', { status: 405 });
+      const parsedBody = await request.clone().json();
+      return await transport.handleRequest(request, { parsedBody });
+    };
+
+    const clientToBridge = new PassThrough();
+    const bridgeToClient = new PassThrough();
+    const { close } = await startStdioHttpBridge({
+      mcpUrl: 'http://bridge.test/mcp',
+      token: 'test_token',
+      stdin: clientToBridge,
+      stdout: bridgeToClient
+    });
+    const rb = new ReadBuffer();
+
+    try {
+      clientToBridge.write(
+        serializeMessage({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '0' } }
+        })
+      );
+      await readNextMessage(rb, bridgeToClient);
+      clientToBridge.write(serializeMessage({ jsonrpc: '2.0', method: 'notifications/initialized', params: {} }));
+
+      clientToBridge.write(
+        serializeMessage({
+          jsonrpc: '2.0',
+          id: 2,
+          method: 'tools/call',
+          params: { name: 'tavily_research', arguments: { input: 'topic' }, _meta: { progressToken: 'local-token' } }
+        })
+      );
+      const progress = await readNextMessage(rb, bridgeToClient);
+      expect(progress).toMatchObject({
+        method: 'notifications/progress',
+        params: { progressToken: 'local-token', progress: 1, message: 'pending (elapsed 2s, poll 1)' }
+      });
+      const callResp = await readNextMessage(rb, bridgeToClient);
+      expect(callResp.id).toBe(2);
+      expect(callResp.result?.content?.[0]?.text).toBe('report');
+    } finally {
+      await close();
+      globalThis.fetch = originalFetch;
+      await transport.close();
+    }
+  });
 });
@@ -0,0 +1,4 @@
+-- Migration: Add defaultParameters to ClientToken
+-- Per-token Tavily search defaults (JSON object), merged between DEFAULT_PARAMETERS and the default_parameters header.
+
+ALTER TABLE ClientToken ADD COLUMN defaultParameters TEXT;
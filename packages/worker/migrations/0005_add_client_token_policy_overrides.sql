@@ -0,0 +1,6 @@
+-- Migration: Add per-token routing policy overrides to ClientToken
+-- NULL keeps the server-wide setting; researchEnabled is stored as 0/1.
+
+ALTER TABLE ClientToken ADD COLUMN searchSourceMode TEXT;
+ALTER TABLE ClientToken ADD COLUMN braveOverflow TEXT;
+ALTER TABLE ClientToken ADD COLUMN researchEnabled INTEGER;
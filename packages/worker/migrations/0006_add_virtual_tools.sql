@@ -0,0 +1,14 @@
+-- Migration: Add VirtualTool table
+-- Admin-defined aliases of built-in tools; presetArguments and exposedArguments are JSON stored as TEXT.
+
+CREATE TABLE IF NOT EXISTS "VirtualTool" (
+    "id" TEXT PRIMARY KEY NOT NULL,
+    "name" TEXT NOT NULL UNIQUE,
+    "description" TEXT NOT NULL,
+    "baseTool" TEXT NOT NULL,
+    "presetArguments" TEXT NOT NULL DEFAULT '{}',
+    "exposedArguments" TEXT NOT NULL DEFAULT '[]',
+    "enabled" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
@@ -0,0 +1,4 @@
+-- Migration: Add per-token output budget to ClientToken
+-- NULL keeps the server-wide MAX_OUTPUT_CHARS setting.
+
+ALTER TABLE ClientToken ADD COLUMN maxOutputChars INTEGER;
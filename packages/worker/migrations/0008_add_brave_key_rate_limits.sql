@@ -0,0 +1,5 @@
+-- Migration: Add per-key rate limits to BraveKey
+-- NULL keeps the server-wide BRAVE_MAX_QPS / BRAVE_BURST settings.
+
+ALTER TABLE BraveKey ADD COLUMN maxQps REAL;
+ALTER TABLE BraveKey ADD COLUMN burst INTEGER;
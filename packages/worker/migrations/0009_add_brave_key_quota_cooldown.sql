@@ -0,0 +1,8 @@
+-- Migration: Add monthly quota tracking and cooldown to BraveKey
+-- Filled from Brave's X-RateLimit-* response headers; a 429 sets status 'cooldown' until cooldownUntil.
+
+ALTER TABLE BraveKey ADD COLUMN cooldownUntil DATETIME;
+ALTER TABLE BraveKey ADD COLUMN quotaLimit INTEGER;
+ALTER TABLE BraveKey ADD COLUMN quotaRemaining INTEGER;
+ALTER TABLE BraveKey ADD COLUMN quotaResetAt DATETIME;
+ALTER TABLE BraveKey ADD COLUMN quotaCheckedAt DATETIME;
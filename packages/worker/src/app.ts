@@ -4,7 +4,7 @@ import { logger } from 'hono/logger';
 
 import type { Env } from './env.js';
 import { adminRouter } from './routes/admin/index.js';
-import { handleMcpRequest } from './mcp/mcpHandler.js';
+import { createMcpRequestHandler } from './mcp/mcpHandler.js';
 import { clientAuth } from './middleware/clientAuth.js';
 import { redactSensitiveQueryParams } from './utils/redact.js';
 
@@ -68,7 +68,9 @@ app.get('/health', (c) => {
   });
 });
 
-// MCP endpoint - handle JSON-RPC requests directly with authentication
+// MCP endpoint - handle JSON-RPC requests directly with authentication.
+// Runtime tool-call middleware is registered here; the Worker has none beyond the built-in steps yet.
+const handleMcpRequest = createMcpRequestHandler();
 app.post('/mcp', clientAuth, async (c) => {
   return handleMcpRequest(c);
 });
@@ -6,6 +6,9 @@ export type WorkerVariables = {
   clientTokenPrefix?: string;
   clientTokenAllowedTools?: string | null;
   clientTokenRateLimit?: number | null;
+  clientTokenDefaultParameters?: string | null;
+  clientTokenSearchSourceMode?: string | null;
+  clientTokenResearchEnabled?: number | null;
 };
 
 export type WorkerContext = Context<{
@@ -38,8 +38,15 @@ export interface BraveKey {
   keyEncrypted: ArrayBuffer;
   keyMasked: string | null;
   status: string;
+  cooldownUntil: string | null;
   lastUsedAt: string | null;
   failureScore: number;
+  maxQps: number | null;
+  burst: number | null;
+  quotaLimit: number | null;
+  quotaRemaining: number | null;
+  quotaResetAt: string | null;
+  quotaCheckedAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -53,11 +60,28 @@ export interface ClientToken {
   scopesJson: string;
   allowedTools: string | null;
   rateLimit: number | null;
+  defaultParameters: string | null;
+  searchSourceMode: string | null;
+  braveOverflow: string | null;
+  researchEnabled: number | null;  // 0/1, NULL keeps the server setting
+  maxOutputChars: number | null;
   expiresAt: string | null;
   revokedAt: string | null;
   createdAt: string;
 }
 
+export interface VirtualTool {
+  id: string;
+  name: string;
+  description: string;
+  baseTool: string;
+  presetArguments: string;   // JSON object
+  exposedArguments: string;  // JSON array of argument names
+  enabled: number;           // 0/1
+  createdAt: string;
+  updatedAt: string;
+}
+
 interface ServerSetting {
   key: string;
   value: string;
@@ -126,6 +150,10 @@ export function generateId(): string {
   return `c${timestamp}${randomPart}`;
 }
 
+function toSqlBoolean(value: boolean | null | undefined): number | null {
+  return typeof value === 'boolean' ? (value ? 1 : 0) : null;
+}
+
 /**
  * D1 Database wrapper with typed queries
  */
@@ -305,21 +333,26 @@ export class D1Client {
 
   async getBraveKeys(): Promise<BraveKey[]> {
     const result = await this.db.prepare(`
-      SELECT id, label, keyEncrypted, keyMasked, status, lastUsedAt,
-             failureScore, createdAt, updatedAt
+      SELECT id, label, keyEncrypted, keyMasked, status, cooldownUntil, lastUsedAt,
+             failureScore, maxQps, burst, quotaLimit, quotaRemaining, quotaResetAt,
+             quotaCheckedAt, createdAt, updatedAt
       FROM BraveKey
       ORDER BY createdAt DESC
     `).all<BraveKey>();
     return result.results;
   }
 
+  /** Least recently used usable key: cooldowns must have passed and a spent monthly quota must have reset. */
   async getActiveBraveKey(): Promise<BraveKey | null> {
+    const now = new Date().toISOString();
     const result = await this.db.prepare(`
       SELECT * FROM BraveKey
-      WHERE status = 'active'
+      WHERE status IN ('active', 'cooldown')
+        AND (cooldownUntil IS NULL OR cooldownUntil <= ?)
+        AND (quotaRemaining IS NULL OR quotaRemaining > 0 OR quotaResetAt IS NULL OR quotaResetAt <= ?)
       ORDER BY lastUsedAt ASC NULLS FIRST
       LIMIT 1
-    `).first<BraveKey>();
+    `).bind(now, now).first<BraveKey>();
     return result;
   }
 
@@ -358,6 +391,34 @@ export class D1Client {
       updates.push('lastUsedAt = ?');
       values.push(data.lastUsedAt);
     }
+    if (data.cooldownUntil !== undefined) {
+      updates.push('cooldownUntil = ?');
+      values.push(data.cooldownUntil);
+    }
+    if (data.maxQps !== undefined) {
+      updates.push('maxQps = ?');
+      values.push(data.maxQps);
+    }
+    if (data.burst !== undefined) {
+      updates.push('burst = ?');
+      values.push(data.burst);
+    }
+    if (data.quotaLimit !== undefined) {
+      updates.push('quotaLimit = ?');
+      values.push(data.quotaLimit);
+    }
+    if (data.quotaRemaining !== undefined) {
+      updates.push('quotaRemaining = ?');
+      values.push(data.quotaRemaining);
+    }
+    if (data.quotaResetAt !== undefined) {
+      updates.push('quotaResetAt = ?');
+      values.push(data.quotaResetAt);
+    }
+    if (data.quotaCheckedAt !== undefined) {
+      updates.push('quotaCheckedAt = ?');
+      values.push(data.quotaCheckedAt);
+    }
 
     updates.push('updatedAt = ?');
     values.push(new Date().toISOString());
@@ -377,8 +438,8 @@ export class D1Client {
   async getClientTokens(): Promise<ClientToken[]> {
     const result = await this.db.prepare(`
       SELECT id, description, tokenPrefix, tokenHash, scopesJson,
-             allowedTools, rateLimit, tokenEncrypted,
-             expiresAt, revokedAt, createdAt
+             allowedTools, rateLimit, defaultParameters, searchSourceMode,
+             braveOverflow, researchEnabled, maxOutputChars, tokenEncrypted, expiresAt, revokedAt, createdAt
       FROM ClientToken
       ORDER BY createdAt DESC
     `).all<ClientToken>();
@@ -408,11 +469,16 @@ export class D1Client {
     expiresAt?: string;
     allowedTools?: string | null;  // Phase 3.4: JSON string or null
     rateLimit?: number | null;     // Phase 3.5: requests per minute or null
+    defaultParameters?: string | null;  // JSON object string or null
+    searchSourceMode?: string | null;
+    braveOverflow?: string | null;
+    researchEnabled?: boolean | null;
+    maxOutputChars?: number | null;
   }): Promise<void> {
     const now = new Date().toISOString();
     await this.db.prepare(`
-      INSERT INTO ClientToken (id, description, tokenPrefix, tokenHash, tokenEncrypted, scopesJson, allowedTools, rateLimit, expiresAt, createdAt)
-      VALUES (?, ?, ?, ?, ?, '[]', ?, ?, ?, ?)
+      INSERT INTO ClientToken (id, description, tokenPrefix, tokenHash, tokenEncrypted, scopesJson, allowedTools, rateLimit, defaultParameters, searchSourceMode, braveOverflow, researchEnabled, maxOutputChars, expiresAt, createdAt)
+      VALUES (?, ?, ?, ?, ?, '[]', ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       data.id,
       data.description || null,
@@ -421,11 +487,58 @@ export class D1Client {
       data.tokenEncrypted ?? null,
       data.allowedTools || null,
       data.rateLimit || null,
+      data.defaultParameters || null,
+      data.searchSourceMode ?? null,
+      data.braveOverflow ?? null,
+      toSqlBoolean(data.researchEnabled),
+      data.maxOutputChars ?? null,
       data.expiresAt || null,
       now
     ).run();
   }
 
+  async updateClientToken(id: string, data: {
+    defaultParameters?: string | null;
+    searchSourceMode?: string | null;
+    braveOverflow?: string | null;
+    researchEnabled?: boolean | null;
+    maxOutputChars?: number | null;
+  }): Promise<boolean> {
+    const updates: string[] = [];
+    const values: unknown[] = [];
+
+    if (data.defaultParameters !== undefined) {
+      updates.push('defaultParameters = ?');
+      values.push(data.defaultParameters);
+    }
+    if (data.searchSourceMode !== undefined) {
+      updates.push('searchSourceMode = ?');
+      values.push(data.searchSourceMode);
+    }
+    if (data.braveOverflow !== undefined) {
+      updates.push('braveOverflow = ?');
+      values.push(data.braveOverflow);
+    }
+    if (data.researchEnabled !== undefined) {
+      updates.push('researchEnabled = ?');
+      values.push(toSqlBoolean(data.researchEnabled));
+    }
+    if (data.maxOutputChars !== undefined) {
+      updates.push('maxOutputChars = ?');
+      values.push(data.maxOutputChars);
+    }
+
+    if (updates.length === 0) {
+      return (await this.getClientTokenById(id)) !== null;
+    }
+
+    values.push(id);
+    const result = await this.db.prepare(`
+      UPDATE ClientToken SET ${updates.join(', ')} WHERE id = ?
+    `).bind(...values).run();
+    return (result.meta?.changes ?? 0) > 0;
+  }
+
   async revokeClientToken(id: string): Promise<void> {
     const now = new Date().toISOString();
     await this.db.prepare(`
@@ -433,6 +546,79 @@ export class D1Client {
     `).bind(now, id).run();
   }
 
+  // ============ Virtual Tools ============
+
+  async getVirtualTools(enabledOnly = false): Promise<VirtualTool[]> {
+    const result = await this.db.prepare(`
+      SELECT * FROM VirtualTool ${enabledOnly ? 'WHERE enabled = 1' : ''}
+      ORDER BY name ASC
+    `).all<VirtualTool>();
+    return result.results;
+  }
+
+  async getVirtualToolById(id: string): Promise<VirtualTool | null> {
+    const result = await this.db.prepare(`
+      SELECT * FROM VirtualTool WHERE id = ?
+    `).bind(id).first<VirtualTool>();
+    return result;
+  }
+
+  async createVirtualTool(data: {
+    id: string;
+    name: string;
+    description: string;
+    baseTool: string;
+    presetArguments: string;
+    exposedArguments: string;
+    enabled: boolean;
+  }): Promise<void> {
+    const now = new Date().toISOString();
+    await this.db.prepare(`
+      INSERT INTO VirtualTool (id, name, description, baseTool, presetArguments, exposedArguments, enabled, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      data.id,
+      data.name,
+      data.description,
+      data.baseTool,
+      data.presetArguments,
+      data.exposedArguments,
+      toSqlBoolean(data.enabled),
+      now,
+      now
+    ).run();
+  }
+
+  async updateVirtualTool(id: string, data: {
+    name: string;
+    description: string;
+    baseTool: string;
+    presetArguments: string;
+    exposedArguments: string;
+    enabled: boolean;
+  }): Promise<void> {
+    const now = new Date().toISOString();
+    await this.db.prepare(`
+      UPDATE VirtualTool
+      SET name = ?, description = ?, baseTool = ?, presetArguments = ?, exposedArguments = ?, enabled = ?, updatedAt = ?
+      WHERE id = ?
+    `).bind(
+      data.name,
+      data.description,
+      data.baseTool,
+      data.presetArguments,
+      data.exposedArguments,
+      toSqlBoolean(data.enabled),
+      now,
+      id
+    ).run();
+  }
+
+  async deleteVirtualTool(id: string): Promise<boolean> {
+    const result = await this.db.prepare(`DELETE FROM VirtualTool WHERE id = ?`).bind(id).run();
+    return (result.meta?.changes ?? 0) > 0;
+  }
+
   // ============ Server Settings ============
 
   async getServerSettings(): Promise<ServerSetting[]> {
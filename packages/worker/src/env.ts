@@ -26,6 +26,11 @@ export interface Env {
   ENABLE_QUERY_AUTH?: string;
   TAVILY_KEY_SELECTION_STRATEGY: string;
   SEARCH_SOURCE_MODE?: string;
+  SEARCH_HEDGE_THRESHOLD?: string; // p95 (percentile of recent Brave latency) or a fixed delay in ms
+  CIRCUIT_BREAKER_FAILURES?: string; // Consecutive provider failures that open its circuit (default 5)
+  CIRCUIT_BREAKER_ERROR_RATE?: string; // Recent error rate that opens a provider's circuit (default 0.5)
+  CIRCUIT_BREAKER_OPEN_MS?: string; // How long an open circuit skips its provider before probing (default 30000)
+  URL_CANONICALIZATION?: string; // JSON rules for deduplicating combined results by URL
   TAVILY_RESEARCH_ENABLED?: string;
   TAVILY_USAGE_LOG_MODE: string;
   BRAVE_USAGE_LOG_MODE: string;
@@ -0,0 +1,121 @@
+// Mirrors packages/core/src/mcp/canonicalUrl.ts; the Worker is deployed standalone and cannot import core.
+// test/coreParity.test.ts runs both copies on the same fixtures; change them together.
+
+export type UrlCanonicalizationOptions = {
+  /** Drop a leading `www.` from the host. Default true. */
+  stripWww?: boolean;
+  /** Drop known tracking parameters (`utm_*`, `gclid`, `fbclid`, ...). Default true. */
+  dropTrackingParams?: boolean;
+  /** Additional parameter names to treat as tracking parameters. A trailing `*` matches a prefix. */
+  extraTrackingParams?: string[];
+  /** Parameter names that are always kept, even when they match a tracking rule. */
+  keepQueryKeys?: string[];
+  /** Sort query parameters by key. Default true. */
+  sortQueryParams?: boolean;
+  /** Remove trailing slashes from the path (the root path stays `/`). Default true. */
+  stripTrailingSlash?: boolean;
+  /** Drop the `#fragment`. Default true. */
+  dropFragment?: boolean;
+};
+
+const DEFAULT_TRACKING_PARAMS = [
+  'utm_*',
+  'gclid',
+  'gclsrc',
+  'dclid',
+  'fbclid',
+  'msclkid',
+  'yclid',
+  'twclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+  '_hsenc',
+  '_hsmi',
+  'mkt_tok',
+  'ref_src',
+  'ref_url',
+  'spm',
+  'vero_id'
+];
+
+/**
+ * Parses canonicalization rules from a JSON string or object. Unknown fields are ignored and
+ * fields with the wrong type keep their default.
+ */
+export function parseUrlCanonicalizationOptions(raw: unknown): UrlCanonicalizationOptions {
+  let value: unknown = raw;
+  if (typeof raw === 'string') {
+    if (!raw.trim()) return {};
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return {};
+
+  const record = value as Record<string, unknown>;
+  const out: UrlCanonicalizationOptions = {};
+  for (const key of ['stripWww', 'dropTrackingParams', 'sortQueryParams', 'stripTrailingSlash', 'dropFragment'] as const) {
+    if (typeof record[key] === 'boolean') out[key] = record[key] as boolean;
+  }
+  for (const key of ['extraTrackingParams', 'keepQueryKeys'] as const) {
+    const list = record[key];
+    if (Array.isArray(list)) {
+      out[key] = list.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map((v) => v.trim().toLowerCase());
+    }
+  }
+  return out;
+}
+
+/**
+ * Returns a canonical form of `url` for deduplicating results across providers: lowercase host
+ * without `www.`, no tracking parameters, sorted query, no trailing slash and no fragment.
+ * Strings that are not absolute http(s) URLs are returned trimmed and otherwise unchanged.
+ */
+export function canonicalizeUrl(url: string, opts: UrlCanonicalizationOptions = {}): string {
+  const trimmed = url.trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    return trimmed;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return trimmed;
+
+  // URL already lowercases the host and drops default ports.
+  let host = parsed.hostname;
+  if (opts.stripWww !== false && host.startsWith('www.')) host = host.slice(4);
+  const port = parsed.port ? `:${parsed.port}` : '';
+
+  let path = parsed.pathname;
+  if (opts.stripTrailingSlash !== false) path = path.replace(/\/+$/, '') || '/';
+
+  const keep = new Set((opts.keepQueryKeys ?? []).map((k) => k.toLowerCase()));
+  const tracking = [...DEFAULT_TRACKING_PARAMS, ...(opts.extraTrackingParams ?? []).map((k) => k.toLowerCase())];
+  let params = [...parsed.searchParams.entries()];
+  if (opts.dropTrackingParams !== false) {
+    params = params.filter(([key]) => {
+      const lower = key.toLowerCase();
+      return keep.has(lower) || !tracking.some((rule) => matchesRule(lower, rule));
+    });
+  }
+  if (opts.sortQueryParams !== false) {
+    params.sort(([a, av], [b, bv]) => (a === b ? compare(av, bv) : compare(a, b)));
+  }
+  const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+  const fragment = opts.dropFragment === false ? parsed.hash : '';
+  return `${parsed.protocol}//${host}${port}${path}${query}${fragment}`;
+}
+
+function matchesRule(key: string, rule: string): boolean {
+  return rule.endsWith('*') ? key.startsWith(rule.slice(0, -1)) : key === rule;
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
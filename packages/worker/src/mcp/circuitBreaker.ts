@@ -0,0 +1,193 @@
+// Mirrors packages/core/src/providers/circuitBreaker.ts; the Worker is deployed standalone and cannot import core.
+// test/coreParity.test.ts runs both copies on the same fixtures; change them together.
+
+import type { Env } from '../env.js';
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+type CircuitBreakerOptions = {
+  /** Consecutive failures that open the circuit. */
+  consecutiveFailures?: number;
+  /** Failure ratio over the recent-calls window that opens the circuit, once `minimumCalls` are in it. */
+  errorRate?: number;
+  minimumCalls?: number;
+  /** Number of recent calls the error rate is computed over. */
+  windowSize?: number;
+  /** How long an open circuit skips the provider before letting probes through. */
+  openMs?: number;
+  /** Probe calls that must succeed in a row to close the circuit again. */
+  probeSuccesses?: number;
+};
+
+/** Breaker state as reported by the admin metrics endpoint. */
+type CircuitBreakerSnapshot = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Failure ratio over the recent-calls window, 0 when it is empty. */
+  errorRate: number;
+  /** Calls in the recent-calls window. */
+  recentCalls: number;
+  /** When the circuit last opened; `null` if it never has. */
+  openedAt: string | null;
+  /** When an open circuit starts probing; `null` unless open. */
+  retryAt: string | null;
+};
+
+/** Thrown instead of calling a provider whose circuit is open, so callers skip it without waiting. */
+export class CircuitOpenError extends Error {
+  constructor(public providerId: string, public retryAfterMs: number) {
+    super(`Search provider '${providerId}' is temporarily unavailable after repeated failures; retrying in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Per-provider circuit breaker. Closed lets every call through; too many consecutive failures or
+ * too high an error rate open it, and calls then fail at once with `CircuitOpenError`. After
+ * `openMs` it is half-open: one probe call at a time goes through, and `probeSuccesses` successful
+ * probes in a row close it while any failed probe opens it again.
+ *
+ * Calls cancelled through the caller's signal are not counted. Client errors (4xx other than
+ * 408/429) count as successes: the provider answered, the request was bad.
+ */
+class CircuitBreaker {
+  private readonly opts: Required<CircuitBreakerOptions>;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private recent: boolean[] = [];
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+  private probeSuccesses = 0;
+
+  constructor(readonly providerId: string, opts: CircuitBreakerOptions = {}) {
+    this.opts = {
+      consecutiveFailures: opts.consecutiveFailures ?? 5,
+      errorRate: opts.errorRate ?? 0.5,
+      minimumCalls: opts.minimumCalls ?? 10,
+      windowSize: opts.windowSize ?? 20,
+      openMs: opts.openMs ?? 30_000,
+      probeSuccesses: opts.probeSuccesses ?? 2,
+    };
+  }
+
+  async run<T>(call: () => Promise<T>, opts: { signal?: AbortSignal } = {}): Promise<T> {
+    const probe = this.admit();
+    try {
+      const value = await call();
+      this.onSuccess(probe);
+      return value;
+    } catch (err) {
+      if (opts.signal?.aborted) {
+        // A cancelled call proves nothing either way; a cancelled probe frees the slot for the next caller.
+        if (probe) this.probeInFlight = false;
+      } else if (isClientError(err)) {
+        // The provider answered; the request itself was bad.
+        this.onSuccess(probe);
+      } else {
+        this.onFailure(probe);
+      }
+      throw err;
+    }
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    this.refreshState();
+    const failures = this.recent.filter((ok) => !ok).length;
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      errorRate: this.recent.length > 0 ? failures / this.recent.length : 0,
+      recentCalls: this.recent.length,
+      openedAt: this.openedAt === null ? null : new Date(this.openedAt).toISOString(),
+      retryAt: this.state === 'open' && this.openedAt !== null ? new Date(this.openedAt + this.opts.openMs).toISOString() : null,
+    };
+  }
+
+  /** Returns whether the admitted call is a half-open probe; throws when the call must be skipped. */
+  private admit(): boolean {
+    this.refreshState();
+    if (this.state === 'closed') return false;
+    if (this.state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+    const retryAfterMs = this.state === 'open' ? this.openedAt! + this.opts.openMs - Date.now() : this.opts.openMs;
+    throw new CircuitOpenError(this.providerId, Math.max(0, retryAfterMs));
+  }
+
+  private refreshState(): void {
+    if (this.state === 'open' && Date.now() >= this.openedAt! + this.opts.openMs) {
+      this.state = 'half_open';
+      this.probeSuccesses = 0;
+    }
+  }
+
+  private onSuccess(probe: boolean): void {
+    this.consecutiveFailures = 0;
+    if (probe) {
+      this.probeInFlight = false;
+      this.probeSuccesses += 1;
+      if (this.probeSuccesses >= this.opts.probeSuccesses) this.close();
+      return;
+    }
+    if (this.state === 'closed') this.record(true);
+  }
+
+  private onFailure(probe: boolean): void {
+    this.consecutiveFailures += 1;
+    if (probe) {
+      this.probeInFlight = false;
+      this.open();
+      return;
+    }
+    if (this.state !== 'closed') return;
+    this.record(false);
+    const failures = this.recent.filter((ok) => !ok).length;
+    if (
+      this.consecutiveFailures >= this.opts.consecutiveFailures ||
+      (this.recent.length >= this.opts.minimumCalls && failures / this.recent.length >= this.opts.errorRate)
+    ) {
+      this.open();
+    }
+  }
+
+  private record(ok: boolean): void {
+    this.recent.push(ok);
+    if (this.recent.length > this.opts.windowSize) this.recent.shift();
+  }
+
+  private open(): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.probeSuccesses = 0;
+  }
+
+  private close(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.recent = [];
+  }
+}
+
+function isClientError(err: unknown): boolean {
+  const status = (err as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
+let breakers: { tavily: CircuitBreaker; brave: CircuitBreaker } | undefined;
+
+/**
+ * The isolate's Tavily and Brave breakers. State lives in isolate memory, so each isolate trips on
+ * the failures it sees itself and `/metrics` reports the isolate that served it.
+ */
+export function getCircuitBreakers(env: Env): { tavily: CircuitBreaker; brave: CircuitBreaker } {
+  if (!breakers) {
+    const opts: CircuitBreakerOptions = {
+      consecutiveFailures: Number(env.CIRCUIT_BREAKER_FAILURES ?? '5'),
+      errorRate: Number(env.CIRCUIT_BREAKER_ERROR_RATE ?? '0.5'),
+      openMs: Number(env.CIRCUIT_BREAKER_OPEN_MS ?? String(30_000)),
+    };
+    breakers = { tavily: new CircuitBreaker('tavily', opts), brave: new CircuitBreaker('brave', opts) };
+  }
+  return breakers;
+}
@@ -1,3 +1,5 @@
+import { canonicalizeUrl, type UrlCanonicalizationOptions } from './canonicalUrl.js';
+
 interface SearchResult {
   title: string;
   url: string;
@@ -8,8 +10,9 @@ export function mergeAndDedupe(opts: {
   tavily: SearchResult[];
   brave: SearchResult[];
   count?: number;
+  canonicalization?: UrlCanonicalizationOptions;
 }): SearchResult[] {
-  const { tavily, brave, count } = opts;
+  const { tavily, brave, count, canonicalization } = opts;
   const seenUrls = new Set<string>();
   const merged: SearchResult[] = [];
 
@@ -18,8 +21,9 @@ export function mergeAndDedupe(opts: {
     // Interleave: Tavily first
     if (i < tavily.length) {
       const r = tavily[i];
-      if (r.url && !seenUrls.has(r.url)) {
-        seenUrls.add(r.url);
+      const key = r.url ? canonicalizeUrl(r.url, canonicalization) : '';
+      if (key && !seenUrls.has(key)) {
+        seenUrls.add(key);
         merged.push(r);
       }
     }
@@ -27,8 +31,9 @@ export function mergeAndDedupe(opts: {
     // Then Brave
     if (i < brave.length) {
       const r = brave[i];
-      if (r.url && !seenUrls.has(r.url)) {
-        seenUrls.add(r.url);
+      const key = r.url ? canonicalizeUrl(r.url, canonicalization) : '';
+      if (key && !seenUrls.has(key)) {
+        seenUrls.add(key);
         merged.push(r);
       }
     }
@@ -1,12 +1,29 @@
 import type { WorkerContext } from '../context.js';
 import { D1Client, generateId } from '../db/d1.js';
-import { selectTavilyKey, selectBraveKey, markTavilyKeyCooldown, markTavilyKeyInvalid, markBraveKeyInvalid } from '../services/keyPool.js';
+import { selectTavilyKey, selectBraveKey, markTavilyKeyCooldown, markTavilyKeyInvalid, markBraveKeyInvalid, markBraveKeyCooldown, recordBraveKeyQuota } from '../services/keyPool.js';
 import { parseUsageLogMode, shouldLogUsage, buildQueryMetadata } from '../utils/usageLog.js';
 import { tavilySearch, tavilyExtract, tavilyCrawl, tavilyMap, tavilyResearch, TavilyError } from '../services/tavilyClient.js';
-import { braveWebSearch, braveLocalSearch, BraveError } from '../services/braveClient.js';
+import { braveWebSearch, braveLocalSearch, BraveError, type BraveQuota } from '../services/braveClient.js';
 import { parseSearchSourceMode } from './searchSource.js';
+import { RequestHedger, parseHedgeThreshold } from './hedging.js';
+import { CircuitOpenError, getCircuitBreakers } from './circuitBreaker.js';
 import { extractBraveWebResults, extractBraveLocalResults } from './braveFormat.js';
 import { mergeAndDedupe } from './combinedMerge.js';
+import { parseUrlCanonicalizationOptions } from './canonicalUrl.js';
+import { formatArgumentIssues, validateToolArguments } from './validateArguments.js';
+import { formatWebSearchResults, parseWebSearchArgs, toBraveWebSearchArgs, toTavilyWebSearchArgs, webSearchTool } from './webSearch.js';
+import { applyVirtualToolArguments, buildVirtualTool, toVirtualToolDefinition, type VirtualToolDefinition } from './virtualTools.js';
+import { parseDefaultParameters } from '../utils/defaultParameters.js';
+import {
+  ToolCallError,
+  composeToolCallMiddleware,
+  redactToolErrors,
+  scopeAllowedTools,
+  type McpToolResult,
+  type ToolCallContext,
+  type ToolCallHandler,
+  type ToolCallMiddleware,
+} from './middleware.js';
 
 interface JsonRpcRequest {
   jsonrpc: '2.0';
@@ -22,11 +39,6 @@ interface JsonRpcResponse {
   error?: { code: number; message: string; data?: unknown };
 }
 
-type McpToolResult = {
-  content: Array<{ type: 'text'; text: string }>;
-  isError?: boolean;
-};
-
 /**
  * Rate limiting helpers
  */
@@ -95,10 +107,20 @@ async function enforceMcpRateLimits(
   return { ok: true };
 }
 
+/**
+ * Builds the MCP JSON-RPC request handler. `middleware` is the Worker's registration point for
+ * runtime tool-call steps: like core's `middleware` option, it runs in order inside the built-in
+ * scoping, redaction, usage logging and argument resolution steps.
+ */
+export function createMcpRequestHandler(opts: { middleware?: ToolCallMiddleware[] } = {}): (c: WorkerContext) => Promise<Response> {
+  const runToolCall = composeToolCallMiddleware([...builtinToolCallMiddleware, ...(opts.middleware ?? [])], dispatchToolCall);
+  return (c) => handleMcpRequest(c, runToolCall);
+}
+
 /**
  * Handle MCP JSON-RPC requests
  */
-export async function handleMcpRequest(c: WorkerContext): Promise<Response> {
+async function handleMcpRequest(c: WorkerContext, runToolCall: ToolCallHandler): Promise<Response> {
   try {
     const body = await c.req.json<JsonRpcRequest>();
     const { method, params, id } = body;
@@ -152,12 +174,12 @@ export async function handleMcpRequest(c: WorkerContext): Promise<Response> {
         response = {
           jsonrpc: '2.0',
           id,
-          result: { tools: getToolsList(c) },
+          result: { tools: await listTools(c) },
         };
         break;
 
       case 'tools/call':
-        response = await handleToolCall(c, params, id);
+        response = await handleToolCall(c, runToolCall, params, id);
         break;
 
       default:
@@ -178,158 +200,160 @@ export async function handleMcpRequest(c: WorkerContext): Promise<Response> {
   }
 }
 
+const builtinToolCallMiddleware: ToolCallMiddleware[] = [
+  // Phase 3.4: Check if tool is allowed for this token
+  scopeAllowedTools((c) => c.get('clientTokenAllowedTools')),
+  redactToolErrors(),
+  logToolUsage,
+  resolveToolCall,
+];
+
 async function handleToolCall(
   c: WorkerContext,
+  runToolCall: ToolCallHandler,
   params: Record<string, unknown> | undefined,
   id: string | number | undefined
 ): Promise<JsonRpcResponse> {
-  const toolName = params?.name as string;
-  const toolArgs = (params?.arguments || {}) as Record<string, unknown>;
-
-  // Phase 3.4: Check if tool is allowed for this token
-  const allowedTools = c.get('clientTokenAllowedTools') as unknown;
-  if (allowedTools !== null && allowedTools !== undefined) {
-    try {
-      const allowedToolsArray = Array.isArray(allowedTools)
-        ? allowedTools
-        : (typeof allowedTools === 'string' ? JSON.parse(allowedTools) : []);
+  const name = params?.name as string;
+  try {
+    const result = await runToolCall({
+      name,
+      toolName: name,
+      arguments: (params?.arguments || {}) as Record<string, unknown>,
+      worker: c,
+    });
+    return { jsonrpc: '2.0', id, result };
+  } catch (error) {
+    if (!(error instanceof ToolCallError)) throw error;
+    return {
+      jsonrpc: '2.0',
+      id,
+      error: { code: error.code, message: error.message, ...(error.data !== undefined ? { data: error.data } : {}) },
+    };
+  }
+}
 
-      if (Array.isArray(allowedToolsArray) && allowedToolsArray.length > 0) {
-        if (!allowedToolsArray.includes(toolName)) {
-          return {
-            jsonrpc: '2.0',
-            id,
-            error: {
-              code: -32600,
-              message: `Tool '${toolName}' is not allowed for this token. Allowed tools: ${allowedToolsArray.join(', ')}`
-            },
-          };
-        }
-      }
-    } catch (error) {
-      console.error('Error parsing allowedTools:', error);
+/** Validates the arguments against the called tool and turns virtual tools into calls of their base tool. */
+async function resolveToolCall(ctx: ToolCallContext, next: () => Promise<McpToolResult>): Promise<McpToolResult> {
+  const c = ctx.worker;
+  const requestArgs = ctx.arguments;
+
+  // Virtual tools are resolved after the allowedTools check so tokens scope them by their own name.
+  const builtinTools = getToolsList(c);
+  let tool: { inputSchema: unknown } | undefined = builtinTools.find((t) => t.name === ctx.name);
+  if (!tool) {
+    const definition = (await getVirtualTools(c)).find((t) => t.name === ctx.name);
+    const baseTool = definition && builtinTools.find((t) => t.name === definition.baseTool);
+    if (definition && baseTool) {
+      ctx.virtualTool = definition;
+      tool = buildVirtualTool(definition, baseTool);
     }
   }
 
-  const startTime = Date.now();
-  const clientTokenId = c.get('clientTokenId') ?? 'unknown';
-  const clientTokenPrefix = c.get('clientTokenPrefix') ?? null;
-
-  try {
-    let result: McpToolResult;
-
-    // Route to appropriate handler
-    if (toolName.startsWith('tavily_')) {
-      result = await handleTavilyTool(c, toolName, toolArgs);
-    } else if (toolName.startsWith('brave_')) {
-      result = await handleBraveTool(c, toolName, toolArgs);
-    } else {
-      return {
-        jsonrpc: '2.0',
-        id,
-        error: { code: -32601, message: `Unknown tool: ${toolName}` },
-      };
+  ctx.toolName = ctx.virtualTool ? ctx.virtualTool.baseTool : ctx.name;
+  if (tool) {
+    const issues = validateToolArguments(tool.inputSchema, requestArgs);
+    if (issues.length > 0) {
+      throw new ToolCallError(-32602, formatArgumentIssues(ctx.name, issues), { issues });
     }
+  }
 
-    // Log successful usage (fire-and-forget via waitUntil)
-    const latencyMs = Date.now() - startTime;
-    const isTavily = toolName.startsWith('tavily_');
-    const logMode = parseUsageLogMode(isTavily ? c.env.TAVILY_USAGE_LOG_MODE : c.env.BRAVE_USAGE_LOG_MODE);
-
-    if (shouldLogUsage(logMode)) {
-      const query = typeof toolArgs.query === 'string' ? toolArgs.query
-        : typeof toolArgs.input === 'string' ? toolArgs.input
-        : typeof toolArgs.url === 'string' ? toolArgs.url
-        : undefined;
+  ctx.arguments = ctx.virtualTool ? applyVirtualToolArguments(ctx.virtualTool, requestArgs) : requestArgs;
+  return next();
+}
 
-      const logPromise = (async () => {
-        try {
-          const db = new D1Client(c.env.DB);
-          const { queryHash, queryPreview } = await buildQueryMetadata(query, logMode);
-          const entry = {
-            id: generateId(),
-            timestamp: new Date().toISOString(),
-            toolName,
-            outcome: 'success',
-            latencyMs,
-            clientTokenId,
-            clientTokenPrefix,
-            upstreamKeyId: null as string | null,
-            queryHash: queryHash ?? null,
-            queryPreview: queryPreview ?? null,
-            argsJson: JSON.stringify(Object.keys(toolArgs)),
-            errorMessage: null as string | null,
-          };
-          if (isTavily) {
-            await db.insertTavilyUsageLog(entry);
-          } else {
-            await db.insertBraveUsageLog(entry);
-          }
-        } catch (e) {
-          console.error('Usage log write failed:', e);
-        }
-      })();
-      c.executionCtx.waitUntil(logPromise);
+/**
+ * Logs every resolved call (fire-and-forget via waitUntil) and reports upstream failures as tool
+ * errors. Unknown tools are not logged. A hedged search's `_meta.hedge` is logged with its row.
+ */
+async function logToolUsage(ctx: ToolCallContext, next: () => Promise<McpToolResult>): Promise<McpToolResult> {
+  const startTime = Date.now();
+  try {
+    const result = await next();
+    scheduleUsageLog(ctx.worker, ctx.toolName, ctx.arguments, 'success', Date.now() - startTime, null, ctx.virtualTool?.name, result._meta?.hedge);
+    return result;
+  } catch (error) {
+    if (error instanceof ToolCallError) {
+      if (error.code === -32602) {
+        scheduleUsageLog(ctx.worker, ctx.toolName, ctx.arguments, 'invalid_params', 0, error.message, ctx.virtualTool?.name);
+      }
+      throw error;
     }
-
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    scheduleUsageLog(ctx.worker, ctx.toolName, ctx.arguments, 'error', Date.now() - startTime, message, ctx.virtualTool?.name);
     return {
-      jsonrpc: '2.0',
-      id,
-      result,
+      content: [{ type: 'text', text: `Error: ${message}` }],
+      isError: true,
     };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
+  }
+}
 
-    // Log error usage (fire-and-forget via waitUntil)
-    const latencyMs = Date.now() - startTime;
-    const isTavily = toolName.startsWith('tavily_');
-    const logMode = parseUsageLogMode(isTavily ? c.env.TAVILY_USAGE_LOG_MODE : c.env.BRAVE_USAGE_LOG_MODE);
+async function dispatchToolCall(ctx: ToolCallContext): Promise<McpToolResult> {
+  const { worker: c, toolName, arguments: toolArgs } = ctx;
+  if (toolName === 'web_search') {
+    const webSearchArgs = parseWebSearchArgs(toolArgs);
+    if (!webSearchArgs.ok) throw new ToolCallError(-32602, webSearchArgs.error);
+    // Routed exactly like brave_web_search; only the argument translation and output shape differ.
+    return await handleBraveTool(c, 'brave_web_search', toBraveWebSearchArgs(webSearchArgs.value), {
+      tavilyArgs: toTavilyWebSearchArgs(webSearchArgs.value),
+      render: formatWebSearchResults,
+    });
+  }
+  if (toolName.startsWith('tavily_')) return await handleTavilyTool(c, toolName, toolArgs);
+  if (toolName.startsWith('brave_')) return await handleBraveTool(c, toolName, toolArgs);
+  throw new ToolCallError(-32601, `Unknown tool: ${toolName}`);
+}
 
-    if (shouldLogUsage(logMode)) {
-      const query = typeof toolArgs.query === 'string' ? toolArgs.query
-        : typeof toolArgs.input === 'string' ? toolArgs.input
-        : typeof toolArgs.url === 'string' ? toolArgs.url
-        : undefined;
+function scheduleUsageLog(
+  c: WorkerContext,
+  toolName: string,
+  toolArgs: Record<string, unknown>,
+  outcome: 'success' | 'error' | 'invalid_params',
+  latencyMs: number,
+  errorMessage: string | null,
+  virtualToolName?: string,
+  hedge?: unknown
+): void {
+  const isTavily = toolName.startsWith('tavily_');
+  const logMode = parseUsageLogMode(isTavily ? c.env.TAVILY_USAGE_LOG_MODE : c.env.BRAVE_USAGE_LOG_MODE);
+  if (!shouldLogUsage(logMode)) return;
 
-      const logPromise = (async () => {
-        try {
-          const db = new D1Client(c.env.DB);
-          const { queryHash, queryPreview } = await buildQueryMetadata(query, logMode);
-          const entry = {
-            id: generateId(),
-            timestamp: new Date().toISOString(),
-            toolName,
-            outcome: 'error',
-            latencyMs,
-            clientTokenId,
-            clientTokenPrefix,
-            upstreamKeyId: null as string | null,
-            queryHash: queryHash ?? null,
-            queryPreview: queryPreview ?? null,
-            argsJson: JSON.stringify(Object.keys(toolArgs)),
-            errorMessage: message,
-          };
-          if (isTavily) {
-            await db.insertTavilyUsageLog(entry);
-          } else {
-            await db.insertBraveUsageLog(entry);
-          }
-        } catch (e) {
-          console.error('Usage log write failed:', e);
-        }
-      })();
-      c.executionCtx.waitUntil(logPromise);
-    }
+  const clientTokenId = c.get('clientTokenId') ?? 'unknown';
+  const clientTokenPrefix = c.get('clientTokenPrefix') ?? null;
+  const query = typeof toolArgs.query === 'string' ? toolArgs.query
+    : typeof toolArgs.input === 'string' ? toolArgs.input
+    : typeof toolArgs.url === 'string' ? toolArgs.url
+    : undefined;
 
-    return {
-      jsonrpc: '2.0',
-      id,
-      result: {
-        content: [{ type: 'text', text: `Error: ${message}` }],
-        isError: true,
-      },
-    };
-  }
+  const logPromise = (async () => {
+    try {
+      const db = new D1Client(c.env.DB);
+      const { queryHash, queryPreview } = await buildQueryMetadata(query, logMode);
+      const entry = {
+        id: generateId(),
+        timestamp: new Date().toISOString(),
+        toolName: virtualToolName ?? toolName,
+        outcome,
+        latencyMs,
+        clientTokenId,
+        clientTokenPrefix,
+        upstreamKeyId: null as string | null,
+        queryHash: queryHash ?? null,
+        queryPreview: queryPreview ?? null,
+        // Argument keys only; hedged searches add `{ winner, hedged }` next to them.
+        argsJson: JSON.stringify(hedge ? { args: Object.keys(toolArgs), hedge } : Object.keys(toolArgs)),
+        errorMessage,
+      };
+      if (isTavily) {
+        await db.insertTavilyUsageLog(entry);
+      } else {
+        await db.insertBraveUsageLog(entry);
+      }
+    } catch (e) {
+      console.error('Usage log write failed:', e);
+    }
+  })();
+  c.executionCtx.waitUntil(logPromise);
 }
 
 async function handleTavilyTool(
@@ -338,6 +362,7 @@ async function handleTavilyTool(
   args: Record<string, unknown>
 ): Promise<McpToolResult> {
   const db = new D1Client(c.env.DB);
+  const breakers = getCircuitBreakers(c.env);
   const keyInfo = await selectTavilyKey(db, c.env.KEY_ENCRYPTION_SECRET);
 
   if (!keyInfo) {
@@ -350,20 +375,23 @@ async function handleTavilyTool(
     let result: unknown;
 
     switch (toolName) {
-      case 'tavily_search':
-        result = await tavilySearch(keyInfo.apiKey, args as any);
+      case 'tavily_search': {
+        // Token defaults fill in whatever the client left out.
+        const defaults = parseDefaultParameters(c.get('clientTokenDefaultParameters')) ?? {};
+        result = await breakers.tavily.run(() => tavilySearch(keyInfo.apiKey, { ...defaults, ...args } as any));
         break;
+      }
       case 'tavily_extract':
-        result = await tavilyExtract(keyInfo.apiKey, args as any);
+        result = await breakers.tavily.run(() => tavilyExtract(keyInfo.apiKey, args as any));
         break;
       case 'tavily_crawl':
-        result = await tavilyCrawl(keyInfo.apiKey, args as any);
+        result = await breakers.tavily.run(() => tavilyCrawl(keyInfo.apiKey, args as any));
         break;
       case 'tavily_map':
-        result = await tavilyMap(keyInfo.apiKey, args as any);
+        result = await breakers.tavily.run(() => tavilyMap(keyInfo.apiKey, args as any));
         break;
       case 'tavily_research':
-        if (c.env.TAVILY_RESEARCH_ENABLED === 'false') {
+        if (!isResearchEnabled(c)) {
           return {
             content: [{ type: 'text', text: 'Tavily Research is disabled by the server administrator.' }],
             isError: true,
@@ -390,21 +418,49 @@ async function handleTavilyTool(
   }
 }
 
+type SearchResultRow = { title: string; url: string; description?: string };
+
 async function handleBraveTool(
   c: WorkerContext,
   toolName: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  opts: {
+    /** Tavily arguments when they are more than `{ query, max_results: count }` (e.g. web_search filters). */
+    tavilyArgs?: Record<string, unknown>;
+    /** Renders the results; defaults to the plain JSON array returned by brave_* tools. */
+    render?: (provider: 'tavily' | 'brave' | 'combined', results: SearchResultRow[]) => string;
+  } = {}
 ): Promise<McpToolResult> {
   const db = new D1Client(c.env.DB);
+  const breakers = getCircuitBreakers(c.env);
 
   // Get search source mode
   const settings = await db.getServerSettings();
   const dbMode = settings.find(s => s.key === 'searchSourceMode')?.value;
-  const searchSourceMode = parseSearchSourceMode(dbMode || c.env.SEARCH_SOURCE_MODE, 'brave_prefer_tavily_fallback');
+  const serverMode = parseSearchSourceMode(dbMode || c.env.SEARCH_SOURCE_MODE, 'brave_prefer_tavily_fallback');
+  // A per-token override wins over the server-wide mode.
+  const searchSourceMode = parseSearchSourceMode(c.get('clientTokenSearchSourceMode'), serverMode);
 
   const query = String(args.query ?? '');
   const count = typeof args.count === 'number' ? args.count : 10;
   const offset = typeof args.offset === 'number' ? args.offset : 0;
+  const tavilyArgs = opts.tavilyArgs ?? { query, max_results: count };
+  const searchResult = (provider: 'tavily' | 'brave' | 'combined', results: SearchResultRow[]): McpToolResult => ({
+    content: [{ type: 'text', text: opts.render ? opts.render(provider, results) : JSON.stringify(results, null, 2) }]
+  });
+  // Every Brave response reports the key's remaining quota; it is stored without holding up the reply.
+  const braveCallOptions = (keyId: string, signal?: AbortSignal) => ({
+    signal,
+    onQuota: (quota: BraveQuota) => c.executionCtx.waitUntil(recordBraveKeyQuota(db, keyId, quota).catch(() => {})),
+  });
+  const handleBraveKeyError = async (keyId: string, error: unknown) => {
+    if (!(error instanceof BraveError)) return;
+    if (error.status === 401 || error.status === 403) {
+      await markBraveKeyInvalid(db, keyId);
+    } else if (error.status === 429) {
+      await markBraveKeyCooldown(db, keyId, error.retryAfterMs ?? 60000);
+    }
+  };
 
   // Handle tavily_only mode
   if (searchSourceMode === 'tavily_only') {
@@ -417,15 +473,13 @@ async function handleBraveTool(
     }
 
     try {
-      const result = await tavilySearch(tavilyKeyInfo.apiKey, { query, max_results: count });
+      const result = await breakers.tavily.run(() => tavilySearch(tavilyKeyInfo.apiKey, tavilyArgs as any));
       const formatted = (result.results || []).map((r: any) => ({
         title: String(r?.title ?? ''),
         url: String(r?.url ?? ''),
         description: String(r?.content ?? '') || undefined
       }));
-      return {
-        content: [{ type: 'text', text: JSON.stringify(formatted, null, 2) }]
-      };
+      return searchResult('tavily', formatted);
     } catch (error) {
       if (error instanceof TavilyError) {
         if (error.status === 401 || error.status === 403) {
@@ -450,22 +504,16 @@ async function handleBraveTool(
 
     try {
       const result = toolName === 'brave_web_search'
-        ? await braveWebSearch(braveKeyInfo.apiKey, args as any)
-        : await braveLocalSearch(braveKeyInfo.apiKey, args as any);
+        ? await breakers.brave.run(() => braveWebSearch(braveKeyInfo.apiKey, args as any, braveCallOptions(braveKeyInfo.keyId)))
+        : await breakers.brave.run(() => braveLocalSearch(braveKeyInfo.apiKey, args as any, braveCallOptions(braveKeyInfo.keyId)));
 
       const formatted = toolName === 'brave_web_search'
         ? extractBraveWebResults(result)
         : extractBraveLocalResults(result);
 
-      return {
-        content: [{ type: 'text', text: JSON.stringify(formatted, null, 2) }]
-      };
+      return searchResult('brave', formatted);
     } catch (error) {
-      if (error instanceof BraveError) {
-        if (error.status === 401 || error.status === 403) {
-          await markBraveKeyInvalid(db, braveKeyInfo.keyId);
-        }
-      }
+      await handleBraveKeyError(braveKeyInfo.keyId, error);
       throw error;
     }
   }
@@ -484,20 +532,16 @@ async function handleBraveTool(
 
       try {
         const result = toolName === 'brave_web_search'
-          ? await braveWebSearch(braveKeyInfo.apiKey, args as any)
-          : await braveLocalSearch(braveKeyInfo.apiKey, args as any);
+          ? await breakers.brave.run(() => braveWebSearch(braveKeyInfo.apiKey, args as any, braveCallOptions(braveKeyInfo.keyId)))
+          : await breakers.brave.run(() => braveLocalSearch(braveKeyInfo.apiKey, args as any, braveCallOptions(braveKeyInfo.keyId)));
 
         const formatted = toolName === 'brave_web_search'
           ? extractBraveWebResults(result)
           : extractBraveLocalResults(result);
 
-        return {
-          content: [{ type: 'text', text: JSON.stringify(formatted, null, 2) }]
-        };
+        return searchResult('brave', formatted);
       } catch (error) {
-        if (error instanceof BraveError && (error.status === 401 || error.status === 403)) {
-          await markBraveKeyInvalid(db, braveKeyInfo.keyId);
-        }
+        await handleBraveKeyError(braveKeyInfo.keyId, error);
         throw error;
       }
     }
@@ -509,7 +553,7 @@ async function handleBraveTool(
     const tavilyKeyInfo = await selectTavilyKey(db, c.env.KEY_ENCRYPTION_SECRET);
     if (tavilyKeyInfo) {
       promises.push(
-        tavilySearch(tavilyKeyInfo.apiKey, { query, max_results: count })
+        breakers.tavily.run(() => tavilySearch(tavilyKeyInfo.apiKey, tavilyArgs as any))
           .then(res => ({
             source: 'tavily' as const,
             results: (res.results || []).map((r: any) => ({
@@ -526,9 +570,9 @@ async function handleBraveTool(
     const braveKeyInfo = await selectBraveKey(db, c.env.KEY_ENCRYPTION_SECRET);
     if (braveKeyInfo) {
       promises.push(
-        (toolName === 'brave_web_search'
-          ? braveWebSearch(braveKeyInfo.apiKey, args as any)
-          : braveLocalSearch(braveKeyInfo.apiKey, args as any)
+        breakers.brave.run<unknown>(() => toolName === 'brave_web_search'
+          ? braveWebSearch(braveKeyInfo.apiKey, args as any, braveCallOptions(braveKeyInfo.keyId))
+          : braveLocalSearch(braveKeyInfo.apiKey, args as any, braveCallOptions(braveKeyInfo.keyId))
         )
           .then(res => ({
             source: 'brave' as const,
@@ -561,12 +605,11 @@ async function handleBraveTool(
     const merged = mergeAndDedupe({
       tavily: tavilyResult?.results ?? [],
       brave: braveResult?.results ?? [],
-      count
+      count,
+      canonicalization: parseUrlCanonicalizationOptions(c.env.URL_CANONICALIZATION)
     });
 
-    return {
-      content: [{ type: 'text', text: JSON.stringify(merged, null, 2) }]
-    };
+    return searchResult('combined', merged);
   }
 
   // Default: brave_prefer_tavily_fallback
@@ -583,15 +626,13 @@ async function handleBraveTool(
     }
 
     try {
-      const result = await tavilySearch(tavilyKeyInfo.apiKey, { query, max_results: count });
+      const result = await breakers.tavily.run(() => tavilySearch(tavilyKeyInfo.apiKey, tavilyArgs as any));
       const formatted = (result.results || []).map((r: any) => ({
         title: String(r?.title ?? ''),
         url: String(r?.url ?? ''),
         description: String(r?.content ?? '') || undefined
       }));
-      return {
-        content: [{ type: 'text', text: JSON.stringify(formatted, null, 2) }]
-      };
+      return searchResult('tavily', formatted);
     } catch (error) {
       if (error instanceof TavilyError) {
         if (error.status === 401 || error.status === 403) {
@@ -604,38 +645,72 @@ async function handleBraveTool(
     }
   }
 
+  // Hedged mode: Tavily also runs when Brave is slower than the threshold or fails; the first answer wins.
+  // `_meta.hedge` reports which call answered and whether the hedge was sent at all.
+  if (searchSourceMode === 'brave_hedged_tavily' && toolName === 'brave_web_search') {
+    const tavilyKeyInfo = await selectTavilyKey(db, c.env.KEY_ENCRYPTION_SECRET);
+    if (tavilyKeyInfo) {
+      const { value, winner, hedged } = await getHedger(c).run({
+        primary: async (signal) => {
+          try {
+            const result = await breakers.brave.run(() => braveWebSearch(braveKeyInfo.apiKey, args as any, braveCallOptions(braveKeyInfo.keyId, signal)), { signal });
+            return searchResult('brave', extractBraveWebResults(result));
+          } catch (error) {
+            await handleBraveKeyError(braveKeyInfo.keyId, error);
+            throw error;
+          }
+        },
+        hedge: async (signal) => {
+          try {
+            const result = await breakers.tavily.run(() => tavilySearch(tavilyKeyInfo.apiKey, tavilyArgs as any, signal), { signal });
+            return searchResult('tavily', (result.results || []).map((r: any) => ({
+              title: String(r?.title ?? ''),
+              url: String(r?.url ?? ''),
+              description: String(r?.content ?? '') || undefined
+            })));
+          } catch (error) {
+            if (error instanceof TavilyError) {
+              if (error.status === 401 || error.status === 403) {
+                await markTavilyKeyInvalid(db, tavilyKeyInfo.keyId);
+              } else if (error.status === 429) {
+                await markTavilyKeyCooldown(db, tavilyKeyInfo.keyId, 60000);
+              }
+            }
+            throw error;
+          }
+        },
+      });
+      return { ...value, _meta: { ...value._meta, hedge: { winner, hedged } } };
+    }
+  }
+
   // Try Brave first
   try {
     const result = toolName === 'brave_web_search'
-      ? await braveWebSearch(braveKeyInfo.apiKey, args as any)
-      : await braveLocalSearch(braveKeyInfo.apiKey, args as any);
+      ? await breakers.brave.run(() => braveWebSearch(braveKeyInfo.apiKey, args as any, braveCallOptions(braveKeyInfo.keyId)))
+      : await breakers.brave.run(() => braveLocalSearch(braveKeyInfo.apiKey, args as any, braveCallOptions(braveKeyInfo.keyId)));
 
     const formatted = toolName === 'brave_web_search'
       ? extractBraveWebResults(result)
       : extractBraveLocalResults(result);
 
-    return {
-      content: [{ type: 'text', text: JSON.stringify(formatted, null, 2) }]
-    };
+    return searchResult('brave', formatted);
   } catch (error) {
-    if (error instanceof BraveError) {
-      if (error.status === 401 || error.status === 403) {
-        await markBraveKeyInvalid(db, braveKeyInfo.keyId);
-      }
+    // An open Brave circuit skips straight to Tavily instead of waiting for another timeout.
+    if (error instanceof BraveError || error instanceof CircuitOpenError) {
+      await handleBraveKeyError(braveKeyInfo.keyId, error);
 
       // Fallback to Tavily on error
       const tavilyKeyInfo = await selectTavilyKey(db, c.env.KEY_ENCRYPTION_SECRET);
       if (tavilyKeyInfo) {
         try {
-          const result = await tavilySearch(tavilyKeyInfo.apiKey, { query, max_results: count });
+          const result = await breakers.tavily.run(() => tavilySearch(tavilyKeyInfo.apiKey, tavilyArgs as any));
           const formatted = (result.results || []).map((r: any) => ({
             title: String(r?.title ?? ''),
             url: String(r?.url ?? ''),
             description: String(r?.content ?? '') || undefined
           }));
-          return {
-            content: [{ type: 'text', text: JSON.stringify(formatted, null, 2) }]
-          };
+          return searchResult('tavily', formatted);
         } catch (tavilyError) {
           if (tavilyError instanceof TavilyError) {
             if (tavilyError.status === 401 || tavilyError.status === 403) {
@@ -652,9 +727,53 @@ async function handleBraveTool(
   }
 }
 
+let hedger: { threshold: string | undefined; instance: RequestHedger } | undefined;
+
+/** One hedger per isolate, so percentile thresholds learn from every request it serves. */
+function getHedger(c: WorkerContext): RequestHedger {
+  const threshold = c.env.SEARCH_HEDGE_THRESHOLD;
+  if (!hedger || hedger.threshold !== threshold) {
+    hedger = { threshold, instance: new RequestHedger({ threshold: parseHedgeThreshold(threshold) }) };
+  }
+  return hedger.instance;
+}
+
+/** The token's researchEnabled override (0/1) wins; NULL falls back to TAVILY_RESEARCH_ENABLED. */
+function isResearchEnabled(c: WorkerContext): boolean {
+  const override = c.get('clientTokenResearchEnabled');
+  if (override === 0 || override === 1) return override === 1;
+  return c.env.TAVILY_RESEARCH_ENABLED !== 'false';
+}
+
+/** Built-in tools plus the enabled virtual tools whose base tool is available to this request. */
+async function listTools(c: WorkerContext) {
+  const builtinTools = getToolsList(c);
+  const virtualTools = (await getVirtualTools(c)).flatMap((definition) => {
+    const baseTool = builtinTools.find((t) => t.name === definition.baseTool);
+    if (!baseTool || builtinTools.some((t) => t.name === definition.name)) return [];
+    return [buildVirtualTool(definition, baseTool)];
+  });
+  return [...builtinTools, ...virtualTools];
+}
+
+async function getVirtualTools(c: WorkerContext): Promise<VirtualToolDefinition[]> {
+  const db = new D1Client(c.env.DB);
+  const rows = await db.getVirtualTools(true);
+  return rows.map(toVirtualToolDefinition);
+}
+
 function getToolsList(c: WorkerContext) {
-  const researchEnabled = c.env.TAVILY_RESEARCH_ENABLED !== 'false';
+  return getBuiltinTools(isResearchEnabled(c));
+}
+
+/** Every tool a virtual tool may be based on, regardless of per-request research enablement. */
+export function getVirtualToolBaseTools() {
+  return getBuiltinTools(true);
+}
+
+function getBuiltinTools(researchEnabled: boolean) {
   const tools = [
+    webSearchTool,
     {
       name: 'tavily_search',
       description: 'Search the web for current information on any topic. Use for news, facts, or data beyond your knowledge cutoff. Returns snippets and source URLs.',
@@ -0,0 +1,102 @@
+// Mirrors packages/core/src/mcp/middleware.ts; the Worker is deployed standalone and cannot import core.
+// test/coreParity.test.ts runs both copies on the same fixtures; change them together.
+
+import type { WorkerContext } from '../context.js';
+import type { VirtualToolDefinition } from './virtualTools.js';
+
+export type McpToolResult = {
+  content: Array<{ type: 'text'; text: string }>;
+  isError?: boolean;
+  _meta?: Record<string, unknown>;
+};
+
+/** Thrown from the chain to answer with a JSON-RPC error instead of a tool result. */
+export class ToolCallError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(message);
+    this.name = 'ToolCallError';
+  }
+}
+
+/** State of one `tools/call` request as it moves through the middleware chain. */
+export type ToolCallContext = {
+  /** Tool name the client called; for a virtual tool this is its own name. */
+  readonly name: string;
+  /** Tool that will run: `name`, or a virtual tool's base tool once the call is resolved. */
+  toolName: string;
+  /** Arguments that will be dispatched; virtual tool presets are merged in once the call is resolved. */
+  arguments: Record<string, unknown>;
+  virtualTool?: VirtualToolDefinition;
+  readonly worker: WorkerContext;
+};
+
+export type ToolCallMiddleware = (ctx: ToolCallContext, next: () => Promise<McpToolResult>) => Promise<McpToolResult>;
+
+export type ToolCallHandler = (ctx: ToolCallContext) => Promise<McpToolResult>;
+
+/** Runs `middleware` in order around `handler`; the first entry is the outermost. */
+export function composeToolCallMiddleware(middleware: ToolCallMiddleware[], handler: ToolCallHandler): ToolCallHandler {
+  return (ctx) => {
+    let lastIndex = -1;
+    const run = (index: number): Promise<McpToolResult> => {
+      if (index <= lastIndex) return Promise.reject(new Error('Tool-call middleware called next() more than once'));
+      lastIndex = index;
+      const step = middleware[index];
+      if (!step) return handler(ctx);
+      try {
+        return step(ctx, () => run(index + 1));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    };
+    return run(0);
+  };
+}
+
+/**
+ * Parses a token's allowed-tools setting (an array or its JSON text). `null` means every tool is
+ * allowed: unset, empty or unparseable settings do not lock a token out.
+ */
+function parseAllowedTools(raw: unknown): string[] | null {
+  let parsed: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) return null;
+  return parsed.filter((name): name is string => typeof name === 'string');
+}
+
+/**
+ * Rejects tools outside the token's allowed list. Tools are scoped by the name the client called,
+ * so a virtual tool can be allowed without its base tool.
+ */
+export function scopeAllowedTools(getAllowedTools: (c: WorkerContext) => unknown): ToolCallMiddleware {
+  return async (ctx, next) => {
+    const allowedTools = parseAllowedTools(getAllowedTools(ctx.worker));
+    if (allowedTools && !allowedTools.includes(ctx.name)) {
+      throw new ToolCallError(-32600, `Tool '${ctx.name}' is not allowed for this token. Allowed tools: ${allowedTools.join(', ')}`);
+    }
+    return next();
+  };
+}
+
+/** Masks API keys and client tokens that upstream error messages may echo back. */
+function redactSecrets(text: string): string {
+  return text
+    .replace(/\btvly-[A-Za-z0-9_-]+/g, 'tvly-<redacted>')
+    .replace(/\bmcp_[A-Za-z0-9]+\.[A-Za-z0-9]+/g, 'mcp_<redacted>')
+    .replace(/\b(Bearer\s+)[A-Za-z0-9._~+/=-]+/gi, '$1<redacted>');
+}
+
+/** Applies `redactSecrets` to the text of error results before they reach the client. */
+export function redactToolErrors(): ToolCallMiddleware {
+  return async (_ctx, next) => {
+    const result = await next();
+    if (!result.isError) return result;
+    return { ...result, content: result.content.map((item) => ({ ...item, text: redactSecrets(item.text) })) };
+  };
+}
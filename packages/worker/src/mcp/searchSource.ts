@@ -2,13 +2,15 @@ type SearchSourceMode =
   | 'tavily_only'
   | 'brave_only'
   | 'combined'
-  | 'brave_prefer_tavily_fallback';
+  | 'brave_prefer_tavily_fallback'
+  | 'brave_hedged_tavily';
 
 const VALID_MODES: SearchSourceMode[] = [
   'tavily_only',
   'brave_only',
   'combined',
-  'brave_prefer_tavily_fallback'
+  'brave_prefer_tavily_fallback',
+  'brave_hedged_tavily'
 ];
 
 export function parseSearchSourceMode(
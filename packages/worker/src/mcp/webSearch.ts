@@ -0,0 +1,141 @@
+// Mirrors packages/core/src/mcp/webSearch.ts; the Worker is deployed standalone and cannot import core.
+// test/coreParity.test.ts runs both copies on the same fixtures; change them together.
+
+const FRESHNESS_VALUES = ['day', 'week', 'month', 'year'] as const;
+
+type WebSearchFreshness = (typeof FRESHNESS_VALUES)[number];
+
+/** Normalized `web_search` arguments, translated per provider before the call is routed. */
+type WebSearchParams = {
+  query: string;
+  count?: number;
+  freshness?: WebSearchFreshness;
+  includeDomains: string[];
+  excludeDomains: string[];
+  /** ISO 3166-1 alpha-2, upper case. */
+  country?: string;
+  /** ISO 639-1, lower case. */
+  language?: string;
+};
+
+const BRAVE_FRESHNESS: Record<WebSearchFreshness, string> = { day: 'pd', week: 'pw', month: 'pm', year: 'py' };
+
+export const webSearchTool = {
+  name: 'web_search',
+  description: "Searches the web through the server's configured search sources (Brave, Tavily or both combined). Use this for general web searches instead of a provider-specific tool. Returns a JSON object with the provider that served the results and the results themselves.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Search query' },
+      count: { type: 'integer', default: 10, minimum: 1, maximum: 20, description: 'Number of results (1-20, default 10)' },
+      freshness: { type: 'string', enum: [...FRESHNESS_VALUES], description: 'Only return results published within the last day, week, month or year' },
+      include_domains: { type: 'array', items: { type: 'string' }, description: 'Only return results from these domains' },
+      exclude_domains: { type: 'array', items: { type: 'string' }, description: 'Never return results from these domains' },
+      country: { type: 'string', description: "Two-letter country code to prefer results from, e.g. 'US'" },
+      language: { type: 'string', description: "Two-letter language code of the results, e.g. 'en'. Ignored by providers without a language filter (Tavily)" },
+    },
+    required: ['query'],
+    additionalProperties: false,
+  },
+};
+
+/** Checks the values the input schema cannot express (code formats, empty domains). */
+export function parseWebSearchArgs(args: Record<string, unknown>): { ok: true; value: WebSearchParams } | { ok: false; error: string } {
+  const query = typeof args.query === 'string' ? args.query.trim() : '';
+  if (!query) return { ok: false, error: 'web_search: query must not be empty' };
+
+  const includeDomains = normalizeDomains(args.include_domains);
+  const excludeDomains = normalizeDomains(args.exclude_domains);
+  if (!includeDomains || !excludeDomains) {
+    return { ok: false, error: 'web_search: include_domains and exclude_domains must contain non-empty domain names' };
+  }
+
+  const country = typeof args.country === 'string' ? args.country.trim() : undefined;
+  if (country !== undefined && !/^[a-z]{2}$/i.test(country)) {
+    return { ok: false, error: "web_search: country must be a two-letter country code, e.g. 'US'" };
+  }
+  const language = typeof args.language === 'string' ? args.language.trim() : undefined;
+  if (language !== undefined && !/^[a-z]{2}$/i.test(language)) {
+    return { ok: false, error: "web_search: language must be a two-letter language code, e.g. 'en'" };
+  }
+
+  return {
+    ok: true,
+    value: {
+      query,
+      ...(typeof args.count === 'number' ? { count: args.count } : {}),
+      ...(typeof args.freshness === 'string' ? { freshness: args.freshness as WebSearchFreshness } : {}),
+      includeDomains,
+      excludeDomains,
+      ...(country ? { country: country.toUpperCase() } : {}),
+      ...(language ? { language: language.toLowerCase() } : {}),
+    },
+  };
+}
+
+/** Brave arguments; domain filters become `site:` operators since the API has no domain parameters. */
+export function toBraveWebSearchArgs(params: WebSearchParams): Record<string, unknown> {
+  const include = params.includeDomains.map((d) => `site:${d}`);
+  const query = [
+    params.query,
+    include.length > 1 ? `(${include.join(' OR ')})` : include[0],
+    ...params.excludeDomains.map((d) => `-site:${d}`),
+  ]
+    .filter(Boolean)
+    .join(' ');
+  return {
+    query,
+    ...(params.count !== undefined ? { count: params.count } : {}),
+    ...(params.freshness ? { freshness: BRAVE_FRESHNESS[params.freshness] } : {}),
+    ...(params.country ? { country: params.country } : {}),
+    ...(params.language ? { search_lang: params.language } : {}),
+  };
+}
+
+/** Tavily arguments; Tavily takes country names rather than codes and has no language filter. */
+export function toTavilyWebSearchArgs(params: WebSearchParams): Record<string, unknown> {
+  const country = params.country ? countryName(params.country) : undefined;
+  return {
+    query: params.query,
+    ...(params.count !== undefined ? { max_results: params.count } : {}),
+    ...(params.freshness ? { time_range: params.freshness } : {}),
+    ...(params.includeDomains.length > 0 ? { include_domains: params.includeDomains } : {}),
+    ...(params.excludeDomains.length > 0 ? { exclude_domains: params.excludeDomains } : {}),
+    // Tavily only boosts by country for the general topic.
+    ...(country ? { country, topic: 'general' } : {}),
+  };
+}
+
+/** The `web_search` text output: the serving provider plus results in the core `{ url, title, content }` shape. */
+export function formatWebSearchResults(
+  provider: string,
+  results: Array<{ title: string; url: string; description?: string }>
+): string {
+  return JSON.stringify(
+    {
+      provider,
+      results: results.map((r) => ({
+        url: r.url,
+        ...(r.title ? { title: r.title } : {}),
+        ...(r.description ? { content: r.description } : {}),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+function normalizeDomains(raw: unknown): string[] | null {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) return null;
+  const domains = raw.map((d) => (typeof d === 'string' ? d.trim().toLowerCase() : ''));
+  return domains.every((d) => d && !/\s/.test(d)) ? domains : null;
+}
+
+function countryName(code: string): string | undefined {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'region' }).of(code)?.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
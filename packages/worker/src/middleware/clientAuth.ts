@@ -115,6 +115,9 @@ export async function clientAuth(c: WorkerContext, next: Next): Promise<Response
     c.set('clientTokenPrefix', clientToken.tokenPrefix);
     c.set('clientTokenAllowedTools', clientToken.allowedTools);
     c.set('clientTokenRateLimit', clientToken.rateLimit);
+    c.set('clientTokenDefaultParameters', clientToken.defaultParameters);
+    c.set('clientTokenSearchSourceMode', clientToken.searchSourceMode);
+    c.set('clientTokenResearchEnabled', clientToken.researchEnabled);
 
     await next();
   } catch (error) {
@@ -5,6 +5,10 @@ import { adminAuth } from '../../middleware/adminAuth.js';
 import { D1Client, generateId, type TavilyKey, type BraveKey, type ClientToken } from '../../db/d1.js';
 import { encrypt, decrypt, maskApiKey, generateToken } from '../../crypto/crypto.js';
 import { parseSearchSourceMode } from '../../mcp/searchSource.js';
+import { getCircuitBreakers } from '../../mcp/circuitBreaker.js';
+import { getVirtualToolBaseTools } from '../../mcp/mcpHandler.js';
+import { toVirtualToolDefinition, validateVirtualToolDefinition, type VirtualToolDefinition } from '../../mcp/virtualTools.js';
+import { isPlainObject, parseDefaultParameters, serializeDefaultParameters } from '../../utils/defaultParameters.js';
 
 // Tavily credits types and helpers
 type TavilyCreditsSnapshot = {
@@ -197,13 +201,17 @@ adminRouter.patch('/server-info', async (c) => {
 
   if (body.tavilyKeySelectionStrategy) {
     if (body.tavilyKeySelectionStrategy !== 'round_robin' && body.tavilyKeySelectionStrategy !== 'random') {
+      // The node bridges rank keys by credits and load; the Worker key pool only picks the least recently used key.
+      if (['weighted_remaining', 'drain_first', 'least_in_flight'].includes(body.tavilyKeySelectionStrategy)) {
+        return c.json({ error: `tavilyKeySelectionStrategy ${body.tavilyKeySelectionStrategy} is not supported on the Cloudflare Worker; use round_robin or random` }, 400);
+      }
       return c.json({ error: 'Invalid tavilyKeySelectionStrategy' }, 400);
     }
     await db.upsertServerSetting('tavilyKeySelectionStrategy', body.tavilyKeySelectionStrategy);
   }
 
   if (body.searchSourceMode) {
-    const validModes = ['tavily_only', 'brave_only', 'combined', 'brave_prefer_tavily_fallback'];
+    const validModes = ['tavily_only', 'brave_only', 'combined', 'brave_prefer_tavily_fallback', 'brave_hedged_tavily'];
     if (!validModes.includes(body.searchSourceMode)) {
       return c.json({ error: 'Invalid searchSourceMode' }, 400);
     }
@@ -547,6 +555,13 @@ adminRouter.get('/brave-keys', async (c) => {
     label: k.label,
     maskedKey: k.keyMasked ?? null,
     status: k.status,
+    cooldownUntil: k.cooldownUntil,
+    maxQps: k.maxQps,
+    burst: k.burst,
+    quotaLimit: k.quotaLimit,
+    quotaRemaining: k.quotaRemaining,
+    quotaResetAt: k.quotaResetAt,
+    quotaCheckedAt: k.quotaCheckedAt,
     lastUsedAt: k.lastUsedAt,
     createdAt: k.createdAt,
   })));
@@ -612,13 +627,44 @@ adminRouter.delete('/brave-keys/:id', async (c) => {
   return c.json({ success: true });
 });
 
+type BraveKeyRateLimitInput = {
+  maxQps?: number | null;
+  burst?: number | null;
+};
+
+/**
+ * Validates per-key Brave rate limits; omitted fields stay unchanged and `null` falls back to the
+ * defaults. Stored for parity with the Node bridge: isolates share no rate gate to enforce them with.
+ */
+function parseBraveKeyRateLimitInput(body: any): { ok: true; value: BraveKeyRateLimitInput } | { ok: false; error: string } {
+  const value: BraveKeyRateLimitInput = {};
+  const { maxQps, burst } = body ?? {};
+  if (maxQps !== undefined) {
+    if (maxQps !== null && (typeof maxQps !== 'number' || !Number.isFinite(maxQps) || maxQps <= 0)) {
+      return { ok: false, error: 'maxQps must be null or a positive number' };
+    }
+    value.maxQps = maxQps;
+  }
+  if (burst !== undefined) {
+    if (burst !== null && (!Number.isInteger(burst) || burst < 1)) {
+      return { ok: false, error: 'burst must be null or an integer >= 1' };
+    }
+    value.burst = burst;
+  }
+  return { ok: true, value };
+}
+
 adminRouter.patch('/brave-keys/:id', async (c) => {
   const id = c.req.param('id');
-  const body = await c.req.json<{ status?: string }>();
+  const body = await c.req.json<{ status?: string; maxQps?: number | null; burst?: number | null }>();
+  const rateLimits = parseBraveKeyRateLimitInput(body);
+  if (!rateLimits.ok) {
+    return c.json({ error: rateLimits.error }, 400);
+  }
   const db = new D1Client(c.env.DB);
 
-  await db.updateBraveKey(id, { status: body.status });
-  return c.json({ id, status: body.status });
+  await db.updateBraveKey(id, { status: body.status, ...rateLimits.value });
+  return c.json({ id, status: body.status, ...rateLimits.value });
 });
 
 adminRouter.get('/brave-keys/:id/reveal', async (c) => {
@@ -642,6 +688,49 @@ adminRouter.get('/brave-keys/:id/reveal', async (c) => {
 
 // ============ Client Tokens ============
 
+const TOKEN_SEARCH_SOURCE_MODES = ['tavily_only', 'brave_only', 'combined', 'brave_prefer_tavily_fallback', 'brave_hedged_tavily'];
+// Stored for parity with the Node bridge; the Worker itself has no Brave overflow handling.
+const TOKEN_BRAVE_OVERFLOW_MODES = ['queue', 'error', 'fallback_to_tavily'];
+
+type TokenPolicyInput = {
+  searchSourceMode?: string | null;
+  braveOverflow?: string | null;
+  researchEnabled?: boolean | null;
+  maxOutputChars?: number | null;
+};
+
+/** Validates per-token policy overrides; omitted fields stay unchanged and `null` clears an override. */
+function parseTokenPolicyInput(body: any): { ok: true; value: TokenPolicyInput } | { ok: false; error: string } {
+  const value: TokenPolicyInput = {};
+  const { searchSourceMode, braveOverflow, researchEnabled, maxOutputChars } = body ?? {};
+  if (searchSourceMode !== undefined) {
+    if (searchSourceMode !== null && !TOKEN_SEARCH_SOURCE_MODES.includes(searchSourceMode)) {
+      return { ok: false, error: `searchSourceMode must be null or one of: ${TOKEN_SEARCH_SOURCE_MODES.join(', ')}` };
+    }
+    value.searchSourceMode = searchSourceMode;
+  }
+  if (braveOverflow !== undefined) {
+    if (braveOverflow !== null && !TOKEN_BRAVE_OVERFLOW_MODES.includes(braveOverflow)) {
+      return { ok: false, error: `braveOverflow must be null or one of: ${TOKEN_BRAVE_OVERFLOW_MODES.join(', ')}` };
+    }
+    value.braveOverflow = braveOverflow;
+  }
+  if (researchEnabled !== undefined) {
+    if (researchEnabled !== null && typeof researchEnabled !== 'boolean') {
+      return { ok: false, error: 'researchEnabled must be a boolean or null' };
+    }
+    value.researchEnabled = researchEnabled;
+  }
+  // The Worker returns tool output unbudgeted and has no nexus_continue, so only clearing is accepted.
+  if (maxOutputChars !== undefined) {
+    if (maxOutputChars !== null) {
+      return { ok: false, error: 'maxOutputChars is not supported on the Cloudflare Worker; output is not budgeted there' };
+    }
+    value.maxOutputChars = null;
+  }
+  return { ok: true, value };
+}
+
 adminRouter.get('/tokens', async (c) => {
   const db = new D1Client(c.env.DB);
   const tokens = await db.getClientTokens();
@@ -651,6 +740,11 @@ adminRouter.get('/tokens', async (c) => {
     description: t.description,
     tokenPrefix: t.tokenPrefix,
     scopesJson: t.scopesJson,
+    defaultParameters: parseDefaultParameters(t.defaultParameters),
+    searchSourceMode: t.searchSourceMode,
+    braveOverflow: t.braveOverflow,
+    researchEnabled: t.researchEnabled === null ? null : t.researchEnabled === 1,
+    maxOutputChars: t.maxOutputChars,
     expiresAt: t.expiresAt,
     revokedAt: t.revokedAt,
     createdAt: t.createdAt,
@@ -658,7 +752,20 @@ adminRouter.get('/tokens', async (c) => {
 });
 
 adminRouter.post('/tokens', async (c) => {
-  const body = await c.req.json<{ description?: string; expiresAt?: string; allowedTools?: string[]; rateLimit?: number }>();
+  const body = await c.req.json<{
+    description?: string;
+    expiresAt?: string;
+    allowedTools?: string[];
+    rateLimit?: number;
+    defaultParameters?: Record<string, unknown> | null;
+  }>();
+  if (body.defaultParameters !== undefined && body.defaultParameters !== null && !isPlainObject(body.defaultParameters)) {
+    return c.json({ error: 'defaultParameters must be a JSON object' }, 400);
+  }
+  const policy = parseTokenPolicyInput(body);
+  if (!policy.ok) {
+    return c.json({ error: policy.error }, 400);
+  }
 
   const db = new D1Client(c.env.DB);
 
@@ -703,6 +810,8 @@ adminRouter.post('/tokens', async (c) => {
     expiresAt: body.expiresAt,
     allowedTools: allowedToolsValue,
     rateLimit: rateLimitValue,
+    defaultParameters: serializeDefaultParameters(body.defaultParameters),
+    ...policy.value,
   });
 
   return c.json({
@@ -714,6 +823,41 @@ adminRouter.post('/tokens', async (c) => {
   }, 201);
 });
 
+adminRouter.patch('/tokens/:id', async (c) => {
+  const id = c.req.param('id');
+  const body = await c.req.json<{ defaultParameters?: Record<string, unknown> | null }>();
+  if (body.defaultParameters !== undefined && body.defaultParameters !== null && !isPlainObject(body.defaultParameters)) {
+    return c.json({ error: 'defaultParameters must be a JSON object or null' }, 400);
+  }
+  const policy = parseTokenPolicyInput(body);
+  if (!policy.ok) {
+    return c.json({ error: policy.error }, 400);
+  }
+
+  const db = new D1Client(c.env.DB);
+  const updated = await db.updateClientToken(id, {
+    ...policy.value,
+    ...(body.defaultParameters !== undefined
+      ? { defaultParameters: serializeDefaultParameters(body.defaultParameters) }
+      : {}),
+  });
+  if (!updated) {
+    return c.json({ error: 'Token not found' }, 404);
+  }
+
+  await db.createAuditLog({
+    eventType: 'token.update',
+    outcome: 'success',
+    resourceType: 'client_token',
+    resourceId: id,
+    detailsJson: JSON.stringify({
+      ...(isPlainObject(body.defaultParameters) ? { defaultParameterKeys: Object.keys(body.defaultParameters) } : {}),
+      ...policy.value,
+    })
+  });
+  return c.json({ ok: true });
+});
+
 adminRouter.get('/tokens/:id/reveal', async (c) => {
   const id = c.req.param('id');
   const ip = c.req.header('CF-Connecting-IP') ?? c.req.header('X-Forwarded-For') ?? null;
@@ -816,6 +960,175 @@ adminRouter.post('/tokens/:id/revoke', async (c) => {
   return c.json({ success: true });
 });
 
+// ============ Virtual Tools ============
+
+type VirtualToolInput = VirtualToolDefinition & { enabled: boolean };
+
+/**
+ * Overlays the virtual-tool fields present in `body` on `base`; fields of the wrong type are reported
+ * instead of ignored so a typo never silently keeps the old value.
+ */
+function parseVirtualToolInput(body: any, base: VirtualToolInput): { ok: true; value: VirtualToolInput } | { ok: false; error: string } {
+  const value = { ...base };
+  const { name, description, baseTool, presetArguments, exposedArguments, enabled } = body ?? {};
+  if (name !== undefined) {
+    if (typeof name !== 'string') return { ok: false, error: 'name must be a string' };
+    value.name = name.trim();
+  }
+  if (description !== undefined) {
+    if (typeof description !== 'string') return { ok: false, error: 'description must be a string' };
+    value.description = description.trim();
+  }
+  if (baseTool !== undefined) {
+    if (typeof baseTool !== 'string') return { ok: false, error: 'baseTool must be a string' };
+    value.baseTool = baseTool;
+  }
+  if (presetArguments !== undefined) {
+    if (!isPlainObject(presetArguments)) return { ok: false, error: 'presetArguments must be a JSON object' };
+    value.presetArguments = presetArguments;
+  }
+  if (exposedArguments !== undefined) {
+    if (!Array.isArray(exposedArguments) || !exposedArguments.every((a) => typeof a === 'string')) {
+      return { ok: false, error: 'exposedArguments must be an array of argument names' };
+    }
+    value.exposedArguments = [...new Set(exposedArguments as string[])];
+  }
+  if (enabled !== undefined) {
+    if (typeof enabled !== 'boolean') return { ok: false, error: 'enabled must be a boolean' };
+    value.enabled = enabled;
+  }
+  return { ok: true, value };
+}
+
+function serializeVirtualTool(value: VirtualToolInput) {
+  return {
+    ...value,
+    presetArguments: JSON.stringify(value.presetArguments),
+    exposedArguments: JSON.stringify(value.exposedArguments),
+  };
+}
+
+function isVirtualToolNameTaken(err: any): boolean {
+  const msg = err?.message ?? String(err);
+  return msg.includes('UNIQUE constraint failed') && msg.includes('name');
+}
+
+adminRouter.get('/virtual-tools', async (c) => {
+  const db = new D1Client(c.env.DB);
+  const rows = await db.getVirtualTools();
+
+  return c.json(rows.map(row => ({
+    id: row.id,
+    ...toVirtualToolDefinition(row),
+    enabled: row.enabled === 1,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  })));
+});
+
+adminRouter.get('/virtual-tools/base-tools', (c) => {
+  return c.json(getVirtualToolBaseTools().map(tool => ({
+    name: tool.name,
+    arguments: Object.keys(tool.inputSchema.properties),
+    required: tool.inputSchema.required,
+  })));
+});
+
+adminRouter.post('/virtual-tools', async (c) => {
+  const parsed = parseVirtualToolInput(await c.req.json(), {
+    name: '',
+    description: '',
+    baseTool: '',
+    presetArguments: {},
+    exposedArguments: [],
+    enabled: true,
+  });
+  if (!parsed.ok) {
+    return c.json({ error: parsed.error }, 400);
+  }
+  const invalid = validateVirtualToolDefinition(parsed.value, getVirtualToolBaseTools());
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+
+  const db = new D1Client(c.env.DB);
+  const id = generateId();
+  try {
+    await db.createVirtualTool({ id, ...serializeVirtualTool(parsed.value) });
+  } catch (error) {
+    if (isVirtualToolNameTaken(error)) {
+      return c.json({ error: `A virtual tool named '${parsed.value.name}' already exists` }, 409);
+    }
+    throw error;
+  }
+
+  await db.createAuditLog({
+    eventType: 'virtual_tool.create',
+    outcome: 'success',
+    resourceType: 'virtual_tool',
+    resourceId: id,
+    detailsJson: JSON.stringify({ name: parsed.value.name, baseTool: parsed.value.baseTool })
+  });
+  return c.json({ id });
+});
+
+adminRouter.patch('/virtual-tools/:id', async (c) => {
+  const id = c.req.param('id');
+  const db = new D1Client(c.env.DB);
+  const existing = await db.getVirtualToolById(id);
+  if (!existing) {
+    return c.json({ error: 'Virtual tool not found' }, 404);
+  }
+
+  const parsed = parseVirtualToolInput(await c.req.json(), {
+    ...toVirtualToolDefinition(existing),
+    enabled: existing.enabled === 1,
+  });
+  if (!parsed.ok) {
+    return c.json({ error: parsed.error }, 400);
+  }
+  const invalid = validateVirtualToolDefinition(parsed.value, getVirtualToolBaseTools());
+  if (invalid) {
+    return c.json({ error: invalid }, 400);
+  }
+
+  try {
+    await db.updateVirtualTool(id, serializeVirtualTool(parsed.value));
+  } catch (error) {
+    if (isVirtualToolNameTaken(error)) {
+      return c.json({ error: `A virtual tool named '${parsed.value.name}' already exists` }, 409);
+    }
+    throw error;
+  }
+
+  await db.createAuditLog({
+    eventType: 'virtual_tool.update',
+    outcome: 'success',
+    resourceType: 'virtual_tool',
+    resourceId: id,
+    detailsJson: JSON.stringify({ name: parsed.value.name, baseTool: parsed.value.baseTool, enabled: parsed.value.enabled })
+  });
+  return c.json({ ok: true });
+});
+
+adminRouter.delete('/virtual-tools/:id', async (c) => {
+  const id = c.req.param('id');
+  const db = new D1Client(c.env.DB);
+  const existing = await db.getVirtualToolById(id);
+  if (!existing || !(await db.deleteVirtualTool(id))) {
+    return c.json({ error: 'Virtual tool not found' }, 404);
+  }
+
+  await db.createAuditLog({
+    eventType: 'virtual_tool.delete',
+    outcome: 'success',
+    resourceType: 'virtual_tool',
+    resourceId: id,
+    detailsJson: JSON.stringify({ name: existing.name })
+  });
+  return c.json({ ok: true });
+});
+
 // ============ Settings ============
 
 adminRouter.get('/settings', async (c) => {
@@ -1056,6 +1369,7 @@ adminRouter.get('/keys/export', async (c) => {
           apiKey,
           maskedKey: k.keyMasked,
           status: k.status,
+          cooldownUntil: toIsoOrNull(k.cooldownUntil),
           lastUsedAt: toIsoOrNull(k.lastUsedAt),
           failureScore: k.failureScore,
           createdAt: k.createdAt,
@@ -1318,8 +1632,9 @@ adminRouter.get('/metrics', async (c) => {
   const activeKeys = tavilyKeys.filter((k: TavilyKey) => k.status === 'active').length +
                      braveKeys.filter((k: BraveKey) => k.status === 'active').length;
   const unhealthyKeys = tavilyKeys.filter((k: TavilyKey) => k.status === 'invalid' || k.status === 'cooldown').length +
-                        braveKeys.filter((k: BraveKey) => k.status === 'invalid').length;
+                        braveKeys.filter((k: BraveKey) => k.status === 'invalid' || k.status === 'cooldown').length;
   const activeTokens = clientTokens.filter((t: ClientToken) => !t.revokedAt).length;
+  const circuitBreakers = getCircuitBreakers(c.env);
 
   return c.json({
     requestsPerMinute: (tavilyRecentResult?.count ?? 0) + (braveRecentResult?.count ?? 0),
@@ -1338,6 +1653,7 @@ adminRouter.get('/metrics', async (c) => {
       brave: {
         total: braveKeys.length,
         active: braveKeys.filter((k: BraveKey) => k.status === 'active').length,
+        cooldown: braveKeys.filter((k: BraveKey) => k.status === 'cooldown').length,
         invalid: braveKeys.filter((k: BraveKey) => k.status === 'invalid').length
       }
     },
@@ -1347,6 +1663,11 @@ adminRouter.get('/metrics', async (c) => {
       errorMessage: e.errorMessage,
       timestamp: e.timestamp
     })),
+    // Breakers live in isolate memory: this is the state of the isolate serving the request.
+    circuitBreakers: {
+      tavily: circuitBreakers.tavily.snapshot(),
+      brave: circuitBreakers.brave.snapshot()
+    },
     timestamp: now.toISOString()
   });
 });
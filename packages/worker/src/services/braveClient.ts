@@ -4,6 +4,25 @@
 
 const BRAVE_API_BASE = 'https://api.search.brave.com/res/v1';
 
+/** One window of Brave's `X-RateLimit-*` headers. */
+type BraveRateLimitWindow = {
+  limit: number;
+  remaining: number;
+  resetMs: number;
+};
+
+/** Per-second and monthly windows, as in packages/core/src/brave/rateLimit.ts. */
+export type BraveQuota = {
+  perSecond: BraveRateLimitWindow | null;
+  monthly: BraveRateLimitWindow | null;
+};
+
+type BraveCallOptions = {
+  signal?: AbortSignal;
+  /** Called with the rate-limit windows of every response that reports them, errors included. */
+  onQuota?: (quota: BraveQuota) => void;
+};
+
 interface BraveWebSearchResult {
   type: 'search';
   query: {
@@ -71,7 +90,8 @@ export async function braveWebSearch(
     text_decorations?: boolean;
     spellcheck?: boolean;
     result_filter?: string;
-  }
+  },
+  opts: BraveCallOptions = {}
 ): Promise<BraveWebSearchResult> {
   const url = new URL(`${BRAVE_API_BASE}/web/search`);
 
@@ -93,10 +113,11 @@ export async function braveWebSearch(
     headers: {
       'Accept': 'application/json',
       'X-Subscription-Token': apiKey
-    }
+    },
+    signal: opts.signal
   });
 
-  return handleBraveResponse(response);
+  return handleBraveResponse(response, opts);
 }
 
 export async function braveLocalSearch(
@@ -104,7 +125,8 @@ export async function braveLocalSearch(
   params: {
     query: string;
     count?: number;
-  }
+  },
+  opts: BraveCallOptions = {}
 ): Promise<BraveLocalSearchResult> {
   // Brave local search falls back to web search for most plans
   const url = new URL(`${BRAVE_API_BASE}/web/search`);
@@ -118,21 +140,24 @@ export async function braveLocalSearch(
     headers: {
       'Accept': 'application/json',
       'X-Subscription-Token': apiKey
-    }
+    },
+    signal: opts.signal
   });
 
-  return handleBraveResponse(response);
+  return handleBraveResponse(response, opts);
 }
 
-async function handleBraveResponse<T>(response: Response): Promise<T> {
+async function handleBraveResponse<T>(response: Response, opts: BraveCallOptions): Promise<T> {
   const text = await response.text();
+  const quota = parseBraveRateLimitHeaders(response.headers);
+  if (quota) opts.onQuota?.(quota);
 
   if (!response.ok) {
     if (response.status === 401 || response.status === 403) {
       throw new BraveError('Invalid API key', response.status);
     }
     if (response.status === 429) {
-      throw new BraveError('Rate limit exceeded', response.status);
+      throw new BraveError('Rate limit exceeded', response.status, braveQuotaRetryAfterMs(quota));
     }
 
     let message = response.statusText;
@@ -152,8 +177,40 @@ async function handleBraveResponse<T>(response: Response): Promise<T> {
 }
 
 export class BraveError extends Error {
-  constructor(message: string, public status: number) {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
     super(message);
     this.name = 'BraveError';
   }
 }
+
+/**
+ * Reads the comma-separated `X-RateLimit-Limit`, `-Remaining` and `-Reset` (seconds) headers: the
+ * per-second window first, the monthly one second.
+ */
+function parseBraveRateLimitHeaders(headers: Headers): BraveQuota | null {
+  const parseList = (value: string | null) =>
+    (value ?? '').split(',').map((part) => {
+      const n = Number(part.trim());
+      return part.trim() !== '' && Number.isFinite(n) && n >= 0 ? n : undefined;
+    });
+  const limits = parseList(headers.get('X-RateLimit-Limit'));
+  const remaining = parseList(headers.get('X-RateLimit-Remaining'));
+  const resets = parseList(headers.get('X-RateLimit-Reset'));
+
+  const windowAt = (index: number): BraveRateLimitWindow | null => {
+    const limit = limits[index];
+    const left = remaining[index];
+    const reset = resets[index];
+    if (limit === undefined || left === undefined || reset === undefined) return null;
+    return { limit, remaining: left, resetMs: reset * 1000 };
+  };
+
+  const quota = { perSecond: windowAt(0), monthly: windowAt(1) };
+  return quota.perSecond || quota.monthly ? quota : null;
+}
+
+function braveQuotaRetryAfterMs(quota: BraveQuota | null): number | undefined {
+  if (quota?.monthly && quota.monthly.remaining <= 0) return quota.monthly.resetMs;
+  if (quota?.perSecond && quota.perSecond.remaining <= 0) return quota.perSecond.resetMs;
+  return undefined;
+}
@@ -1,5 +1,6 @@
 import { D1Client } from '../db/d1.js';
 import { decrypt } from '../crypto/crypto.js';
+import type { BraveQuota } from './braveClient.js';
 
 /**
  * Simple key pool for Cloudflare Workers
@@ -31,8 +32,11 @@ export async function selectBraveKey(
 
   if (!key) return null;
 
-  // Update lastUsedAt
-  await db.updateBraveKey(key.id, { lastUsedAt: new Date().toISOString() });
+  // Update lastUsedAt; a key picked after its cooldown is active again
+  await db.updateBraveKey(key.id, {
+    lastUsedAt: new Date().toISOString(),
+    ...(key.status === 'cooldown' ? { status: 'active', cooldownUntil: null } : {})
+  });
 
   // Decrypt the key
   const keyEncrypted = new Uint8Array(key.keyEncrypted);
@@ -65,3 +69,30 @@ export async function markBraveKeyInvalid(
 ): Promise<void> {
   await db.updateBraveKey(keyId, { status: 'invalid' });
 }
+
+export async function markBraveKeyCooldown(
+  db: D1Client,
+  keyId: string,
+  cooldownMs: number = 60 * 1000
+): Promise<void> {
+  await db.updateBraveKey(keyId, {
+    status: 'cooldown',
+    cooldownUntil: new Date(Date.now() + cooldownMs).toISOString()
+  });
+}
+
+/** Stores the monthly window of a Brave response's rate-limit headers on the key. */
+export async function recordBraveKeyQuota(
+  db: D1Client,
+  keyId: string,
+  quota: BraveQuota
+): Promise<void> {
+  if (!quota.monthly) return;
+  const now = Date.now();
+  await db.updateBraveKey(keyId, {
+    quotaLimit: quota.monthly.limit,
+    quotaRemaining: quota.monthly.remaining,
+    quotaResetAt: new Date(now + quota.monthly.resetMs).toISOString(),
+    quotaCheckedAt: new Date(now).toISOString()
+  });
+}
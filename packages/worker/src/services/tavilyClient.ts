@@ -62,7 +62,8 @@ export async function tavilySearch(
     country?: string;
     include_image_descriptions?: boolean;
     include_favicon?: boolean;
-  }
+  },
+  signal?: AbortSignal
 ): Promise<TavilySearchResult> {
   const response = await fetch(`${TAVILY_API_BASE}/search`, {
     method: 'POST',
@@ -70,7 +71,8 @@ export async function tavilySearch(
       'Content-Type': 'application/json',
       'Authorization': `Bearer ${apiKey}`
     },
-    body: JSON.stringify(params)
+    body: JSON.stringify(params),
+    signal
   });
 
   return handleTavilyResponse(response);
@@ -0,0 +1,25 @@
+// Mirrors packages/core/src/tavily/default-parameters.ts; the Worker is deployed standalone and cannot import core.
+// test/coreParity.test.ts runs both copies on the same fixtures; change them together.
+
+type DefaultParameters = Record<string, unknown>;
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Parses `ClientToken.defaultParameters` (a JSON object stored as TEXT); anything else yields no defaults. */
+export function parseDefaultParameters(value: string | null | undefined): DefaultParameters | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return isPlainObject(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Serializes defaults for D1; `null` and `{}` both clear the column. */
+export function serializeDefaultParameters(value: Record<string, unknown> | null | undefined): string | null {
+  if (!value || Object.keys(value).length === 0) return null;
+  return JSON.stringify(value);
+}
@@ -94,4 +94,33 @@ describe('mergeAndDedupe', () => {
     expect(result[2].url).toBe('https://b2.com');
     expect(result[3].url).toBe('https://b3.com');
   });
+
+  it('should deduplicate URL variants by canonical URL', () => {
+    const tavily = [
+      { title: 'T1', url: 'https://www.example.com/a/?utm_source=x' }
+    ];
+    const brave = [
+      { title: 'B1', url: 'https://example.com/a' },
+      { title: 'B2', url: 'https://example.com/a?ref=home' }
+    ];
+
+    const result = mergeAndDedupe({ tavily, brave });
+
+    expect(result.map(r => r.title)).toEqual(['T1', 'B2']);
+    expect(result[0].url).toBe('https://www.example.com/a/?utm_source=x');
+  });
+
+  it('should apply canonicalization rules', () => {
+    const tavily = [
+      { title: 'T1', url: 'https://example.com/a?ref=home' }
+    ];
+    const brave = [
+      { title: 'B1', url: 'https://example.com/a' }
+    ];
+
+    const result = mergeAndDedupe({ tavily, brave, canonicalization: { extraTrackingParams: ['ref'] } });
+
+    expect(result).toHaveLength(1);
+    expect(result[0].title).toBe('T1');
+  });
 });
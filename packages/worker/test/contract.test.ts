@@ -1,5 +1,8 @@
 import { describe, it, expect } from 'vitest';
 
+import { toVirtualToolDefinition } from '../src/mcp/virtualTools.js';
+import { composeToolCallMiddleware, redactToolErrors, scopeAllowedTools } from '../src/mcp/middleware.js';
+
 /**
  * Contract Testing Suite for Worker Implementation
  *
@@ -42,11 +45,28 @@ interface ClientTokenResponse {
   description: string | null;
   allowedTools: string[] | null; // Phase 3.4
   rateLimit: number | null;      // Phase 3.5
+  defaultParameters: Record<string, unknown> | null;
+  searchSourceMode: string | null;
+  braveOverflow: string | null;
+  researchEnabled: boolean | null;
+  maxOutputChars: number | null;
   revokedAt: string | null;
   expiresAt: string | null;
   createdAt: string;
 }
 
+interface VirtualToolResponse {
+  id: string;
+  name: string;
+  description: string;
+  baseTool: string;
+  presetArguments: Record<string, unknown>;
+  exposedArguments: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 describe('Worker Contract Compliance', () => {
   describe('Admin API Response Contracts', () => {
     it('should match Node.js server-info response structure', () => {
@@ -106,6 +126,11 @@ describe('Worker Contract Compliance', () => {
         description: 'Test Token',
         allowedTools: ['tavily_search', 'brave_web_search'], // Phase 3.4
         rateLimit: 120, // Phase 3.5
+        defaultParameters: { search_depth: 'advanced' },
+        searchSourceMode: 'brave_only',
+        braveOverflow: 'error',
+        researchEnabled: false,
+        maxOutputChars: 20000,
         revokedAt: null,
         expiresAt: null,
         createdAt: '2026-01-01T00:00:00.000Z'
@@ -120,6 +145,24 @@ describe('Worker Contract Compliance', () => {
       expect(typeof token.rateLimit).toBe('number');
     });
 
+    it('should return virtual tools with parsed presets and a boolean enabled flag', () => {
+      const virtualTool: VirtualToolResponse = {
+        id: 'vt_123',
+        name: 'internal_docs_search',
+        description: 'Search the internal docs',
+        baseTool: 'tavily_search',
+        presetArguments: { include_domains: ['docs.example.com'] },
+        exposedArguments: ['query', 'max_results'],
+        enabled: true,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z'
+      };
+
+      expect(typeof virtualTool.presetArguments).toBe('object');
+      expect(virtualTool.exposedArguments).toBeInstanceOf(Array);
+      expect(typeof virtualTool.enabled).toBe('boolean');
+    });
+
     it('should handle null values consistently', () => {
       const tokenWithDefaults: ClientTokenResponse = {
         id: 'tok_123',
@@ -127,6 +170,11 @@ describe('Worker Contract Compliance', () => {
         description: null,
         allowedTools: null, // null = all tools allowed
         rateLimit: null,    // null = use global default
+        defaultParameters: null, // null = only env/header defaults apply
+        searchSourceMode: null,  // null = server-wide search source mode
+        braveOverflow: null,
+        researchEnabled: null,   // null = TAVILY_RESEARCH_ENABLED
+        maxOutputChars: null,    // null = MAX_OUTPUT_CHARS
         revokedAt: null,
         expiresAt: null,
         createdAt: '2026-01-01T00:00:00.000Z'
@@ -134,6 +182,9 @@ describe('Worker Contract Compliance', () => {
 
       expect(tokenWithDefaults.allowedTools).toBeNull();
       expect(tokenWithDefaults.rateLimit).toBeNull();
+      expect(tokenWithDefaults.defaultParameters).toBeNull();
+      expect(tokenWithDefaults.searchSourceMode).toBeNull();
+      expect(tokenWithDefaults.researchEnabled).toBeNull();
       expect(tokenWithDefaults.description).toBeNull();
     });
   });
@@ -182,6 +233,23 @@ describe('Worker Contract Compliance', () => {
       expect(expectedError.error.message).toContain('not allowed');
     });
 
+    it('should scope and redact tool calls through the middleware chain like core', async () => {
+      const worker = { get: (key: string) => (key === 'clientTokenAllowedTools' ? '["tavily_search"]' : undefined) } as any;
+      const run = composeToolCallMiddleware([scopeAllowedTools((c) => c.get('clientTokenAllowedTools')), redactToolErrors()], async () => ({
+        content: [{ type: 'text', text: 'Error: Unauthorized: invalid key tvly-abc123' }],
+        isError: true,
+      }));
+
+      await expect(run({ name: 'tavily_search', toolName: 'tavily_search', arguments: {}, worker })).resolves.toEqual({
+        content: [{ type: 'text', text: 'Error: Unauthorized: invalid key tvly-<redacted>' }],
+        isError: true,
+      });
+      await expect(run({ name: 'brave_web_search', toolName: 'brave_web_search', arguments: {}, worker })).rejects.toMatchObject({
+        code: -32600,
+        message: "Tool 'brave_web_search' is not allowed for this token. Allowed tools: tavily_search",
+      });
+    });
+
     it('should use per-token rate limits (Phase 3.5)', () => {
       // Simulate rate limit selection
       const tokenRateLimit = 100;
@@ -206,6 +274,11 @@ describe('Worker Contract Compliance', () => {
         'scopesJson',
         'allowedTools',  // Phase 3.4: JSON column
         'rateLimit',     // Phase 3.5: INTEGER column
+        'defaultParameters', // JSON object stored as TEXT
+        'searchSourceMode',  // NULL = server-wide mode
+        'braveOverflow',
+        'researchEnabled',   // INTEGER 0/1
+        'maxOutputChars',
         'expiresAt',
         'revokedAt',
         'createdAt'
@@ -225,6 +298,23 @@ describe('Worker Contract Compliance', () => {
       expect(JSON.parse(storedValue)).toEqual(allowedTools);
     });
 
+    it('should store virtual tool arguments as JSON strings in D1', () => {
+      const definition = toVirtualToolDefinition({
+        id: 'vt_123',
+        name: 'internal_docs_search',
+        description: 'Search the internal docs',
+        baseTool: 'tavily_search',
+        presetArguments: JSON.stringify({ include_domains: ['docs.example.com'] }),
+        exposedArguments: 'not json',
+        enabled: 1,
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z'
+      });
+
+      expect(definition.presetArguments).toEqual({ include_domains: ['docs.example.com'] });
+      expect(definition.exposedArguments).toEqual([]);
+    });
+
     it('should store rateLimit as INTEGER in D1', () => {
       const rateLimit = 120;
 
@@ -0,0 +1,367 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import * as workerCanonicalUrl from '../src/mcp/canonicalUrl.js';
+import * as workerHedging from '../src/mcp/hedging.js';
+import * as workerMiddleware from '../src/mcp/middleware.js';
+import * as workerValidateArguments from '../src/mcp/validateArguments.js';
+import * as workerVirtualTools from '../src/mcp/virtualTools.js';
+import * as workerWebSearch from '../src/mcp/webSearch.js';
+import { parseDefaultParameters } from '../src/utils/defaultParameters.js';
+
+import * as coreCanonicalUrl from '../../core/src/mcp/canonicalUrl.js';
+import * as coreHedging from '../../core/src/mcp/hedging.js';
+import * as coreMiddleware from '../../core/src/mcp/middleware.js';
+import * as coreValidateArguments from '../../core/src/mcp/validateArguments.js';
+import * as coreVirtualTools from '../../core/src/mcp/virtualTools.js';
+import * as coreWebSearch from '../../core/src/mcp/webSearch.js';
+import { CircuitBreaker as CoreCircuitBreaker } from '../../core/src/providers/circuitBreaker.js';
+import { toDefaultParameters } from '../../core/src/tavily/default-parameters.js';
+
+/**
+ * Parity Testing Suite for the Worker copies of core modules
+ *
+ * The Worker is deployed standalone and cannot import core, so these modules are mirrored in
+ * src/. Every case runs the same fixtures through the Worker copy and the core original.
+ *
+ * Purpose: Catch a fix that lands in one copy but not the other
+ */
+
+const searchSchema = {
+  type: 'object',
+  properties: {
+    query: { type: 'string' },
+    max_results: { type: 'integer', minimum: 1, maximum: 20 },
+    topic: { type: 'string', enum: ['general', 'news'] },
+    include_answer: { anyOf: [{ type: 'boolean' }, { type: 'string', enum: ['basic', 'advanced'] }] },
+    include_domains: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['query'],
+  additionalProperties: false
+};
+
+const baseTools = [
+  { name: 'tavily_search', description: 'Search', inputSchema: searchSchema },
+  { name: 'brave_web_search', description: 'Brave', inputSchema: { type: 'object', properties: { query: { type: 'string' } }, required: ['query'] } }
+];
+
+describe('Worker/core parity', () => {
+  describe('validateArguments', () => {
+    const fixtures: Array<[string, unknown]> = [
+      ['valid arguments', { query: 'q', topic: 'news', max_results: 5, include_answer: 'advanced', include_domains: ['a.test'] }],
+      ['missing, mistyped and out-of-range fields', { max_results: 'ten', topic: 'sports', include_domains: ['a.test', 3] }],
+      ['no anyOf branch matching', { query: 'q', include_answer: 'full' }],
+      ['unknown fields and non-integers', { query: 'q', max_results: 1.5, extra: true }],
+      ['a non-object', ['q']]
+    ];
+
+    it.each(fixtures)('should report the same issues for %s', (_label, args) => {
+      const issues = workerValidateArguments.validateToolArguments(searchSchema, args);
+      expect(issues).toEqual(coreValidateArguments.validateToolArguments(searchSchema, args));
+      expect(workerValidateArguments.formatArgumentIssues('tavily_search', issues)).toBe(
+        coreValidateArguments.formatArgumentIssues('tavily_search', issues)
+      );
+    });
+
+    it('should actually report issues (guards against both copies returning nothing)', () => {
+      expect(workerValidateArguments.validateToolArguments(searchSchema, { max_results: 30 })).toEqual([
+        { path: 'query', message: 'is required' },
+        { path: 'max_results', message: 'must be <= 20' }
+      ]);
+    });
+  });
+
+  describe('canonicalUrl', () => {
+    const urls = [
+      'https://www.Example.com/a/b/?utm_source=x&b=2&a=1#frag',
+      'http://example.com/?gclid=1&fbclid=2&ref=keep',
+      'https://example.com/',
+      'https://example.com/path//?spm=1&z=1&a=',
+      'not a url',
+      'HTTPS://WWW.EXAMPLE.COM:443/Path/'
+    ];
+    const rules = [
+      undefined,
+      '{"stripWww": false, "sortQueryParams": false}',
+      { extraTrackingParams: ['ref', 'src_*'], keepQueryKeys: ['utm_source'] },
+      { stripTrailingSlash: false, dropFragment: false, dropTrackingParams: false },
+      '{"stripWww": "nope", "extraTrackingParams": [1, "b"]}'
+    ];
+
+    it.each(rules.map((raw) => [JSON.stringify(raw) ?? 'default rules', raw]))('should canonicalize the same way with %s', (_label, raw) => {
+      const workerOpts = workerCanonicalUrl.parseUrlCanonicalizationOptions(raw);
+      const coreOpts = coreCanonicalUrl.parseUrlCanonicalizationOptions(raw);
+      expect(workerOpts).toEqual(coreOpts);
+      for (const url of urls) {
+        expect(workerCanonicalUrl.canonicalizeUrl(url, workerOpts)).toBe(coreCanonicalUrl.canonicalizeUrl(url, coreOpts));
+      }
+    });
+  });
+
+  describe('hedging', () => {
+    const implementations = [
+      ['core', coreHedging],
+      ['worker', workerHedging]
+    ] as const;
+
+    function after<T>(ms: number, value: T, signal?: AbortSignal): Promise<T> {
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => resolve(value), ms);
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new Error('aborted'));
+        });
+      });
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should parse hedge thresholds the same way', () => {
+      for (const raw of ['p95', ' P99.5 ', '800', '250ms', 'p0', 'p100', 'soon', '', undefined, 42]) {
+        expect(workerHedging.parseHedgeThreshold(raw)).toEqual(coreHedging.parseHedgeThreshold(raw));
+      }
+    });
+
+    it.each(implementations)('%s: should hedge a slow primary and abort the loser', async (_label, mod) => {
+      const hedger = new mod.RequestHedger({ threshold: { kind: 'fixed', ms: 100 } });
+      let primarySignal: AbortSignal | undefined;
+      const pending = hedger.run({
+        primary: (signal) => {
+          primarySignal = signal;
+          return after(300, 'primary', signal);
+        },
+        hedge: (signal) => after(50, 'hedge', signal)
+      });
+
+      await vi.advanceTimersByTimeAsync(150);
+      await expect(pending).resolves.toEqual({ value: 'hedge', winner: 'hedge', hedged: true });
+      expect(primarySignal?.aborted).toBe(true);
+    });
+
+    it.each(implementations)('%s: should hedge at once when the primary fails, and reject when both fail', async (_label, mod) => {
+      const hedger = new mod.RequestHedger({ threshold: { kind: 'fixed', ms: 1_000 } });
+      const recovered = hedger.run({ primary: async () => Promise.reject(new Error('primary down')), hedge: (signal) => after(10, 'hedge', signal) });
+      await vi.advanceTimersByTimeAsync(10);
+      await expect(recovered).resolves.toEqual({ value: 'hedge', winner: 'hedge', hedged: true });
+
+      const failed = hedger.run({
+        primary: async () => Promise.reject(new Error('primary down')),
+        hedge: async () => Promise.reject(new Error('hedge down'))
+      });
+      await expect(failed).rejects.toThrow('hedge down');
+    });
+
+    it('should learn the same percentile delay from the same latencies', async () => {
+      const hedgers = implementations.map(([, mod]) => new mod.RequestHedger({ threshold: { kind: 'percentile', percentile: 90 } }));
+      for (let i = 1; i <= 30; i += 1) {
+        const runs = hedgers.map((hedger) => hedger.run({ primary: (signal) => after(i * 10, i, signal), hedge: (signal) => after(10_000, -1, signal) }));
+        await vi.advanceTimersByTimeAsync(i * 10);
+        await Promise.all(runs);
+      }
+      expect(hedgers[1]!.delayMs()).toBe(hedgers[0]!.delayMs());
+      expect(hedgers[0]!.delayMs()).toBe(270);
+    });
+  });
+
+  describe('circuitBreaker', () => {
+    const options = { consecutiveFailures: 3, errorRate: 0.5, openMs: 1_000 };
+    const implementations = [
+      ['core', async () => new CoreCircuitBreaker('tavily', options)],
+      [
+        'worker',
+        async () => {
+          // The Worker keeps one breaker per isolate; a fresh module instance stands in for a fresh isolate.
+          vi.resetModules();
+          const { getCircuitBreakers } = await import('../src/mcp/circuitBreaker.js');
+          return getCircuitBreakers({ CIRCUIT_BREAKER_FAILURES: '3', CIRCUIT_BREAKER_ERROR_RATE: '0.5', CIRCUIT_BREAKER_OPEN_MS: '1000' } as any).tavily;
+        }
+      ]
+    ] as const;
+
+    const fail = (status?: number) => () => Promise.reject(Object.assign(new Error('upstream'), status === undefined ? {} : { status }));
+    const ok = () => Promise.resolve('ok');
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it.each(implementations)('%s: should open, probe and close after the same calls', async (_label, create) => {
+      const breaker = await create();
+      const states: string[] = [];
+
+      await breaker.run(fail(400)).catch(() => {});
+      const aborted = new AbortController();
+      aborted.abort();
+      await breaker.run(fail(), { signal: aborted.signal }).catch(() => {});
+      // The client error counts as an answer and the cancelled call is not counted at all.
+      expect(breaker.snapshot()).toMatchObject({ consecutiveFailures: 0, recentCalls: 1, errorRate: 0 });
+      states.push(breaker.snapshot().state);
+
+      for (let i = 0; i < 3; i += 1) await breaker.run(fail(503)).catch(() => {});
+      states.push(breaker.snapshot().state);
+      const skipped = vi.fn(ok);
+      await expect(breaker.run(skipped)).rejects.toMatchObject({ name: expect.any(String), retryAfterMs: 1_000 });
+      expect(skipped).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1_000);
+      states.push(breaker.snapshot().state);
+      await breaker.run(ok);
+      await breaker.run(ok);
+      states.push(breaker.snapshot().state);
+
+      expect(states).toEqual(['closed', 'open', 'half_open', 'closed']);
+      expect(breaker.snapshot()).toEqual({
+        state: 'closed',
+        consecutiveFailures: 0,
+        errorRate: 0,
+        recentCalls: 0,
+        openedAt: '2026-01-01T00:00:00.000Z',
+        retryAt: null
+      });
+    });
+  });
+
+  describe('middleware', () => {
+    const implementations = [
+      ['core', coreMiddleware],
+      ['worker', workerMiddleware]
+    ] as const;
+
+    function context(name: string) {
+      // Core reads the caller from `extra`, the Worker from its request context.
+      return { name, toolName: name, arguments: {}, extra: {} as any, worker: {} as any };
+    }
+
+    it.each(implementations)('%s: should run middleware outermost first and reject a second next()', async (_label, mod) => {
+      const order: string[] = [];
+      const handler = mod.composeToolCallMiddleware(
+        [
+          async (_ctx: any, next: any) => {
+            order.push('outer');
+            return await next();
+          },
+          async (_ctx: any, next: any) => {
+            order.push('inner');
+            return await next();
+          }
+        ],
+        async () => {
+          order.push('handler');
+          return { content: [{ type: 'text' as const, text: 'ok' }] };
+        }
+      );
+      await handler(context('tavily_search') as any);
+      expect(order).toEqual(['outer', 'inner', 'handler']);
+
+      const twice = mod.composeToolCallMiddleware(
+        [
+          async (_ctx: any, next: any) => {
+            await next();
+            return await next();
+          }
+        ],
+        async () => ({ content: [] })
+      );
+      await expect(twice(context('tavily_search') as any)).rejects.toThrow('Tool-call middleware called next() more than once');
+    });
+
+    it('should scope tools the same way', async () => {
+      const allowedLists: unknown[] = [null, '', '["tavily_search"]', ['brave_web_search'], 'not json', '[]'];
+      for (const allowed of allowedLists) {
+        for (const name of ['tavily_search', 'brave_web_search']) {
+          const outcomes = await Promise.all(
+            implementations.map(async ([, mod]) => {
+              const handler = mod.composeToolCallMiddleware([mod.scopeAllowedTools(() => allowed)], async () => ({ content: [] }));
+              try {
+                await handler(context(name) as any);
+                return 'allowed';
+              } catch (err: any) {
+                return { code: err.code, message: String(err.message).replace(/^MCP error -?\d+: /, '') };
+              }
+            })
+          );
+          expect(outcomes[1], `${JSON.stringify(allowed)} / ${name}`).toEqual(outcomes[0]);
+        }
+      }
+    });
+
+    it('should redact the same secrets from error results', async () => {
+      const text = 'Bad key tvly-abc123_DEF for mcp_abcd1234.secretpart (Authorization: Bearer eyJ.x-y)';
+      const results = await Promise.all(
+        implementations.map(([, mod]) =>
+          mod.composeToolCallMiddleware([mod.redactToolErrors()], async () => ({ content: [{ type: 'text' as const, text }], isError: true }))(
+            context('tavily_search') as any
+          )
+        )
+      );
+      expect(results[1]).toEqual(results[0]);
+      expect(results[0]!.content[0]).toMatchObject({ text: 'Bad key tvly-<redacted> for mcp_<redacted> (Authorization: Bearer <redacted>)' });
+    });
+  });
+
+  describe('webSearch', () => {
+    const fixtures: Array<Record<string, unknown>> = [
+      { query: 'q' },
+      { query: '  spaced  ', count: 5, freshness: 'week', country: 'de', language: 'EN' },
+      { query: 'q', include_domains: ['A.test', ' b.test '], exclude_domains: ['c.test'] },
+      { query: 'q', include_domains: 'a.test' },
+      { query: 'q', count: 0 },
+      { query: 'q', freshness: 'hour' },
+      { query: '' },
+      { query: 'q', country: 'zz' }
+    ];
+
+    it.each(fixtures.map((args) => [JSON.stringify(args), args]))('should parse and map %s the same way', (_label, args) => {
+      const parsed = workerWebSearch.parseWebSearchArgs(args);
+      expect(parsed).toEqual(coreWebSearch.parseWebSearchArgs(args));
+      if (!parsed.ok) return;
+      expect(workerWebSearch.toBraveWebSearchArgs(parsed.value)).toEqual(coreWebSearch.toBraveWebSearchArgs(parsed.value as any));
+      expect(workerWebSearch.toTavilyWebSearchArgs(parsed.value)).toEqual(coreWebSearch.toTavilyWebSearchArgs(parsed.value as any));
+    });
+
+    it('should advertise the same input schema', () => {
+      expect(workerWebSearch.webSearchTool.name).toBe(coreWebSearch.webSearchTool.name);
+      expect(workerWebSearch.webSearchTool.inputSchema).toEqual(coreWebSearch.webSearchTool.inputSchema);
+    });
+  });
+
+  describe('virtualTools', () => {
+    const definitions = [
+      { name: 'docs_search', description: 'Docs', baseTool: 'tavily_search', presetArguments: { include_domains: ['docs.test'] }, exposedArguments: ['query', 'max_results'] },
+      { name: 'Bad-Name', description: 'x', baseTool: 'tavily_search', presetArguments: {}, exposedArguments: [] },
+      { name: 'tavily_search', description: 'x', baseTool: 'tavily_search', presetArguments: {}, exposedArguments: [] },
+      { name: 'blank', description: '  ', baseTool: 'tavily_search', presetArguments: {}, exposedArguments: [] },
+      { name: 'unknown_base', description: 'x', baseTool: 'nope', presetArguments: {}, exposedArguments: [] },
+      { name: 'unknown_arg', description: 'x', baseTool: 'tavily_search', presetArguments: {}, exposedArguments: ['query', 'nope'] },
+      { name: 'bad_preset', description: 'x', baseTool: 'tavily_search', presetArguments: { max_results: 99 }, exposedArguments: ['query'] },
+      { name: 'pinned_query', description: 'x', baseTool: 'tavily_search', presetArguments: { query: 'q' }, exposedArguments: ['query'] }
+    ];
+
+    it.each(definitions.map((definition) => [definition.name, definition]))('should validate, build and apply %s the same way', (_label, definition) => {
+      expect(workerVirtualTools.validateVirtualToolDefinition(definition, baseTools)).toEqual(
+        coreVirtualTools.validateVirtualToolDefinition(definition, baseTools as any)
+      );
+      expect(workerVirtualTools.buildVirtualTool(definition, baseTools[0]!)).toEqual(coreVirtualTools.buildVirtualTool(definition, baseTools[0] as any));
+      const args = { query: 'client', max_results: 3 };
+      expect(workerVirtualTools.applyVirtualToolArguments(definition, args)).toEqual(coreVirtualTools.applyVirtualToolArguments(definition, args));
+    });
+  });
+
+  describe('defaultParameters', () => {
+    it('should read stored defaults the same way (the Worker reports none as null)', () => {
+      for (const raw of ['{"search_depth":"advanced","max_results":5}', '[]', '"x"', 'null', '{not json', '', null, undefined]) {
+        expect(parseDefaultParameters(raw) ?? {}).toEqual(toDefaultParameters(raw ?? undefined));
+      }
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+
+import type { WorkerContext } from '../src/context.js';
+import { createMcpRequestHandler } from '../src/mcp/mcpHandler.js';
+import type { McpToolResult } from '../src/mcp/middleware.js';
+
+type InsertedRow = { sql: string; values: unknown[] };
+
+/** Just enough of a Hono context for one authenticated tools/call, recording D1 inserts. */
+function createFakeContext(body: unknown) {
+  const inserted: InsertedRow[] = [];
+  const pending: Promise<unknown>[] = [];
+  const variables: Record<string, unknown> = { clientTokenId: 'token-1', clientTokenPrefix: 'mcp_abc' };
+  const env = {
+    DB: {
+      prepare: (sql: string) => ({
+        bind: (...values: unknown[]) => ({
+          run: async () => {
+            inserted.push({ sql, values });
+            return { success: true };
+          },
+        }),
+      }),
+    },
+    RATE_LIMITER: {
+      idFromName: (name: string) => name,
+      get: () => ({
+        fetch: async () => Response.json({ allowed: true, remaining: 1, resetAt: Date.now() + 60_000 }),
+      }),
+    },
+  };
+  const c = {
+    env,
+    req: { json: async () => body },
+    get: (key: string) => variables[key],
+    json: (payload: unknown, status?: number) => Response.json(payload, { status }),
+    executionCtx: { waitUntil: (promise: Promise<unknown>) => pending.push(promise) },
+  } as unknown as WorkerContext;
+  return { c, inserted, settle: () => Promise.all(pending) };
+}
+
+function braveSearchCall() {
+  return { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'brave_web_search', arguments: { query: 'mcp' } } };
+}
+
+/** Stands in for the upstream search, answering like the hedged Brave/Tavily path does. */
+function answerWith(result: McpToolResult) {
+  return createMcpRequestHandler({ middleware: [async () => result] });
+}
+
+describe('worker usage log', () => {
+  it('records the hedge winner of a hedged search in the usage row', async () => {
+    const handle = answerWith({
+      content: [{ type: 'text', text: '[]' }],
+      _meta: { hedge: { winner: 'hedge', hedged: true } },
+    });
+    const { c, inserted, settle } = createFakeContext(braveSearchCall());
+
+    const res = await handle(c);
+    await settle();
+
+    expect(res.status).toBe(200);
+    expect(inserted).toHaveLength(1);
+    expect(inserted[0].sql).toContain('INSERT INTO BraveToolUsage');
+    const [, , toolName, outcome] = inserted[0].values;
+    expect({ toolName, outcome }).toEqual({ toolName: 'brave_web_search', outcome: 'success' });
+    expect(JSON.parse(inserted[0].values[10] as string)).toEqual({
+      args: ['query'],
+      hedge: { winner: 'hedge', hedged: true },
+    });
+  });
+
+  it('keeps logging only argument keys for searches that were not hedged', async () => {
+    const handle = answerWith({ content: [{ type: 'text', text: '[]' }] });
+    const { c, inserted, settle } = createFakeContext(braveSearchCall());
+
+    await handle(c);
+    await settle();
+
+    expect(inserted).toHaveLength(1);
+    expect(JSON.parse(inserted[0].values[10] as string)).toEqual(['query']);
+  });
+});